@@ -0,0 +1,40 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Generate a JWT signing key in the keystore directory.
+ * Usage: ts-node scripts/generate-jwt-key.ts [RS256|ES256] [kid]
+ */
+function generateKey() {
+  const algorithm = (process.argv[2] || process.env.JWT_ALGORITHM || 'RS256').toUpperCase();
+  const kid = process.argv[3] || new Date().toISOString().slice(0, 10);
+  const directory = process.env.JWT_KEYSTORE_DIR || 'keys';
+
+  let privateKey: crypto.KeyObject;
+  if (algorithm === 'RS256') {
+    ({ privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }));
+  } else if (algorithm === 'ES256') {
+    ({ privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' }));
+  } else {
+    console.error(`Unsupported algorithm "${algorithm}". Use RS256 or ES256.`);
+    process.exit(1);
+  }
+
+  const file = path.join(directory, `${kid}.pem`);
+  if (fs.existsSync(file)) {
+    console.error(`Key ${file} already exists`);
+    process.exit(1);
+  }
+
+  fs.mkdirSync(directory, { recursive: true });
+  fs.writeFileSync(file, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+
+  console.log(`${algorithm} key "${kid}" written to ${file}`);
+  console.log('Restart the service to publish it. Unless JWT_ACTIVE_KEY_ID is set, the newest key signs tokens.');
+}
+
+generateKey();
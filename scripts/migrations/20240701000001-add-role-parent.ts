@@ -0,0 +1,29 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    const rolesTable = await queryInterface.describeTable('roles');
+    if (!rolesTable.parent_id) {
+      await queryInterface.addColumn('roles', 'parent_id', {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+          model: 'roles',
+          key: 'id'
+        },
+        onDelete: 'SET NULL',
+        comment: 'Parent role whose permissions are inherited'
+      });
+
+      await queryInterface.addIndex('roles', ['parent_id']);
+    }
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    const rolesTable = await queryInterface.describeTable('roles');
+    if (rolesTable.parent_id) {
+      await queryInterface.removeIndex('roles', ['parent_id']);
+      await queryInterface.removeColumn('roles', 'parent_id');
+    }
+  }
+};
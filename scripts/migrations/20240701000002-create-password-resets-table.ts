@@ -0,0 +1,66 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.createTable('password_resets', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'user_id',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      tokenHash: {
+        type: DataTypes.STRING(64),
+        unique: true,
+        allowNull: false,
+        field: 'token_hash',
+        comment: 'SHA-256 digest of the reset token; the raw token is never stored'
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: 'expires_at'
+      },
+      usedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'used_at'
+      },
+      ipAddress: {
+        type: DataTypes.STRING(45), // Supports IPv6
+        allowNull: true,
+        field: 'ip_address'
+      },
+      userAgent: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: 'user_agent'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      }
+    });
+
+    // Create indexes
+    await queryInterface.addIndex('password_resets', ['user_id']);
+    await queryInterface.addIndex('password_resets', ['token_hash']);
+    await queryInterface.addIndex('password_resets', ['expires_at']);
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.dropTable('password_resets');
+  }
+};
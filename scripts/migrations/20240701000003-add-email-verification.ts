@@ -0,0 +1,91 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    const usersTable = await queryInterface.describeTable('users');
+    if (!usersTable.email_verified) {
+      await queryInterface.addColumn('users', 'email_verified', {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false
+      });
+      await queryInterface.addColumn('users', 'email_verified_at', {
+        type: DataTypes.DATE,
+        allowNull: true
+      });
+
+      // Accounts created before verification existed are treated as verified,
+      // so enabling REQUIRE_EMAIL_VERIFICATION does not lock them out
+      await queryInterface.sequelize.query(
+        'UPDATE users SET email_verified = true, email_verified_at = created_at'
+      );
+    }
+
+    await queryInterface.createTable('email_verifications', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'user_id',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      tokenHash: {
+        type: DataTypes.STRING(64),
+        unique: true,
+        allowNull: false,
+        field: 'token_hash',
+        comment: 'SHA-256 digest of the verification token; the raw token is never stored'
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: 'expires_at'
+      },
+      usedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'used_at'
+      },
+      ipAddress: {
+        type: DataTypes.STRING(45), // Supports IPv6
+        allowNull: true,
+        field: 'ip_address'
+      },
+      userAgent: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: 'user_agent'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      }
+    });
+
+    // Create indexes
+    await queryInterface.addIndex('email_verifications', ['user_id']);
+    await queryInterface.addIndex('email_verifications', ['token_hash']);
+    await queryInterface.addIndex('email_verifications', ['expires_at']);
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.dropTable('email_verifications');
+
+    const usersTable = await queryInterface.describeTable('users');
+    if (usersTable.email_verified) {
+      await queryInterface.removeColumn('users', 'email_verified_at');
+      await queryInterface.removeColumn('users', 'email_verified');
+    }
+  }
+};
@@ -0,0 +1,46 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    const usersTable = await queryInterface.describeTable('users');
+
+    if (!usersTable.failed_login_attempts) {
+      await queryInterface.addColumn('users', 'failed_login_attempts', {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        comment: 'Consecutive failed logins since the last success or lockout'
+      });
+    }
+
+    if (!usersTable.lockout_count) {
+      await queryInterface.addColumn('users', 'lockout_count', {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        comment: 'Consecutive lockouts; drives the exponential backoff'
+      });
+    }
+
+    if (!usersTable.locked_until) {
+      await queryInterface.addColumn('users', 'locked_until', {
+        type: DataTypes.DATE,
+        allowNull: true
+      });
+    }
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    const usersTable = await queryInterface.describeTable('users');
+
+    if (usersTable.locked_until) {
+      await queryInterface.removeColumn('users', 'locked_until');
+    }
+    if (usersTable.lockout_count) {
+      await queryInterface.removeColumn('users', 'lockout_count');
+    }
+    if (usersTable.failed_login_attempts) {
+      await queryInterface.removeColumn('users', 'failed_login_attempts');
+    }
+  }
+};
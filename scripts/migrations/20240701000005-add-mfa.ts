@@ -0,0 +1,88 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    const usersTable = await queryInterface.describeTable('users');
+    if (!usersTable.mfa_enabled) {
+      await queryInterface.addColumn('users', 'mfa_enabled', {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false
+      });
+      await queryInterface.addColumn('users', 'mfa_secret', {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+        comment: 'Encrypted TOTP secret; set during enrollment, confirmed when mfa_enabled'
+      });
+      await queryInterface.addColumn('users', 'mfa_last_used_step', {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        comment: 'Last accepted TOTP time step, used to reject replayed codes'
+      });
+    }
+
+    const rolesTable = await queryInterface.describeTable('roles');
+    if (!rolesTable.mfa_required) {
+      await queryInterface.addColumn('roles', 'mfa_required', {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+        comment: 'Members (including of child roles) must sign in with MFA'
+      });
+    }
+
+    await queryInterface.createTable('mfa_recovery_codes', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'user_id',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      codeHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        field: 'code_hash',
+        comment: 'SHA-256 digest of the normalized recovery code'
+      },
+      usedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'used_at'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      }
+    });
+
+    await queryInterface.addIndex('mfa_recovery_codes', ['user_id', 'code_hash']);
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.dropTable('mfa_recovery_codes');
+
+    const rolesTable = await queryInterface.describeTable('roles');
+    if (rolesTable.mfa_required) {
+      await queryInterface.removeColumn('roles', 'mfa_required');
+    }
+
+    const usersTable = await queryInterface.describeTable('users');
+    if (usersTable.mfa_enabled) {
+      await queryInterface.removeColumn('users', 'mfa_last_used_step');
+      await queryInterface.removeColumn('users', 'mfa_secret');
+      await queryInterface.removeColumn('users', 'mfa_enabled');
+    }
+  }
+};
@@ -0,0 +1,60 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    const usersTable = await queryInterface.describeTable('users');
+    if (!usersTable.permissions_version) {
+      await queryInterface.addColumn('users', 'permissions_version', {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        comment: 'Bumped when effective permissions change; access tokens carrying an older value are rejected'
+      });
+    }
+
+    await queryInterface.createTable('revoked_tokens', {
+      jti: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+        allowNull: false
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'user_id',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: 'expires_at'
+      },
+      reason: {
+        type: DataTypes.STRING(50),
+        allowNull: true
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      }
+    });
+
+    await queryInterface.addIndex('revoked_tokens', ['user_id']);
+    await queryInterface.addIndex('revoked_tokens', ['expires_at']);
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.dropTable('revoked_tokens');
+
+    const usersTable = await queryInterface.describeTable('users');
+    if (usersTable.permissions_version) {
+      await queryInterface.removeColumn('users', 'permissions_version');
+    }
+  }
+};
@@ -0,0 +1,47 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    const table = await queryInterface.describeTable('refresh_tokens');
+    if (table.family_id) {
+      return;
+    }
+
+    await queryInterface.addColumn('refresh_tokens', 'family_id', {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'Shared by all tokens rotated from the same login'
+    });
+    await queryInterface.addColumn('refresh_tokens', 'revoked_at', {
+      type: DataTypes.DATE,
+      allowNull: true
+    });
+    await queryInterface.addColumn('refresh_tokens', 'replaced_by', {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'ID of the token issued when this one was rotated'
+    });
+
+    // Each existing session becomes its own family
+    await queryInterface.sequelize.query('UPDATE refresh_tokens SET family_id = id');
+
+    await queryInterface.changeColumn('refresh_tokens', 'family_id', {
+      type: DataTypes.UUID,
+      allowNull: false
+    });
+
+    await queryInterface.addIndex('refresh_tokens', ['family_id']);
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    const table = await queryInterface.describeTable('refresh_tokens');
+    if (!table.family_id) {
+      return;
+    }
+
+    await queryInterface.removeIndex('refresh_tokens', ['family_id']);
+    await queryInterface.removeColumn('refresh_tokens', 'replaced_by');
+    await queryInterface.removeColumn('refresh_tokens', 'revoked_at');
+    await queryInterface.removeColumn('refresh_tokens', 'family_id');
+  }
+};
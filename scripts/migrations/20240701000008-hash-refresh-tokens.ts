@@ -0,0 +1,62 @@
+import { QueryInterface, DataTypes, QueryTypes } from 'sequelize';
+import crypto from 'crypto';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    const table = await queryInterface.describeTable('refresh_tokens');
+    if (table.token_hash) {
+      return;
+    }
+
+    await queryInterface.addColumn('refresh_tokens', 'token_hash', {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      comment: 'SHA-256 digest of the signed refresh token; the raw token is never stored'
+    });
+
+    // Hash existing tokens so current sessions keep working
+    const rows = await queryInterface.sequelize.query<{ id: string; token: string }>(
+      'SELECT id, token FROM refresh_tokens',
+      { type: QueryTypes.SELECT }
+    );
+
+    for (const row of rows) {
+      await queryInterface.sequelize.query(
+        'UPDATE refresh_tokens SET token_hash = :tokenHash WHERE id = :id',
+        {
+          replacements: {
+            id: row.id,
+            tokenHash: crypto.createHash('sha256').update(row.token).digest('hex')
+          }
+        }
+      );
+    }
+
+    await queryInterface.changeColumn('refresh_tokens', 'token_hash', {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true
+    });
+
+    await queryInterface.removeIndex('refresh_tokens', ['token']);
+    await queryInterface.removeColumn('refresh_tokens', 'token');
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    const table = await queryInterface.describeTable('refresh_tokens');
+    if (!table.token_hash) {
+      return;
+    }
+
+    // The raw tokens cannot be recovered from their digests, so every session ends
+    await queryInterface.bulkDelete('refresh_tokens', {});
+
+    await queryInterface.addColumn('refresh_tokens', 'token', {
+      type: DataTypes.STRING(500),
+      unique: true,
+      allowNull: false
+    });
+    await queryInterface.addIndex('refresh_tokens', ['token']);
+    await queryInterface.removeColumn('refresh_tokens', 'token_hash');
+  }
+};
@@ -0,0 +1,110 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    const usersTable = await queryInterface.describeTable('users');
+    if (!usersTable.is_service_account) {
+      await queryInterface.addColumn('users', 'is_service_account', {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+        comment: 'Non-human principal that authenticates with API keys and cannot log in with a password'
+      });
+      await queryInterface.addIndex('users', ['is_service_account']);
+    }
+
+    await queryInterface.createTable('api_keys', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'user_id',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      name: {
+        type: DataTypes.STRING(100),
+        allowNull: false
+      },
+      prefix: {
+        type: DataTypes.STRING(16),
+        unique: true,
+        allowNull: false,
+        comment: 'Public part of the key, used to find it and to identify it in listings'
+      },
+      keyHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        field: 'key_hash',
+        comment: 'SHA-256 digest of the full key; the raw key is never stored'
+      },
+      scopes: {
+        type: DataTypes.JSON,
+        allowNull: true,
+        comment: 'Permission patterns the key is limited to; null allows all of the account permissions'
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'expires_at'
+      },
+      lastUsedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'last_used_at'
+      },
+      lastUsedIp: {
+        type: DataTypes.STRING(45), // Supports IPv6
+        allowNull: true,
+        field: 'last_used_ip'
+      },
+      revokedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'revoked_at'
+      },
+      replacedBy: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'replaced_by',
+        comment: 'ID of the key issued when this one was rotated'
+      },
+      createdBy: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'created_by',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'SET NULL'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      }
+    });
+
+    await queryInterface.addIndex('api_keys', ['user_id']);
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.dropTable('api_keys');
+
+    const usersTable = await queryInterface.describeTable('users');
+    if (usersTable.is_service_account) {
+      await queryInterface.removeIndex('users', ['is_service_account']);
+      await queryInterface.removeColumn('users', 'is_service_account');
+    }
+  }
+};
@@ -0,0 +1,86 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    const usersTable = await queryInterface.describeTable('users');
+    if (!usersTable.auth_provider) {
+      await queryInterface.addColumn('users', 'auth_provider', {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: 'local',
+        comment: 'Authentication provider that verifies the password: local or ldap'
+      });
+    }
+    if (!usersTable.external_id) {
+      await queryInterface.addColumn('users', 'external_id', {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+        comment: 'Identifier of the account at the provider, e.g. the LDAP DN'
+      });
+      await queryInterface.addIndex('users', ['auth_provider', 'external_id']);
+    }
+
+    await queryInterface.createTable('ldap_group_mappings', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      groupDn: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        field: 'group_dn',
+        comment: 'Distinguished name of the directory group'
+      },
+      roleId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'role_id',
+        references: {
+          model: 'roles',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      createdBy: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'created_by',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'SET NULL'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'updated_at'
+      }
+    });
+
+    await queryInterface.addIndex('ldap_group_mappings', ['group_dn', 'role_id'], { unique: true });
+    await queryInterface.addIndex('ldap_group_mappings', ['role_id']);
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.dropTable('ldap_group_mappings');
+
+    const usersTable = await queryInterface.describeTable('users');
+    if (usersTable.external_id) {
+      await queryInterface.removeIndex('users', ['auth_provider', 'external_id']);
+      await queryInterface.removeColumn('users', 'external_id');
+    }
+    if (usersTable.auth_provider) {
+      await queryInterface.removeColumn('users', 'auth_provider');
+    }
+  }
+};
@@ -0,0 +1,148 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.createTable('oidc_providers', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      name: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        unique: true,
+        comment: 'URL slug, e.g. azure in /auth/oidc/azure/login'
+      },
+      displayName: {
+        type: DataTypes.STRING(100),
+        allowNull: false,
+        field: 'display_name'
+      },
+      issuer: {
+        type: DataTypes.STRING(255),
+        allowNull: false
+      },
+      clientId: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        field: 'client_id'
+      },
+      clientSecret: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: 'client_secret',
+        comment: 'Encrypted client secret; null for public clients that rely on PKCE alone'
+      },
+      scopes: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        defaultValue: 'openid profile email'
+      },
+      claimMapping: {
+        type: DataTypes.JSON,
+        allowNull: true,
+        field: 'claim_mapping'
+      },
+      roleClaim: {
+        type: DataTypes.STRING(100),
+        allowNull: true,
+        field: 'role_claim'
+      },
+      roleMappings: {
+        type: DataTypes.JSON,
+        allowNull: true,
+        field: 'role_mappings'
+      },
+      autoProvision: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+        field: 'auto_provision'
+      },
+      isEnabled: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+        field: 'is_enabled'
+      },
+      createdBy: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'created_by',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'SET NULL'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'updated_at'
+      }
+    });
+
+    await queryInterface.createTable('oidc_login_states', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      providerId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'provider_id',
+        references: {
+          model: 'oidc_providers',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      stateHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true,
+        field: 'state_hash',
+        comment: 'SHA-256 digest of the state parameter; the raw value is never stored'
+      },
+      nonce: {
+        type: DataTypes.STRING(64),
+        allowNull: false
+      },
+      codeVerifier: {
+        type: DataTypes.STRING(128),
+        allowNull: false,
+        field: 'code_verifier'
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: 'expires_at'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      }
+    });
+
+    await queryInterface.addIndex('oidc_login_states', ['provider_id']);
+    await queryInterface.addIndex('oidc_login_states', ['expires_at']);
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.dropTable('oidc_login_states');
+    await queryInterface.dropTable('oidc_providers');
+  }
+};
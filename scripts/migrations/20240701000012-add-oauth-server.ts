@@ -0,0 +1,230 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.createTable('oauth_clients', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+        comment: 'Also the public client_id'
+      },
+      name: {
+        type: DataTypes.STRING(100),
+        allowNull: false
+      },
+      clientSecretHash: {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+        field: 'client_secret_hash',
+        comment: 'SHA-256 digest of the client secret; null for public clients that rely on PKCE alone'
+      },
+      redirectUris: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        field: 'redirect_uris'
+      },
+      grantTypes: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        field: 'grant_types'
+      },
+      scopes: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        comment: 'Permission patterns the client may request, e.g. workorder:read'
+      },
+      serviceAccountId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'service_account_id',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'SET NULL'
+      },
+      requireConsent: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+        field: 'require_consent'
+      },
+      isActive: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+        field: 'is_active'
+      },
+      createdBy: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'created_by',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'SET NULL'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'updated_at'
+      }
+    });
+
+    await queryInterface.createTable('oauth_authorization_codes', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      codeHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true,
+        field: 'code_hash',
+        comment: 'SHA-256 digest of the authorization code; the raw value is never stored'
+      },
+      clientId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'client_id',
+        references: {
+          model: 'oauth_clients',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'user_id',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      redirectUri: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+        field: 'redirect_uri'
+      },
+      scopes: {
+        type: DataTypes.JSON,
+        allowNull: false
+      },
+      codeChallenge: {
+        type: DataTypes.STRING(128),
+        allowNull: false,
+        field: 'code_challenge'
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: 'expires_at'
+      },
+      usedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'used_at'
+      },
+      tokenFamilyId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'token_family_id'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      }
+    });
+
+    await queryInterface.addIndex('oauth_authorization_codes', ['client_id']);
+    await queryInterface.addIndex('oauth_authorization_codes', ['expires_at']);
+
+    await queryInterface.createTable('oauth_consents', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'user_id',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      clientId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'client_id',
+        references: {
+          model: 'oauth_clients',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      scopes: {
+        type: DataTypes.JSON,
+        allowNull: false
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'updated_at'
+      }
+    });
+
+    await queryInterface.addIndex('oauth_consents', ['user_id', 'client_id'], { unique: true });
+
+    // Refresh tokens issued to a client carry its ID and the granted scopes
+    await queryInterface.addColumn('refresh_tokens', 'client_id', {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'oauth_clients',
+        key: 'id'
+      },
+      onDelete: 'CASCADE'
+    });
+    await queryInterface.addColumn('refresh_tokens', 'scopes', {
+      type: DataTypes.JSON,
+      allowNull: true
+    });
+    await queryInterface.addIndex('refresh_tokens', ['client_id']);
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.removeIndex('refresh_tokens', ['client_id']);
+    await queryInterface.removeColumn('refresh_tokens', 'scopes');
+    await queryInterface.removeColumn('refresh_tokens', 'client_id');
+    await queryInterface.dropTable('oauth_consents');
+    await queryInterface.dropTable('oauth_authorization_codes');
+    await queryInterface.dropTable('oauth_clients');
+  }
+};
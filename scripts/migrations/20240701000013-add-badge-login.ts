@@ -0,0 +1,103 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    const usersTable = await queryInterface.describeTable('users');
+    if (!usersTable.badge_id_hash) {
+      await queryInterface.addColumn('users', 'badge_id_hash', {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+        unique: true,
+        comment: 'SHA-256 digest of the RFID badge identifier; the raw identifier is never stored'
+      });
+    }
+    if (!usersTable.pin_hash) {
+      await queryInterface.addColumn('users', 'pin_hash', {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+        comment: 'Bcrypt hash of the badge PIN'
+      });
+    }
+
+    await queryInterface.createTable('terminals', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      name: {
+        type: DataTypes.STRING(100),
+        allowNull: false,
+        unique: true
+      },
+      location: {
+        type: DataTypes.STRING(100),
+        allowNull: true,
+        comment: 'Work cell or line the terminal is installed at'
+      },
+      prefix: {
+        type: DataTypes.STRING(16),
+        unique: true,
+        allowNull: false,
+        comment: 'Public part of the terminal key, used to find it and to identify it in listings'
+      },
+      keyHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        field: 'key_hash',
+        comment: 'SHA-256 digest of the full key; the raw key is never stored'
+      },
+      isActive: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+        field: 'is_active'
+      },
+      lastUsedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'last_used_at'
+      },
+      lastUsedIp: {
+        type: DataTypes.STRING(45), // Supports IPv6
+        allowNull: true,
+        field: 'last_used_ip'
+      },
+      createdBy: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'created_by',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'SET NULL'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'updated_at'
+      }
+    });
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.dropTable('terminals');
+
+    const usersTable = await queryInterface.describeTable('users');
+    if (usersTable.pin_hash) {
+      await queryInterface.removeColumn('users', 'pin_hash');
+    }
+    if (usersTable.badge_id_hash) {
+      await queryInterface.removeColumn('users', 'badge_id_hash');
+    }
+  }
+};
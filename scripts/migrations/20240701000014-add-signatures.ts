@@ -0,0 +1,95 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.createTable('signatures', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'user_id',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        // Signed records must outlive their signers
+        onDelete: 'RESTRICT'
+      },
+      signerUsername: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        field: 'signer_username'
+      },
+      signerName: {
+        type: DataTypes.STRING(101),
+        allowNull: false,
+        field: 'signer_name',
+        comment: 'Printed name of the signer at the time of signing'
+      },
+      meaning: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        comment: 'What the signature means, e.g. approved or reviewed'
+      },
+      permission: {
+        type: DataTypes.STRING(100),
+        allowNull: false,
+        comment: 'Permission of the action the signature authorizes'
+      },
+      resourceType: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        field: 'resource_type'
+      },
+      resourceId: {
+        type: DataTypes.STRING(100),
+        allowNull: false,
+        field: 'resource_id'
+      },
+      recordHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        field: 'record_hash',
+        comment: 'SHA-256 digest of the signed record'
+      },
+      reason: {
+        type: DataTypes.TEXT,
+        allowNull: true
+      },
+      signedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: 'signed_at'
+      },
+      ipAddress: {
+        type: DataTypes.STRING(45), // Supports IPv6
+        allowNull: true,
+        field: 'ip_address'
+      },
+      manifestHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        field: 'manifest_hash',
+        comment: 'HMAC-SHA256 over the signature manifest; detects later changes'
+      },
+      consumedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'consumed_at',
+        comment: 'When a guarded action used the signature; each signature authorizes one action'
+      }
+    });
+
+    await queryInterface.addIndex('signatures', ['resource_type', 'resource_id']);
+    await queryInterface.addIndex('signatures', ['user_id']);
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.dropTable('signatures');
+  }
+};
@@ -0,0 +1,93 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.createTable('change_requests', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      type: {
+        type: DataTypes.STRING(30),
+        allowNull: false,
+        comment: 'role_permissions or user_roles'
+      },
+      targetId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'target_id',
+        comment: 'Role or user the change applies to'
+      },
+      payload: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        comment: 'Arguments the change is applied with once approved'
+      },
+      risks: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        comment: 'Why the change needs a second approver'
+      },
+      status: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: 'pending'
+      },
+      comments: {
+        type: DataTypes.JSON,
+        allowNull: false
+      },
+      requestedBy: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'requested_by',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      reviewedBy: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'reviewed_by',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'SET NULL'
+      },
+      reviewedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'reviewed_at'
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: 'expires_at'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'updated_at'
+      }
+    });
+
+    await queryInterface.addIndex('change_requests', ['status', 'expires_at']);
+    await queryInterface.addIndex('change_requests', ['type', 'target_id']);
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.dropTable('change_requests');
+  }
+};
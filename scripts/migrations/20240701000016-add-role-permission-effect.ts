@@ -0,0 +1,25 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    const table = await queryInterface.describeTable('role_permissions');
+    if (!table.effect) {
+      // Existing entries are grants
+      await queryInterface.addColumn('role_permissions', 'effect', {
+        type: DataTypes.STRING(10),
+        allowNull: false,
+        defaultValue: 'allow',
+        comment: 'allow or deny; a matching deny overrides any allow'
+      });
+    }
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    const table = await queryInterface.describeTable('role_permissions');
+    if (table.effect) {
+      // Dropping the column would turn denies into grants
+      await queryInterface.bulkDelete('role_permissions', { effect: 'deny' });
+      await queryInterface.removeColumn('role_permissions', 'effect');
+    }
+  }
+};
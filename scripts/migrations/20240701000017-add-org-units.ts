@@ -0,0 +1,123 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.createTable('org_units', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      name: {
+        type: DataTypes.STRING(100),
+        allowNull: false
+      },
+      code: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        unique: true,
+        comment: 'Plant-floor identifier, e.g. PLANT-A or LINE-3'
+      },
+      level: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        comment: 'ISA-95 level: enterprise, site, area, line or work_cell'
+      },
+      parentId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'parent_id',
+        references: {
+          model: 'org_units',
+          key: 'id'
+        },
+        onDelete: 'RESTRICT'
+      },
+      description: {
+        type: DataTypes.TEXT,
+        allowNull: true
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'updated_at'
+      }
+    });
+
+    await queryInterface.addIndex('org_units', ['parent_id']);
+    await queryInterface.addIndex('org_units', ['level']);
+
+    await queryInterface.createTable('scoped_role_assignments', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'user_id',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      roleId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'role_id',
+        references: {
+          model: 'roles',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      orgUnitId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'org_unit_id',
+        references: {
+          model: 'org_units',
+          key: 'id'
+        },
+        onDelete: 'CASCADE',
+        comment: 'The role applies to this unit and everything below it'
+      },
+      assignedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'assigned_at'
+      },
+      assignedBy: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'assigned_by',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'SET NULL'
+      }
+    });
+
+    await queryInterface.addIndex('scoped_role_assignments', ['user_id', 'role_id', 'org_unit_id'], { unique: true });
+    await queryInterface.addIndex('scoped_role_assignments', ['org_unit_id']);
+    await queryInterface.addIndex('scoped_role_assignments', ['role_id']);
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.dropTable('scoped_role_assignments');
+    await queryInterface.dropTable('org_units');
+  }
+};
@@ -0,0 +1,37 @@
+import { QueryInterface, DataTypes, Op } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    const rolePermissions = await queryInterface.describeTable('role_permissions');
+    if (!rolePermissions.condition) {
+      await queryInterface.addColumn('role_permissions', 'condition', {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        comment: 'Expression over user, resource and context; the entry applies only while it holds'
+      });
+    }
+
+    const users = await queryInterface.describeTable('users');
+    if (!users.attributes) {
+      await queryInterface.addColumn('users', 'attributes', {
+        type: DataTypes.JSON,
+        allowNull: true,
+        comment: 'Attributes permission conditions can refer to, e.g. shift or certifications'
+      });
+    }
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    const rolePermissions = await queryInterface.describeTable('role_permissions');
+    if (rolePermissions.condition) {
+      // Dropping the column would make conditional grants unconditional; conditional denies only get stricter
+      await queryInterface.bulkDelete('role_permissions', { effect: 'allow', condition: { [Op.ne]: null } });
+      await queryInterface.removeColumn('role_permissions', 'condition');
+    }
+
+    const users = await queryInterface.describeTable('users');
+    if (users.attributes) {
+      await queryInterface.removeColumn('users', 'attributes');
+    }
+  }
+};
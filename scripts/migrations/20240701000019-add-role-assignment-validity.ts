@@ -0,0 +1,44 @@
+import { QueryInterface, DataTypes, Op } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    const userRoles = await queryInterface.describeTable('user_roles');
+
+    if (!userRoles.valid_from) {
+      await queryInterface.addColumn('user_roles', 'valid_from', {
+        type: DataTypes.DATE,
+        allowNull: true,
+        comment: 'The role applies from this time on; null applies it right away'
+      });
+    }
+
+    if (!userRoles.valid_until) {
+      await queryInterface.addColumn('user_roles', 'valid_until', {
+        type: DataTypes.DATE,
+        allowNull: true,
+        comment: 'The role stops applying at this time and is swept afterwards; null keeps it'
+      });
+      await queryInterface.addIndex('user_roles', ['valid_until']);
+    }
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    const userRoles = await queryInterface.describeTable('user_roles');
+
+    if (userRoles.valid_from && userRoles.valid_until) {
+      // Dropping the columns would make time-bound assignments permanent
+      await queryInterface.bulkDelete('user_roles', {
+        [Op.or]: [{ valid_from: { [Op.ne]: null } }, { valid_until: { [Op.ne]: null } }]
+      });
+    }
+
+    if (userRoles.valid_until) {
+      await queryInterface.removeIndex('user_roles', ['valid_until']);
+      await queryInterface.removeColumn('user_roles', 'valid_until');
+    }
+
+    if (userRoles.valid_from) {
+      await queryInterface.removeColumn('user_roles', 'valid_from');
+    }
+  }
+};
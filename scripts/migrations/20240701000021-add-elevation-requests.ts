@@ -0,0 +1,98 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  up: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.createTable('elevation_requests', {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'user_id',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      roleId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'role_id',
+        references: {
+          model: 'roles',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      permissionIds: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        field: 'permission_ids'
+      },
+      justification: {
+        type: DataTypes.TEXT,
+        allowNull: false
+      },
+      durationMinutes: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'duration_minutes'
+      },
+      status: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: 'pending'
+      },
+      reviewedBy: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'reviewed_by',
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'SET NULL'
+      },
+      reviewedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'reviewed_at'
+      },
+      reviewComment: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: 'review_comment'
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'expires_at',
+        comment: 'Set on approval to the approval time plus the duration'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'created_at'
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'updated_at'
+      }
+    });
+
+    await queryInterface.addIndex('elevation_requests', ['user_id', 'status']);
+    await queryInterface.addIndex('elevation_requests', ['status', 'expires_at']);
+  },
+
+  down: async (queryInterface: QueryInterface): Promise<void> => {
+    await queryInterface.dropTable('elevation_requests');
+  }
+};
@@ -13,7 +13,12 @@ export default {
       { id: uuidv4(), name: 'report', description: '报表管理' },
       { id: uuidv4(), name: 'system', description: '系统管理' },
       { id: uuidv4(), name: 'audit', description: '审计日志' },
-      { id: uuidv4(), name: 'resource', description: '资源管理' }
+      { id: uuidv4(), name: 'resource', description: '资源管理' },
+      { id: uuidv4(), name: 'service_account', description: '服务账号' },
+      { id: uuidv4(), name: 'change_request', description: '变更审批' },
+      { id: uuidv4(), name: 'org_unit', description: '组织单元' },
+      { id: uuidv4(), name: 'sod_rule', description: '职责分离规则' },
+      { id: uuidv4(), name: 'elevation', description: '临时提权' }
     ];
 
     const timestamp = new Date();
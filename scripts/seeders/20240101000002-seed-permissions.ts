@@ -70,7 +70,38 @@ export default {
       { name: 'resource:read', resource: 'resource', action: 'read', description: '查看资源' },
       { name: 'resource:update', resource: 'resource', action: 'update', description: '更新资源' },
       { name: 'resource:delete', resource: 'resource', action: 'delete', description: '删除资源' },
-      { name: 'resource:*', resource: 'resource', action: '*', description: '资源管理所有权限' }
+      { name: 'resource:*', resource: 'resource', action: '*', description: '资源管理所有权限' },
+
+      // Service account permissions
+      { name: 'service_account:create', resource: 'service_account', action: 'create', description: '创建服务账号' },
+      { name: 'service_account:read', resource: 'service_account', action: 'read', description: '查看服务账号' },
+      { name: 'service_account:update', resource: 'service_account', action: 'update', description: '更新服务账号及API密钥' },
+      { name: 'service_account:delete', resource: 'service_account', action: 'delete', description: '删除服务账号' },
+      { name: 'service_account:*', resource: 'service_account', action: '*', description: '服务账号所有权限' },
+
+      // Change request permissions
+      { name: 'change_request:read', resource: 'change_request', action: 'read', description: '查看变更申请' },
+      { name: 'change_request:approve', resource: 'change_request', action: 'approve', description: '审批变更申请' },
+      { name: 'change_request:*', resource: 'change_request', action: '*', description: '变更审批所有权限' },
+
+      // Org unit permissions
+      { name: 'org_unit:create', resource: 'org_unit', action: 'create', description: '创建组织单元' },
+      { name: 'org_unit:read', resource: 'org_unit', action: 'read', description: '查看组织单元' },
+      { name: 'org_unit:update', resource: 'org_unit', action: 'update', description: '更新组织单元' },
+      { name: 'org_unit:delete', resource: 'org_unit', action: 'delete', description: '删除组织单元' },
+      { name: 'org_unit:assign', resource: 'org_unit', action: 'assign', description: '在组织单元内分配角色' },
+      { name: 'org_unit:*', resource: 'org_unit', action: '*', description: '组织单元所有权限' },
+
+      // Separation-of-duties rule permissions
+      { name: 'sod_rule:create', resource: 'sod_rule', action: 'create', description: '创建职责分离规则' },
+      { name: 'sod_rule:read', resource: 'sod_rule', action: 'read', description: '查看职责分离规则及违规报告' },
+      { name: 'sod_rule:update', resource: 'sod_rule', action: 'update', description: '更新职责分离规则' },
+      { name: 'sod_rule:delete', resource: 'sod_rule', action: 'delete', description: '删除职责分离规则' },
+      { name: 'sod_rule:*', resource: 'sod_rule', action: '*', description: '职责分离规则所有权限' },
+
+      // Just-in-time elevation permissions
+      { name: 'elevation:approve', resource: 'elevation', action: 'approve', description: '审批临时提权申请' },
+      { name: 'elevation:*', resource: 'elevation', action: '*', description: '临时提权所有权限' }
     ];
 
     const timestamp = new Date();
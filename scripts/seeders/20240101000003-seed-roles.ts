@@ -89,7 +89,8 @@ export default {
     const systemAdminId = roleMap.get('system_admin');
     if (systemAdminId) {
       const systemAdminPerms = [
-        'user:*', 'role:*', 'permission:*', 'menu:*', 'system:*', 'audit:read', 'resource:*'
+        'user:*', 'role:*', 'permission:*', 'menu:*', 'system:*', 'audit:read', 'resource:*',
+        'service_account:*', 'change_request:*', 'org_unit:*', 'sod_rule:*', 'elevation:*'
       ];
       systemAdminPerms.forEach(permName => {
         const permId = permissionMap.get(permName);
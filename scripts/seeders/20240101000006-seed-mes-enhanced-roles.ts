@@ -95,7 +95,8 @@ export default {
     const maintenanceId = roleMap.get('maintenance_supervisor');
     if (maintenanceId) {
       const maintenancePerms = [
-        'equipment:*', 'maintenance:*', 'production:view', 'report:view', 'report:export', 'user:read'
+        'equipment:*', 'maintenance:*', 'production:view', 'report:view', 'report:export', 'user:read',
+        'elevation:approve'
       ];
       maintenancePerms.forEach(permName => {
         const permId = permissionMap.get(permName);
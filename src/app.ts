@@ -16,9 +16,12 @@ import {
   validateContentType,
 } from '@middlewares/index';
 import { ResponseUtil } from '@utils/response';
+import { JWTUtil } from '@utils/jwt.util';
 import morgan from 'morgan';
 import routes from './routes';
+import wellKnownRoutes from './routes/well-known.routes';
 import { setupSwagger } from './middlewares/swagger.middleware';
+import { RoleExpiryService } from './services/role-expiry.service';
 
 // Load environment variables
 dotenv.config();
@@ -66,6 +69,9 @@ app.get(`${appConfig.apiPrefix}/health`, (_req: Request, res: Response) => {
   });
 });
 
+// Well-known endpoints are served from the root, outside the API prefix
+app.use('/.well-known', wellKnownRoutes);
+
 // API Routes
 app.use(appConfig.apiPrefix, routes);
 
@@ -80,6 +86,9 @@ app.use(errorHandler);
 
 // Start server
 if (require.main === module) {
+  // Load signing keys now so a broken keystore fails at startup rather than at first login
+  JWTUtil.getKeyStore();
+
   const server = app.listen(appConfig.port, appConfig.host, () => {
     logger.info(`🚀 ${appConfig.appName} server is running`);
     logger.info(`📍 URL: http://${appConfig.host}:${appConfig.port}`);
@@ -90,6 +99,9 @@ if (require.main === module) {
     }
   });
 
+  // Remove time-bound role assignments once they expire
+  RoleExpiryService.start();
+
   // Handle graceful shutdown
   gracefulShutdown(server);
 }
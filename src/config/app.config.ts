@@ -14,6 +14,9 @@ export interface AppConfig {
   corsOptions: CorsOptions;
   jwtSecret: string;
   jwtExpiry: string;
+  jwtAlgorithm: 'HS256' | 'RS256' | 'ES256';
+  jwtKeystoreDir: string;
+  jwtActiveKeyId: string;
   refreshTokenSecret: string;
   refreshTokenExpiry: string;
   bcryptRounds: number;
@@ -21,6 +24,44 @@ export interface AppConfig {
   rateLimitMaxRequests: number;
   swaggerEnabled: boolean;
   swaggerPath: string;
+  appBaseUrl: string;
+  notificationOutboxDir: string;
+  passwordResetExpiryMinutes: number;
+  emailVerificationExpiryHours: number;
+  requireEmailVerification: boolean;
+  loginMaxAttempts: number;
+  loginLockoutBaseMinutes: number;
+  loginLockoutMaxMinutes: number;
+  mfaIssuer: string;
+  mfaEncryptionKey: string;
+  mfaPendingTokenExpiry: string;
+  mfaRecoveryCodeCount: number;
+  permissionCacheEnabled: boolean;
+  permissionCacheMaxEntries: number;
+  permissionCacheTtlSeconds: number;
+  ldapEnabled: boolean;
+  ldapUrl: string;
+  ldapBindDn: string;
+  ldapBindPassword: string;
+  ldapSearchBase: string;
+  ldapUserFilter: string;
+  ldapUsernameAttribute: string;
+  ldapGroupAttribute: string;
+  ldapStartTls: boolean;
+  ldapTlsRejectUnauthorized: boolean;
+  ldapTimeoutMs: number;
+  oidcRedirectBaseUrl: string;
+  oidcStateTtlMinutes: number;
+  oidcHttpTimeoutMs: number;
+  oauthCodeTtlSeconds: number;
+  badgeTokenTtlSeconds: number;
+  badgeLoginRole: string;
+  signatureMaxAgeSeconds: number;
+  signatureSecret: string;
+  changeApprovalEnabled: boolean;
+  changeRequestTtlHours: number;
+  roleExpirySweepIntervalSeconds: number;
+  elevationMaxDurationMinutes: number;
 }
 
 const config: AppConfig = {
@@ -40,6 +81,9 @@ const config: AppConfig = {
   },
   jwtSecret: process.env.JWT_SECRET || 'your-super-secret-jwt-key',
   jwtExpiry: process.env.JWT_EXPIRY || '15m',
+  jwtAlgorithm: (process.env.JWT_ALGORITHM || 'HS256') as AppConfig['jwtAlgorithm'],
+  jwtKeystoreDir: process.env.JWT_KEYSTORE_DIR || 'keys',
+  jwtActiveKeyId: process.env.JWT_ACTIVE_KEY_ID || '',
   refreshTokenSecret: process.env.REFRESH_TOKEN_SECRET || 'your-super-secret-refresh-token-key',
   refreshTokenExpiry: process.env.REFRESH_TOKEN_EXPIRY || '7d',
   bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '10', 10),
@@ -47,8 +91,55 @@ const config: AppConfig = {
   rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
   swaggerEnabled: process.env.SWAGGER_ENABLED === 'true' || process.env.NODE_ENV !== 'production',
   swaggerPath: process.env.SWAGGER_PATH || '/api-docs',
+  appBaseUrl: process.env.APP_BASE_URL || 'http://localhost:3000',
+  notificationOutboxDir: process.env.NOTIFICATION_OUTBOX_DIR || 'outbox',
+  passwordResetExpiryMinutes: parseInt(process.env.PASSWORD_RESET_EXPIRY_MINUTES || '60', 10),
+  emailVerificationExpiryHours: parseInt(process.env.EMAIL_VERIFICATION_EXPIRY_HOURS || '24', 10),
+  requireEmailVerification: process.env.REQUIRE_EMAIL_VERIFICATION === 'true',
+  loginMaxAttempts: parseInt(process.env.LOGIN_MAX_ATTEMPTS || '5', 10),
+  loginLockoutBaseMinutes: parseInt(process.env.LOGIN_LOCKOUT_BASE_MINUTES || '15', 10),
+  loginLockoutMaxMinutes: parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || '1440', 10),
+  mfaIssuer: process.env.MFA_ISSUER || process.env.APP_NAME || 'RBAC-System',
+  mfaEncryptionKey: process.env.MFA_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-super-secret-jwt-key',
+  mfaPendingTokenExpiry: process.env.MFA_PENDING_TOKEN_EXPIRY || '5m',
+  mfaRecoveryCodeCount: parseInt(process.env.MFA_RECOVERY_CODE_COUNT || '10', 10),
+  permissionCacheEnabled: process.env.PERMISSION_CACHE_ENABLED !== 'false',
+  permissionCacheMaxEntries: parseInt(process.env.PERMISSION_CACHE_MAX_ENTRIES || '10000', 10),
+  permissionCacheTtlSeconds: parseInt(process.env.PERMISSION_CACHE_TTL_SECONDS || '300', 10),
+  ldapEnabled: process.env.LDAP_ENABLED === 'true',
+  ldapUrl: process.env.LDAP_URL || 'ldap://localhost:389',
+  ldapBindDn: process.env.LDAP_BIND_DN || '',
+  ldapBindPassword: process.env.LDAP_BIND_PASSWORD || '',
+  ldapSearchBase: process.env.LDAP_SEARCH_BASE || '',
+  ldapUserFilter: process.env.LDAP_USER_FILTER || '(|(sAMAccountName={{username}})(userPrincipalName={{username}}))',
+  ldapUsernameAttribute: process.env.LDAP_USERNAME_ATTRIBUTE || 'sAMAccountName',
+  ldapGroupAttribute: process.env.LDAP_GROUP_ATTRIBUTE || 'memberOf',
+  ldapStartTls: process.env.LDAP_STARTTLS === 'true',
+  ldapTlsRejectUnauthorized: process.env.LDAP_TLS_REJECT_UNAUTHORIZED !== 'false',
+  ldapTimeoutMs: parseInt(process.env.LDAP_TIMEOUT_MS || '5000', 10),
+  oidcRedirectBaseUrl: process.env.OIDC_REDIRECT_BASE_URL
+    || `${process.env.APP_BASE_URL || 'http://localhost:3000'}${process.env.API_PREFIX || '/api/v1'}/auth/oidc`,
+  oidcStateTtlMinutes: parseInt(process.env.OIDC_STATE_TTL_MINUTES || '10', 10),
+  oidcHttpTimeoutMs: parseInt(process.env.OIDC_HTTP_TIMEOUT_MS || '5000', 10),
+  oauthCodeTtlSeconds: parseInt(process.env.OAUTH_CODE_TTL_SECONDS || '60', 10),
+  badgeTokenTtlSeconds: parseInt(process.env.BADGE_TOKEN_TTL_SECONDS || '600', 10),
+  badgeLoginRole: process.env.BADGE_LOGIN_ROLE || 'operator',
+  signatureMaxAgeSeconds: parseInt(process.env.SIGNATURE_MAX_AGE_SECONDS || '300', 10),
+  signatureSecret: process.env.SIGNATURE_SECRET || process.env.JWT_SECRET || 'your-super-secret-jwt-key',
+  changeApprovalEnabled: process.env.CHANGE_APPROVAL_ENABLED !== 'false',
+  changeRequestTtlHours: parseInt(process.env.CHANGE_REQUEST_TTL_HOURS || '72', 10),
+  roleExpirySweepIntervalSeconds: parseInt(process.env.ROLE_EXPIRY_SWEEP_INTERVAL_SECONDS || '60', 10),
+  elevationMaxDurationMinutes: parseInt(process.env.ELEVATION_MAX_DURATION_MINUTES || '480', 10),
 };
 
+if (!['HS256', 'RS256', 'ES256'].includes(config.jwtAlgorithm)) {
+  throw new Error(`Unsupported JWT_ALGORITHM "${config.jwtAlgorithm}". Use HS256, RS256 or ES256.`);
+}
+
+if (config.ldapEnabled && !config.ldapSearchBase) {
+  throw new Error('LDAP_SEARCH_BASE is required when LDAP_ENABLED is true');
+}
+
 // Validate required configuration in production
 if (config.env === 'production') {
   const requiredEnvVars = [
@@ -75,6 +166,10 @@ if (config.env === 'production') {
   ) {
     console.warn('WARNING: Using default JWT secrets in production is insecure!');
   }
+
+  if (!process.env.MFA_ENCRYPTION_KEY) {
+    console.warn('WARNING: MFA_ENCRYPTION_KEY is not set; MFA secrets are encrypted with the JWT secret.');
+  }
 }
 
 export const appConfig = config;
@@ -8,17 +8,82 @@ export const config = {
   app: {
     name: appConfig.appName,
     version: appConfig.appVersion,
-    apiPrefix: appConfig.apiPrefix
+    apiPrefix: appConfig.apiPrefix,
+    baseUrl: appConfig.appBaseUrl
   },
   cors: appConfig.corsOptions,
   jwt: {
     secret: appConfig.jwtSecret,
     expiresIn: appConfig.jwtExpiry,
+    algorithm: appConfig.jwtAlgorithm,
+    keystoreDir: appConfig.jwtKeystoreDir,
+    activeKeyId: appConfig.jwtActiveKeyId,
     refreshSecret: appConfig.refreshTokenSecret,
     refreshExpiresIn: appConfig.refreshTokenExpiry
   },
   security: {
-    saltRounds: appConfig.bcryptRounds
+    saltRounds: appConfig.bcryptRounds,
+    passwordResetExpiryMinutes: appConfig.passwordResetExpiryMinutes,
+    emailVerificationExpiryHours: appConfig.emailVerificationExpiryHours,
+    requireEmailVerification: appConfig.requireEmailVerification,
+    lockout: {
+      maxAttempts: appConfig.loginMaxAttempts,
+      baseDurationMinutes: appConfig.loginLockoutBaseMinutes,
+      maxDurationMinutes: appConfig.loginLockoutMaxMinutes
+    }
+  },
+  mfa: {
+    issuer: appConfig.mfaIssuer,
+    encryptionKey: appConfig.mfaEncryptionKey,
+    pendingTokenExpiry: appConfig.mfaPendingTokenExpiry,
+    recoveryCodeCount: appConfig.mfaRecoveryCodeCount
+  },
+  permissionCache: {
+    enabled: appConfig.permissionCacheEnabled,
+    maxEntries: appConfig.permissionCacheMaxEntries,
+    ttlSeconds: appConfig.permissionCacheTtlSeconds
+  },
+  ldap: {
+    enabled: appConfig.ldapEnabled,
+    url: appConfig.ldapUrl,
+    bindDn: appConfig.ldapBindDn,
+    bindPassword: appConfig.ldapBindPassword,
+    searchBase: appConfig.ldapSearchBase,
+    userFilter: appConfig.ldapUserFilter,
+    usernameAttribute: appConfig.ldapUsernameAttribute,
+    groupAttribute: appConfig.ldapGroupAttribute,
+    startTls: appConfig.ldapStartTls,
+    tlsRejectUnauthorized: appConfig.ldapTlsRejectUnauthorized,
+    timeoutMs: appConfig.ldapTimeoutMs
+  },
+  oidc: {
+    redirectBaseUrl: appConfig.oidcRedirectBaseUrl,
+    stateTtlMinutes: appConfig.oidcStateTtlMinutes,
+    httpTimeoutMs: appConfig.oidcHttpTimeoutMs
+  },
+  oauth: {
+    codeTtlSeconds: appConfig.oauthCodeTtlSeconds
+  },
+  badgeLogin: {
+    tokenTtlSeconds: appConfig.badgeTokenTtlSeconds,
+    role: appConfig.badgeLoginRole
+  },
+  signatures: {
+    maxAgeSeconds: appConfig.signatureMaxAgeSeconds,
+    secret: appConfig.signatureSecret
+  },
+  changeRequests: {
+    enabled: appConfig.changeApprovalEnabled,
+    ttlHours: appConfig.changeRequestTtlHours
+  },
+  roleExpiry: {
+    sweepIntervalSeconds: appConfig.roleExpirySweepIntervalSeconds
+  },
+  elevation: {
+    maxDurationMinutes: appConfig.elevationMaxDurationMinutes
+  },
+  notifications: {
+    outboxDir: appConfig.notificationOutboxDir
   },
   rateLimit: {
     windowMs: appConfig.rateLimitWindowMs,
@@ -0,0 +1,231 @@
+import { Request, Response, NextFunction } from 'express';
+import { once } from 'events';
+import { AuditService, AuditFilter, AuditLogEntry, PaginationOptions } from '../services/audit.service';
+import { ApiResponse, ResponseUtil } from '../utils/response';
+import { logger } from '../utils/logger';
+import { getValidatedQuery } from '../middlewares/validation.middleware';
+
+const CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'userId',
+  'username',
+  'email',
+  'action',
+  'resource',
+  'resourceId',
+  'ipAddress',
+  'userAgent',
+  'details'
+] as const;
+
+/**
+ * Flatten an audit entry into the columns used by both export formats
+ */
+const toExportRecord = (log: AuditLogEntry): Record<typeof CSV_COLUMNS[number], unknown> => ({
+  id: log.id,
+  createdAt: new Date(log.createdAt).toISOString(),
+  userId: log.userId,
+  username: log.user?.username ?? null,
+  email: log.user?.email ?? null,
+  action: log.action,
+  resource: log.resource,
+  resourceId: log.resourceId,
+  ipAddress: log.ipAddress,
+  userAgent: log.userAgent,
+  details: log.details
+});
+
+/**
+ * Quote a CSV field. Values starting with a formula character are prefixed
+ * with a quote so spreadsheets opening the export do not evaluate them.
+ */
+const toCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const buildFilter = (query: any): AuditFilter => ({
+  userId: query.userId,
+  action: query.action,
+  resource: query.resource,
+  resourceId: query.resourceId,
+  ipAddress: query.ipAddress,
+  startDate: query.startDate,
+  endDate: query.endDate
+});
+
+export class AuditController {
+  /**
+   * List audit logs with filtering and pagination
+   * GET /api/audit-logs
+   */
+  static async getAuditLogs(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const query = getValidatedQuery(req);
+      const pagination: PaginationOptions = {
+        page: query.page,
+        limit: query.limit
+      };
+
+      const { logs, total } = await AuditService.getAuditLogs(buildFilter(query), pagination);
+
+      ResponseUtil.setPaginationHeaders(res, pagination.page, pagination.limit, total);
+      res.json(ApiResponse.success({ logs, total }, 'Audit logs retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Full-text search across action, resource, IP address and details
+   * GET /api/audit-logs/search
+   */
+  static async searchAuditLogs(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { q, page, limit } = getValidatedQuery(req);
+
+      const { logs, total } = await AuditService.searchLogs(q, { page, limit });
+
+      ResponseUtil.setPaginationHeaders(res, page, limit, total);
+      res.json(ApiResponse.success({ logs, total }, 'Audit logs retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get audit statistics
+   * GET /api/audit-logs/statistics
+   */
+  static async getAuditStatistics(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { startDate, endDate } = getValidatedQuery(req);
+
+      const statistics = await AuditService.getAuditStatistics(startDate, endDate);
+
+      res.json(ApiResponse.success(statistics, 'Audit statistics retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Stream matching audit logs as CSV or NDJSON
+   * GET /api/audit-logs/export
+   */
+  static async exportAuditLogs(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const { format, ...query } = getValidatedQuery(req);
+    const filter = buildFilter(query);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    let recordCount = 0;
+
+    try {
+      if (format === 'ndjson') {
+        res.setHeader('Content-Type', 'application/x-ndjson');
+        res.setHeader('Content-Disposition', `attachment; filename="audit-logs-${timestamp}.ndjson"`);
+      } else {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="audit-logs-${timestamp}.csv"`);
+        res.write(`${CSV_COLUMNS.join(',')}\n`);
+      }
+
+      for await (const log of AuditService.streamAuditLogs(filter)) {
+        const record = toExportRecord(log);
+        const line = format === 'ndjson'
+          ? JSON.stringify(record)
+          : CSV_COLUMNS.map(column => toCsvValue(record[column])).join(',');
+
+        // Respect backpressure so slow clients do not buffer the whole export in memory
+        if (!res.write(`${line}\n`)) {
+          await Promise.race([once(res, 'drain'), once(res, 'close')]);
+        }
+
+        if (res.destroyed) {
+          logger.warn(`Audit log export aborted by client after ${recordCount} records`);
+          return;
+        }
+        recordCount++;
+      }
+
+      res.end();
+
+      await AuditService.logDataAccess({
+        userId: req.user!.id,
+        action: 'export',
+        resource: 'audit',
+        dataType: format,
+        recordCount,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+    } catch (error) {
+      if (!res.headersSent) {
+        next(error);
+        return;
+      }
+
+      // The response is already partially written; abort it so the client sees a truncated download
+      logger.error(`Audit log export failed after ${recordCount} records:`, error);
+      res.destroy(error as Error);
+    }
+  }
+
+  /**
+   * Get recent activity of a user
+   * GET /api/audit-logs/users/:userId
+   */
+  static async getUserActivity(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { limit } = getValidatedQuery(req);
+
+      const logs = await AuditService.getUserActivity(userId, limit);
+
+      res.json(ApiResponse.success({ logs }, 'User activity retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the change history of a resource
+   * GET /api/audit-logs/resources/:resource/:resourceId
+   */
+  static async getResourceHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { resource, resourceId } = req.params;
+      const { limit } = getValidatedQuery(req);
+
+      const logs = await AuditService.getResourceHistory(resource, resourceId, limit);
+
+      res.json(ApiResponse.success({ logs }, 'Resource history retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get audit log by ID
+   * GET /api/audit-logs/:id
+   */
+  static async getAuditLogById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const log = await AuditService.getAuditLogById(id);
+
+      res.json(ApiResponse.success({ log }, 'Audit log retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
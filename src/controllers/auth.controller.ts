@@ -1,9 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '../services/auth.service';
 import { UserService } from '../services/user.service';
+import { MfaService } from '../services/mfa.service';
 import { ApiResponse } from '../utils/response';
-import { ValidationError, AppError } from '../utils/errors';
-import { ErrorCode } from '../types';
+import { ValidationError } from '../utils/errors';
 import { logger } from '../utils/logger';
 
 export class AuthController {
@@ -30,6 +30,7 @@ export class AuthController {
         lastName: user.lastName,
         roles: user.roles || [],
         isActive: user.isActive,
+        emailVerified: user.emailVerified,
         createdAt: user.createdAt
       };
 
@@ -56,7 +57,19 @@ export class AuthController {
         userAgent: req.get('user-agent')
       };
 
-      const { user, tokens } = await AuthService.login(credentials);
+      const result = await AuthService.login(credentials);
+
+      if ('mfa' in result) {
+        res.json(
+          ApiResponse.success({
+            mfaRequired: true,
+            ...result.mfa
+          }, result.mfa.enrollmentRequired ? 'MFA enrollment required' : 'MFA verification required')
+        );
+        return;
+      }
+
+      const { user, tokens } = result;
 
       // Remove sensitive data
       const userResponse = {
@@ -67,6 +80,7 @@ export class AuthController {
         lastName: user.lastName,
         roles: user.roles || [],
         isActive: user.isActive,
+        emailVerified: user.emailVerified,
         lastLogin: user.lastLogin
       };
 
@@ -81,6 +95,100 @@ export class AuthController {
     }
   }
 
+  /**
+   * Login with badge and PIN at a registered terminal
+   * POST /api/auth/badge-login
+   */
+  static async badgeLogin(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { user, tokens, terminal } = await AuthService.badgeLogin(
+        req.body,
+        req.get('x-terminal-key'),
+        {
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent')
+        }
+      );
+
+      const userResponse = {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        roles: user.roles || [],
+        isActive: user.isActive,
+        lastLogin: user.lastLogin
+      };
+
+      res.json(
+        ApiResponse.success({
+          user: userResponse,
+          tokens,
+          terminal: { id: terminal.id, name: terminal.name, location: terminal.location }
+        }, 'Login successful')
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start MFA enrollment during login
+   * POST /api/auth/mfa/setup
+   */
+  static async setupMfaForLogin(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { mfaToken } = req.body;
+
+      const enrollment = await AuthService.startMfaEnrollmentForLogin(mfaToken);
+
+      res.json(
+        ApiResponse.success(enrollment, 'Scan the secret with an authenticator app and verify a code')
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Complete login with an MFA code
+   * POST /api/auth/mfa/verify
+   */
+  static async verifyMfa(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { mfaToken, code } = req.body;
+
+      const { user, tokens, recoveryCodes } = await AuthService.verifyMfaLogin(mfaToken, code, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+
+      // Remove sensitive data
+      const userResponse = {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        roles: user.roles || [],
+        isActive: user.isActive,
+        emailVerified: user.emailVerified,
+        lastLogin: user.lastLogin
+      };
+
+      res.json(
+        ApiResponse.success({
+          user: userResponse,
+          tokens,
+          ...(recoveryCodes ? { recoveryCodes } : {})
+        }, 'Login successful')
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Refresh access token
    * POST /api/auth/refresh
@@ -93,7 +201,10 @@ export class AuthController {
         throw new ValidationError('Refresh token is required');
       }
 
-      const tokens = await AuthService.refreshToken(refreshToken);
+      const tokens = await AuthService.refreshToken(refreshToken, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
 
       res.json(
         ApiResponse.success(tokens, 'Token refreshed successfully')
@@ -109,11 +220,16 @@ export class AuthController {
    */
   static async logout(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const userId = req.user!.id;
+      const { id: userId, tokenId, tokenExpiresAt } = req.user!;
       const { refreshToken } = req.body;
 
       await AuthService.logout(userId, refreshToken);
 
+      // Also revoke the access token used for this request
+      if (tokenId && tokenExpiresAt) {
+        await AuthService.revokeAccessToken(userId, tokenId, tokenExpiresAt, 'logout');
+      }
+
       res.json(
         ApiResponse.success(null, 'Logout successful')
       );
@@ -128,10 +244,14 @@ export class AuthController {
    */
   static async logoutAll(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const userId = req.user!.id;
+      const { id: userId, tokenId, tokenExpiresAt } = req.user!;
 
       await AuthService.logout(userId);
 
+      if (tokenId && tokenExpiresAt) {
+        await AuthService.revokeAccessToken(userId, tokenId, tokenExpiresAt, 'logout_all');
+      }
+
       res.json(
         ApiResponse.success(null, 'Logged out from all devices')
       );
@@ -155,8 +275,11 @@ export class AuthController {
         firstName: user.firstName,
         lastName: user.lastName,
         roles: user.roles || [],
+        elevations: user.elevations || [],
         isActive: user.isActive,
         isSuperuser: user.isSuperuser,
+        emailVerified: user.emailVerified,
+        mfaEnabled: user.mfaEnabled,
         lastLogin: user.lastLogin,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt
@@ -233,7 +356,10 @@ export class AuthController {
     try {
       const { email } = req.body;
 
-      const message = await AuthService.requestPasswordReset(email);
+      const message = await AuthService.requestPasswordReset(email, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
 
       res.json(
         ApiResponse.success(null, message)
@@ -267,10 +393,9 @@ export class AuthController {
    */
   static async verifyEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const userId = req.user!.id;
       const { token } = req.body;
 
-      await AuthService.verifyEmail(userId, token);
+      await AuthService.verifyEmail(token);
 
       res.json(
         ApiResponse.success(null, 'Email verified successfully')
@@ -286,8 +411,91 @@ export class AuthController {
    */
   static async resendVerification(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      // This would typically generate and send a new verification email
-      throw new AppError(ErrorCode.INTERNAL_SERVER_ERROR, 'Email verification not implemented', 501);
+      const { email } = req.body;
+
+      const message = await AuthService.resendVerification(email, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+
+      res.json(
+        ApiResponse.success(null, message)
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start MFA enrollment
+   * POST /api/auth/mfa/enroll
+   */
+  static async enrollMfa(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const enrollment = await MfaService.startEnrollment(userId);
+
+      res.json(
+        ApiResponse.success(enrollment, 'Scan the secret with an authenticator app and confirm a code')
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Confirm MFA enrollment
+   * POST /api/auth/mfa/enroll/confirm
+   */
+  static async confirmMfaEnrollment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { code } = req.body;
+
+      const recoveryCodes = await MfaService.confirmEnrollment(userId, code);
+
+      res.json(
+        ApiResponse.success({ recoveryCodes }, 'MFA enabled. Store the recovery codes in a safe place.')
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Disable MFA
+   * POST /api/auth/mfa/disable
+   */
+  static async disableMfa(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { code } = req.body;
+
+      await MfaService.disable(userId, code);
+
+      res.json(
+        ApiResponse.success(null, 'MFA disabled')
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Regenerate MFA recovery codes
+   * POST /api/auth/mfa/recovery-codes
+   */
+  static async regenerateRecoveryCodes(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { code } = req.body;
+
+      const recoveryCodes = await MfaService.regenerateRecoveryCodes(userId, code);
+
+      res.json(
+        ApiResponse.success({ recoveryCodes }, 'Recovery codes regenerated')
+      );
     } catch (error) {
       next(error);
     }
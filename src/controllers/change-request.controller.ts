@@ -0,0 +1,145 @@
+import { Request, Response, NextFunction } from 'express';
+import { ChangeRequestService } from '../services/change-request.service';
+import { ApiResponse, ResponseUtil } from '../utils/response';
+import { AuthorizationError } from '../utils/errors';
+import { getValidatedQuery } from '../middlewares/validation.middleware';
+import { sequelize } from '../config/database';
+
+export class ChangeRequestController {
+  /**
+   * List change requests
+   * GET /api/change-requests
+   */
+  static async listChangeRequests(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, status, type, targetId, requestedBy } = getValidatedQuery(req);
+
+      const { changeRequests, total } = await ChangeRequestService.listChangeRequests(
+        { status, type, targetId, requestedBy },
+        { page, limit }
+      );
+
+      ResponseUtil.setPaginationHeaders(res, page, limit, total);
+      res.json(ApiResponse.success({ changeRequests, total }, 'Change requests retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get change request by ID
+   * GET /api/change-requests/:changeRequestId
+   */
+  static async getChangeRequestById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const changeRequest = await ChangeRequestService.getChangeRequestById(req.params.changeRequestId);
+
+      res.json(ApiResponse.success({ changeRequest }, 'Change request retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Approve a change request and apply the change
+   * POST /api/change-requests/:changeRequestId/approve
+   */
+  static async approveChangeRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      // The second pair of eyes must belong to a person
+      if (req.user!.clientId || req.user!.isServiceAccount) {
+        throw new AuthorizationError('Change requests must be approved in a user session');
+      }
+
+      const { comment } = req.body as { comment?: string };
+      const changeRequest = await ChangeRequestService.approveChangeRequest(
+        req.params.changeRequestId,
+        req.user!.id,
+        comment,
+        { ipAddress: req.ip, userAgent: req.get('user-agent') },
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ changeRequest }, 'Change request approved and applied'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Reject a change request
+   * POST /api/change-requests/:changeRequestId/reject
+   */
+  static async rejectChangeRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { comment } = req.body as { comment: string };
+      const changeRequest = await ChangeRequestService.rejectChangeRequest(
+        req.params.changeRequestId,
+        req.user!.id,
+        comment,
+        { ipAddress: req.ip, userAgent: req.get('user-agent') },
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ changeRequest }, 'Change request rejected'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Withdraw one's own change request
+   * POST /api/change-requests/:changeRequestId/cancel
+   */
+  static async cancelChangeRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const changeRequest = await ChangeRequestService.cancelChangeRequest(
+        req.params.changeRequestId,
+        req.user!.id,
+        { ipAddress: req.ip, userAgent: req.get('user-agent') },
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ changeRequest }, 'Change request cancelled'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Comment on a change request
+   * POST /api/change-requests/:changeRequestId/comments
+   */
+  static async addComment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { comment } = req.body as { comment: string };
+      const changeRequest = await ChangeRequestService.addComment(
+        req.params.changeRequestId,
+        req.user!.id,
+        comment,
+        { ipAddress: req.ip, userAgent: req.get('user-agent') },
+        transaction
+      );
+      await transaction.commit();
+
+      res.status(201).json(ApiResponse.success({ changeRequest }, 'Comment added successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { Request, Response, NextFunction } from 'express';
+import { ElevationService } from '../services/elevation.service';
+import { ApiResponse, ResponseUtil } from '../utils/response';
+import { AuthorizationError } from '../utils/errors';
+import { getValidatedQuery } from '../middlewares/validation.middleware';
+import { sequelize } from '../config/database';
+import { CreateElevationRequestData } from '../types/elevation.types';
+
+export class ElevationController {
+  /**
+   * Request a role or permissions for a limited time
+   * POST /api/elevations
+   */
+  static async requestElevation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      // Elevations are for people, not for clients or service accounts acting on their behalf
+      if (req.user!.clientId || req.user!.isServiceAccount || req.user!.terminalId) {
+        throw new AuthorizationError('Elevations must be requested in a user session');
+      }
+
+      const elevationRequest = await ElevationService.requestElevation(
+        req.user!.id,
+        req.body as CreateElevationRequestData,
+        { ipAddress: req.ip, userAgent: req.get('user-agent') },
+        transaction
+      );
+      await transaction.commit();
+
+      res.status(201).json(ApiResponse.success({ elevationRequest }, 'Elevation requested, awaiting approval'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * List elevation requests
+   * GET /api/elevations
+   */
+  static async listElevationRequests(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, status, userId } = getValidatedQuery(req);
+
+      const { elevationRequests, total } = await ElevationService.listElevationRequests({ status, userId }, { page, limit });
+
+      ResponseUtil.setPaginationHeaders(res, page, limit, total);
+      res.json(ApiResponse.success({ elevationRequests, total }, 'Elevation requests retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the current user's elevation requests
+   * GET /api/elevations/mine
+   */
+  static async listMyElevationRequests(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, status } = getValidatedQuery(req);
+
+      const { elevationRequests, total } = await ElevationService.listElevationRequests(
+        { status, userId: req.user!.id },
+        { page, limit }
+      );
+
+      ResponseUtil.setPaginationHeaders(res, page, limit, total);
+      res.json(ApiResponse.success({ elevationRequests, total }, 'Elevation requests retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Approve an elevation request, starting the grant
+   * POST /api/elevations/:elevationId/approve
+   */
+  static async approveElevation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      // The approver must be a person
+      if (req.user!.clientId || req.user!.isServiceAccount) {
+        throw new AuthorizationError('Elevations must be approved in a user session');
+      }
+
+      const { comment } = req.body as { comment?: string };
+      const elevationRequest = await ElevationService.approveElevation(
+        req.params.elevationId,
+        req.user!.id,
+        comment,
+        { ipAddress: req.ip, userAgent: req.get('user-agent') },
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ elevationRequest }, 'Elevation approved'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Reject an elevation request
+   * POST /api/elevations/:elevationId/reject
+   */
+  static async rejectElevation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { comment } = req.body as { comment: string };
+      const elevationRequest = await ElevationService.rejectElevation(
+        req.params.elevationId,
+        req.user!.id,
+        comment,
+        { ipAddress: req.ip, userAgent: req.get('user-agent') },
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ elevationRequest }, 'Elevation rejected'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Withdraw one's own elevation request
+   * POST /api/elevations/:elevationId/cancel
+   */
+  static async cancelElevation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const elevationRequest = await ElevationService.cancelElevation(
+        req.params.elevationId,
+        req.user!.id,
+        { ipAddress: req.ip, userAgent: req.get('user-agent') },
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ elevationRequest }, 'Elevation request cancelled'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+}
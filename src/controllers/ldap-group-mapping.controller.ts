@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from 'express';
+import { LdapGroupMappingService } from '../services/ldap-group-mapping.service';
+import { ApiResponse } from '../utils/response';
+import { sequelize } from '../config/database';
+import { getValidatedQuery } from '../middlewares/validation.middleware';
+
+export class LdapGroupMappingController {
+  /**
+   * List LDAP group mappings
+   * GET /api/ldap-group-mappings
+   */
+  static async listMappings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { roleId, groupDn } = getValidatedQuery(req);
+
+      const mappings = await LdapGroupMappingService.listMappings({ roleId, groupDn });
+
+      res.json(ApiResponse.success({ mappings }, 'Group mappings retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get LDAP group mapping by ID
+   * GET /api/ldap-group-mappings/:mappingId
+   */
+  static async getMappingById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const mapping = await LdapGroupMappingService.getMappingById(req.params.mappingId);
+
+      res.json(ApiResponse.success({ mapping }, 'Group mapping retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create LDAP group mapping
+   * POST /api/ldap-group-mappings
+   */
+  static async createMapping(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const mapping = await LdapGroupMappingService.createMapping(req.body, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.status(201).json(ApiResponse.success({ mapping }, 'Group mapping created successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Update LDAP group mapping
+   * PUT /api/ldap-group-mappings/:mappingId
+   */
+  static async updateMapping(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const mapping = await LdapGroupMappingService.updateMapping(
+        req.params.mappingId,
+        req.body,
+        req.user!.id,
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ mapping }, 'Group mapping updated successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Delete LDAP group mapping
+   * DELETE /api/ldap-group-mappings/:mappingId
+   */
+  static async deleteMapping(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      await LdapGroupMappingService.deleteMapping(req.params.mappingId, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.json(ApiResponse.success(null, 'Group mapping deleted successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { Request, Response, NextFunction } from 'express';
+import { OAuthService } from '../services/oauth.service';
+import { ApiResponse } from '../utils/response';
+import { sequelize } from '../config/database';
+
+export class OAuthClientController {
+  /**
+   * List OAuth clients
+   * GET /api/oauth-clients
+   */
+  static async listClients(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const clients = await OAuthService.listClients();
+
+      res.json(ApiResponse.success({ clients }, 'OAuth clients retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get OAuth client by ID
+   * GET /api/oauth-clients/:clientId
+   */
+  static async getClientById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const client = await OAuthService.getClientById(req.params.clientId);
+
+      res.json(ApiResponse.success({ client }, 'OAuth client retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Register OAuth client. The response contains the client secret, which cannot be retrieved later.
+   * POST /api/oauth-clients
+   */
+  static async createClient(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { client, clientSecret } = await OAuthService.createClient(req.body, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.status(201).json(ApiResponse.success({ client, clientSecret }, 'OAuth client registered successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Update OAuth client
+   * PUT /api/oauth-clients/:clientId
+   */
+  static async updateClient(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const client = await OAuthService.updateClient(
+        req.params.clientId,
+        req.body,
+        req.user!.id,
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ client }, 'OAuth client updated successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Delete OAuth client
+   * DELETE /api/oauth-clients/:clientId
+   */
+  static async deleteClient(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      await OAuthService.deleteClient(req.params.clientId, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.json(ApiResponse.success(null, 'OAuth client deleted successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Issue a new client secret, invalidating the old one
+   * POST /api/oauth-clients/:clientId/secret
+   */
+  static async rotateClientSecret(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { client, clientSecret } = await OAuthService.rotateClientSecret(
+        req.params.clientId,
+        req.user!.id,
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ client, clientSecret }, 'Client secret rotated successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import { Request, Response, NextFunction } from 'express';
+import { OAuthService, OAuthClientCredentials } from '../services/oauth.service';
+import { ApiResponse } from '../utils/response';
+import { AuthorizationError, OAuthError, isAppError } from '../utils/errors';
+import { ErrorCode } from '../types';
+import { OAuthAuthorizationParams } from '../types/oauth.types';
+import { getValidatedQuery } from '../middlewares/validation.middleware';
+import { sequelize } from '../config/database';
+
+/**
+ * Client credentials from an HTTP Basic header (client_secret_basic) or the
+ * body (client_secret_post). Both parts of the header are form-encoded
+ * before base64 (RFC 6749 section 2.3.1).
+ */
+const getClientCredentials = (req: Request): OAuthClientCredentials => {
+  const header = req.headers.authorization;
+  const body = req.body as { client_id?: string; client_secret?: string };
+
+  if (header && header.startsWith('Basic ')) {
+    // Using more than one authentication method is not allowed (RFC 6749 section 2.3)
+    if (body.client_secret) {
+      throw new OAuthError('invalid_request', 'Use either HTTP Basic or client_secret, not both');
+    }
+
+    const decoded = Buffer.from(header.slice('Basic '.length), 'base64').toString();
+    const separator = decoded.indexOf(':');
+    if (separator === -1) {
+      throw new OAuthError('invalid_client', 'Malformed client credentials', 401);
+    }
+
+    try {
+      return {
+        clientId: decodeURIComponent(decoded.slice(0, separator).replace(/\+/g, ' ')),
+        clientSecret: decodeURIComponent(decoded.slice(separator + 1).replace(/\+/g, ' '))
+      };
+    } catch {
+      throw new OAuthError('invalid_client', 'Malformed client credentials', 401);
+    }
+  }
+
+  return { clientId: body.client_id, clientSecret: body.client_secret };
+};
+
+/**
+ * Only a user signed in to this service may approve clients, not a client
+ * holding one of the user's tokens or a shop-floor terminal session
+ */
+const assertFirstPartyUser = (req: Request): void => {
+  if (req.user!.clientId || req.user!.terminalId || req.user!.isServiceAccount) {
+    throw new AuthorizationError('Applications cannot be authorized with this token');
+  }
+};
+
+export class OAuthController {
+  /**
+   * Describe an authorization request for the consent screen
+   * GET /api/oauth/authorize
+   */
+  static async getAuthorizationRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      assertFirstPartyUser(req);
+
+      const details = await OAuthService.getAuthorizationRequest(
+        req.user!.id,
+        getValidatedQuery(req) as OAuthAuthorizationParams
+      );
+
+      res.json(ApiResponse.success(details, 'Authorization request retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Approve or deny an authorization request. The response holds the URI
+   * to send the browser back to the client with.
+   * POST /api/oauth/authorize
+   */
+  static async authorize(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      assertFirstPartyUser(req);
+
+      const { approved, ...params } = req.body as OAuthAuthorizationParams & { approved: boolean };
+      const redirectUri = await OAuthService.authorize(req.user!.id, params, approved, transaction);
+      await transaction.commit();
+
+      res.json(ApiResponse.success(
+        { redirectUri },
+        approved ? 'Application authorized successfully' : 'Authorization denied'
+      ));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * List applications the user has authorized
+   * GET /api/oauth/consents
+   */
+  static async listConsents(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const consents = await OAuthService.listConsents(req.user!.id);
+
+      res.json(ApiResponse.success({ consents }, 'Consents retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Withdraw consent for an application
+   * DELETE /api/oauth/consents/:clientId
+   */
+  static async revokeConsent(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      assertFirstPartyUser(req);
+
+      await OAuthService.revokeConsent(req.user!.id, req.params.clientId, transaction);
+      await transaction.commit();
+
+      res.json(ApiResponse.success(null, 'Consent revoked successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Token endpoint. Responds in the OAuth format rather than the API envelope.
+   * POST /api/oauth/token
+   */
+  static async token(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const response = await OAuthService.token(req.body, getClientCredentials(req), {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+
+      // Token responses must not be cached (RFC 6749 section 5.1)
+      res.set({ 'Cache-Control': 'no-store', Pragma: 'no-cache' });
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Token introspection for resource servers (RFC 7662)
+   * POST /api/oauth/introspect
+   */
+  static async introspect(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const response = await OAuthService.introspect(req.body, getClientCredentials(req), {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+
+      res.set({ 'Cache-Control': 'no-store', Pragma: 'no-cache' });
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke an access or refresh token (RFC 7009). Answers 200 with an empty
+   * body, also for tokens that were already invalid.
+   * POST /api/oauth/revoke
+   */
+  static async revoke(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await OAuthService.revoke(req.body, getClientCredentials(req), {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+
+      res.status(200).end();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Report token, introspection and revocation errors as
+   * `{ error, error_description }` (RFC 6749 section 5.2)
+   */
+  static handleTokenError(error: unknown, req: Request, res: Response, next: NextFunction): void {
+    let oauthError: OAuthError;
+
+    if (error instanceof OAuthError) {
+      oauthError = error;
+    } else if (isAppError(error) && error.code === ErrorCode.VALIDATION_ERROR) {
+      const details = (error.details || []) as { field: string; message: string }[];
+      const grantType = (req.body as { grant_type?: unknown } | undefined)?.grant_type;
+
+      // A grant type we do not know is reported as such; anything else is a malformed request
+      oauthError = grantType !== undefined && details.some(detail => detail.field === 'grant_type')
+        ? new OAuthError('unsupported_grant_type', 'Unsupported grant type')
+        : new OAuthError('invalid_request', details.map(detail => detail.message).join('; ') || error.message);
+    } else {
+      return next(error);
+    }
+
+    res.set({ 'Cache-Control': 'no-store', Pragma: 'no-cache' });
+    if (oauthError.statusCode === 401 && req.headers.authorization?.startsWith('Basic ')) {
+      res.set('WWW-Authenticate', 'Basic realm="oauth"');
+    }
+
+    res.status(oauthError.statusCode).json({
+      error: oauthError.error,
+      error_description: oauthError.message
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from 'express';
+import { OidcService } from '../services/oidc.service';
+import { ApiResponse } from '../utils/response';
+import { sequelize } from '../config/database';
+
+export class OidcProviderController {
+  /**
+   * List identity providers
+   * GET /api/oidc-providers
+   */
+  static async listProviders(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const providers = await OidcService.listProviders();
+
+      res.json(ApiResponse.success({ providers }, 'Identity providers retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get identity provider by ID
+   * GET /api/oidc-providers/:providerId
+   */
+  static async getProviderById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const provider = await OidcService.getProviderById(req.params.providerId);
+
+      res.json(ApiResponse.success({ provider }, 'Identity provider retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create identity provider
+   * POST /api/oidc-providers
+   */
+  static async createProvider(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const provider = await OidcService.createProvider(req.body, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.status(201).json(ApiResponse.success({ provider }, 'Identity provider created successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Update identity provider
+   * PUT /api/oidc-providers/:providerId
+   */
+  static async updateProvider(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const provider = await OidcService.updateProvider(
+        req.params.providerId,
+        req.body,
+        req.user!.id,
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ provider }, 'Identity provider updated successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Delete identity provider
+   * DELETE /api/oidc-providers/:providerId
+   */
+  static async deleteProvider(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      await OidcService.deleteProvider(req.params.providerId, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.json(ApiResponse.success(null, 'Identity provider deleted successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from 'express';
+import { OidcService } from '../services/oidc.service';
+import { ApiResponse } from '../utils/response';
+import { getValidatedQuery } from '../middlewares/validation.middleware';
+
+export class OidcController {
+  /**
+   * List identity providers users can sign in with
+   * GET /api/auth/oidc/providers
+   */
+  static async listProviders(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const providers = await OidcService.listEnabledProviders();
+
+      res.json(ApiResponse.success({ providers }, 'Identity providers retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Redirect the browser to the identity provider
+   * GET /api/auth/oidc/:provider/login
+   */
+  static async login(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const authorizationUrl = await OidcService.beginLogin(req.params.provider);
+
+      res.redirect(302, authorizationUrl);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Complete sign-in when the identity provider redirects back
+   * GET /api/auth/oidc/:provider/callback
+   */
+  static async callback(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { user, tokens } = await OidcService.completeLogin(
+        req.params.provider,
+        getValidatedQuery(req),
+        { ipAddress: req.ip, userAgent: req.get('user-agent') }
+      );
+
+      // Remove sensitive data
+      const userResponse = {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        roles: user.roles || [],
+        isActive: user.isActive,
+        emailVerified: user.emailVerified,
+        lastLogin: user.lastLogin
+      };
+
+      res.json(
+        ApiResponse.success({
+          user: userResponse,
+          tokens
+        }, 'Login successful')
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { Request, Response, NextFunction } from 'express';
+import { OrgUnitService } from '../services/org-unit.service';
+import { ChangeRequestService } from '../services/change-request.service';
+import { ApiResponse } from '../utils/response';
+import { getValidatedQuery } from '../middlewares/validation.middleware';
+import { sequelize } from '../config/database';
+
+export class OrgUnitController {
+  /**
+   * List org units
+   * GET /api/org-units
+   */
+  static async listOrgUnits(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { level, parentId, search } = getValidatedQuery(req);
+      const orgUnits = await OrgUnitService.listOrgUnits({ level, parentId, search });
+
+      res.json(ApiResponse.success({ orgUnits }, 'Org units retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the org unit hierarchy
+   * GET /api/org-units/tree
+   */
+  static async getOrgUnitTree(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tree = await OrgUnitService.getOrgUnitTree();
+
+      res.json(ApiResponse.success({ tree }, 'Org unit tree retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get org unit by ID
+   * GET /api/org-units/:orgUnitId
+   */
+  static async getOrgUnitById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const orgUnit = await OrgUnitService.getOrgUnitById(req.params.orgUnitId);
+
+      res.json(ApiResponse.success({ orgUnit }, 'Org unit retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create org unit
+   * POST /api/org-units
+   */
+  static async createOrgUnit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const orgUnit = await OrgUnitService.createOrgUnit(req.body, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.status(201).json(ApiResponse.success({ orgUnit }, 'Org unit created successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Update org unit
+   * PUT /api/org-units/:orgUnitId
+   */
+  static async updateOrgUnit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const orgUnit = await OrgUnitService.updateOrgUnit(
+        req.params.orgUnitId,
+        req.body,
+        req.user!.id,
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ orgUnit }, 'Org unit updated successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Delete org unit
+   * DELETE /api/org-units/:orgUnitId
+   */
+  static async deleteOrgUnit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      await OrgUnitService.deleteOrgUnit(req.params.orgUnitId, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.json(ApiResponse.success(null, 'Org unit deleted successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * List roles assigned within an org unit
+   * GET /api/org-units/:orgUnitId/role-assignments
+   */
+  static async listAssignments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const assignments = await OrgUnitService.listAssignments(req.params.orgUnitId);
+
+      res.json(ApiResponse.success({ assignments }, 'Role assignments retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Assign a role within an org unit. Granting wildcard permissions is held
+   * as a change request until another user approves it.
+   * POST /api/org-units/:orgUnitId/role-assignments
+   */
+  static async assignRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { orgUnitId } = req.params;
+      const { userId, roleId } = req.body;
+
+      // Refuse unknown units before holding anything for approval
+      await OrgUnitService.getOrgUnitById(orgUnitId, transaction);
+
+      const changeRequest = await ChangeRequestService.holdScopedRoleAssignment(
+        userId,
+        orgUnitId,
+        roleId,
+        req.user!.id,
+        { ipAddress: req.ip, userAgent: req.get('user-agent') },
+        transaction
+      );
+
+      if (changeRequest) {
+        await transaction.commit();
+        res.status(202).json(ApiResponse.success({ changeRequest }, 'Change requires approval by another user'));
+        return;
+      }
+
+      const assignment = await OrgUnitService.assignRole(orgUnitId, { userId, roleId }, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.status(201).json(ApiResponse.success({ assignment }, 'Role assigned successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a role assignment from an org unit
+   * DELETE /api/org-units/:orgUnitId/role-assignments/:assignmentId
+   */
+  static async removeAssignment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      await OrgUnitService.removeAssignment(
+        req.params.orgUnitId,
+        req.params.assignmentId,
+        req.user!.id,
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success(null, 'Role assignment removed successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+}
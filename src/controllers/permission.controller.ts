@@ -4,6 +4,7 @@ import { ResponseUtil } from '@utils/response';
 import { logger } from '@utils/logger';
 import { AuthRequest } from '../types/express';
 import { getValidatedQuery } from '../middlewares/validation.middleware';
+import { AuthUser, getConditionScope } from '../middlewares/auth.middleware';
 
 interface IAuthRequest extends Request {
   user?: any;
@@ -70,12 +71,15 @@ export class PermissionController {
 
   async checkPermission(req: IAuthRequest, res: Response): Promise<void> {
     try {
-      const { permission } = getValidatedQuery(req);
+      const { permission, orgUnitId } = getValidatedQuery(req);
       const userId = req.user!.id;
 
+      // Conditions are evaluated for this request; those on a resource stay undecided
       const result = await permissionService.checkUserPermission(
         userId,
-        permission as string
+        permission as string,
+        orgUnitId as string | undefined,
+        await getConditionScope(req, req.user as AuthUser)
       );
 
       ResponseUtil.success(res, result, 'Permission check completed');
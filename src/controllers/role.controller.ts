@@ -1,10 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import { RoleService } from '../services/role.service';
+import { ChangeRequestService } from '../services/change-request.service';
 import { ResponseUtil } from '../utils/response';
 import { ApiError } from '../utils/api-error';
 import { logger } from '../utils/logger';
 import { PaginationOptions } from '../types/user.types';
-import { RoleFilter, RolePermissionUpdate, RoleCloneData } from '../types/role.types';
+import { RoleFilter, RolePermissionUpdate, RoleCloneData, UpdateRoleData } from '../types/role.types';
 import { getValidatedQuery } from '../middlewares/validation.middleware';
 
 export class RoleController {
@@ -72,15 +73,26 @@ export class RoleController {
   }
 
   /**
-   * Update role
+   * Update role. Permission and parent changes that are high-risk are held
+   * as a change request until another user approves them.
    * PUT /api/roles/:roleId
    */
   static async updateRole(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { roleId } = req.params;
-      const updateData = req.body;
+      const updateData: UpdateRoleData = req.body;
       const updatedBy = req.user!.id;
 
+      const changeRequest = await ChangeRequestService.holdRoleUpdate(roleId, updateData, updatedBy, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+
+      if (changeRequest) {
+        ResponseUtil.success(res, { changeRequest }, 'Change requires approval by another user', 202);
+        return;
+      }
+
       const role = await RoleService.updateRole(roleId, updateData, updatedBy);
 
       ResponseUtil.success(res, { role }, 'Role updated successfully');
@@ -107,8 +119,10 @@ export class RoleController {
   }
 
   /**
-   * Update role permissions
+   * Update role permissions. High-risk changes are held as a change request
+   * until another user approves them.
    * PATCH /api/roles/:roleId/permissions
+   * PUT /api/roles/:roleId/permissions
    */
   static async updateRolePermissions(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -116,6 +130,16 @@ export class RoleController {
       const update: RolePermissionUpdate = req.body;
       const updatedBy = req.user!.id;
 
+      const changeRequest = await ChangeRequestService.holdRolePermissionUpdate(roleId, update, updatedBy, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+
+      if (changeRequest) {
+        ResponseUtil.success(res, { changeRequest }, 'Change requires approval by another user', 202);
+        return;
+      }
+
       const role = await RoleService.updateRolePermissions(roleId, update, updatedBy);
 
       ResponseUtil.success(res, { role }, 'Role permissions updated successfully');
@@ -213,16 +237,30 @@ export class RoleController {
   }
 
   /**
-   * Assign users to role
+   * Assign users to role. Roles granting wildcard permissions are held as a
+   * change request until another user approves them.
    * POST /api/roles/:roleId/users
    */
   static async assignUsersToRole(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { roleId } = req.params;
-      const { userIds } = req.body;
+      const { userIds, validFrom, validUntil } = req.body;
       const assignedBy = req.user!.id;
+      const validity = validFrom !== undefined || validUntil !== undefined ? { validFrom, validUntil } : undefined;
+
+      const changeRequest = await ChangeRequestService.holdRoleUserAssignment(roleId, userIds, assignedBy, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      }, undefined, validity);
+
+      if (changeRequest) {
+        ResponseUtil.success(res, { changeRequest }, 'Change requires approval by another user', 202);
+        return;
+      }
 
-      const result = await RoleService.assignUsersToRole(roleId, userIds, assignedBy);
+      const result = validity
+        ? await RoleService.assignUsersToRole(roleId, userIds, assignedBy, undefined, validity)
+        : await RoleService.assignUsersToRole(roleId, userIds, assignedBy);
 
       ResponseUtil.success(
         res,
@@ -0,0 +1,238 @@
+import { Request, Response, NextFunction } from 'express';
+import { ServiceAccountService } from '../services/service-account.service';
+import { ChangeRequestService } from '../services/change-request.service';
+import { ApiResponse, ResponseUtil } from '../utils/response';
+import { sequelize } from '../config/database';
+import { getValidatedQuery } from '../middlewares/validation.middleware';
+import { CreateServiceAccountData, UpdateServiceAccountData } from '../types/service-account.types';
+
+export class ServiceAccountController {
+  /**
+   * List service accounts
+   * GET /api/service-accounts
+   */
+  static async listServiceAccounts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, search, isActive } = getValidatedQuery(req);
+
+      const { serviceAccounts, total } = await ServiceAccountService.listServiceAccounts(
+        { search, isActive },
+        { page, limit }
+      );
+
+      ResponseUtil.setPaginationHeaders(res, page, limit, total);
+      res.json(ApiResponse.success({ serviceAccounts, total }, 'Service accounts retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get service account by ID
+   * GET /api/service-accounts/:accountId
+   */
+  static async getServiceAccountById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const serviceAccount = await ServiceAccountService.getServiceAccountById(req.params.accountId);
+
+      res.json(ApiResponse.success({ serviceAccount }, 'Service account retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create service account. Roles granting wildcard permissions are
+   * requested as a change request for the new account instead.
+   * POST /api/service-accounts
+   */
+  static async createServiceAccount(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { roleIds, ...accountData } = req.body as CreateServiceAccountData;
+      const holdRoles = await ChangeRequestService.requiresApproval(roleIds || [], transaction);
+
+      const serviceAccount = await ServiceAccountService.createServiceAccount(
+        holdRoles ? accountData : { ...accountData, roleIds },
+        req.user!.id,
+        transaction
+      );
+
+      if (holdRoles) {
+        const changeRequest = await ChangeRequestService.holdUserRoleUpdate(
+          serviceAccount.id,
+          roleIds!,
+          req.user!.id,
+          { ipAddress: req.ip, userAgent: req.get('user-agent') },
+          transaction
+        );
+        await transaction.commit();
+        res.status(202).json(ApiResponse.success(
+          { serviceAccount, changeRequest },
+          'Service account created; its roles require approval by another user'
+        ));
+        return;
+      }
+
+      await transaction.commit();
+
+      res.status(201).json(ApiResponse.success({ serviceAccount }, 'Service account created successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Update service account. Adding roles that grant wildcard permissions is
+   * held as a change request; the other changes are applied right away.
+   * PUT /api/service-accounts/:accountId
+   */
+  static async updateServiceAccount(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { accountId } = req.params;
+      const { roleIds, ...changes } = req.body as UpdateServiceAccountData;
+
+      if (roleIds !== undefined) {
+        // Only service accounts may be changed here, and held as such
+        await ServiceAccountService.getServiceAccountById(accountId, transaction);
+
+        const changeRequest = await ChangeRequestService.holdUserRoleUpdate(
+          accountId,
+          roleIds,
+          req.user!.id,
+          { ipAddress: req.ip, userAgent: req.get('user-agent') },
+          transaction
+        );
+
+        if (changeRequest) {
+          const serviceAccount = Object.keys(changes).length > 0
+            ? await ServiceAccountService.updateServiceAccount(accountId, changes, req.user!.id, transaction)
+            : await ServiceAccountService.getServiceAccountById(accountId, transaction);
+          await transaction.commit();
+
+          res.status(202).json(ApiResponse.success(
+            { serviceAccount, changeRequest },
+            'Role change requires approval by another user'
+          ));
+          return;
+        }
+      }
+
+      const serviceAccount = await ServiceAccountService.updateServiceAccount(
+        accountId,
+        req.body,
+        req.user!.id,
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ serviceAccount }, 'Service account updated successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Delete (deactivate) service account and revoke its keys
+   * DELETE /api/service-accounts/:accountId
+   */
+  static async deleteServiceAccount(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      await ServiceAccountService.deleteServiceAccount(req.params.accountId, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.json(ApiResponse.success(null, 'Service account deleted successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * List API keys of a service account
+   * GET /api/service-accounts/:accountId/keys
+   */
+  static async listApiKeys(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const apiKeys = await ServiceAccountService.listApiKeys(req.params.accountId);
+
+      res.json(ApiResponse.success({ apiKeys }, 'API keys retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Issue an API key; the key itself is only returned in this response
+   * POST /api/service-accounts/:accountId/keys
+   */
+  static async createApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { apiKey, key } = await ServiceAccountService.createApiKey(
+        req.params.accountId,
+        req.body,
+        req.user!.id,
+        transaction
+      );
+      await transaction.commit();
+
+      res.status(201).json(ApiResponse.success({ apiKey, key }, 'API key created successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Replace an API key, keeping the old one valid for a grace period
+   * POST /api/service-accounts/:accountId/keys/:keyId/rotate
+   */
+  static async rotateApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { accountId, keyId } = req.params;
+      const { apiKey, key } = await ServiceAccountService.rotateApiKey(
+        accountId,
+        keyId,
+        req.body.gracePeriodMinutes,
+        req.user!.id,
+        transaction
+      );
+      await transaction.commit();
+
+      res.status(201).json(ApiResponse.success({ apiKey, key }, 'API key rotated successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke an API key
+   * DELETE /api/service-accounts/:accountId/keys/:keyId
+   */
+  static async revokeApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { accountId, keyId } = req.params;
+      await ServiceAccountService.revokeApiKey(accountId, keyId, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.json(ApiResponse.success(null, 'API key revoked successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+}
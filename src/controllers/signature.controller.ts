@@ -0,0 +1,82 @@
+import { Request, Response, NextFunction } from 'express';
+import { SignatureService } from '../services/signature.service';
+import { ApiResponse, ResponseUtil } from '../utils/response';
+import { AuthorizationError } from '../utils/errors';
+import { getValidatedQuery } from '../middlewares/validation.middleware';
+
+export class SignatureController {
+  /**
+   * Sign a record after re-entering the password. No transaction: failed
+   * attempts must be recorded even though the request fails.
+   * POST /api/signatures
+   */
+  static async createSignature(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // A signature attests to an act of a person, not of an application acting for them
+      if (req.user!.clientId || req.user!.isServiceAccount) {
+        throw new AuthorizationError('Electronic signatures require a user session');
+      }
+
+      const signature = await SignatureService.createSignature(req.user!.id, req.body, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+
+      res.status(201).json(ApiResponse.success({ signature }, 'Signature recorded successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List signatures, e.g. all signatures of a record
+   * GET /api/signatures
+   */
+  static async listSignatures(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, resourceType, resourceId, userId } = getValidatedQuery(req);
+
+      const { signatures, total } = await SignatureService.listSignatures(
+        { resourceType, resourceId, userId },
+        { page, limit }
+      );
+
+      ResponseUtil.setPaginationHeaders(res, page, limit, total);
+      res.json(ApiResponse.success({ signatures, total }, 'Signatures retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get signature by ID
+   * GET /api/signatures/:signatureId
+   */
+  static async getSignatureById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const signature = await SignatureService.getSignatureById(req.params.signatureId);
+
+      res.json(ApiResponse.success({ signature }, 'Signature retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Verify a signature, optionally against the hash of the record as it is now
+   * POST /api/signatures/:signatureId/verify
+   */
+  static async verifySignature(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { recordHash } = req.body as { recordHash?: string };
+      const verification = await SignatureService.verifySignature(req.params.signatureId, recordHash);
+
+      res.json(ApiResponse.success(
+        verification,
+        verification.valid ? 'Signature is valid' : 'Signature is not valid'
+      ));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { Request, Response, NextFunction } from 'express';
+import { SodService } from '../services/sod.service';
+import { ApiResponse } from '../utils/response';
+import { sequelize } from '../config/database';
+
+export class SodController {
+  /**
+   * List separation-of-duties rules
+   * GET /api/sod-rules
+   */
+  static async listRules(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rules = await SodService.listRules();
+
+      res.json(ApiResponse.success({ rules }, 'SoD rules retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List users whose roles break a rule
+   * GET /api/sod-rules/violations
+   */
+  static async getViolationReport(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const violations = await SodService.getViolationReport();
+
+      res.json(ApiResponse.success({ violations }, 'SoD violations retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get SoD rule by ID
+   * GET /api/sod-rules/:ruleId
+   */
+  static async getRuleById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await SodService.getRuleById(req.params.ruleId);
+
+      res.json(ApiResponse.success({ rule }, 'SoD rule retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create SoD rule
+   * POST /api/sod-rules
+   */
+  static async createRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const rule = await SodService.createRule(req.body, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.status(201).json(ApiResponse.success({ rule }, 'SoD rule created successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Update SoD rule
+   * PUT /api/sod-rules/:ruleId
+   */
+  static async updateRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const rule = await SodService.updateRule(req.params.ruleId, req.body, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ rule }, 'SoD rule updated successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Delete SoD rule
+   * DELETE /api/sod-rules/:ruleId
+   */
+  static async deleteRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      await SodService.deleteRule(req.params.ruleId, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.json(ApiResponse.success(null, 'SoD rule deleted successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+}
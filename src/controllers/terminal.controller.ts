@@ -0,0 +1,115 @@
+import { Request, Response, NextFunction } from 'express';
+import { TerminalService } from '../services/terminal.service';
+import { ApiResponse } from '../utils/response';
+import { sequelize } from '../config/database';
+
+export class TerminalController {
+  /**
+   * List terminals
+   * GET /api/terminals
+   */
+  static async listTerminals(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const terminals = await TerminalService.listTerminals();
+
+      res.json(ApiResponse.success({ terminals }, 'Terminals retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get terminal by ID
+   * GET /api/terminals/:terminalId
+   */
+  static async getTerminalById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const terminal = await TerminalService.getTerminalById(req.params.terminalId);
+
+      res.json(ApiResponse.success({ terminal }, 'Terminal retrieved successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Register terminal. The response contains the terminal key, which cannot be retrieved later.
+   * POST /api/terminals
+   */
+  static async createTerminal(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { terminal, key } = await TerminalService.createTerminal(req.body, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.status(201).json(ApiResponse.success({ terminal, key }, 'Terminal registered successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Update terminal
+   * PUT /api/terminals/:terminalId
+   */
+  static async updateTerminal(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const terminal = await TerminalService.updateTerminal(
+        req.params.terminalId,
+        req.body,
+        req.user!.id,
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ terminal }, 'Terminal updated successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Delete terminal
+   * DELETE /api/terminals/:terminalId
+   */
+  static async deleteTerminal(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      await TerminalService.deleteTerminal(req.params.terminalId, req.user!.id, transaction);
+      await transaction.commit();
+
+      res.json(ApiResponse.success(null, 'Terminal deleted successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Issue a new terminal key, invalidating the old one
+   * POST /api/terminals/:terminalId/key
+   */
+  static async rotateTerminalKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { terminal, key } = await TerminalService.rotateTerminalKey(
+        req.params.terminalId,
+        req.user!.id,
+        transaction
+      );
+      await transaction.commit();
+
+      res.json(ApiResponse.success({ terminal, key }, 'Terminal key rotated successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+}
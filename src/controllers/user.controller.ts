@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { UserService } from '../services/user.service';
+import { ChangeRequestService } from '../services/change-request.service';
 import { ApiResponse } from '../utils/response';
 import { ApiError } from '../utils/api-error';
 import { AuthRequest } from '../types/auth.types';
@@ -74,19 +75,39 @@ export class UserController {
   }
 
   /**
-   * Create new user
+   * Create new user. Roles granting wildcard permissions are not given
+   * right away; they are requested as a change request for the new user.
    * POST /api/users
    */
   static async createUser(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     const transaction = await sequelize.transaction();
     
     try {
+      const { roleIds, ...userData } = req.body;
+      const holdRoles = await ChangeRequestService.requiresApproval(roleIds || [], transaction);
       const createData: CreateUserData = {
-        ...req.body,
+        ...(holdRoles ? userData : req.body),
         createdBy: req.user?.id
       };
 
       const user = await UserService.createUser(createData, transaction);
+
+      if (holdRoles) {
+        const changeRequest = await ChangeRequestService.holdUserRoleUpdate(
+          user.id,
+          roleIds,
+          req.user!.id,
+          { ipAddress: req.ip, userAgent: req.get('user-agent') },
+          transaction
+        );
+        await transaction.commit();
+        res.status(202).json(ApiResponse.success(
+          { user, changeRequest },
+          'User created; its roles require approval by another user'
+        ));
+        return;
+      }
+
       await transaction.commit();
 
       res.status(201).json(ApiResponse.success(user, 'User created successfully'));
@@ -161,7 +182,8 @@ export class UserController {
   }
 
   /**
-   * Update user roles
+   * Update user roles. Granting wildcard permissions is held as a change
+   * request until another user approves it.
    * PUT /api/users/:userId/roles
    */
   static async updateUserRoles(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
@@ -169,10 +191,27 @@ export class UserController {
     
     try {
       const { userId } = req.params;
-      const { roleIds } = req.body;
+      const { roleIds, validity } = req.body;
       const updatedBy = req.user!.id;
 
-      const user = await UserService.updateUserRoles(userId, roleIds, updatedBy, transaction);
+      const changeRequest = await ChangeRequestService.holdUserRoleUpdate(
+        userId,
+        roleIds,
+        updatedBy,
+        { ipAddress: req.ip, userAgent: req.get('user-agent') },
+        transaction,
+        validity
+      );
+
+      if (changeRequest) {
+        await transaction.commit();
+        res.status(202).json(ApiResponse.success({ changeRequest }, 'Change requires approval by another user'));
+        return;
+      }
+
+      const user = validity
+        ? await UserService.updateUserRoles(userId, roleIds, updatedBy, transaction, validity)
+        : await UserService.updateUserRoles(userId, roleIds, updatedBy, transaction);
       await transaction.commit();
 
       res.json(ApiResponse.success(user, 'User roles updated successfully'));
@@ -204,6 +243,72 @@ export class UserController {
     }
   }
 
+  /**
+   * Unlock a locked user account
+   * POST /api/users/:userId/unlock
+   */
+  static async unlockUser(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+    
+    try {
+      const { userId } = req.params;
+      const unlockedBy = req.user!.id;
+
+      await UserService.unlockUser(userId, unlockedBy, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      }, transaction);
+      await transaction.commit();
+
+      res.json(ApiResponse.success(null, 'User unlocked successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Assign a badge and PIN, taking the badge from any previous holder
+   * PUT /api/users/:userId/badge
+   */
+  static async assignBadge(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { userId } = req.params;
+      const assignedBy = req.user!.id;
+
+      await UserService.assignBadge(userId, req.body, assignedBy, transaction);
+      await transaction.commit();
+
+      res.json(ApiResponse.success(null, 'Badge assigned successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a user's badge and PIN
+   * DELETE /api/users/:userId/badge
+   */
+  static async removeBadge(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { userId } = req.params;
+      const removedBy = req.user!.id;
+
+      await UserService.removeBadge(userId, removedBy, transaction);
+      await transaction.commit();
+
+      res.json(ApiResponse.success(null, 'Badge removed successfully'));
+    } catch (error) {
+      await transaction.rollback();
+      next(error);
+    }
+  }
+
   /**
    * Bulk update user status
    * POST /api/users/bulk/status
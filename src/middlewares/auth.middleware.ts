@@ -2,8 +2,15 @@ import { Request, Response, NextFunction } from 'express';
 import { JWTUtil, JWTPayload } from '../utils/jwt.util';
 import { AppError, AuthenticationError, AuthorizationError } from '../utils/errors';
 import { ErrorCode } from '../types';
-import { User } from '../models';
-import { RefreshToken } from '../models';
+import { User, OrgUnit } from '../models';
+import { RefreshToken, RevokedToken } from '../models';
+import { ServiceAccountService } from '../services/service-account.service';
+import { PermissionUtil } from '../utils/permission.util';
+import { ScopedPermissionMap, UnitPermissions } from '../types/org-unit.types';
+import { ConditionalPermission } from '../types/permission.types';
+import { ActiveElevation } from '../types/elevation.types';
+import { ConditionUtil, ConditionScope, ConditionAttributes } from '../utils/condition.util';
+import { UserAttributes } from '../models/User';
 
 declare global {
   namespace Express {
@@ -19,15 +26,134 @@ export interface AuthUser {
   email: string;
   roles: string[];
   permissions: string[];
+  // Explicit denies, which override any matching permission
+  deniedPermissions?: string[];
+  // Permissions held only within org units and the units below them, keyed by unit ID
+  scopedPermissions?: ScopedPermissionMap;
+  // Permissions that apply only while their condition holds (see ConditionUtil)
+  conditionalPermissions?: ConditionalPermission[];
+  // Roles and permissions held through an approved elevation, until it expires
+  elevations?: ActiveElevation[];
+  // Attributes conditions refer to as `user.<name>`
+  attributes?: UserAttributes;
   isSuperuser: boolean;
   firstName?: string;
   lastName?: string;
   isActive: boolean;
+  emailVerified?: boolean;
+  mfaEnabled?: boolean;
   lastLogin?: Date | null;
   createdAt: Date;
   updatedAt: Date;
+  // Access token ID (jti) and expiry, used to revoke the presented token
+  tokenId?: string;
+  tokenExpiresAt?: Date;
+  // Set when a service account authenticated with an API key instead of a token
+  isServiceAccount?: boolean;
+  apiKeyId?: string;
+  apiKeyScopes?: string[] | null;
+  // Set when the access token was issued to an OAuth client, limited to the granted scopes
+  clientId?: string;
+  clientScopes?: string[];
+  // Set when the access token was issued by badge login at a terminal, limited to its permissions
+  terminalId?: string;
 }
 
+/**
+ * Verify an access token and load its user, rejecting revoked tokens and
+ * tokens issued before the user's permissions last changed
+ */
+const resolveAccessToken = async (token: string): Promise<{ payload: JWTPayload; user: User | null }> => {
+  const payload = JWTUtil.verifyAccessToken(token);
+
+  if (payload.jti && await RevokedToken.isRevoked(payload.jti)) {
+    throw new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'Token has been revoked');
+  }
+
+  const user = await User.findByPk(payload.sub);
+
+  if (
+    user &&
+    payload.permissionsVersion !== undefined &&
+    payload.permissionsVersion !== user.permissionsVersion
+  ) {
+    throw new AuthenticationError(ErrorCode.AUTH_TOKEN_EXPIRED, 'Permissions have changed, please refresh your token');
+  }
+
+  return { payload, user };
+};
+
+const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Build the request user from a verified access token. A token issued to an
+ * OAuth client or by badge login never acts as superuser: only its scoped
+ * permissions apply.
+ */
+const toAuthUser = (user: User, payload: JWTPayload): AuthUser => ({
+  id: user.id,
+  username: user.username,
+  email: user.email,
+  roles: payload.roles,
+  permissions: payload.permissions,
+  deniedPermissions: payload.deniedPermissions,
+  scopedPermissions: payload.scopedPermissions,
+  conditionalPermissions: payload.conditionalPermissions,
+  elevations: payload.elevations,
+  attributes: user.attributes || undefined,
+  isSuperuser: payload.clientId || payload.terminalId ? false : user.isSuperuser,
+  firstName: user.firstName || undefined,
+  lastName: user.lastName || undefined,
+  isActive: user.isActive,
+  emailVerified: user.emailVerified,
+  mfaEnabled: user.mfaEnabled,
+  lastLogin: user.lastLogin,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+  tokenId: payload.jti,
+  tokenExpiresAt: payload.exp ? new Date(payload.exp * 1000) : undefined,
+  clientId: payload.clientId,
+  clientScopes: payload.clientId ? (payload.scope || '').split(' ').filter(Boolean) : undefined,
+  terminalId: payload.terminalId
+});
+
+/**
+ * Build the request user for a service account calling with an API key.
+ * Permissions are already limited to the key's scopes, so permission checks
+ * based on `permissions` need no special handling.
+ */
+const resolveApiKey = async (req: Request, key: string): Promise<AuthUser> => {
+  const {
+    user,
+    apiKey,
+    roles,
+    permissions,
+    deniedPermissions,
+    scopedPermissions,
+    conditionalPermissions
+  } = await ServiceAccountService.authenticateApiKey(key, req.ip);
+
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    roles,
+    permissions,
+    deniedPermissions,
+    scopedPermissions,
+    conditionalPermissions,
+    attributes: user.attributes || undefined,
+    isSuperuser: false,
+    isActive: user.isActive,
+    lastLogin: user.lastLogin,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+    isServiceAccount: true,
+    apiKeyId: apiKey.id,
+    apiKeyScopes: apiKey.scopes
+  };
+};
+
 export const authenticate = async (
   req: Request,
   res: Response,
@@ -35,6 +161,17 @@ export const authenticate = async (
 ): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
+    const apiKey = req.headers[API_KEY_HEADER] as string | undefined;
+
+    if (apiKey) {
+      // Accepting both would leave it unclear whose permissions apply
+      if (authHeader) {
+        throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Provide either an authorization header or an API key, not both');
+      }
+
+      req.user = await resolveApiKey(req, apiKey);
+      return next();
+    }
 
     if (!authHeader) {
       throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'No authorization header provided');
@@ -46,30 +183,13 @@ export const authenticate = async (
       throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Invalid authorization format');
     }
 
-    const payload = JWTUtil.verifyAccessToken(token);
-
-    // Fetch full user object
-    const user = await User.findByPk(payload.sub);
+    const { payload, user } = await resolveAccessToken(token);
 
     if (!user || !user.isActive) {
       throw new AuthenticationError(ErrorCode.AUTH_ACCOUNT_DISABLED, 'User not found or inactive');
     }
 
-    // Create AuthUser object
-    req.user = {
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      roles: payload.roles,
-      permissions: payload.permissions,
-      isSuperuser: user.isSuperuser,
-      firstName: user.firstName || undefined,
-      lastName: user.lastName || undefined,
-      isActive: user.isActive,
-      lastLogin: user.lastLogin,
-      createdAt: user.createdAt,
-      updatedAt: user.updatedAt
-    };
+    req.user = toAuthUser(user, payload);
 
     next();
   } catch (error) {
@@ -84,6 +204,16 @@ export const optionalAuthenticate = async (
 ): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
+    const apiKey = req.headers[API_KEY_HEADER] as string | undefined;
+
+    if (apiKey && !authHeader) {
+      try {
+        req.user = await resolveApiKey(req, apiKey);
+      } catch {
+        // Ignore key errors for optional auth
+      }
+      return next();
+    }
 
     if (!authHeader) {
       return next();
@@ -96,24 +226,10 @@ export const optionalAuthenticate = async (
     }
 
     try {
-      const payload = JWTUtil.verifyAccessToken(token);
-      const user = await User.findByPk(payload.sub);
+      const { payload, user } = await resolveAccessToken(token);
 
       if (user && user.isActive) {
-        req.user = {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          roles: payload.roles,
-          permissions: payload.permissions,
-          isSuperuser: user.isSuperuser,
-          firstName: user.firstName || undefined,
-          lastName: user.lastName || undefined,
-          isActive: user.isActive,
-          lastLogin: user.lastLogin,
-          createdAt: user.createdAt,
-          updatedAt: user.updatedAt
-        };
+        req.user = toAuthUser(user, payload);
       }
     } catch (error) {
       // Ignore token errors for optional auth
@@ -147,10 +263,134 @@ export const requireRole = (roles: string | string[]) => {
   };
 };
 
-export const requirePermission = (permissions: string | string[]) => {
+/**
+ * Resolves the org unit a request acts on, e.g. `req => req.params.lineId`.
+ * Resolving to nothing checks the global permissions only.
+ */
+export type ScopeResolver = (req: Request) => string | undefined | Promise<string | undefined>;
+
+/**
+ * Supplies the attributes of the resource a request acts on, e.g. the work
+ * order named by `req.params.id`, for conditions that refer to `resource`
+ */
+export type ResourceResolver = (
+  req: Request
+) => ConditionAttributes | undefined | Promise<ConditionAttributes | undefined>;
+
+export interface PermissionCheckOptions {
+  // Org unit the request acts on, adding roles assigned there and above
+  scope?: ScopeResolver;
+  // Resource the request acts on, for conditions on the user's permissions
+  resource?: ResourceResolver;
+}
+
+const globalPermissions = (user: AuthUser): Required<UnitPermissions> => ({
+  permissions: user.permissions,
+  deniedPermissions: user.deniedPermissions || [],
+  conditionalPermissions: user.conditionalPermissions || []
+});
+
+/**
+ * Permissions that apply within an org unit: the global ones plus those
+ * assigned at the unit or any unit above it. Without a unit, only the
+ * global ones apply.
+ */
+export const getPermissionsInScope = async (
+  user: AuthUser,
+  orgUnitId: string | undefined
+): Promise<Required<UnitPermissions>> => {
+  const global = globalPermissions(user);
+
+  if (!orgUnitId || !user.scopedPermissions || Object.keys(user.scopedPermissions).length === 0) {
+    return global;
+  }
+
+  const unit = PermissionUtil.forUnits(user.scopedPermissions, await OrgUnit.getScopeChain(orgUnitId));
+
+  return {
+    permissions: [...global.permissions, ...unit.permissions],
+    deniedPermissions: [...global.deniedPermissions, ...unit.deniedPermissions],
+    conditionalPermissions: [...global.conditionalPermissions, ...unit.conditionalPermissions]
+  };
+};
+
+/**
+ * What conditions on the user's permissions are evaluated against: the
+ * user's attributes, the resource if the route resolves one, and the time
+ * and origin of the request
+ */
+export const getConditionScope = async (
+  req: Request,
+  user: AuthUser,
+  resource?: ResourceResolver
+): Promise<ConditionScope> => ({
+  user: { ...user.attributes, id: user.id, username: user.username, roles: user.roles },
+  resource: resource ? await resource(req) : undefined,
+  context: ConditionUtil.buildContext(new Date(), {
+    ip: req.ip ?? null,
+    method: req.method,
+    terminalId: user.terminalId ?? null
+  })
+});
+
+/**
+ * Whether any conditional entry bears on the permissions, i.e. whether the
+ * check needs a condition scope at all
+ */
+export const hasConditionsFor = (conditional: ConditionalPermission[], permissions: string[]): boolean =>
+  permissions.some(permission => PermissionUtil.matchingConditions(conditional, permission).length > 0);
+
+/**
+ * Whether permissions grant one, after applying the conditional entries that match it
+ */
+export const isGrantedWithConditions = (
+  inScope: Required<UnitPermissions>,
+  permission: string,
+  conditionScope?: ConditionScope
+): boolean => {
+  const { allowed, denied } = PermissionUtil.applyConditions(
+    inScope.permissions,
+    inScope.deniedPermissions,
+    inScope.conditionalPermissions,
+    permission,
+    conditionScope
+  );
+  return PermissionUtil.isGranted(allowed, denied, permission);
+};
+
+export const requirePermission = (
+  permissions: string | string[],
+  options: PermissionCheckOptions = {}
+) => {
   const requiredPermissions = Array.isArray(permissions) ? permissions : [permissions];
 
-  return (req: Request, res: Response, next: NextFunction): void => {
+  // Wildcards such as "user:*" match "user:create"; a matching deny always wins
+  const decide = (inScope: Required<UnitPermissions>, next: NextFunction, conditionScope?: ConditionScope): void => {
+    const hasPermission = requiredPermissions.some(permission =>
+      isGrantedWithConditions(inScope, permission, conditionScope)
+    );
+
+    if (!hasPermission) {
+      return next(new AuthorizationError('Insufficient permissions'));
+    }
+
+    next();
+  };
+
+  // Scoped and conditional checks may wait on I/O (the unit's ancestors, the resource), so only they are async
+  const decideAsync = async (req: Request, user: AuthUser, next: NextFunction): Promise<void> => {
+    try {
+      const inScope = await getPermissionsInScope(user, options.scope ? await options.scope(req) : undefined);
+      const conditionScope = hasConditionsFor(inScope.conditionalPermissions, requiredPermissions)
+        ? await getConditionScope(req, user, options.resource)
+        : undefined;
+      decide(inScope, next, conditionScope);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  return (req: Request, res: Response, next: NextFunction): void | Promise<void> => {
     if (!req.user) {
       return next(new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Authentication required'));
     }
@@ -159,22 +399,12 @@ export const requirePermission = (permissions: string | string[]) => {
       return next();
     }
 
-    const hasPermission = requiredPermissions.some(permission => {
-      // Check exact permission
-      if (req.user!.permissions.includes(permission)) {
-        return true;
-      }
-
-      // Check wildcard permissions (e.g., "user:*" matches "user:create")
-      const [resource] = permission.split(':');
-      return req.user!.permissions.includes(`${resource}:*`);
-    });
-
-    if (!hasPermission) {
-      return next(new AuthorizationError('Insufficient permissions'));
+    const global = globalPermissions(req.user);
+    if (!options.scope && !hasConditionsFor(global.conditionalPermissions, requiredPermissions)) {
+      return decide(global, next);
     }
 
-    next();
+    return decideAsync(req, req.user, next);
   };
 };
 
@@ -204,11 +434,12 @@ export const refreshTokenMiddleware = async (
 
     const payload = JWTUtil.verifyRefreshToken(refreshToken);
 
-    // Verify refresh token exists in database
+    // Verify refresh token exists in database; only its digest is stored
     const storedToken = await RefreshToken.findOne({
       where: {
-        token: refreshToken,
-        userId: payload.sub
+        id: payload.tokenId,
+        userId: payload.sub,
+        tokenHash: RefreshToken.hashToken(refreshToken)
       }
     });
 
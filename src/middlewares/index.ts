@@ -72,4 +72,10 @@ export {
   requireResourcePermission,
   requireAny,
   auditPermissionCheck
-} from './permission.middleware';
\ No newline at end of file
+} from './permission.middleware';
+
+// Electronic signatures
+export {
+  requireSignature,
+  SIGNATURE_HEADER
+} from './signature.middleware';
\ No newline at end of file
@@ -3,7 +3,15 @@ import { AppError } from '../utils/errors';
 import { ErrorCode } from '../types';
 import permissionService from '../services/permission.service';
 import { logger } from '../utils/logger';
-import { AuthUser } from './auth.middleware';
+import { PermissionUtil } from '../utils/permission.util';
+import {
+  AuthUser,
+  PermissionCheckOptions,
+  getPermissionsInScope,
+  getConditionScope,
+  hasConditionsFor,
+  isGrantedWithConditions
+} from './auth.middleware';
 
 /**
  * Extended Request interface with user property
@@ -20,12 +28,12 @@ interface AuthRequest extends Request {
  */
 export const requirePermission = (
   permissions: string | string[],
-  options: {
+  options: PermissionCheckOptions & {
     requireAll?: boolean; // Require all permissions (AND) vs any permission (OR)
     checkDatabase?: boolean; // Check database for real-time permissions
   } = {}
 ) => {
-  const { requireAll = false, checkDatabase = false } = options;
+  const { requireAll = false, checkDatabase = false, scope, resource } = options;
   const requiredPermissions = Array.isArray(permissions) ? permissions : [permissions];
 
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -44,24 +52,47 @@ export const requirePermission = (
 
       // Check permissions
       let hasPermission = false;
+      // Only scoped and conditional checks wait on I/O here, so plain ones decide synchronously
+      const orgUnitId = scope ? await scope(req) : undefined;
+      const inUnit = orgUnitId
+        ? await getPermissionsInScope(authReq.user, orgUnitId)
+        : {
+          permissions: authReq.user.permissions,
+          deniedPermissions: authReq.user.deniedPermissions || [],
+          conditionalPermissions: authReq.user.conditionalPermissions || []
+        };
+      // Conditions are evaluated only when one bears on the check. Changing an entry invalidates the
+      // holders' tokens, so the token lists every conditional entry the database would find too.
+      const conditionScope = hasConditionsFor(inUnit.conditionalPermissions, requiredPermissions)
+        ? await getConditionScope(req, authReq.user, resource)
+        : undefined;
 
       if (checkDatabase) {
+        // An API key, OAuth client or badge login may only use permissions within its scopes, whatever the database grants
+        const scopes = authReq.user.apiKeyScopes
+          ?? authReq.user.clientScopes
+          ?? (authReq.user.terminalId ? inUnit.permissions : undefined);
+        const inScope = (permission: string) => !scopes || checkPermissionWithWildcard(scopes, permission);
+        const checkUser = (permission: string) => {
+          if (conditionScope) {
+            return permissionService.checkUserPermission(authReq.user!.id, permission, orgUnitId, conditionScope);
+          }
+          return orgUnitId
+            ? permissionService.checkUserPermission(authReq.user!.id, permission, orgUnitId)
+            : permissionService.checkUserPermission(authReq.user!.id, permission);
+        };
+
         // Real-time permission check from database
         if (requireAll) {
           // Check all permissions
           const results = await Promise.all(
-            requiredPermissions.map(permission =>
-              permissionService.checkUserPermission(authReq.user!.id, permission)
-            )
+            requiredPermissions.map(checkUser)
           );
-          hasPermission = results.every(result => result.hasPermission);
+          hasPermission = results.every(result => result.hasPermission) && requiredPermissions.every(inScope);
         } else {
           // Check any permission
-          for (const permission of requiredPermissions) {
-            const result = await permissionService.checkUserPermission(
-              authReq.user.id,
-              permission
-            );
+          for (const permission of requiredPermissions.filter(inScope)) {
+            const result = await checkUser(permission);
             if (result.hasPermission) {
               hasPermission = true;
               break;
@@ -72,11 +103,11 @@ export const requirePermission = (
         // Check permissions from JWT token
         if (requireAll) {
           hasPermission = requiredPermissions.every(permission =>
-            checkPermissionWithWildcard(authReq.user!.permissions, permission)
+            isGrantedWithConditions(inUnit, permission, conditionScope)
           );
         } else {
           hasPermission = requiredPermissions.some(permission =>
-            checkPermissionWithWildcard(authReq.user!.permissions, permission)
+            isGrantedWithConditions(inUnit, permission, conditionScope)
           );
         }
       }
@@ -168,10 +199,11 @@ export const requireOwnershipOrPermission = (
       }
 
       // Otherwise, check permission
-      const hasPermission = checkPermissionWithWildcard(
-        authReq.user.permissions,
-        options.fallbackPermission
-      );
+      const permissions = await getPermissionsInScope(authReq.user, undefined);
+      const conditionScope = hasConditionsFor(permissions.conditionalPermissions, [options.fallbackPermission])
+        ? await getConditionScope(req, authReq.user)
+        : undefined;
+      const hasPermission = isGrantedWithConditions(permissions, options.fallbackPermission, conditionScope);
 
       if (!hasPermission) {
         throw new AppError(ErrorCode.AUTH_INSUFFICIENT_PERMISSIONS, 'Access denied: Not owner and insufficient permissions', 403);
@@ -203,38 +235,18 @@ export const requireSuperuser = (req: Request, res: Response, next: NextFunction
 };
 
 /**
- * Check permission with wildcard support
+ * Check permission with wildcard support ("user:*", "*:read", "*:*").
+ * A matching deny overrides any allow; see PermissionUtil for the precedence.
  * @param userPermissions - User's permissions
  * @param requiredPermission - Required permission
+ * @param deniedPermissions - User's denied permissions
  */
 function checkPermissionWithWildcard(
   userPermissions: string[],
-  requiredPermission: string
+  requiredPermission: string,
+  deniedPermissions: string[] = []
 ): boolean {
-  // Check exact permission
-  if (userPermissions.includes(requiredPermission)) {
-    return true;
-  }
-
-  // Check wildcard permissions
-  const [resource, action] = requiredPermission.split(':');
-  
-  // Check resource wildcard (e.g., "user:*")
-  if (userPermissions.includes(`${resource}:*`)) {
-    return true;
-  }
-
-  // Check global wildcard (e.g., "*:*")
-  if (userPermissions.includes('*:*')) {
-    return true;
-  }
-
-  // Check action wildcard across all resources (e.g., "*:read")
-  if (action && userPermissions.includes(`*:${action}`)) {
-    return true;
-  }
-
-  return false;
+  return PermissionUtil.isGranted(userPermissions, deniedPermissions, requiredPermission);
 }
 
 /**
@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../utils/errors';
+import { ErrorCode } from '../types';
+import { Signature } from '../models/Signature';
+import { SignatureService } from '../services/signature.service';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Signature used by a route guarded with requireSignature
+      signature?: Signature;
+    }
+  }
+}
+
+export const SIGNATURE_HEADER = 'x-signature-id';
+
+/**
+ * Require a fresh electronic signature for the request. The client signs
+ * with `POST /signatures` first and sends the signature ID in the
+ * `X-Signature-Id` header; each signature authorizes one request.
+ * @param permission - Permission the signature must have been given for
+ * @param options - Bind the signature to the record the route acts on
+ */
+export const requireSignature = (
+  permission: string,
+  options: {
+    resourceType?: string; // Signature must be for this kind of record
+    resourceIdParam?: string; // Route parameter holding the record ID the signature must be for
+  } = {}
+) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError(ErrorCode.AUTH_TOKEN_INVALID, 'Authentication required', 401);
+      }
+
+      const signatureId = req.get(SIGNATURE_HEADER);
+      if (!signatureId) {
+        throw new AppError(
+          ErrorCode.SIGNATURE_REQUIRED,
+          'An electronic signature is required for this action',
+          428,
+          true,
+          { permission }
+        );
+      }
+
+      req.signature = await SignatureService.consumeSignature(signatureId, req.user.id, permission, {
+        action: `${req.method} ${req.originalUrl}`,
+        resourceType: options.resourceType,
+        resourceId: options.resourceIdParam ? String(req.params[options.resourceIdParam]) : undefined,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
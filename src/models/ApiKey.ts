@@ -0,0 +1,181 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  ForeignKey,
+  NonAttribute,
+  Association,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import { User } from './User';
+import crypto from 'crypto';
+
+const KEY_PATTERN = /^mes_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+/**
+ * API key of a service account. Keys look like `mes_<prefix>_<secret>`: the
+ * prefix finds the row and identifies the key in listings, and only a SHA-256
+ * digest of the whole key is stored.
+ */
+export class ApiKey extends Model<
+  InferAttributes<ApiKey>,
+  InferCreationAttributes<ApiKey>
+> {
+  declare id: CreationOptional<string>;
+  declare userId: ForeignKey<User['id']>;
+  declare name: string;
+  declare prefix: string;
+  declare keyHash: string;
+  declare scopes: CreationOptional<string[] | null>;
+  declare expiresAt: CreationOptional<Date | null>;
+  declare lastUsedAt: CreationOptional<Date | null>;
+  declare lastUsedIp: CreationOptional<string | null>;
+  declare revokedAt: CreationOptional<Date | null>;
+  declare replacedBy: CreationOptional<string | null>;
+  declare createdBy: CreationOptional<string | null>;
+  declare createdAt: CreationOptional<Date>;
+
+  // Associations
+  declare user?: NonAttribute<User>;
+
+  declare static associations: {
+    user: Association<ApiKey, User>;
+  };
+
+  // Static methods
+  static associate(models: any): void {
+    ApiKey.belongsTo(models.User, {
+      as: 'user',
+      foreignKey: 'userId',
+    });
+  }
+
+  static generate(): { key: string; prefix: string; keyHash: string } {
+    const prefix = crypto.randomBytes(6).toString('hex');
+    const key = `mes_${prefix}_${crypto.randomBytes(32).toString('base64url')}`;
+
+    return { key, prefix, keyHash: ApiKey.hashKey(key) };
+  }
+
+  static hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Extract the lookup prefix, or null when the value is not shaped like one of our keys
+   */
+  static parsePrefix(key: string): string | null {
+    const match = KEY_PATTERN.exec(key);
+    return match ? match[1] : null;
+  }
+
+  // Instance methods
+  isExpired(): boolean {
+    return this.expiresAt !== null && this.expiresAt !== undefined && new Date() > this.expiresAt;
+  }
+
+  isRevoked(): boolean {
+    return this.revokedAt !== null && this.revokedAt !== undefined;
+  }
+
+  matches(key: string): boolean {
+    const expected = Buffer.from(this.keyHash, 'hex');
+    const actual = Buffer.from(ApiKey.hashKey(key), 'hex');
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  toJSON(): any {
+    const result: any = { ...this.get() };
+    delete result.keyHash;
+    return result;
+  }
+}
+
+ApiKey.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    prefix: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      unique: true,
+      comment: 'Public part of the key, used to find it and to identify it in listings',
+    },
+    keyHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      comment: 'SHA-256 digest of the full key; the raw key is never stored',
+    },
+    scopes: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: 'Permission patterns the key is limited to; null allows all of the account permissions',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lastUsedIp: {
+      type: DataTypes.STRING(45), // Supports IPv6
+      allowNull: true,
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    replacedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'ID of the key issued when this one was rotated',
+    },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ApiKey',
+    tableName: 'api_keys',
+    timestamps: false,
+    indexes: [
+      { fields: ['userId'] },
+    ],
+    hooks: {
+      beforeCreate: (apiKey: ApiKey) => {
+        if (!apiKey.createdAt) {
+          apiKey.createdAt = new Date();
+        }
+      },
+    },
+  }
+);
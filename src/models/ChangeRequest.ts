@@ -0,0 +1,148 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  ForeignKey,
+  NonAttribute,
+  Association,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import { User } from './User';
+import {
+  ChangeRequestType,
+  ChangeRequestStatus,
+  ChangeRequestPayload,
+  ChangeRequestComment,
+  ChangeRisk,
+} from '../types/change-request.types';
+
+/**
+ * High-risk RBAC change held back until a second user approves it. The
+ * payload holds the arguments the change is applied with on approval.
+ */
+export class ChangeRequest extends Model<
+  InferAttributes<ChangeRequest>,
+  InferCreationAttributes<ChangeRequest>
+> {
+  declare id: CreationOptional<string>;
+  declare type: ChangeRequestType;
+  declare targetId: string;
+  declare payload: ChangeRequestPayload;
+  declare risks: ChangeRisk[];
+  declare status: CreationOptional<ChangeRequestStatus>;
+  declare comments: CreationOptional<ChangeRequestComment[]>;
+  declare requestedBy: ForeignKey<User['id']>;
+  declare reviewedBy: CreationOptional<string | null>;
+  declare reviewedAt: CreationOptional<Date | null>;
+  declare expiresAt: Date;
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  // Associations
+  declare requester?: NonAttribute<User>;
+  declare reviewer?: NonAttribute<User>;
+
+  declare static associations: {
+    requester: Association<ChangeRequest, User>;
+    reviewer: Association<ChangeRequest, User>;
+  };
+
+  // Static methods
+  static associate(models: any): void {
+    ChangeRequest.belongsTo(models.User, {
+      as: 'requester',
+      foreignKey: 'requestedBy',
+    });
+    ChangeRequest.belongsTo(models.User, {
+      as: 'reviewer',
+      foreignKey: 'reviewedBy',
+    });
+  }
+
+  // Instance methods
+  isExpired(): boolean {
+    return this.expiresAt <= new Date();
+  }
+}
+
+ChangeRequest.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    type: {
+      type: DataTypes.STRING(30),
+      allowNull: false,
+      comment: 'role_permissions, role_update, role_users, user_roles or scoped_user_role',
+    },
+    targetId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      comment: 'Role or user the change applies to',
+    },
+    payload: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      comment: 'Arguments the change is applied with once approved',
+    },
+    risks: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      comment: 'Why the change needs a second approver',
+    },
+    status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: 'pending',
+    },
+    comments: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: [],
+    },
+    requestedBy: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    reviewedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    reviewedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ChangeRequest',
+    tableName: 'change_requests',
+    timestamps: true,
+    indexes: [
+      { fields: ['status', 'expiresAt'] },
+      { fields: ['type', 'targetId'] },
+    ],
+  }
+);
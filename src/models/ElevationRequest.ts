@@ -0,0 +1,154 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  ForeignKey,
+  NonAttribute,
+  Association,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import { User } from './User';
+import { Role } from './Role';
+import { ElevationStatus } from '../types/elevation.types';
+
+/**
+ * A user's request to hold a role or permissions for a limited time. Once
+ * approved it grants them until `expiresAt`, after which the expiry sweeper
+ * marks it expired.
+ */
+export class ElevationRequest extends Model<
+  InferAttributes<ElevationRequest>,
+  InferCreationAttributes<ElevationRequest>
+> {
+  declare id: CreationOptional<string>;
+  declare userId: ForeignKey<User['id']>;
+  declare roleId: ForeignKey<Role['id']> | null;
+  declare permissionIds: string[];
+  declare justification: string;
+  declare durationMinutes: number;
+  declare status: CreationOptional<ElevationStatus>;
+  declare reviewedBy: CreationOptional<string | null>;
+  declare reviewedAt: CreationOptional<Date | null>;
+  declare reviewComment: CreationOptional<string | null>;
+  declare expiresAt: CreationOptional<Date | null>;
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  // Associations
+  declare user?: NonAttribute<User>;
+  declare reviewer?: NonAttribute<User>;
+  declare role?: NonAttribute<Role>;
+
+  declare static associations: {
+    user: Association<ElevationRequest, User>;
+    reviewer: Association<ElevationRequest, User>;
+    role: Association<ElevationRequest, Role>;
+  };
+
+  // Static methods
+  static associate(models: any): void {
+    ElevationRequest.belongsTo(models.User, {
+      as: 'user',
+      foreignKey: 'userId',
+    });
+    ElevationRequest.belongsTo(models.User, {
+      as: 'reviewer',
+      foreignKey: 'reviewedBy',
+    });
+    ElevationRequest.belongsTo(models.Role, {
+      as: 'role',
+      foreignKey: 'roleId',
+    });
+  }
+
+  // Instance methods
+  isActive(now: Date = new Date()): boolean {
+    return this.status === 'approved' && this.expiresAt !== null && this.expiresAt > now;
+  }
+}
+
+ElevationRequest.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    roleId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'roles',
+        key: 'id',
+      },
+    },
+    permissionIds: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: [],
+    },
+    justification: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    durationMinutes: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 1,
+      },
+    },
+    status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: 'pending',
+    },
+    reviewedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    reviewedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    reviewComment: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'Set on approval to the approval time plus the duration',
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ElevationRequest',
+    tableName: 'elevation_requests',
+    timestamps: true,
+    indexes: [
+      { fields: ['userId', 'status'] },
+      { fields: ['status', 'expiresAt'] },
+    ],
+  }
+);
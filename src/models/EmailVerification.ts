@@ -0,0 +1,120 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  ForeignKey,
+  NonAttribute,
+  Association,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import { User } from './User';
+import crypto from 'crypto';
+
+export class EmailVerification extends Model<
+  InferAttributes<EmailVerification>,
+  InferCreationAttributes<EmailVerification>
+> {
+  declare id: CreationOptional<string>;
+  declare userId: ForeignKey<User['id']>;
+  declare tokenHash: string;
+  declare expiresAt: Date;
+  declare usedAt: CreationOptional<Date | null>;
+  declare ipAddress: CreationOptional<string | null>;
+  declare userAgent: CreationOptional<string | null>;
+  declare createdAt: CreationOptional<Date>;
+
+  // Associations
+  declare user?: NonAttribute<User>;
+
+  declare static associations: {
+    user: Association<EmailVerification, User>;
+  };
+
+  // Static methods
+  static associate(models: any): void {
+    EmailVerification.belongsTo(models.User, {
+      as: 'user',
+      foreignKey: 'userId',
+    });
+  }
+
+  static generateToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  // Instance methods
+  isExpired(): boolean {
+    return new Date() > this.expiresAt;
+  }
+
+  isUsed(): boolean {
+    return this.usedAt !== null && this.usedAt !== undefined;
+  }
+}
+
+EmailVerification.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      comment: 'SHA-256 digest of the verification token; the raw token is never stored',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    ipAddress: {
+      type: DataTypes.STRING(45), // Supports IPv6
+      allowNull: true,
+    },
+    userAgent: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'EmailVerification',
+    tableName: 'email_verifications',
+    timestamps: false,
+    indexes: [
+      { fields: ['tokenHash'] },
+      { fields: ['userId'] },
+      { fields: ['expiresAt'] },
+    ],
+    hooks: {
+      beforeCreate: (verification: EmailVerification) => {
+        if (!verification.createdAt) {
+          verification.createdAt = new Date();
+        }
+      },
+    },
+  }
+);
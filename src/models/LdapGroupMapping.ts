@@ -0,0 +1,110 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  ForeignKey,
+  NonAttribute,
+  Association,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import { Role } from './Role';
+
+/**
+ * Grants a role to members of a directory group. Roles that appear in any
+ * mapping are managed by the directory for LDAP users: they are added and
+ * removed on every login to match the user's groups.
+ */
+export class LdapGroupMapping extends Model<
+  InferAttributes<LdapGroupMapping>,
+  InferCreationAttributes<LdapGroupMapping>
+> {
+  declare id: CreationOptional<string>;
+  declare groupDn: string;
+  declare roleId: ForeignKey<Role['id']>;
+  declare createdBy: CreationOptional<string | null>;
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  // Associations
+  declare role?: NonAttribute<Role>;
+
+  declare static associations: {
+    role: Association<LdapGroupMapping, Role>;
+  };
+
+  // Static methods
+  static associate(models: any): void {
+    LdapGroupMapping.belongsTo(models.Role, {
+      as: 'role',
+      foreignKey: 'roleId',
+    });
+  }
+
+  /**
+   * Canonical form for comparing DNs: directories differ in case and in
+   * spacing after the RDN separators
+   */
+  static normalizeDn(dn: string): string {
+    return dn
+      .split(',')
+      .map(part => part.trim())
+      .join(',')
+      .toLowerCase();
+  }
+}
+
+LdapGroupMapping.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    groupDn: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      comment: 'Distinguished name of the directory group',
+    },
+    roleId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'roles',
+        key: 'id',
+      },
+    },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'LdapGroupMapping',
+    tableName: 'ldap_group_mappings',
+    timestamps: true,
+    indexes: [
+      { unique: true, fields: ['groupDn', 'roleId'] },
+      { fields: ['roleId'] },
+    ],
+    hooks: {
+      beforeValidate: (mapping: LdapGroupMapping) => {
+        if (mapping.groupDn) {
+          mapping.groupDn = LdapGroupMapping.normalizeDn(mapping.groupDn);
+        }
+      },
+    },
+  }
+);
@@ -0,0 +1,92 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  ForeignKey,
+  NonAttribute,
+  Association,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import { User } from './User';
+
+export class MfaRecoveryCode extends Model<
+  InferAttributes<MfaRecoveryCode>,
+  InferCreationAttributes<MfaRecoveryCode>
+> {
+  declare id: CreationOptional<string>;
+  declare userId: ForeignKey<User['id']>;
+  declare codeHash: string;
+  declare usedAt: CreationOptional<Date | null>;
+  declare createdAt: CreationOptional<Date>;
+
+  // Associations
+  declare user?: NonAttribute<User>;
+
+  declare static associations: {
+    user: Association<MfaRecoveryCode, User>;
+  };
+
+  // Static methods
+  static associate(models: any): void {
+    MfaRecoveryCode.belongsTo(models.User, {
+      as: 'user',
+      foreignKey: 'userId',
+    });
+  }
+}
+
+MfaRecoveryCode.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    codeHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      comment: 'SHA-256 digest of the normalized recovery code',
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'MfaRecoveryCode',
+    tableName: 'mfa_recovery_codes',
+    timestamps: false,
+    indexes: [
+      { fields: ['userId', 'codeHash'] },
+    ],
+    hooks: {
+      beforeCreate: (recoveryCode: MfaRecoveryCode) => {
+        if (!recoveryCode.createdAt) {
+          recoveryCode.createdAt = new Date();
+        }
+      },
+      beforeBulkCreate: (recoveryCodes: MfaRecoveryCode[]) => {
+        const now = new Date();
+        recoveryCodes.forEach(recoveryCode => {
+          if (!recoveryCode.createdAt) {
+            recoveryCode.createdAt = now;
+          }
+        });
+      },
+    },
+  }
+);
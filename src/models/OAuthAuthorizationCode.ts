@@ -0,0 +1,161 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  ForeignKey,
+  NonAttribute,
+  Association,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import { User } from './User';
+import { OAuthClient } from './OAuthClient';
+import crypto from 'crypto';
+
+/**
+ * Authorization code issued when a user approves a client. It is redeemed
+ * once at the token endpoint together with the PKCE verifier; the tokens
+ * issued for it are remembered so a second redemption can revoke them.
+ */
+export class OAuthAuthorizationCode extends Model<
+  InferAttributes<OAuthAuthorizationCode>,
+  InferCreationAttributes<OAuthAuthorizationCode>
+> {
+  declare id: CreationOptional<string>;
+  declare codeHash: string;
+  declare clientId: ForeignKey<OAuthClient['id']>;
+  declare userId: ForeignKey<User['id']>;
+  declare redirectUri: string;
+  declare scopes: string[];
+  declare codeChallenge: string;
+  declare expiresAt: Date;
+  declare usedAt: CreationOptional<Date | null>;
+  declare tokenFamilyId: CreationOptional<string | null>;
+  declare createdAt: CreationOptional<Date>;
+
+  // Associations
+  declare client?: NonAttribute<OAuthClient>;
+  declare user?: NonAttribute<User>;
+
+  declare static associations: {
+    client: Association<OAuthAuthorizationCode, OAuthClient>;
+    user: Association<OAuthAuthorizationCode, User>;
+  };
+
+  // Static methods
+  static associate(models: any): void {
+    OAuthAuthorizationCode.belongsTo(models.OAuthClient, {
+      as: 'client',
+      foreignKey: 'clientId',
+    });
+    OAuthAuthorizationCode.belongsTo(models.User, {
+      as: 'user',
+      foreignKey: 'userId',
+    });
+  }
+
+  static generate(): { code: string; codeHash: string } {
+    const code = crypto.randomBytes(32).toString('base64url');
+
+    return { code, codeHash: OAuthAuthorizationCode.hashCode(code) };
+  }
+
+  static hashCode(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+  }
+
+  // Instance methods
+  isExpired(): boolean {
+    return new Date() > this.expiresAt;
+  }
+
+  /**
+   * Check a PKCE code verifier against the stored S256 challenge (RFC 7636 section 4.6)
+   */
+  verifyCodeVerifier(codeVerifier: string): boolean {
+    const expected = Buffer.from(this.codeChallenge);
+    const actual = Buffer.from(crypto.createHash('sha256').update(codeVerifier).digest('base64url'));
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+}
+
+OAuthAuthorizationCode.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    codeHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      comment: 'SHA-256 digest of the authorization code; the raw value is never stored',
+    },
+    clientId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'oauth_clients',
+        key: 'id',
+      },
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    redirectUri: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      comment: 'Must be presented again, unchanged, when the code is redeemed',
+    },
+    scopes: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    codeChallenge: {
+      type: DataTypes.STRING(128),
+      allowNull: false,
+      comment: 'S256 PKCE challenge the code verifier must match',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    tokenFamilyId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'Refresh token family issued for the code, revoked if the code is presented again',
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'OAuthAuthorizationCode',
+    tableName: 'oauth_authorization_codes',
+    timestamps: false,
+    indexes: [
+      { fields: ['clientId'] },
+      { fields: ['expiresAt'] },
+    ],
+    hooks: {
+      beforeCreate: (authorizationCode: OAuthAuthorizationCode) => {
+        if (!authorizationCode.createdAt) {
+          authorizationCode.createdAt = new Date();
+        }
+      },
+    },
+  }
+);
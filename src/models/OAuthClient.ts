@@ -0,0 +1,163 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  NonAttribute,
+  Association,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import { User } from './User';
+import { OAuthGrantType } from '../types/oauth.types';
+import crypto from 'crypto';
+
+/**
+ * Application that obtains tokens from us as an OAuth 2.0 authorization
+ * server. The row ID is the public `client_id`. Confidential clients hold a
+ * secret of which only a SHA-256 digest is stored; public clients have none
+ * and rely on PKCE.
+ */
+export class OAuthClient extends Model<
+  InferAttributes<OAuthClient>,
+  InferCreationAttributes<OAuthClient>
+> {
+  declare id: CreationOptional<string>;
+  declare name: string;
+  declare clientSecretHash: CreationOptional<string | null>;
+  declare redirectUris: string[];
+  declare grantTypes: OAuthGrantType[];
+  declare scopes: string[];
+  declare serviceAccountId: CreationOptional<string | null>;
+  declare requireConsent: CreationOptional<boolean>;
+  declare isActive: CreationOptional<boolean>;
+  declare createdBy: CreationOptional<string | null>;
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  // Associations
+  declare serviceAccount?: NonAttribute<User>;
+
+  declare static associations: {
+    serviceAccount: Association<OAuthClient, User>;
+  };
+
+  // Static methods
+  static associate(models: any): void {
+    OAuthClient.belongsTo(models.User, {
+      as: 'serviceAccount',
+      foreignKey: 'serviceAccountId',
+    });
+  }
+
+  static generateSecret(): { secret: string; secretHash: string } {
+    const secret = crypto.randomBytes(32).toString('base64url');
+
+    return { secret, secretHash: OAuthClient.hashSecret(secret) };
+  }
+
+  static hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  // Instance methods
+  isConfidential(): boolean {
+    return !!this.clientSecretHash;
+  }
+
+  allowsGrant(grantType: OAuthGrantType): boolean {
+    return this.grantTypes.includes(grantType);
+  }
+
+  matchesSecret(secret: string): boolean {
+    if (!this.clientSecretHash) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.clientSecretHash, 'hex');
+    const actual = Buffer.from(OAuthClient.hashSecret(secret), 'hex');
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  toJSON(): any {
+    const result: any = { ...this.get() };
+    result.isConfidential = !!result.clientSecretHash;
+    delete result.clientSecretHash;
+    return result;
+  }
+}
+
+OAuthClient.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+      comment: 'Also the public client_id',
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    clientSecretHash: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      comment: 'SHA-256 digest of the client secret; null for public clients that rely on PKCE alone',
+    },
+    redirectUris: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      comment: 'Exact redirect URIs the authorization code may be sent to',
+    },
+    grantTypes: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    scopes: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      comment: 'Permission patterns the client may request, e.g. workorder:read',
+    },
+    serviceAccountId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      comment: 'Service account whose permissions client_credentials tokens carry',
+    },
+    requireConsent: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+      comment: 'Ask users to approve the scopes; off for trusted in-house applications',
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'OAuthClient',
+    tableName: 'oauth_clients',
+    timestamps: true,
+  }
+);
@@ -0,0 +1,98 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  ForeignKey,
+  NonAttribute,
+  Association,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import { User } from './User';
+import { OAuthClient } from './OAuthClient';
+
+/**
+ * Scopes a user has approved for a client. Later authorization requests
+ * within these scopes skip the consent screen.
+ */
+export class OAuthConsent extends Model<
+  InferAttributes<OAuthConsent>,
+  InferCreationAttributes<OAuthConsent>
+> {
+  declare id: CreationOptional<string>;
+  declare userId: ForeignKey<User['id']>;
+  declare clientId: ForeignKey<OAuthClient['id']>;
+  declare scopes: string[];
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  // Associations
+  declare client?: NonAttribute<OAuthClient>;
+
+  declare static associations: {
+    client: Association<OAuthConsent, OAuthClient>;
+  };
+
+  // Static methods
+  static associate(models: any): void {
+    OAuthConsent.belongsTo(models.OAuthClient, {
+      as: 'client',
+      foreignKey: 'clientId',
+    });
+    OAuthConsent.belongsTo(models.User, {
+      as: 'user',
+      foreignKey: 'userId',
+    });
+  }
+
+  // Instance methods
+  covers(scopes: string[]): boolean {
+    return scopes.every(scope => this.scopes.includes(scope));
+  }
+}
+
+OAuthConsent.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    clientId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'oauth_clients',
+        key: 'id',
+      },
+    },
+    scopes: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'OAuthConsent',
+    tableName: 'oauth_consents',
+    timestamps: true,
+    indexes: [
+      { unique: true, fields: ['userId', 'clientId'] },
+    ],
+  }
+);
@@ -0,0 +1,113 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  ForeignKey,
+  NonAttribute,
+  Association,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import { OidcProvider } from './OidcProvider';
+import crypto from 'crypto';
+
+/**
+ * A sign-in that was sent to an identity provider and has not come back
+ * yet. The callback looks it up by the `state` parameter and deletes it, so
+ * each authorization response is accepted once.
+ */
+export class OidcLoginState extends Model<
+  InferAttributes<OidcLoginState>,
+  InferCreationAttributes<OidcLoginState>
+> {
+  declare id: CreationOptional<string>;
+  declare providerId: ForeignKey<OidcProvider['id']>;
+  declare stateHash: string;
+  declare nonce: string;
+  declare codeVerifier: string;
+  declare expiresAt: Date;
+  declare createdAt: CreationOptional<Date>;
+
+  // Associations
+  declare provider?: NonAttribute<OidcProvider>;
+
+  declare static associations: {
+    provider: Association<OidcLoginState, OidcProvider>;
+  };
+
+  // Static methods
+  static associate(models: any): void {
+    OidcLoginState.belongsTo(models.OidcProvider, {
+      as: 'provider',
+      foreignKey: 'providerId',
+    });
+  }
+
+  static hashState(state: string): string {
+    return crypto.createHash('sha256').update(state).digest('hex');
+  }
+
+  // Instance methods
+  isExpired(): boolean {
+    return new Date() > this.expiresAt;
+  }
+}
+
+OidcLoginState.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    providerId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'oidc_providers',
+        key: 'id',
+      },
+    },
+    stateHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      comment: 'SHA-256 digest of the state parameter; the raw value is never stored',
+    },
+    nonce: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      comment: 'Expected nonce claim of the ID token',
+    },
+    codeVerifier: {
+      type: DataTypes.STRING(128),
+      allowNull: false,
+      comment: 'PKCE code verifier sent with the authorization code',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'OidcLoginState',
+    tableName: 'oidc_login_states',
+    timestamps: false,
+    indexes: [
+      { fields: ['providerId'] },
+      { fields: ['expiresAt'] },
+    ],
+    hooks: {
+      beforeCreate: (loginState: OidcLoginState) => {
+        if (!loginState.createdAt) {
+          loginState.createdAt = new Date();
+        }
+      },
+    },
+  }
+);
@@ -0,0 +1,126 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import { OidcClaimMapping, OidcRoleMapping } from '../types/oidc.types';
+
+/**
+ * OpenID Connect identity provider users can sign in with. Providers are
+ * managed at runtime; `name` is the URL slug of the login and callback routes.
+ */
+export class OidcProvider extends Model<
+  InferAttributes<OidcProvider>,
+  InferCreationAttributes<OidcProvider>
+> {
+  declare id: CreationOptional<string>;
+  declare name: string;
+  declare displayName: string;
+  declare issuer: string;
+  declare clientId: string;
+  declare clientSecret: CreationOptional<string | null>;
+  declare scopes: CreationOptional<string>;
+  declare claimMapping: CreationOptional<OidcClaimMapping | null>;
+  declare roleClaim: CreationOptional<string | null>;
+  declare roleMappings: CreationOptional<OidcRoleMapping[] | null>;
+  declare autoProvision: CreationOptional<boolean>;
+  declare isEnabled: CreationOptional<boolean>;
+  declare createdBy: CreationOptional<string | null>;
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  toJSON(): any {
+    const result: any = { ...this.get() };
+    result.hasClientSecret = !!result.clientSecret;
+    delete result.clientSecret;
+    return result;
+  }
+}
+
+OidcProvider.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+      comment: 'URL slug, e.g. azure in /auth/oidc/azure/login',
+    },
+    displayName: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    issuer: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      comment: 'Issuer URL; metadata is discovered from <issuer>/.well-known/openid-configuration',
+    },
+    clientId: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    clientSecret: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      comment: 'Encrypted client secret; null for public clients that rely on PKCE alone',
+    },
+    scopes: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      defaultValue: 'openid profile email',
+    },
+    claimMapping: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: 'ID token claims holding the username, email and names; null uses the standard claims',
+    },
+    roleClaim: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      comment: 'ID token claim listing groups or roles, e.g. groups',
+    },
+    roleMappings: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: 'Values of the role claim and the role each grants',
+    },
+    autoProvision: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+      comment: 'Create a user on first sign-in; otherwise only existing linked users can sign in',
+    },
+    isEnabled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'OidcProvider',
+    tableName: 'oidc_providers',
+    timestamps: true,
+  }
+);
@@ -0,0 +1,152 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  Association,
+  NonAttribute,
+  ForeignKey,
+  Transaction,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import { ORG_UNIT_LEVELS, OrgUnitLevel } from '../types/org-unit.types';
+
+/**
+ * A node of the ISA-95 hierarchy: enterprise, site, area, line or work cell.
+ * Roles assigned at a unit apply to it and every unit below it.
+ */
+export class OrgUnit extends Model<
+  InferAttributes<OrgUnit>,
+  InferCreationAttributes<OrgUnit>
+> {
+  declare id: CreationOptional<string>;
+  declare name: string;
+  declare code: string;
+  declare level: OrgUnitLevel;
+  declare parentId: ForeignKey<OrgUnit['id']> | null;
+  declare description: CreationOptional<string | null>;
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  // Associations
+  declare parent?: NonAttribute<OrgUnit>;
+  declare children?: NonAttribute<OrgUnit[]>;
+
+  declare static associations: {
+    parent: Association<OrgUnit, OrgUnit>;
+    children: Association<OrgUnit, OrgUnit>;
+  };
+
+  // Static methods
+  static associate(models: any): void {
+    OrgUnit.belongsTo(models.OrgUnit, {
+      as: 'parent',
+      foreignKey: 'parentId',
+    });
+
+    OrgUnit.hasMany(models.OrgUnit, {
+      as: 'children',
+      foreignKey: 'parentId',
+    });
+
+    OrgUnit.hasMany(models.ScopedRoleAssignment, {
+      as: 'roleAssignments',
+      foreignKey: 'orgUnitId',
+    });
+  }
+
+  /**
+   * Get the IDs of all ancestors of a unit, nearest parent first
+   */
+  static async getAncestorIds(orgUnitId: string, transaction?: Transaction): Promise<string[]> {
+    const parentOf = await OrgUnit.getParentMap(transaction);
+    const ancestors: string[] = [];
+    let current = parentOf.get(orgUnitId);
+
+    while (current && current !== orgUnitId && !ancestors.includes(current)) {
+      ancestors.push(current);
+      current = parentOf.get(current);
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * A unit followed by its ancestors: every unit whose role assignments apply to it
+   */
+  static async getScopeChain(orgUnitId: string, transaction?: Transaction): Promise<string[]> {
+    return [orgUnitId, ...(await OrgUnit.getAncestorIds(orgUnitId, transaction))];
+  }
+
+  /**
+   * Level a child of a unit at the given level must have, or null for work cells
+   */
+  static childLevel(level: OrgUnitLevel): OrgUnitLevel | null {
+    return ORG_UNIT_LEVELS[ORG_UNIT_LEVELS.indexOf(level) + 1] ?? null;
+  }
+
+  private static async getParentMap(transaction?: Transaction): Promise<Map<string, string | null>> {
+    const units = await OrgUnit.findAll({
+      attributes: ['id', 'parentId'],
+      raw: true,
+      transaction,
+    });
+
+    return new Map(units.map(unit => [unit.id, unit.parentId]));
+  }
+}
+
+OrgUnit.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    code: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+    },
+    level: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      validate: {
+        isIn: [[...ORG_UNIT_LEVELS]],
+      },
+    },
+    parentId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'org_units',
+        key: 'id',
+      },
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'OrgUnit',
+    tableName: 'org_units',
+    timestamps: true,
+    indexes: [
+      { fields: ['parentId'] },
+      { fields: ['level'] },
+    ],
+  }
+);
@@ -7,6 +7,7 @@ import {
   ForeignKey,
   NonAttribute,
   Association,
+  Transaction,
 } from 'sequelize';
 import { sequelize } from '@config/database';
 import { User } from './User';
@@ -18,10 +19,16 @@ export class RefreshToken extends Model<
 > {
   declare id: CreationOptional<string>;
   declare userId: ForeignKey<User['id']>;
-  declare token: string;
+  declare tokenHash: string;
   declare expiresAt: Date;
+  declare familyId: CreationOptional<string>;
+  declare revokedAt: CreationOptional<Date | null>;
+  declare replacedBy: CreationOptional<string | null>;
   declare ipAddress: CreationOptional<string | null>;
   declare userAgent: CreationOptional<string | null>;
+  // Set on tokens issued to an OAuth client, which are limited to the granted scopes
+  declare clientId: CreationOptional<string | null>;
+  declare scopes: CreationOptional<string[] | null>;
   declare createdAt: CreationOptional<Date>;
 
   // Associations
@@ -39,8 +46,8 @@ export class RefreshToken extends Model<
     });
   }
 
-  static generateToken(): string {
-    return crypto.randomBytes(32).toString('hex');
+  static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
   }
 
   static calculateExpiry(): Date {
@@ -76,13 +83,36 @@ export class RefreshToken extends Model<
     return now;
   }
 
+  /**
+   * Revoke every active token descended from the same login
+   */
+  static async revokeFamily(familyId: string, transaction?: Transaction): Promise<number> {
+    const [revoked] = await RefreshToken.update(
+      { revokedAt: new Date() },
+      { where: { familyId, revokedAt: null }, transaction }
+    );
+
+    return revoked;
+  }
+
   // Instance methods
   isExpired(): boolean {
     return new Date() > this.expiresAt;
   }
 
-  async revoke(): Promise<void> {
-    await this.destroy();
+  isRevoked(): boolean {
+    return this.revokedAt !== null && this.revokedAt !== undefined;
+  }
+
+  /**
+   * A token that was rotated has a successor; presenting it again means it was copied
+   */
+  isRotated(): boolean {
+    return this.replacedBy !== null && this.replacedBy !== undefined;
+  }
+
+  async revoke(transaction?: Transaction): Promise<void> {
+    await this.update({ revokedAt: new Date() }, { transaction });
   }
 }
 
@@ -101,15 +131,30 @@ RefreshToken.init(
         key: 'id',
       },
     },
-    token: {
-      type: DataTypes.STRING(500),
+    tokenHash: {
+      type: DataTypes.STRING(64),
       allowNull: false,
       unique: true,
+      comment: 'SHA-256 digest of the signed refresh token; the raw token is never stored',
     },
     expiresAt: {
       type: DataTypes.DATE,
       allowNull: false,
     },
+    familyId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      comment: 'Shared by all tokens rotated from the same login',
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    replacedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'ID of the token issued when this one was rotated',
+    },
     ipAddress: {
       type: DataTypes.STRING(45), // Supports IPv6
       allowNull: true,
@@ -118,6 +163,20 @@ RefreshToken.init(
       type: DataTypes.TEXT,
       allowNull: true,
     },
+    clientId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'oauth_clients',
+        key: 'id',
+      },
+      comment: 'OAuth client the token was issued to; null for our own logins',
+    },
+    scopes: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: 'Scopes granted to the OAuth client',
+    },
     createdAt: {
       type: DataTypes.DATE,
     },
@@ -128,18 +187,20 @@ RefreshToken.init(
     tableName: 'refresh_tokens',
     timestamps: false,
     indexes: [
-      { fields: ['token'] },
       { fields: ['userId'] },
+      { fields: ['familyId'] },
       { fields: ['expiresAt'] },
+      { fields: ['clientId'] },
     ],
     hooks: {
       beforeCreate: (token: RefreshToken) => {
-        if (!token.token) {
-          token.token = RefreshToken.generateToken();
-        }
         if (!token.expiresAt) {
           token.expiresAt = RefreshToken.calculateExpiry();
         }
+        if (!token.familyId) {
+          // A new login starts a family named after its first token
+          token.familyId = token.id;
+        }
         if (!token.createdAt) {
           token.createdAt = new Date();
         }
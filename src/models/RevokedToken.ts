@@ -0,0 +1,120 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  ForeignKey,
+  NonAttribute,
+  Association,
+  Op,
+  Transaction,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import { User } from './User';
+
+/**
+ * Denylist of access tokens (by jti) that were revoked before they expired
+ */
+export class RevokedToken extends Model<
+  InferAttributes<RevokedToken>,
+  InferCreationAttributes<RevokedToken>
+> {
+  declare jti: string;
+  declare userId: ForeignKey<User['id']>;
+  declare expiresAt: Date;
+  declare reason: CreationOptional<string | null>;
+  declare createdAt: CreationOptional<Date>;
+
+  // Associations
+  declare user?: NonAttribute<User>;
+
+  declare static associations: {
+    user: Association<RevokedToken, User>;
+  };
+
+  // Static methods
+  static associate(models: any): void {
+    RevokedToken.belongsTo(models.User, {
+      as: 'user',
+      foreignKey: 'userId',
+    });
+  }
+
+  static async isRevoked(jti: string): Promise<boolean> {
+    const count = await RevokedToken.count({ where: { jti } });
+    return count > 0;
+  }
+
+  /**
+   * Add a token to the denylist; it only needs to stay listed until it expires
+   */
+  static async revoke(
+    jti: string,
+    userId: string,
+    expiresAt: Date,
+    reason: string | null = null,
+    transaction?: Transaction
+  ): Promise<void> {
+    await RevokedToken.findOrCreate({
+      where: { jti },
+      defaults: { jti, userId, expiresAt, reason },
+      transaction,
+    });
+  }
+
+  static async cleanExpired(): Promise<number> {
+    return RevokedToken.destroy({
+      where: {
+        expiresAt: {
+          [Op.lt]: new Date(),
+        },
+      },
+    });
+  }
+}
+
+RevokedToken.init(
+  {
+    jti: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    reason: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'RevokedToken',
+    tableName: 'revoked_tokens',
+    timestamps: false,
+    indexes: [
+      { fields: ['userId'] },
+      { fields: ['expiresAt'] },
+    ],
+    hooks: {
+      beforeCreate: (token: RevokedToken) => {
+        if (!token.createdAt) {
+          token.createdAt = new Date();
+        }
+      },
+    },
+  }
+);
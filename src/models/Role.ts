@@ -6,6 +6,8 @@ import {
   CreationOptional,
   Association,
   NonAttribute,
+  ForeignKey,
+  Transaction,
 } from 'sequelize';
 import { sequelize } from '@config/database';
 import { User } from './User';
@@ -19,17 +21,23 @@ export class Role extends Model<
   declare id: CreationOptional<string>;
   declare name: string;
   declare description: string | null;
+  declare parentId: ForeignKey<Role['id']> | null;
   declare isSystem: CreationOptional<boolean>;
+  declare mfaRequired: CreationOptional<boolean>;
   declare isActive: CreationOptional<boolean>;
   declare createdAt: CreationOptional<Date>;
   declare updatedAt: CreationOptional<Date>;
 
   // Associations
+  declare parent?: NonAttribute<Role>;
+  declare children?: NonAttribute<Role[]>;
   declare users?: NonAttribute<User[]>;
   declare permissions?: NonAttribute<Permission[]>;
   declare menus?: NonAttribute<Menu[]>;
 
   declare static associations: {
+    parent: Association<Role, Role>;
+    children: Association<Role, Role>;
     users: Association<Role, User>;
     permissions: Association<Role, Permission>;
     menus: Association<Role, Menu>;
@@ -61,6 +69,17 @@ export class Role extends Model<
 
   // Static methods
   static associate(models: any): void {
+    Role.belongsTo(Role, {
+      as: 'parent',
+      foreignKey: 'parentId',
+      onDelete: 'SET NULL',
+    });
+
+    Role.hasMany(Role, {
+      as: 'children',
+      foreignKey: 'parentId',
+    });
+
     Role.belongsToMany(models.User, {
       through: models.UserRole,
       as: 'users',
@@ -83,6 +102,78 @@ export class Role extends Model<
     });
   }
 
+  /**
+   * Expand a set of role IDs with every ancestor they inherit from.
+   * The parent links are loaded once and walked in memory, so the result
+   * is safe against cycles that may exist in legacy data.
+   */
+  static async getEffectiveRoleIds(roleIds: string[], transaction?: Transaction): Promise<string[]> {
+    if (roleIds.length === 0) {
+      return [];
+    }
+
+    const parentOf = await Role.getParentMap(transaction);
+    const effective = new Set<string>();
+
+    for (const roleId of roleIds) {
+      let current: string | null | undefined = roleId;
+      while (current && !effective.has(current)) {
+        effective.add(current);
+        current = parentOf.get(current);
+      }
+    }
+
+    return Array.from(effective);
+  }
+
+  /**
+   * Get the IDs of all ancestors of a role, nearest parent first
+   */
+  static async getAncestorIds(roleId: string, transaction?: Transaction): Promise<string[]> {
+    const parentOf = await Role.getParentMap(transaction);
+    const ancestors: string[] = [];
+    let current = parentOf.get(roleId);
+
+    while (current && current !== roleId && !ancestors.includes(current)) {
+      ancestors.push(current);
+      current = parentOf.get(current);
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Get the IDs of all roles that inherit from a role, directly or indirectly
+   */
+  static async getDescendantIds(roleId: string, transaction?: Transaction): Promise<string[]> {
+    const parentOf = await Role.getParentMap(transaction);
+    const descendants = new Set<string>();
+    let frontier = [roleId];
+
+    while (frontier.length > 0) {
+      const next: string[] = [];
+      for (const [id, parentId] of parentOf) {
+        if (parentId && frontier.includes(parentId) && id !== roleId && !descendants.has(id)) {
+          descendants.add(id);
+          next.push(id);
+        }
+      }
+      frontier = next;
+    }
+
+    return Array.from(descendants);
+  }
+
+  private static async getParentMap(transaction?: Transaction): Promise<Map<string, string | null>> {
+    const roles = await Role.findAll({
+      attributes: ['id', 'parentId'],
+      raw: true,
+      transaction,
+    });
+
+    return new Map(roles.map(role => [role.id, role.parentId]));
+  }
+
   // Instance methods
   async hasPermissionByName(permissionName: string): Promise<boolean> {
     if (!this.permissions) {
@@ -124,12 +215,27 @@ Role.init(
       type: DataTypes.TEXT,
       allowNull: true,
     },
+    parentId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'roles',
+        key: 'id',
+      },
+      comment: 'Parent role whose permissions are inherited',
+    },
     isSystem: {
       type: DataTypes.BOOLEAN,
       defaultValue: false,
       allowNull: false,
       comment: 'System roles cannot be deleted',
     },
+    mfaRequired: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false,
+      allowNull: false,
+      comment: 'Members (including of child roles) must sign in with MFA',
+    },
     isActive: {
       type: DataTypes.BOOLEAN,
       defaultValue: true,
@@ -150,6 +256,7 @@ Role.init(
     indexes: [
       { fields: ['name'] },
       { fields: ['isSystem'] },
+      { fields: ['parentId'] },
     ],
     hooks: {
       beforeDestroy: async (role: Role) => {
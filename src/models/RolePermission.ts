@@ -12,6 +12,8 @@ import { sequelize } from '@config/database';
 import { Role } from './Role';
 import { Permission } from './Permission';
 import { User } from './User';
+import { PermissionEffect } from '../types/permission.types';
+import { ConditionUtil } from '../utils/condition.util';
 
 export class RolePermission extends Model<
   InferAttributes<RolePermission>,
@@ -19,6 +21,9 @@ export class RolePermission extends Model<
 > {
   declare roleId: ForeignKey<Role['id']>;
   declare permissionId: ForeignKey<Permission['id']>;
+  declare effect: CreationOptional<PermissionEffect>;
+  // Expression the entry applies under (see ConditionUtil); null applies always
+  declare condition: CreationOptional<string | null>;
   declare grantedAt: CreationOptional<Date>;
   declare grantedBy: ForeignKey<User['id']> | null;
 
@@ -70,6 +75,23 @@ RolePermission.init(
         key: 'id',
       },
     },
+    effect: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      defaultValue: 'allow',
+      validate: {
+        isIn: [['allow', 'deny']],
+      },
+    },
+    condition: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      validate: {
+        isValidCondition(value: string) {
+          ConditionUtil.validate(value);
+        },
+      },
+    },
     grantedAt: {
       type: DataTypes.DATE,
       defaultValue: DataTypes.NOW,
@@ -0,0 +1,116 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  ForeignKey,
+  NonAttribute,
+  Association,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import { User } from './User';
+import { Role } from './Role';
+import { OrgUnit } from './OrgUnit';
+
+/**
+ * A role held only within an org unit and the units below it. Assignments
+ * through UserRole keep applying everywhere.
+ */
+export class ScopedRoleAssignment extends Model<
+  InferAttributes<ScopedRoleAssignment>,
+  InferCreationAttributes<ScopedRoleAssignment>
+> {
+  declare id: CreationOptional<string>;
+  declare userId: ForeignKey<User['id']>;
+  declare roleId: ForeignKey<Role['id']>;
+  declare orgUnitId: ForeignKey<OrgUnit['id']>;
+  declare assignedAt: CreationOptional<Date>;
+  declare assignedBy: ForeignKey<User['id']> | null;
+
+  // Associations
+  declare user?: NonAttribute<User>;
+  declare role?: NonAttribute<Role>;
+  declare orgUnit?: NonAttribute<OrgUnit>;
+
+  declare static associations: {
+    user: Association<ScopedRoleAssignment, User>;
+    role: Association<ScopedRoleAssignment, Role>;
+    orgUnit: Association<ScopedRoleAssignment, OrgUnit>;
+  };
+
+  // Static methods
+  static associate(models: any): void {
+    ScopedRoleAssignment.belongsTo(models.User, {
+      as: 'user',
+      foreignKey: 'userId',
+    });
+
+    ScopedRoleAssignment.belongsTo(models.Role, {
+      as: 'role',
+      foreignKey: 'roleId',
+    });
+
+    ScopedRoleAssignment.belongsTo(models.OrgUnit, {
+      as: 'orgUnit',
+      foreignKey: 'orgUnitId',
+    });
+  }
+}
+
+ScopedRoleAssignment.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    roleId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'roles',
+        key: 'id',
+      },
+    },
+    orgUnitId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'org_units',
+        key: 'id',
+      },
+    },
+    assignedAt: {
+      type: DataTypes.DATE,
+      defaultValue: DataTypes.NOW,
+    },
+    assignedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ScopedRoleAssignment',
+    tableName: 'scoped_role_assignments',
+    timestamps: false,
+    indexes: [
+      { unique: true, fields: ['userId', 'roleId', 'orgUnitId'] },
+      { fields: ['orgUnitId'] },
+      { fields: ['roleId'] },
+    ],
+  }
+);
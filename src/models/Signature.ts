@@ -0,0 +1,173 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+  ForeignKey,
+  NonAttribute,
+  Association,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import crypto from 'crypto';
+import { User } from './User';
+
+/**
+ * Electronic signature binding a user, the meaning of the signature and the
+ * hash of the signed record. The manifest hash is an HMAC over those fields,
+ * so a row changed after signing no longer verifies.
+ */
+export class Signature extends Model<
+  InferAttributes<Signature>,
+  InferCreationAttributes<Signature>
+> {
+  declare id: CreationOptional<string>;
+  declare userId: ForeignKey<User['id']>;
+  declare signerUsername: string;
+  declare signerName: string;
+  declare meaning: string;
+  declare permission: string;
+  declare resourceType: string;
+  declare resourceId: string;
+  declare recordHash: string;
+  declare reason: CreationOptional<string | null>;
+  declare signedAt: Date;
+  declare ipAddress: CreationOptional<string | null>;
+  declare manifestHash: string;
+  declare consumedAt: CreationOptional<Date | null>;
+
+  // Associations
+  declare user?: NonAttribute<User>;
+
+  declare static associations: {
+    user: Association<Signature, User>;
+  };
+
+  // Static methods
+  static associate(models: any): void {
+    Signature.belongsTo(models.User, {
+      as: 'user',
+      foreignKey: 'userId',
+    });
+  }
+
+  /**
+   * HMAC over the fields a signer attests to. Fields are joined with a
+   * separator that cannot occur in them, so values cannot be shifted
+   * between fields.
+   */
+  static computeManifestHash(
+    fields: Pick<Signature, 'id' | 'userId' | 'signerName' | 'meaning' | 'permission' | 'resourceType' | 'resourceId' | 'recordHash' | 'signedAt'>,
+    secret: string
+  ): string {
+    const manifest = [
+      fields.id,
+      fields.userId,
+      fields.signerName,
+      fields.meaning,
+      fields.permission,
+      fields.resourceType,
+      fields.resourceId,
+      fields.recordHash,
+      fields.signedAt.toISOString(),
+    ].join('\u0000');
+
+    return crypto.createHmac('sha256', secret).update(manifest).digest('hex');
+  }
+
+  // Instance methods
+  hasValidManifest(secret: string): boolean {
+    const expected = Buffer.from(Signature.computeManifestHash(this, secret), 'hex');
+    const actual = Buffer.from(this.manifestHash, 'hex');
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  toJSON(): any {
+    const result: any = { ...this.get() };
+    delete result.manifestHash;
+    return result;
+  }
+}
+
+Signature.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    signerUsername: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    signerName: {
+      type: DataTypes.STRING(101),
+      allowNull: false,
+      comment: 'Printed name of the signer at the time of signing',
+    },
+    meaning: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      comment: 'What the signature means, e.g. approved or reviewed',
+    },
+    permission: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      comment: 'Permission of the action the signature authorizes',
+    },
+    resourceType: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    resourceId: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    recordHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      comment: 'SHA-256 digest of the signed record',
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    signedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    ipAddress: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+    },
+    manifestHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      comment: 'HMAC-SHA256 over the signature manifest; detects later changes',
+    },
+    consumedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'When a guarded action used the signature; each signature authorizes one action',
+    },
+  },
+  {
+    sequelize,
+    modelName: 'Signature',
+    tableName: 'signatures',
+    timestamps: false,
+    indexes: [
+      { fields: ['resourceType', 'resourceId'] },
+      { fields: ['userId'] },
+    ],
+  }
+);
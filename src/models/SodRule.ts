@@ -0,0 +1,69 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+
+/**
+ * A static separation-of-duties rule: no user may hold more than `maxRoles`
+ * of `roleIds`, counting roles inherited through the role hierarchy. Two
+ * roles with `maxRoles` 1 are mutually exclusive.
+ */
+export class SodRule extends Model<
+  InferAttributes<SodRule>,
+  InferCreationAttributes<SodRule>
+> {
+  declare id: CreationOptional<string>;
+  declare name: string;
+  declare description: CreationOptional<string | null>;
+  declare roleIds: string[];
+  declare maxRoles: CreationOptional<number>;
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+}
+
+SodRule.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true,
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    roleIds: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    maxRoles: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 1,
+      validate: {
+        min: 1,
+      },
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'SodRule',
+    tableName: 'sod_rules',
+    timestamps: true,
+  }
+);
@@ -0,0 +1,131 @@
+import {
+  Model,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  CreationOptional,
+} from 'sequelize';
+import { sequelize } from '@config/database';
+import crypto from 'crypto';
+
+const KEY_PATTERN = /^term_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+/**
+ * Shop-floor terminal that may accept badge logins. Terminals identify
+ * themselves with a key shaped like `term_<prefix>_<secret>`; the prefix
+ * finds the row and only a SHA-256 digest of the whole key is stored.
+ */
+export class Terminal extends Model<
+  InferAttributes<Terminal>,
+  InferCreationAttributes<Terminal>
+> {
+  declare id: CreationOptional<string>;
+  declare name: string;
+  declare location: CreationOptional<string | null>;
+  declare prefix: string;
+  declare keyHash: string;
+  declare isActive: CreationOptional<boolean>;
+  declare lastUsedAt: CreationOptional<Date | null>;
+  declare lastUsedIp: CreationOptional<string | null>;
+  declare createdBy: CreationOptional<string | null>;
+  declare createdAt: CreationOptional<Date>;
+  declare updatedAt: CreationOptional<Date>;
+
+  // Static methods
+  static generateKey(): { key: string; prefix: string; keyHash: string } {
+    const prefix = crypto.randomBytes(6).toString('hex');
+    const key = `term_${prefix}_${crypto.randomBytes(32).toString('base64url')}`;
+
+    return { key, prefix, keyHash: Terminal.hashKey(key) };
+  }
+
+  static hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Extract the lookup prefix, or null when the value is not shaped like a terminal key
+   */
+  static parsePrefix(key: string): string | null {
+    const match = KEY_PATTERN.exec(key);
+    return match ? match[1] : null;
+  }
+
+  // Instance methods
+  matches(key: string): boolean {
+    const expected = Buffer.from(this.keyHash, 'hex');
+    const actual = Buffer.from(Terminal.hashKey(key), 'hex');
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  toJSON(): any {
+    const result: any = { ...this.get() };
+    delete result.keyHash;
+    return result;
+  }
+}
+
+Terminal.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true,
+    },
+    location: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      comment: 'Work cell or line the terminal is installed at',
+    },
+    prefix: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      unique: true,
+      comment: 'Public part of the terminal key, used to find it and to identify it in listings',
+    },
+    keyHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      comment: 'SHA-256 digest of the full key; the raw key is never stored',
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lastUsedIp: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+    },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'Terminal',
+    tableName: 'terminals',
+    timestamps: true,
+  }
+);
@@ -6,12 +6,23 @@ import {
   CreationOptional,
   Association,
   NonAttribute,
+  Transaction,
 } from 'sequelize';
 import { sequelize } from '@config/database';
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import { Role } from './Role';
 import { RefreshToken } from './RefreshToken';
 import { AuditLog } from './AuditLog';
+import { ScopedRoleAssignment } from './ScopedRoleAssignment';
+import { ElevationRequest } from './ElevationRequest';
+
+export type AuthProviderName = 'local' | 'ldap' | 'oidc';
+
+/**
+ * Attributes permission conditions can refer to as `user.<name>`
+ */
+export type UserAttributes = Record<string, string | number | boolean | Array<string | number>>;
 
 export class User extends Model<
   InferAttributes<User>,
@@ -25,6 +36,21 @@ export class User extends Model<
   declare lastName: string | null;
   declare isActive: CreationOptional<boolean>;
   declare isSuperuser: CreationOptional<boolean>;
+  declare emailVerified: CreationOptional<boolean>;
+  declare emailVerifiedAt: CreationOptional<Date | null>;
+  declare failedLoginAttempts: CreationOptional<number>;
+  declare lockoutCount: CreationOptional<number>;
+  declare lockedUntil: CreationOptional<Date | null>;
+  declare mfaEnabled: CreationOptional<boolean>;
+  declare mfaSecret: CreationOptional<string | null>;
+  declare mfaLastUsedStep: CreationOptional<number | null>;
+  declare permissionsVersion: CreationOptional<number>;
+  declare isServiceAccount: CreationOptional<boolean>;
+  declare authProvider: CreationOptional<AuthProviderName>;
+  declare externalId: CreationOptional<string | null>;
+  declare badgeIdHash: CreationOptional<string | null>;
+  declare pinHash: CreationOptional<string | null>;
+  declare attributes: CreationOptional<UserAttributes | null>;
   declare lastLogin: Date | null;
   declare createdAt: CreationOptional<Date>;
   declare updatedAt: CreationOptional<Date>;
@@ -33,16 +59,20 @@ export class User extends Model<
   declare roles?: NonAttribute<Role[]>;
   declare refreshTokens?: NonAttribute<RefreshToken[]>;
   declare auditLogs?: NonAttribute<AuditLog[]>;
+  declare scopedRoleAssignments?: NonAttribute<ScopedRoleAssignment[]>;
+  declare elevationRequests?: NonAttribute<ElevationRequest[]>;
 
   declare static associations: {
     roles: Association<User, Role>;
     refreshTokens: Association<User, RefreshToken>;
     auditLogs: Association<User, AuditLog>;
+    scopedRoleAssignments: Association<User, ScopedRoleAssignment>;
+    elevationRequests: Association<User, ElevationRequest>;
   };
 
   // Association methods for roles (belongsToMany)
   declare getRoles: () => Promise<Role[]>;
-  declare setRoles: (roles: Role[] | string[]) => Promise<void>;
+  declare setRoles: (roles: Role[] | string[], options?: { transaction?: Transaction }) => Promise<void>;
   declare addRole: (role: Role | string) => Promise<void>;
   declare addRoles: (roles: Role[] | string[]) => Promise<void>;
   declare removeRole: (role: Role | string) => Promise<void>;
@@ -62,6 +92,14 @@ export class User extends Model<
     this.password = await bcrypt.hash(password, rounds);
   }
 
+  async validatePin(pin: string): Promise<boolean> {
+    return !!this.pinHash && bcrypt.compare(pin, this.pinHash);
+  }
+
+  isLocked(): boolean {
+    return !!this.lockedUntil && this.lockedUntil > new Date();
+  }
+
   getFullName(): string {
     if (this.firstName && this.lastName) {
       return `${this.firstName} ${this.lastName}`;
@@ -75,10 +113,28 @@ export class User extends Model<
     if ('password' in result) {
       delete result.password;
     }
+    if ('mfaSecret' in result) {
+      delete result.mfaSecret;
+    }
+    if ('badgeIdHash' in result) {
+      result.hasBadge = !!result.badgeIdHash;
+      delete result.badgeIdHash;
+    }
+    if ('pinHash' in result) {
+      delete result.pinHash;
+    }
     return result;
   }
 
   // Static methods
+  /**
+   * Digest of a badge identifier for lookup. Readers differ in letter case
+   * and padding, so the identifier is normalized first.
+   */
+  static hashBadgeId(badgeId: string): string {
+    return crypto.createHash('sha256').update(badgeId.trim().toUpperCase()).digest('hex');
+  }
+
   static associate(models: any): void {
     User.belongsToMany(models.Role, {
       through: models.UserRole,
@@ -100,6 +156,24 @@ export class User extends Model<
       foreignKey: 'userId',
       sourceKey: 'id',
     });
+
+    User.hasMany(models.ApiKey, {
+      as: 'apiKeys',
+      foreignKey: 'userId',
+      sourceKey: 'id',
+    });
+
+    User.hasMany(models.ScopedRoleAssignment, {
+      as: 'scopedRoleAssignments',
+      foreignKey: 'userId',
+      sourceKey: 'id',
+    });
+
+    User.hasMany(models.ElevationRequest, {
+      as: 'elevationRequests',
+      foreignKey: 'userId',
+      sourceKey: 'id',
+    });
   }
 }
 
@@ -116,9 +190,10 @@ User.init(
       unique: true,
       validate: {
         len: [3, 50],
-        isAlphanumericWithUnderscore(value: string) {
-          if (!/^[a-zA-Z0-9_]+$/.test(value)) {
-            throw new Error('Username can only contain letters, numbers, and underscores');
+        isValidUsername(value: string) {
+          // Dots and hyphens are common in directory (LDAP/AD) account names
+          if (!/^[a-zA-Z0-9_.-]+$/.test(value)) {
+            throw new Error('Username can only contain letters, numbers, underscores, dots, and hyphens');
           }
         },
       },
@@ -153,6 +228,85 @@ User.init(
       defaultValue: false,
       allowNull: false,
     },
+    emailVerified: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false,
+      allowNull: false,
+    },
+    emailVerifiedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    failedLoginAttempts: {
+      type: DataTypes.INTEGER,
+      defaultValue: 0,
+      allowNull: false,
+      comment: 'Consecutive failed logins since the last success or lockout',
+    },
+    lockoutCount: {
+      type: DataTypes.INTEGER,
+      defaultValue: 0,
+      allowNull: false,
+      comment: 'Consecutive lockouts; drives the exponential backoff',
+    },
+    lockedUntil: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    mfaEnabled: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false,
+      allowNull: false,
+    },
+    mfaSecret: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      comment: 'Encrypted TOTP secret; set during enrollment, confirmed when mfaEnabled',
+    },
+    mfaLastUsedStep: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      comment: 'Last accepted TOTP time step, used to reject replayed codes',
+    },
+    permissionsVersion: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Bumped when effective permissions change; access tokens carrying an older value are rejected',
+    },
+    isServiceAccount: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false,
+      allowNull: false,
+      comment: 'Non-human principal that authenticates with API keys and cannot log in with a password',
+    },
+    authProvider: {
+      type: DataTypes.STRING(20),
+      defaultValue: 'local',
+      allowNull: false,
+      comment: 'Authentication provider that verifies the user: local, ldap or oidc',
+    },
+    externalId: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      comment: 'Identifier of the account at the provider, e.g. the LDAP DN',
+    },
+    badgeIdHash: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      unique: true,
+      comment: 'SHA-256 digest of the RFID badge identifier; the raw identifier is never stored',
+    },
+    pinHash: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      comment: 'Bcrypt hash of the badge PIN',
+    },
+    attributes: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: 'Attributes permission conditions can refer to, e.g. shift or certifications',
+    },
     lastLogin: {
       type: DataTypes.DATE,
       allowNull: true,
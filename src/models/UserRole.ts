@@ -20,6 +20,9 @@ export class UserRole extends Model<
   declare roleId: ForeignKey<Role['id']>;
   declare assignedAt: CreationOptional<Date>;
   declare assignedBy: ForeignKey<User['id']> | null;
+  // The role applies only between these times; null leaves that end open
+  declare validFrom: CreationOptional<Date | null>;
+  declare validUntil: CreationOptional<Date | null>;
 
   // Associations
   declare user?: NonAttribute<User>;
@@ -32,6 +35,33 @@ export class UserRole extends Model<
     assigner: Association<UserRole, User>;
   };
 
+  /**
+   * Whether an assignment applies at the given time
+   */
+  static isInEffect(
+    assignment: { validFrom?: Date | string | null; validUntil?: Date | string | null },
+    now: Date = new Date()
+  ): boolean {
+    const from = assignment.validFrom ? new Date(assignment.validFrom) : null;
+    const until = assignment.validUntil ? new Date(assignment.validUntil) : null;
+
+    return (!from || from <= now) && (!until || until > now);
+  }
+
+  /**
+   * Column values for the ends of a validity that are given, as dates
+   */
+  static toValidityValues(
+    validity: { validFrom?: Date | string | null; validUntil?: Date | string | null }
+  ): Partial<Pick<InferAttributes<UserRole>, 'validFrom' | 'validUntil'>> {
+    const toDate = (value: Date | string | null) => (value === null ? null : new Date(value));
+
+    return {
+      ...(validity.validFrom !== undefined ? { validFrom: toDate(validity.validFrom) } : {}),
+      ...(validity.validUntil !== undefined ? { validUntil: toDate(validity.validUntil) } : {})
+    };
+  }
+
   // Static methods
   static associate(models: any): void {
     UserRole.belongsTo(models.User, {
@@ -84,6 +114,14 @@ UserRole.init(
         key: 'id',
       },
     },
+    validFrom: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    validUntil: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
   },
   {
     sequelize,
@@ -93,6 +131,7 @@ UserRole.init(
     indexes: [
       { fields: ['userId'] },
       { fields: ['roleId'] },
+      { fields: ['validUntil'] },
     ],
   }
 );
\ No newline at end of file
@@ -9,6 +9,24 @@ import { AuditLog } from './AuditLog';
 import { UserRole } from './UserRole';
 import { RolePermission } from './RolePermission';
 import { MenuPermission } from './MenuPermission';
+import { PasswordReset } from './PasswordReset';
+import { EmailVerification } from './EmailVerification';
+import { MfaRecoveryCode } from './MfaRecoveryCode';
+import { RevokedToken } from './RevokedToken';
+import { ApiKey } from './ApiKey';
+import { LdapGroupMapping } from './LdapGroupMapping';
+import { OidcProvider } from './OidcProvider';
+import { OidcLoginState } from './OidcLoginState';
+import { OAuthClient } from './OAuthClient';
+import { OAuthAuthorizationCode } from './OAuthAuthorizationCode';
+import { OAuthConsent } from './OAuthConsent';
+import { Terminal } from './Terminal';
+import { Signature } from './Signature';
+import { ChangeRequest } from './ChangeRequest';
+import { OrgUnit } from './OrgUnit';
+import { ScopedRoleAssignment } from './ScopedRoleAssignment';
+import { SodRule } from './SodRule';
+import { ElevationRequest } from './ElevationRequest';
 
 // Define models object for associations
 const models = {
@@ -22,6 +40,24 @@ const models = {
   UserRole,
   RolePermission,
   MenuPermission,
+  PasswordReset,
+  EmailVerification,
+  MfaRecoveryCode,
+  RevokedToken,
+  ApiKey,
+  LdapGroupMapping,
+  OidcProvider,
+  OidcLoginState,
+  OAuthClient,
+  OAuthAuthorizationCode,
+  OAuthConsent,
+  Terminal,
+  Signature,
+  ChangeRequest,
+  OrgUnit,
+  ScopedRoleAssignment,
+  SodRule,
+  ElevationRequest,
 };
 
 // Initialize associations
@@ -43,6 +79,24 @@ export {
   UserRole,
   RolePermission,
   MenuPermission,
+  PasswordReset,
+  EmailVerification,
+  MfaRecoveryCode,
+  RevokedToken,
+  ApiKey,
+  LdapGroupMapping,
+  OidcProvider,
+  OidcLoginState,
+  OAuthClient,
+  OAuthAuthorizationCode,
+  OAuthConsent,
+  Terminal,
+  Signature,
+  ChangeRequest,
+  OrgUnit,
+  ScopedRoleAssignment,
+  SodRule,
+  ElevationRequest,
 };
 
 // Export sequelize instance
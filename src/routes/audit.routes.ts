@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers/audit.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate, ValidationTarget } from '../middlewares/validation.middleware';
+import { userIdSchema } from '../validators/user.validator';
+import {
+  listAuditLogsSchema,
+  searchAuditLogsSchema,
+  exportAuditLogsSchema,
+  auditStatisticsSchema,
+  auditLogIdSchema,
+  resourceHistoryParamsSchema,
+  auditHistoryQuerySchema
+} from '../validators/audit.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// List audit logs (requires permission)
+router.get(
+  '/',
+  requirePermission('audit:read'),
+  validate(listAuditLogsSchema, ValidationTarget.QUERY),
+  AuditController.getAuditLogs
+);
+
+// Search audit logs (requires permission)
+router.get(
+  '/search',
+  requirePermission('audit:read'),
+  validate(searchAuditLogsSchema, ValidationTarget.QUERY),
+  AuditController.searchAuditLogs
+);
+
+// Audit statistics (requires permission)
+router.get(
+  '/statistics',
+  requirePermission('audit:read'),
+  validate(auditStatisticsSchema, ValidationTarget.QUERY),
+  AuditController.getAuditStatistics
+);
+
+// Export audit logs as CSV or NDJSON (requires permission)
+router.get(
+  '/export',
+  requirePermission('audit:export'),
+  validate(exportAuditLogsSchema, ValidationTarget.QUERY),
+  AuditController.exportAuditLogs
+);
+
+// Activity of a user (requires permission)
+router.get(
+  '/users/:userId',
+  requirePermission('audit:read'),
+  validate(userIdSchema, ValidationTarget.PARAMS),
+  validate(auditHistoryQuerySchema, ValidationTarget.QUERY),
+  AuditController.getUserActivity
+);
+
+// History of a resource (requires permission)
+router.get(
+  '/resources/:resource/:resourceId',
+  requirePermission('audit:read'),
+  validate(resourceHistoryParamsSchema, ValidationTarget.PARAMS),
+  validate(auditHistoryQuerySchema, ValidationTarget.QUERY),
+  AuditController.getResourceHistory
+);
+
+// Get audit log by ID (requires permission)
+router.get(
+  '/:id',
+  requirePermission('audit:read'),
+  validate(auditLogIdSchema, ValidationTarget.PARAMS),
+  AuditController.getAuditLogById
+);
+
+export default router;
@@ -1,24 +1,51 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/auth.controller';
 import { authenticate, refreshTokenMiddleware } from '../middlewares/auth.middleware';
-import { validate } from '../middlewares/validation.middleware';
+import { OidcController } from '../controllers/oidc.controller';
+import { validate, ValidationTarget } from '../middlewares/validation.middleware';
 import { 
   registerSchema, 
   loginSchema, 
+  badgeLoginSchema,
   changePasswordSchema,
   forgotPasswordSchema,
   resetPasswordSchema,
+  verifyEmailSchema,
+  resendVerificationSchema,
+  mfaCodeSchema,
+  mfaSetupSchema,
+  mfaVerifySchema,
   updateProfileSchema
 } from '../validators/auth.validator';
+import { oidcProviderNameSchema, oidcCallbackSchema } from '../validators/oidc.validator';
 
 const router = Router();
 
 // Public routes
 router.post('/register', validate(registerSchema), AuthController.register);
 router.post('/login', validate(loginSchema), AuthController.login);
+router.post('/badge-login', validate(badgeLoginSchema), AuthController.badgeLogin);
 router.post('/refresh', refreshTokenMiddleware, AuthController.refreshToken);
 router.post('/forgot-password', validate(forgotPasswordSchema), AuthController.forgotPassword);
 router.post('/reset-password', validate(resetPasswordSchema), AuthController.resetPassword);
+router.post('/verify-email', validate(verifyEmailSchema), AuthController.verifyEmail);
+router.post('/resend-verification', validate(resendVerificationSchema), AuthController.resendVerification);
+router.post('/mfa/setup', validate(mfaSetupSchema), AuthController.setupMfaForLogin);
+router.post('/mfa/verify', validate(mfaVerifySchema), AuthController.verifyMfa);
+
+// OpenID Connect single sign-on
+router.get('/oidc/providers', OidcController.listProviders);
+router.get(
+  '/oidc/:provider/login',
+  validate(oidcProviderNameSchema, ValidationTarget.PARAMS),
+  OidcController.login
+);
+router.get(
+  '/oidc/:provider/callback',
+  validate(oidcProviderNameSchema, ValidationTarget.PARAMS),
+  validate(oidcCallbackSchema, ValidationTarget.QUERY),
+  OidcController.callback
+);
 
 // Protected routes
 router.use(authenticate); // All routes below require authentication
@@ -30,19 +57,21 @@ router.put('/me', validate(updateProfileSchema), AuthController.updateProfile);
 // Password management
 router.post('/change-password', validate(changePasswordSchema), AuthController.changePassword);
 
+// Multi-factor authentication
+router.post('/mfa/enroll', AuthController.enrollMfa);
+router.post('/mfa/enroll/confirm', validate(mfaCodeSchema), AuthController.confirmMfaEnrollment);
+router.post('/mfa/disable', validate(mfaCodeSchema), AuthController.disableMfa);
+router.post('/mfa/recovery-codes', validate(mfaCodeSchema), AuthController.regenerateRecoveryCodes);
+
 // Logout
 router.post('/logout', AuthController.logout);
 router.post('/logout-all', AuthController.logoutAll);
 
-// Email verification
-router.post('/verify-email', AuthController.verifyEmail);
-router.post('/resend-verification', AuthController.resendVerification);
-
 // Session management
 router.get('/sessions', AuthController.getSessions);
 router.delete('/sessions/:sessionId', AuthController.revokeSession);
 
-// Token validation (for microservices)
+// Validation of the caller's own token; resource servers use POST /oauth/introspect
 router.post('/validate', AuthController.validateToken);
 
 export default router;
\ No newline at end of file
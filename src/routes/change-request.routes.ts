@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { ChangeRequestController } from '../controllers/change-request.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate, ValidationTarget } from '../middlewares/validation.middleware';
+import {
+  listChangeRequestsSchema,
+  changeRequestIdSchema,
+  approveChangeRequestSchema,
+  rejectChangeRequestSchema,
+  addChangeRequestCommentSchema
+} from '../validators/change-request.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// List change requests (requires permission)
+router.get(
+  '/',
+  requirePermission('change_request:read'),
+  validate(listChangeRequestsSchema, ValidationTarget.QUERY),
+  ChangeRequestController.listChangeRequests
+);
+
+// Get change request by ID (requires permission)
+router.get(
+  '/:changeRequestId',
+  requirePermission('change_request:read'),
+  validate(changeRequestIdSchema, ValidationTarget.PARAMS),
+  ChangeRequestController.getChangeRequestById
+);
+
+// Approve change request (requires permission; the service also checks the permission the change needs)
+router.post(
+  '/:changeRequestId/approve',
+  requirePermission('change_request:approve'),
+  validate(changeRequestIdSchema, ValidationTarget.PARAMS),
+  validate(approveChangeRequestSchema, ValidationTarget.BODY),
+  ChangeRequestController.approveChangeRequest
+);
+
+// Reject change request (requires permission)
+router.post(
+  '/:changeRequestId/reject',
+  requirePermission('change_request:approve'),
+  validate(changeRequestIdSchema, ValidationTarget.PARAMS),
+  validate(rejectChangeRequestSchema, ValidationTarget.BODY),
+  ChangeRequestController.rejectChangeRequest
+);
+
+// Cancel change request (requester only)
+router.post(
+  '/:changeRequestId/cancel',
+  validate(changeRequestIdSchema, ValidationTarget.PARAMS),
+  ChangeRequestController.cancelChangeRequest
+);
+
+// Comment on change request (requires permission)
+router.post(
+  '/:changeRequestId/comments',
+  requirePermission('change_request:read'),
+  validate(changeRequestIdSchema, ValidationTarget.PARAMS),
+  validate(addChangeRequestCommentSchema, ValidationTarget.BODY),
+  ChangeRequestController.addComment
+);
+
+export default router;
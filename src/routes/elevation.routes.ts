@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { ElevationController } from '../controllers/elevation.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate, ValidationTarget } from '../middlewares/validation.middleware';
+import {
+  createElevationRequestSchema,
+  listElevationRequestsSchema,
+  listMyElevationRequestsSchema,
+  elevationIdSchema,
+  approveElevationSchema,
+  rejectElevationSchema
+} from '../validators/elevation.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Request elevation for oneself
+router.post(
+  '/',
+  validate(createElevationRequestSchema, ValidationTarget.BODY),
+  ElevationController.requestElevation
+);
+
+// List elevation requests (requires permission)
+router.get(
+  '/',
+  requirePermission('elevation:approve'),
+  validate(listElevationRequestsSchema, ValidationTarget.QUERY),
+  ElevationController.listElevationRequests
+);
+
+// List own elevation requests
+router.get(
+  '/mine',
+  validate(listMyElevationRequestsSchema, ValidationTarget.QUERY),
+  ElevationController.listMyElevationRequests
+);
+
+// Approve elevation request (requires permission)
+router.post(
+  '/:elevationId/approve',
+  requirePermission('elevation:approve'),
+  validate(elevationIdSchema, ValidationTarget.PARAMS),
+  validate(approveElevationSchema, ValidationTarget.BODY),
+  ElevationController.approveElevation
+);
+
+// Reject elevation request (requires permission)
+router.post(
+  '/:elevationId/reject',
+  requirePermission('elevation:approve'),
+  validate(elevationIdSchema, ValidationTarget.PARAMS),
+  validate(rejectElevationSchema, ValidationTarget.BODY),
+  ElevationController.rejectElevation
+);
+
+// Cancel elevation request (requester only)
+router.post(
+  '/:elevationId/cancel',
+  validate(elevationIdSchema, ValidationTarget.PARAMS),
+  ElevationController.cancelElevation
+);
+
+export default router;
@@ -5,6 +5,18 @@ import roleRoutes from './role.routes';
 import permissionRoutes from './permission.routes';
 import resourceRoutes from './resource.routes';
 import menuRoutes from './menu.routes';
+import auditRoutes from './audit.routes';
+import serviceAccountRoutes from './service-account.routes';
+import ldapGroupMappingRoutes from './ldap-group-mapping.routes';
+import oidcProviderRoutes from './oidc-provider.routes';
+import oauthRoutes from './oauth.routes';
+import oauthClientRoutes from './oauth-client.routes';
+import terminalRoutes from './terminal.routes';
+import signatureRoutes from './signature.routes';
+import changeRequestRoutes from './change-request.routes';
+import orgUnitRoutes from './org-unit.routes';
+import sodRoutes from './sod.routes';
+import elevationRoutes from './elevation.routes';
 
 const router = Router();
 
@@ -32,5 +44,17 @@ router.use('/roles', roleRoutes);
 router.use('/permissions', permissionRoutes);
 router.use('/resources', resourceRoutes);
 router.use('/menus', menuRoutes);
+router.use('/audit-logs', auditRoutes);
+router.use('/service-accounts', serviceAccountRoutes);
+router.use('/ldap-group-mappings', ldapGroupMappingRoutes);
+router.use('/oidc-providers', oidcProviderRoutes);
+router.use('/oauth', oauthRoutes);
+router.use('/oauth-clients', oauthClientRoutes);
+router.use('/terminals', terminalRoutes);
+router.use('/signatures', signatureRoutes);
+router.use('/change-requests', changeRequestRoutes);
+router.use('/org-units', orgUnitRoutes);
+router.use('/sod-rules', sodRoutes);
+router.use('/elevations', elevationRoutes);
 
 export default router;
\ No newline at end of file
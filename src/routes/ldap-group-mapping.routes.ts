@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { LdapGroupMappingController } from '../controllers/ldap-group-mapping.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate, ValidationTarget } from '../middlewares/validation.middleware';
+import {
+  createLdapGroupMappingSchema,
+  updateLdapGroupMappingSchema,
+  listLdapGroupMappingsSchema,
+  ldapGroupMappingIdSchema
+} from '../validators/ldap-group-mapping.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// List group mappings (requires permission)
+router.get(
+  '/',
+  requirePermission('system:read'),
+  validate(listLdapGroupMappingsSchema, ValidationTarget.QUERY),
+  LdapGroupMappingController.listMappings
+);
+
+// Create group mapping (requires permission)
+router.post(
+  '/',
+  requirePermission('system:config'),
+  validate(createLdapGroupMappingSchema, ValidationTarget.BODY),
+  LdapGroupMappingController.createMapping
+);
+
+// Get group mapping by ID (requires permission)
+router.get(
+  '/:mappingId',
+  requirePermission('system:read'),
+  validate(ldapGroupMappingIdSchema, ValidationTarget.PARAMS),
+  LdapGroupMappingController.getMappingById
+);
+
+// Update group mapping (requires permission)
+router.put(
+  '/:mappingId',
+  requirePermission('system:config'),
+  validate(ldapGroupMappingIdSchema, ValidationTarget.PARAMS),
+  validate(updateLdapGroupMappingSchema, ValidationTarget.BODY),
+  LdapGroupMappingController.updateMapping
+);
+
+// Delete group mapping (requires permission)
+router.delete(
+  '/:mappingId',
+  requirePermission('system:config'),
+  validate(ldapGroupMappingIdSchema, ValidationTarget.PARAMS),
+  LdapGroupMappingController.deleteMapping
+);
+
+export default router;
@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { OAuthClientController } from '../controllers/oauth-client.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate, ValidationTarget } from '../middlewares/validation.middleware';
+import {
+  createOAuthClientSchema,
+  updateOAuthClientSchema,
+  oauthClientIdSchema
+} from '../validators/oauth.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// List OAuth clients (requires permission)
+router.get(
+  '/',
+  requirePermission('system:read'),
+  OAuthClientController.listClients
+);
+
+// Register OAuth client (requires permission)
+router.post(
+  '/',
+  requirePermission('system:config'),
+  validate(createOAuthClientSchema, ValidationTarget.BODY),
+  OAuthClientController.createClient
+);
+
+// Get OAuth client by ID (requires permission)
+router.get(
+  '/:clientId',
+  requirePermission('system:read'),
+  validate(oauthClientIdSchema, ValidationTarget.PARAMS),
+  OAuthClientController.getClientById
+);
+
+// Update OAuth client (requires permission)
+router.put(
+  '/:clientId',
+  requirePermission('system:config'),
+  validate(oauthClientIdSchema, ValidationTarget.PARAMS),
+  validate(updateOAuthClientSchema, ValidationTarget.BODY),
+  OAuthClientController.updateClient
+);
+
+// Delete OAuth client (requires permission)
+router.delete(
+  '/:clientId',
+  requirePermission('system:config'),
+  validate(oauthClientIdSchema, ValidationTarget.PARAMS),
+  OAuthClientController.deleteClient
+);
+
+// Rotate client secret (requires permission)
+router.post(
+  '/:clientId/secret',
+  requirePermission('system:config'),
+  validate(oauthClientIdSchema, ValidationTarget.PARAMS),
+  OAuthClientController.rotateClientSecret
+);
+
+export default router;
@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { OAuthController } from '../controllers/oauth.controller';
+import { authenticate } from '../middlewares/auth.middleware';
+import { validate, ValidationTarget } from '../middlewares/validation.middleware';
+import {
+  oauthAuthorizationRequestSchema,
+  oauthAuthorizationDecisionSchema,
+  oauthTokenRequestSchema,
+  oauthTokenLookupSchema,
+  oauthClientIdSchema
+} from '../validators/oauth.validator';
+
+const router = Router();
+
+// Token endpoint: clients authenticate themselves, errors use the OAuth format
+router.post(
+  '/token',
+  validate(oauthTokenRequestSchema, ValidationTarget.BODY),
+  OAuthController.token,
+  OAuthController.handleTokenError
+);
+
+// Introspection and revocation, also authenticated by client credentials
+router.post(
+  '/introspect',
+  validate(oauthTokenLookupSchema, ValidationTarget.BODY),
+  OAuthController.introspect,
+  OAuthController.handleTokenError
+);
+router.post(
+  '/revoke',
+  validate(oauthTokenLookupSchema, ValidationTarget.BODY),
+  OAuthController.revoke,
+  OAuthController.handleTokenError
+);
+
+// Protected routes
+router.use(authenticate); // All routes below require a signed-in user
+
+// Consent screen
+router.get(
+  '/authorize',
+  validate(oauthAuthorizationRequestSchema, ValidationTarget.QUERY),
+  OAuthController.getAuthorizationRequest
+);
+router.post(
+  '/authorize',
+  validate(oauthAuthorizationDecisionSchema, ValidationTarget.BODY),
+  OAuthController.authorize
+);
+
+// Applications the user has authorized
+router.get('/consents', OAuthController.listConsents);
+router.delete(
+  '/consents/:clientId',
+  validate(oauthClientIdSchema, ValidationTarget.PARAMS),
+  OAuthController.revokeConsent
+);
+
+export default router;
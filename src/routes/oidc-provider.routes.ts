@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { OidcProviderController } from '../controllers/oidc-provider.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate, ValidationTarget } from '../middlewares/validation.middleware';
+import {
+  createOidcProviderSchema,
+  updateOidcProviderSchema,
+  oidcProviderIdSchema
+} from '../validators/oidc.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// List identity providers (requires permission)
+router.get(
+  '/',
+  requirePermission('system:read'),
+  OidcProviderController.listProviders
+);
+
+// Create identity provider (requires permission)
+router.post(
+  '/',
+  requirePermission('system:config'),
+  validate(createOidcProviderSchema, ValidationTarget.BODY),
+  OidcProviderController.createProvider
+);
+
+// Get identity provider by ID (requires permission)
+router.get(
+  '/:providerId',
+  requirePermission('system:read'),
+  validate(oidcProviderIdSchema, ValidationTarget.PARAMS),
+  OidcProviderController.getProviderById
+);
+
+// Update identity provider (requires permission)
+router.put(
+  '/:providerId',
+  requirePermission('system:config'),
+  validate(oidcProviderIdSchema, ValidationTarget.PARAMS),
+  validate(updateOidcProviderSchema, ValidationTarget.BODY),
+  OidcProviderController.updateProvider
+);
+
+// Delete identity provider (requires permission)
+router.delete(
+  '/:providerId',
+  requirePermission('system:config'),
+  validate(oidcProviderIdSchema, ValidationTarget.PARAMS),
+  OidcProviderController.deleteProvider
+);
+
+export default router;
@@ -0,0 +1,95 @@
+import { Router, Request } from 'express';
+import { OrgUnitController } from '../controllers/org-unit.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate, ValidationTarget } from '../middlewares/validation.middleware';
+import {
+  createOrgUnitSchema,
+  updateOrgUnitSchema,
+  listOrgUnitsSchema,
+  orgUnitIdSchema,
+  scopedAssignmentIdSchema,
+  assignScopedRoleSchema
+} from '../validators/org-unit.validator';
+
+const router = Router();
+
+// Permissions held within the unit or a unit above it count, as well as global ones
+const inUnit = { scope: (req: Request) => req.params.orgUnitId };
+
+// All routes require authentication
+router.use(authenticate);
+
+// List org units (requires permission)
+router.get(
+  '/',
+  requirePermission('org_unit:read'),
+  validate(listOrgUnitsSchema, ValidationTarget.QUERY),
+  OrgUnitController.listOrgUnits
+);
+
+// Get org unit hierarchy (requires permission)
+router.get(
+  '/tree',
+  requirePermission('org_unit:read'),
+  OrgUnitController.getOrgUnitTree
+);
+
+// Create org unit (requires permission)
+router.post(
+  '/',
+  requirePermission('org_unit:create'),
+  validate(createOrgUnitSchema, ValidationTarget.BODY),
+  OrgUnitController.createOrgUnit
+);
+
+// Get org unit by ID (requires permission)
+router.get(
+  '/:orgUnitId',
+  validate(orgUnitIdSchema, ValidationTarget.PARAMS),
+  requirePermission('org_unit:read', inUnit),
+  OrgUnitController.getOrgUnitById
+);
+
+// Update org unit (requires permission)
+router.put(
+  '/:orgUnitId',
+  validate(orgUnitIdSchema, ValidationTarget.PARAMS),
+  requirePermission('org_unit:update', inUnit),
+  validate(updateOrgUnitSchema, ValidationTarget.BODY),
+  OrgUnitController.updateOrgUnit
+);
+
+// Delete org unit (requires permission)
+router.delete(
+  '/:orgUnitId',
+  validate(orgUnitIdSchema, ValidationTarget.PARAMS),
+  requirePermission('org_unit:delete', inUnit),
+  OrgUnitController.deleteOrgUnit
+);
+
+// List roles assigned within an org unit (requires permission)
+router.get(
+  '/:orgUnitId/role-assignments',
+  validate(orgUnitIdSchema, ValidationTarget.PARAMS),
+  requirePermission('org_unit:read', inUnit),
+  OrgUnitController.listAssignments
+);
+
+// Assign a role within an org unit (requires permission)
+router.post(
+  '/:orgUnitId/role-assignments',
+  validate(orgUnitIdSchema, ValidationTarget.PARAMS),
+  requirePermission('org_unit:assign', inUnit),
+  validate(assignScopedRoleSchema, ValidationTarget.BODY),
+  OrgUnitController.assignRole
+);
+
+// Remove a role assignment from an org unit (requires permission)
+router.delete(
+  '/:orgUnitId/role-assignments/:assignmentId',
+  validate(scopedAssignmentIdSchema, ValidationTarget.PARAMS),
+  requirePermission('org_unit:assign', inUnit),
+  OrgUnitController.removeAssignment
+);
+
+export default router;
@@ -13,6 +13,7 @@ import {
   cloneRoleSchema,
   bulkDeleteRolesSchema,
   userRoleOperationSchema,
+  assignUsersToRoleSchema,
   updateMenuPermissionsSchema,
   checkPermissionParamsSchema
 } from '../validators/role.validator';
@@ -95,7 +96,7 @@ router.put('/:roleId/permissions',
   requirePermission('roles:update'),
   validate(roleIdSchema, ValidationTarget.PARAMS),
   validate(updateRolePermissionsSchema),
-  permissionController.updateRolePermissions
+  RoleController.updateRolePermissions
 );
 
 // Check if role has permission
@@ -115,7 +116,7 @@ router.get('/:roleId/users',
 router.post('/:roleId/users', 
   requirePermission('roles:update'), 
   validate(roleIdSchema, ValidationTarget.PARAMS), 
-  validate(userRoleOperationSchema), 
+  validate(assignUsersToRoleSchema), 
   RoleController.assignUsersToRole
 );
 
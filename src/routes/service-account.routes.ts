@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import { ServiceAccountController } from '../controllers/service-account.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate, ValidationTarget } from '../middlewares/validation.middleware';
+import {
+  createServiceAccountSchema,
+  updateServiceAccountSchema,
+  listServiceAccountsSchema,
+  serviceAccountIdSchema,
+  apiKeyIdSchema,
+  createApiKeySchema,
+  rotateApiKeySchema
+} from '../validators/service-account.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// List service accounts (requires permission)
+router.get(
+  '/',
+  requirePermission('service_account:read'),
+  validate(listServiceAccountsSchema, ValidationTarget.QUERY),
+  ServiceAccountController.listServiceAccounts
+);
+
+// Create service account (requires permission)
+router.post(
+  '/',
+  requirePermission('service_account:create'),
+  validate(createServiceAccountSchema, ValidationTarget.BODY),
+  ServiceAccountController.createServiceAccount
+);
+
+// Get service account by ID (requires permission)
+router.get(
+  '/:accountId',
+  requirePermission('service_account:read'),
+  validate(serviceAccountIdSchema, ValidationTarget.PARAMS),
+  ServiceAccountController.getServiceAccountById
+);
+
+// Update service account (requires permission)
+router.put(
+  '/:accountId',
+  requirePermission('service_account:update'),
+  validate(serviceAccountIdSchema, ValidationTarget.PARAMS),
+  validate(updateServiceAccountSchema, ValidationTarget.BODY),
+  ServiceAccountController.updateServiceAccount
+);
+
+// Delete service account (requires permission)
+router.delete(
+  '/:accountId',
+  requirePermission('service_account:delete'),
+  validate(serviceAccountIdSchema, ValidationTarget.PARAMS),
+  ServiceAccountController.deleteServiceAccount
+);
+
+// List API keys (requires permission)
+router.get(
+  '/:accountId/keys',
+  requirePermission('service_account:read'),
+  validate(serviceAccountIdSchema, ValidationTarget.PARAMS),
+  ServiceAccountController.listApiKeys
+);
+
+// Issue API key (requires permission)
+router.post(
+  '/:accountId/keys',
+  requirePermission('service_account:update'),
+  validate(serviceAccountIdSchema, ValidationTarget.PARAMS),
+  validate(createApiKeySchema, ValidationTarget.BODY),
+  ServiceAccountController.createApiKey
+);
+
+// Rotate API key (requires permission)
+router.post(
+  '/:accountId/keys/:keyId/rotate',
+  requirePermission('service_account:update'),
+  validate(apiKeyIdSchema, ValidationTarget.PARAMS),
+  validate(rotateApiKeySchema, ValidationTarget.BODY),
+  ServiceAccountController.rotateApiKey
+);
+
+// Revoke API key (requires permission)
+router.delete(
+  '/:accountId/keys/:keyId',
+  requirePermission('service_account:update'),
+  validate(apiKeyIdSchema, ValidationTarget.PARAMS),
+  ServiceAccountController.revokeApiKey
+);
+
+export default router;
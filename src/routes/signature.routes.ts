@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { SignatureController } from '../controllers/signature.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate, ValidationTarget } from '../middlewares/validation.middleware';
+import {
+  createSignatureSchema,
+  listSignaturesSchema,
+  signatureIdSchema,
+  verifySignatureSchema
+} from '../validators/signature.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Sign a record (the signer must hold the permission being signed for)
+router.post(
+  '/',
+  validate(createSignatureSchema, ValidationTarget.BODY),
+  SignatureController.createSignature
+);
+
+// List signatures (requires permission)
+router.get(
+  '/',
+  requirePermission('audit:read'),
+  validate(listSignaturesSchema, ValidationTarget.QUERY),
+  SignatureController.listSignatures
+);
+
+// Get signature by ID (requires permission)
+router.get(
+  '/:signatureId',
+  requirePermission('audit:read'),
+  validate(signatureIdSchema, ValidationTarget.PARAMS),
+  SignatureController.getSignatureById
+);
+
+// Verify signature (requires permission)
+router.post(
+  '/:signatureId/verify',
+  requirePermission('audit:read'),
+  validate(signatureIdSchema, ValidationTarget.PARAMS),
+  validate(verifySignatureSchema, ValidationTarget.BODY),
+  SignatureController.verifySignature
+);
+
+export default router;
@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { SodController } from '../controllers/sod.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate, ValidationTarget } from '../middlewares/validation.middleware';
+import {
+  createSodRuleSchema,
+  updateSodRuleSchema,
+  sodRuleIdSchema
+} from '../validators/sod.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// List SoD rules (requires permission)
+router.get(
+  '/',
+  requirePermission('sod_rule:read'),
+  SodController.listRules
+);
+
+// Report users whose roles break a rule (requires permission)
+router.get(
+  '/violations',
+  requirePermission('sod_rule:read'),
+  SodController.getViolationReport
+);
+
+// Create SoD rule (requires permission)
+router.post(
+  '/',
+  requirePermission('sod_rule:create'),
+  validate(createSodRuleSchema, ValidationTarget.BODY),
+  SodController.createRule
+);
+
+// Get SoD rule by ID (requires permission)
+router.get(
+  '/:ruleId',
+  requirePermission('sod_rule:read'),
+  validate(sodRuleIdSchema, ValidationTarget.PARAMS),
+  SodController.getRuleById
+);
+
+// Update SoD rule (requires permission)
+router.put(
+  '/:ruleId',
+  requirePermission('sod_rule:update'),
+  validate(sodRuleIdSchema, ValidationTarget.PARAMS),
+  validate(updateSodRuleSchema, ValidationTarget.BODY),
+  SodController.updateRule
+);
+
+// Delete SoD rule (requires permission)
+router.delete(
+  '/:ruleId',
+  requirePermission('sod_rule:delete'),
+  validate(sodRuleIdSchema, ValidationTarget.PARAMS),
+  SodController.deleteRule
+);
+
+export default router;
@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { TerminalController } from '../controllers/terminal.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate, ValidationTarget } from '../middlewares/validation.middleware';
+import {
+  createTerminalSchema,
+  updateTerminalSchema,
+  terminalIdSchema
+} from '../validators/terminal.validator';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// List terminals (requires permission)
+router.get(
+  '/',
+  requirePermission('system:read'),
+  TerminalController.listTerminals
+);
+
+// Register terminal (requires permission)
+router.post(
+  '/',
+  requirePermission('system:config'),
+  validate(createTerminalSchema, ValidationTarget.BODY),
+  TerminalController.createTerminal
+);
+
+// Get terminal by ID (requires permission)
+router.get(
+  '/:terminalId',
+  requirePermission('system:read'),
+  validate(terminalIdSchema, ValidationTarget.PARAMS),
+  TerminalController.getTerminalById
+);
+
+// Update terminal (requires permission)
+router.put(
+  '/:terminalId',
+  requirePermission('system:config'),
+  validate(terminalIdSchema, ValidationTarget.PARAMS),
+  validate(updateTerminalSchema, ValidationTarget.BODY),
+  TerminalController.updateTerminal
+);
+
+// Delete terminal (requires permission)
+router.delete(
+  '/:terminalId',
+  requirePermission('system:config'),
+  validate(terminalIdSchema, ValidationTarget.PARAMS),
+  TerminalController.deleteTerminal
+);
+
+// Rotate terminal key (requires permission)
+router.post(
+  '/:terminalId/key',
+  requirePermission('system:config'),
+  validate(terminalIdSchema, ValidationTarget.PARAMS),
+  TerminalController.rotateTerminalKey
+);
+
+export default router;
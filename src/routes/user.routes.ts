@@ -9,7 +9,9 @@ import {
   userIdSchema,
   listUsersSchema,
   updateUserPasswordSchema,
-  bulkUserOperationSchema
+  bulkUserOperationSchema,
+  assignBadgeSchema,
+  updateUserRolesSchema
 } from '../validators/user.validator';
 
 const router = Router();
@@ -120,12 +122,7 @@ router.put(
   '/:userId/roles',
   requirePermission('users:manage-roles'),
   validate(userIdSchema, ValidationTarget.PARAMS),
-  validate(
-    Joi.object({
-      roleIds: Joi.array().items(Joi.string().uuid()).unique().required()
-    }),
-    ValidationTarget.BODY
-  ),
+  validate(updateUserRolesSchema, ValidationTarget.BODY),
   UserController.updateUserRoles
 );
 
@@ -138,4 +135,29 @@ router.post(
   UserController.resetUserPassword
 );
 
+// Unlock user account (requires admin role)
+router.post(
+  '/:userId/unlock',
+  requireRole(['admin', 'superadmin']),
+  validate(userIdSchema, ValidationTarget.PARAMS),
+  UserController.unlockUser
+);
+
+// Assign or replace badge and PIN (requires permission)
+router.put(
+  '/:userId/badge',
+  requirePermission('users:update'),
+  validate(userIdSchema, ValidationTarget.PARAMS),
+  validate(assignBadgeSchema, ValidationTarget.BODY),
+  UserController.assignBadge
+);
+
+// Remove badge and PIN (requires permission)
+router.delete(
+  '/:userId/badge',
+  requirePermission('users:update'),
+  validate(userIdSchema, ValidationTarget.PARAMS),
+  UserController.removeBadge
+);
+
 export default router;
\ No newline at end of file
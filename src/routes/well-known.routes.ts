@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { JWTUtil } from '../utils/jwt.util';
+
+const router = Router();
+
+// Public keys for verifying access tokens (RFC 7517). Empty when tokens are HS256-signed.
+router.get('/jwks.json', (req, res, next) => {
+  try {
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.json(JWTUtil.getJwks());
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -89,7 +89,16 @@ export class AuditService {
    */
   static async logAuth(data: {
     userId?: string | null;
-    action: 'login' | 'logout' | 'register' | 'password_reset' | 'token_refresh' | 'failed_login';
+    action:
+      | 'login'
+      | 'logout'
+      | 'register'
+      | 'password_reset'
+      | 'token_refresh'
+      | 'failed_login'
+      | 'account_locked'
+      | 'account_unlocked'
+      | 'refresh_token_reuse';
     success: boolean;
     email?: string;
     ipAddress?: string | null;
@@ -265,38 +274,7 @@ export class AuditService {
       const { page = 1, limit = 50 } = pagination;
       const offset = (page - 1) * limit;
 
-      // Build where clause
-      const where: WhereOptions<AuditLog> = {};
-
-      if (filter.userId) {
-        where.userId = filter.userId;
-      }
-
-      if (filter.action) {
-        where.action = { [Op.like]: `%${filter.action}%` };
-      }
-
-      if (filter.resource) {
-        where.resource = filter.resource;
-      }
-
-      if (filter.resourceId) {
-        where.resourceId = filter.resourceId;
-      }
-
-      if (filter.ipAddress) {
-        where.ipAddress = filter.ipAddress;
-      }
-
-      if (filter.startDate || filter.endDate) {
-        where.createdAt = {};
-        if (filter.startDate) {
-          (where.createdAt as any)[Op.gte] = filter.startDate;
-        }
-        if (filter.endDate) {
-          (where.createdAt as any)[Op.lte] = filter.endDate;
-        }
-      }
+      const where = this.buildWhere(filter);
 
       // Build order
       const order: Order = [['createdAt', 'DESC']];
@@ -328,6 +306,99 @@ export class AuditService {
     }
   }
 
+  /**
+   * Stream audit logs matching a filter, newest first, in batches.
+   * Uses keyset pagination so exports of large ranges keep constant memory
+   * and are not skewed by rows written while the export runs.
+   */
+  static async *streamAuditLogs(
+    filter: AuditFilter = {},
+    batchSize: number = 500
+  ): AsyncGenerator<AuditLogEntry> {
+    const baseWhere = this.buildWhere(filter);
+    let cursor: { createdAt: Date; id: string } | null = null;
+
+    while (true) {
+      const where: WhereOptions<AuditLog> = cursor
+        ? {
+          [Op.and]: [
+            baseWhere,
+            {
+              [Op.or]: [
+                { createdAt: { [Op.lt]: cursor.createdAt } },
+                { createdAt: cursor.createdAt, id: { [Op.lt]: cursor.id } },
+              ],
+            },
+          ],
+        }
+        : baseWhere;
+
+      const rows: AuditLog[] = await AuditLog.findAll({
+        where,
+        include: [
+          {
+            model: User,
+            as: 'user',
+            attributes: ['id', 'email', 'username'],
+            required: false,
+          },
+        ],
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: batchSize,
+      });
+
+      for (const row of rows) {
+        yield row as unknown as AuditLogEntry;
+      }
+
+      if (rows.length < batchSize) {
+        return;
+      }
+
+      const last = rows[rows.length - 1];
+      cursor = { createdAt: last.createdAt, id: last.id };
+    }
+  }
+
+  /**
+   * Translate an audit filter into a where clause
+   */
+  private static buildWhere(filter: AuditFilter): WhereOptions<AuditLog> {
+    const where: WhereOptions<AuditLog> = {};
+
+    if (filter.userId) {
+      where.userId = filter.userId;
+    }
+
+    if (filter.action) {
+      where.action = { [Op.like]: `%${filter.action}%` };
+    }
+
+    if (filter.resource) {
+      where.resource = filter.resource;
+    }
+
+    if (filter.resourceId) {
+      where.resourceId = filter.resourceId;
+    }
+
+    if (filter.ipAddress) {
+      where.ipAddress = filter.ipAddress;
+    }
+
+    if (filter.startDate || filter.endDate) {
+      where.createdAt = {};
+      if (filter.startDate) {
+        (where.createdAt as any)[Op.gte] = filter.startDate;
+      }
+      if (filter.endDate) {
+        (where.createdAt as any)[Op.lte] = filter.endDate;
+      }
+    }
+
+    return where;
+  }
+
   /**
    * Get audit log by ID
    */
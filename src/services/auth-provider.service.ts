@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import { Op, Transaction, ValidationError as SequelizeValidationError } from 'sequelize';
+import { User, AuthProviderName } from '../models/User';
+import { BcryptUtil } from '../utils/bcrypt.util';
+import { LdapDirectory, DirectoryUser } from '../utils/ldap.util';
+import { AppError, AuthenticationError } from '../utils/errors';
+import { ErrorCode } from '../types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { LdapGroupMappingService } from './ldap-group-mapping.service';
+
+// Directory accounts without a mail attribute still need a unique, undeliverable address
+const LDAP_FALLBACK_EMAIL_DOMAIN = 'ldap.invalid';
+
+/**
+ * Verifies passwords for the accounts it is responsible for
+ */
+export interface AuthProvider {
+  readonly name: AuthProviderName;
+
+  /**
+   * Whether the provider verifies the password of this account. `user` is
+   * null when no local account matches the login.
+   */
+  handles(user: User | null): boolean;
+
+  /**
+   * Returns the authenticated user, or null when the credentials are wrong
+   */
+  authenticate(login: string, password: string, user: User | null, transaction?: Transaction): Promise<User | null>;
+}
+
+/**
+ * Checks the bcrypt hash stored on local accounts
+ */
+export class LocalAuthProvider implements AuthProvider {
+  readonly name = 'local';
+
+  handles(user: User | null): boolean {
+    // Accounts created before providers existed have no provider recorded
+    return user !== null && (user.authProvider || 'local') === 'local';
+  }
+
+  async authenticate(login: string, password: string, user: User | null): Promise<User | null> {
+    if (!user) {
+      return null;
+    }
+
+    return await BcryptUtil.comparePassword(password, user.password) ? user : null;
+  }
+}
+
+/**
+ * Binds against LDAP / Active Directory. Unknown logins that bind
+ * successfully are provisioned as local users on first login, and every
+ * login syncs the user's directory-managed roles from their groups.
+ */
+export class LdapAuthProvider implements AuthProvider {
+  readonly name = 'ldap';
+
+  constructor(private readonly directory: LdapDirectory) {}
+
+  handles(user: User | null): boolean {
+    return user === null || user.authProvider === 'ldap';
+  }
+
+  async authenticate(
+    login: string,
+    password: string,
+    user: User | null,
+    transaction?: Transaction
+  ): Promise<User | null> {
+    let account: DirectoryUser | null;
+    try {
+      account = await this.directory.authenticate(login, password);
+    } catch (error) {
+      logger.error('LDAP authentication failed:', error);
+      throw new AppError(ErrorCode.SERVICE_UNAVAILABLE, 'Directory service is unavailable', 503);
+    }
+
+    if (!account) {
+      return null;
+    }
+
+    const provisioned = await this.provision(account, user, transaction);
+    await LdapGroupMappingService.syncUserRoles(provisioned.id, account.groups, transaction);
+
+    return provisioned;
+  }
+
+  /**
+   * Create the local user on first login, or refresh its profile from the directory
+   */
+  private async provision(account: DirectoryUser, user: User | null, transaction?: Transaction): Promise<User> {
+    const existing = user || await User.findOne({
+      where: { authProvider: 'ldap', externalId: account.dn },
+      transaction
+    });
+
+    if (existing) {
+      const profile: Partial<Pick<User, 'email' | 'firstName' | 'lastName' | 'externalId'>> = {
+        firstName: account.firstName,
+        lastName: account.lastName,
+        externalId: account.dn
+      };
+
+      if (account.email && account.email !== existing.email) {
+        const taken = await User.count({ where: { email: account.email, id: { [Op.ne]: existing.id } }, transaction });
+        if (!taken) {
+          profile.email = account.email;
+        }
+      }
+
+      await existing.update(profile, { transaction });
+      return existing;
+    }
+
+    try {
+      const created = await User.create({
+        username: account.username,
+        email: account.email || `${account.username}@${LDAP_FALLBACK_EMAIL_DOMAIN}`,
+        // Never used: the directory verifies the password
+        password: crypto.randomBytes(32).toString('hex'),
+        firstName: account.firstName,
+        lastName: account.lastName,
+        authProvider: 'ldap',
+        externalId: account.dn,
+        emailVerified: true,
+        isActive: true,
+        lastLogin: null
+      }, { transaction });
+
+      logger.info(`Provisioned directory user ${created.username} (${account.dn})`);
+      return created;
+    } catch (error) {
+      // E.g. a local account already uses the name or email
+      if (error instanceof SequelizeValidationError) {
+        logger.warn(`Cannot provision directory user ${account.dn}: ${error.message}`);
+        throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Invalid credentials');
+      }
+      throw error;
+    }
+  }
+}
+
+export class AuthProviderService {
+  private static providers: AuthProvider[] | null = null;
+
+  /**
+   * Replace the provider chain, e.g. to point LDAP at a test server. Pass null
+   * to rebuild it from configuration.
+   */
+  static setProviders(providers: AuthProvider[] | null): void {
+    this.providers = providers;
+  }
+
+  /**
+   * The chain in order: local accounts, then LDAP when enabled
+   */
+  static getProviders(): AuthProvider[] {
+    if (!this.providers) {
+      this.providers = [new LocalAuthProvider()];
+
+      if (config.ldap.enabled) {
+        this.providers.push(new LdapAuthProvider(new LdapDirectory(config.ldap)));
+      }
+    }
+
+    return this.providers;
+  }
+
+  /**
+   * The first provider in the chain responsible for the account, if any
+   */
+  static resolve(user: User | null): AuthProvider | null {
+    return this.getProviders().find(provider => provider.handles(user)) || null;
+  }
+}
@@ -1,21 +1,50 @@
-import { Transaction } from 'sequelize';
+import { Transaction, Op } from 'sequelize';
 import { User } from '../models/User';
 import { RefreshToken } from '../models/RefreshToken';
 import { Role } from '../models/Role';
+import { PasswordReset } from '../models/PasswordReset';
+import { EmailVerification } from '../models/EmailVerification';
+import { RevokedToken } from '../models/RevokedToken';
+import { Terminal } from '../models/Terminal';
 import { AuthUtil } from '../utils/auth.util';
 import { BcryptUtil } from '../utils/bcrypt.util';
-import { JWTUtil } from '../utils/jwt.util';
+import { JWTUtil, RefreshTokenPayload } from '../utils/jwt.util';
 import { logger } from '../utils/logger';
-import { LoginCredentials, RegisterData, TokenPair, TokenPayload } from '../types/auth.types';
+import {
+  LoginCredentials,
+  BadgeLoginCredentials,
+  RegisterData,
+  TokenPair,
+  TokenPayload,
+  BadgeAccessToken
+} from '../types/auth.types';
 import { AuditLog } from '../models/AuditLog';
 import { 
   AuthenticationError, 
   ConflictError, 
   ValidationError, 
   NotFoundError,
-  AppError 
+  AppError
 } from '../utils/errors';
 import { ErrorCode } from '../types';
+import { config } from '../config';
+import { NotificationService } from './notification.service';
+import { AuditService } from './audit.service';
+import { MfaService, MfaEnrollment } from './mfa.service';
+import { AuthProviderService } from './auth-provider.service';
+import { TerminalService } from './terminal.service';
+import { PermissionVersionService } from './permission-version.service';
+import { SodService } from './sod.service';
+
+export interface MfaChallenge {
+  mfaToken: string;
+  enrollmentRequired: boolean;
+  expiresIn: number;
+}
+
+export type LoginResult =
+  | { user: User; tokens: TokenPair }
+  | { user: User; mfa: MfaChallenge };
 
 export class AuthService {
   /**
@@ -66,6 +95,7 @@ export class AuthService {
           throw new ValidationError('One or more role IDs are invalid');
         }
 
+        await SodService.assertAllowed(roles.map(role => role.id), transaction);
         await user.setRoles(roles);
       } else {
         // Assign default role if exists
@@ -79,6 +109,9 @@ export class AuthService {
         }
       }
 
+      // Send the verification link for the new address
+      await this.issueEmailVerification(user, data, transaction);
+
       // Generate tokens
       const tokens = await AuthUtil.generateUserTokens(user, data.ipAddress, data.userAgent);
 
@@ -108,7 +141,7 @@ export class AuthService {
   /**
    * Login user
    */
-  static async login(credentials: LoginCredentials, transaction?: Transaction): Promise<{ user: User; tokens: TokenPair }> {
+  static async login(credentials: LoginCredentials, transaction?: Transaction): Promise<LoginResult> {
     try {
       // Find user by email or username
       const whereClause = credentials.email 
@@ -117,8 +150,109 @@ export class AuthService {
           ? { email: credentials.username }
           : { username: credentials.username };
           
-      const user = await User.findOne({
+      const roleInclude = {
+        model: Role,
+        as: 'roles',
+        attributes: ['id', 'name', 'description'],
+        through: { attributes: [] }
+      };
+
+      const existingUser = await User.findOne({
         where: whereClause,
+        include: [roleInclude],
+        transaction
+      });
+
+      // Service accounts authenticate with API keys only
+      if (existingUser?.isServiceAccount) {
+        throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Invalid credentials');
+      }
+
+      // Local accounts are checked locally; unknown logins fall through to the directory
+      const provider = AuthProviderService.resolve(existingUser);
+      if (!provider) {
+        throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Invalid credentials');
+      }
+
+      if (existingUser) {
+        // Check if user is active
+        if (!existingUser.isActive) {
+          throw new AuthenticationError(ErrorCode.AUTH_ACCOUNT_DISABLED, 'Account is inactive');
+        }
+
+        // Refuse to check the password while the account is locked
+        if (existingUser.isLocked()) {
+          throw this.accountLockedError(existingUser.lockedUntil!);
+        }
+      }
+
+      // Verify password
+      const login = credentials.email || credentials.username || '';
+      const user = await provider.authenticate(login, credentials.password, existingUser, transaction);
+      if (!user) {
+        if (existingUser) {
+          await this.recordFailedLogin(existingUser, credentials, transaction);
+        }
+
+        throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Invalid credentials');
+      }
+
+      // Directory logins may have provisioned the user or changed their roles
+      if (provider.name !== 'local') {
+        await user.reload({ include: [roleInclude], transaction });
+      }
+
+      // Optionally require a verified email before issuing tokens
+      if (config.security.requireEmailVerification && !user.emailVerified) {
+        throw new AuthenticationError(ErrorCode.AUTH_EMAIL_NOT_VERIFIED, 'Email address has not been verified');
+      }
+
+      // Hold back tokens until the second factor is verified
+      if (user.mfaEnabled || await MfaService.isRequiredByRole(user.id, transaction)) {
+        const enrollmentRequired = !user.mfaEnabled;
+
+        logger.info(`MFA ${enrollmentRequired ? 'enrollment' : 'verification'} required for user: ${user.email}`);
+
+        return {
+          user,
+          mfa: {
+            mfaToken: JWTUtil.generateMfaToken(user.id, enrollmentRequired),
+            enrollmentRequired,
+            expiresIn: JWTUtil.getMfaTokenExpiresInSeconds()
+          }
+        };
+      }
+
+      const tokens = await this.completeLogin(
+        user,
+        credentials,
+        credentials.email ? 'email' : 'username',
+        transaction
+      );
+
+      return { user, tokens };
+    } catch (error) {
+      logger.error('Login failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Login with a badge and PIN at a registered terminal. The badge and PIN
+   * stand in for the second factor, so MFA is not asked for. The token is
+   * short-lived, cannot be refreshed and is limited to the badge login role.
+   */
+  static async badgeLogin(
+    credentials: BadgeLoginCredentials,
+    terminalKey: string | undefined,
+    metadata: { ipAddress?: string; userAgent?: string } = {},
+    transaction?: Transaction
+  ): Promise<{ user: User; tokens: BadgeAccessToken; terminal: Terminal }> {
+    try {
+      const terminal = await TerminalService.authenticateTerminal(terminalKey, metadata.ipAddress);
+
+      const found = await User.findOne({
+        where: { badgeIdHash: User.hashBadgeId(credentials.badgeId) },
         include: [
           {
             model: Role,
@@ -129,67 +263,263 @@ export class AuthService {
         ],
         transaction
       });
+      // Service accounts cannot hold badges; treat a stray one as unknown
+      const user = found && !found.isServiceAccount ? found : null;
 
-      if (!user) {
-        throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Invalid credentials');
-      }
+      if (user) {
+        if (!user.isActive) {
+          throw new AuthenticationError(ErrorCode.AUTH_ACCOUNT_DISABLED, 'Account is inactive');
+        }
 
-      // Check if user is active
-      if (!user.isActive) {
-        throw new AuthenticationError(ErrorCode.AUTH_ACCOUNT_DISABLED, 'Account is inactive');
+        // Refuse to check the PIN while the account is locked
+        if (user.isLocked()) {
+          throw this.accountLockedError(user.lockedUntil!);
+        }
       }
 
-      // Verify password
-      const isPasswordValid = await BcryptUtil.comparePassword(credentials.password, user.password);
-      if (!isPasswordValid) {
-        // Since failedLoginAttempts doesn't exist in the model,
-        // we'll just log the failed attempt without tracking count
-        logger.warn(`Failed login attempt for user: ${user.email}`);
+      if (!user || !(await user.validatePin(credentials.pin))) {
+        await AuditService.logAuth({
+          userId: user?.id ?? null,
+          action: 'failed_login',
+          success: false,
+          ipAddress: metadata.ipAddress,
+          userAgent: metadata.userAgent,
+          details: { loginMethod: 'badge', terminalId: terminal.id, reason: user ? 'invalid_pin' : 'unknown_badge' }
+        }, transaction);
 
-        throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Invalid credentials');
+        if (user) {
+          await this.recordFailedLogin(user, metadata, transaction);
+        }
+
+        throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Invalid badge or PIN');
       }
 
-      // Update last login time
-      await user.update({ lastLogin: new Date() }, { transaction });
+      await user.update({
+        lastLogin: new Date(),
+        failedLoginAttempts: 0,
+        lockoutCount: 0,
+        lockedUntil: null
+      }, { transaction });
 
-      // Generate tokens
-      const tokens = await AuthUtil.generateUserTokens(user, credentials.ipAddress, credentials.userAgent);
+      const tokens = await AuthUtil.generateBadgeToken(user, terminal.id);
 
-      // Log login
       await AuditLog.create({
         userId: user.id,
         action: 'USER_LOGIN',
         resource: 'User',
         resourceId: user.id,
         details: {
-          loginMethod: credentials.email ? 'email' : 'username'
+          loginMethod: 'badge',
+          terminalId: terminal.id,
+          terminal: terminal.name
         },
-        ipAddress: credentials.ipAddress,
-        userAgent: credentials.userAgent
+        ipAddress: metadata.ipAddress,
+        userAgent: metadata.userAgent
       }, { transaction });
 
-      logger.info(`User logged in successfully: ${user.email}`);
+      logger.info(`User logged in with badge at terminal ${terminal.name}: ${user.email}`);
 
-      return { user, tokens };
+      return { user, tokens, terminal };
     } catch (error) {
-      logger.error('Login failed:', error);
+      logger.error('Badge login failed:', error);
       throw error;
     }
   }
 
   /**
-   * Refresh access token
+   * Start TOTP enrollment during login, for users whose role requires MFA
+   * but who have not enrolled yet
+   */
+  static async startMfaEnrollmentForLogin(mfaToken: string, transaction?: Transaction): Promise<MfaEnrollment> {
+    const payload = JWTUtil.verifyMfaToken(mfaToken);
+
+    if (!payload.enrollmentRequired) {
+      throw new ValidationError('MFA is already enabled');
+    }
+
+    return MfaService.startEnrollment(payload.sub, transaction);
+  }
+
+  /**
+   * Complete a login with the mfa_pending token and a TOTP or recovery code.
+   * When enrollment was required, the code confirms enrollment and the new
+   * recovery codes are returned.
    */
-  static async refreshToken(refreshToken: string, transaction?: Transaction): Promise<TokenPair> {
+  static async verifyMfaLogin(
+    mfaToken: string,
+    code: string,
+    metadata: { ipAddress?: string; userAgent?: string } = {},
+    transaction?: Transaction
+  ): Promise<{ user: User; tokens: TokenPair; recoveryCodes?: string[] }> {
+    try {
+      const payload = JWTUtil.verifyMfaToken(mfaToken);
+
+      const user = await User.findByPk(payload.sub, {
+        include: [
+          {
+            model: Role,
+            as: 'roles',
+            attributes: ['id', 'name', 'description'],
+            through: { attributes: [] }
+          }
+        ],
+        transaction
+      });
+
+      if (!user || !user.isActive) {
+        throw new AuthenticationError(ErrorCode.AUTH_ACCOUNT_DISABLED, 'Account is inactive');
+      }
+
+      if (user.isLocked()) {
+        throw this.accountLockedError(user.lockedUntil!);
+      }
+
+      let recoveryCodes: string[] | undefined;
+
+      if (payload.enrollmentRequired && !user.mfaEnabled) {
+        recoveryCodes = await MfaService.confirmEnrollment(user.id, code, transaction);
+      } else if (!(await MfaService.verifyCode(user, code, transaction))) {
+        await this.recordFailedLogin(user, metadata, transaction);
+
+        throw new AuthenticationError(ErrorCode.AUTH_MFA_INVALID_CODE, 'Invalid MFA code');
+      }
+
+      const tokens = await this.completeLogin(user, metadata, 'mfa', transaction);
+
+      return { user, tokens, recoveryCodes };
+    } catch (error) {
+      logger.error('MFA verification failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reset lockout state, issue tokens and record the login
+   */
+  private static async completeLogin(
+    user: User,
+    metadata: { ipAddress?: string; userAgent?: string },
+    loginMethod: string,
+    transaction?: Transaction
+  ): Promise<TokenPair> {
+    // Update last login time and clear any lockout state
+    await user.update({
+      lastLogin: new Date(),
+      failedLoginAttempts: 0,
+      lockoutCount: 0,
+      lockedUntil: null
+    }, { transaction });
+
+    // Generate tokens
+    const tokens = await AuthUtil.generateUserTokens(user, metadata.ipAddress, metadata.userAgent);
+
+    // Log login
+    await AuditLog.create({
+      userId: user.id,
+      action: 'USER_LOGIN',
+      resource: 'User',
+      resourceId: user.id,
+      details: {
+        loginMethod
+      },
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent
+    }, { transaction });
+
+    logger.info(`User logged in successfully: ${user.email}`);
+
+    return tokens;
+  }
+
+  /**
+   * Count a failed login and lock the account once the threshold is reached.
+   * Each consecutive lockout doubles the lock duration, up to the configured maximum.
+   * Also used for other password checks, so they cannot be used to guess passwords.
+   */
+  static async recordFailedLogin(
+    user: User,
+    metadata: { ipAddress?: string; userAgent?: string },
+    transaction?: Transaction
+  ): Promise<void> {
+    const { maxAttempts, baseDurationMinutes, maxDurationMinutes } = config.security.lockout;
+    const failedLoginAttempts = user.failedLoginAttempts + 1;
+
+    logger.warn(`Failed login attempt ${failedLoginAttempts} for user: ${user.email}`);
+
+    if (maxAttempts <= 0 || failedLoginAttempts < maxAttempts) {
+      await user.update({ failedLoginAttempts }, { transaction });
+      return;
+    }
+
+    const lockoutCount = user.lockoutCount + 1;
+    const durationMinutes = Math.min(
+      baseDurationMinutes * Math.pow(2, lockoutCount - 1),
+      maxDurationMinutes
+    );
+    const lockedUntil = new Date(Date.now() + durationMinutes * 60 * 1000);
+
+    await user.update({
+      failedLoginAttempts: 0,
+      lockoutCount,
+      lockedUntil
+    }, { transaction });
+
+    await AuditService.logAuth({
+      userId: user.id,
+      action: 'account_locked',
+      success: false,
+      email: user.email,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: {
+        failedAttempts: failedLoginAttempts,
+        lockoutCount,
+        lockedUntil: lockedUntil.toISOString()
+      }
+    }, transaction);
+
+    logger.warn(`Account locked until ${lockedUntil.toISOString()}: ${user.email}`);
+
+    throw this.accountLockedError(lockedUntil);
+  }
+
+  private static accountLockedError(lockedUntil: Date): AppError {
+    return new AppError(
+      ErrorCode.AUTH_TOO_MANY_ATTEMPTS,
+      'Account is temporarily locked due to too many failed login attempts',
+      429,
+      true,
+      {
+        lockedUntil: lockedUntil.toISOString(),
+        retryAfter: Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)
+      }
+    );
+  }
+
+  /**
+   * Refresh access token.
+   * The presented token is rotated: it is marked revoked and points at its
+   * replacement. Presenting a rotated token again means it was copied, so the
+   * whole family is revoked and the event is audited.
+   * Tokens issued to an OAuth client are only accepted from that client
+   * (`clientId`), and their replacements keep the granted scopes.
+   */
+  static async refreshToken(
+    refreshToken: string,
+    metadata: { ipAddress?: string; userAgent?: string } = {},
+    transaction?: Transaction,
+    clientId?: string
+  ): Promise<TokenPair> {
     try {
       // Verify refresh token
       const payload = JWTUtil.verifyRefreshToken(refreshToken);
       
-      // Find the refresh token in database
+      // Find the refresh token in database; only its digest is stored
       const storedToken = await RefreshToken.findOne({
-        where: { 
-          token: refreshToken,
-          userId: payload.sub 
+        where: {
+          id: payload.tokenId,
+          userId: payload.sub,
+          tokenHash: RefreshToken.hashToken(refreshToken)
         },
         include: [
           {
@@ -208,10 +538,19 @@ export class AuthService {
         transaction
       });
 
-      if (!storedToken) {
+      // A client's refresh token is useless to anyone else, including our own refresh endpoint
+      if (!storedToken || (storedToken.clientId || null) !== (clientId || null)) {
         throw new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'Invalid refresh token');
       }
 
+      if (storedToken.isRotated()) {
+        await this.handleRefreshTokenReuse(storedToken, metadata, transaction);
+      }
+
+      if (storedToken.isRevoked()) {
+        throw new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'Refresh token has been revoked');
+      }
+
       // Check if token is expired
       if (new Date() > storedToken.expiresAt) {
         await storedToken.destroy({ transaction });
@@ -223,11 +562,32 @@ export class AuthService {
         throw new AuthenticationError(ErrorCode.AUTH_ACCOUNT_DISABLED, 'Account is inactive');
       }
 
-      // Revoke old refresh token
-      await storedToken.destroy({ transaction });
+      // Revoke the old token atomically; losing the race to a concurrent refresh counts as reuse
+      const [rotated] = await RefreshToken.update(
+        { revokedAt: new Date() },
+        { where: { id: storedToken.id, revokedAt: null }, transaction }
+      );
+
+      if (rotated === 0) {
+        await this.handleRefreshTokenReuse(storedToken, metadata, transaction);
+      }
 
-      // Generate new tokens
-      const tokens = await AuthUtil.generateUserTokens(storedToken.user, storedToken.ipAddress, storedToken.userAgent);
+      const ipAddress = metadata.ipAddress || storedToken.ipAddress;
+      const userAgent = metadata.userAgent || storedToken.userAgent;
+
+      // Generate new tokens in the same family; a client's tokens keep the scopes it was granted
+      const tokens = storedToken.clientId
+        ? await AuthUtil.generateUserTokens(storedToken.user, ipAddress, userAgent, storedToken.familyId, {
+          clientId: storedToken.clientId,
+          scopes: storedToken.scopes || []
+        })
+        : await AuthUtil.generateUserTokens(storedToken.user, ipAddress, userAgent, storedToken.familyId);
+
+      const { tokenId } = JWTUtil.decodeToken(tokens.refreshToken) as RefreshTokenPayload;
+      await RefreshToken.update(
+        { replacedBy: tokenId },
+        { where: { id: storedToken.id }, transaction }
+      );
 
       logger.info(`Tokens refreshed for user: ${storedToken.user.email}`);
 
@@ -238,6 +598,34 @@ export class AuthService {
     }
   }
 
+  /**
+   * Revoke the family of a refresh token that was presented after rotation
+   */
+  private static async handleRefreshTokenReuse(
+    storedToken: RefreshToken,
+    metadata: { ipAddress?: string; userAgent?: string },
+    transaction?: Transaction
+  ): Promise<never> {
+    const revokedCount = await RefreshToken.revokeFamily(storedToken.familyId, transaction);
+
+    await AuditService.logAuth({
+      userId: storedToken.userId,
+      action: 'refresh_token_reuse',
+      success: false,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: {
+        tokenId: storedToken.id,
+        familyId: storedToken.familyId,
+        revokedCount
+      }
+    }, transaction);
+
+    logger.warn(`Refresh token reuse detected for user ${storedToken.userId}; family ${storedToken.familyId} revoked`);
+
+    throw new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'Refresh token has been revoked');
+  }
+
   /**
    * Logout user
    */
@@ -269,6 +657,26 @@ export class AuthService {
     }
   }
 
+  /**
+   * Put an access token on the revocation list so it stops working before it expires
+   */
+  static async revokeAccessToken(
+    userId: string,
+    tokenId: string,
+    expiresAt: Date,
+    reason: string,
+    transaction?: Transaction
+  ): Promise<void> {
+    try {
+      await RevokedToken.revoke(tokenId, userId, expiresAt, reason, transaction);
+
+      logger.info(`Access token revoked for user ${userId}: ${tokenId}`);
+    } catch (error) {
+      logger.error('Failed to revoke access token:', error);
+      throw error;
+    }
+  }
+
   /**
    * Change password
    */
@@ -285,6 +693,10 @@ export class AuthService {
         throw new NotFoundError('User');
       }
 
+      if ((user.authProvider || 'local') !== 'local') {
+        throw new ValidationError('Password is managed by an external identity provider and cannot be changed here');
+      }
+
       // Verify current password
       const isPasswordValid = await BcryptUtil.comparePassword(currentPassword, user.password);
       if (!isPasswordValid) {
@@ -320,28 +732,50 @@ export class AuthService {
   /**
    * Request password reset
    */
-  static async requestPasswordReset(email: string, transaction?: Transaction): Promise<string> {
+  static async requestPasswordReset(
+    email: string,
+    metadata: { ipAddress?: string; userAgent?: string } = {},
+    transaction?: Transaction
+  ): Promise<string> {
+    const genericMessage = 'If the email exists, a reset link will be sent';
+
     try {
       const user = await User.findOne({
         where: { email },
         transaction
       });
 
-      if (!user) {
+      if (!user || !user.isActive) {
         // Don't reveal if email exists
-        logger.warn(`Password reset requested for non-existent email: ${email}`);
-        return 'If the email exists, a reset link will be sent';
+        logger.warn(`Password reset requested for unknown or inactive email: ${email}`);
+        return genericMessage;
       }
 
-      // Generate reset token
-      const resetToken = await BcryptUtil.generateRandomToken();
-      const resetTokenHash = await BcryptUtil.hashPassword(resetToken);
-      const resetTokenExpiry = new Date(Date.now() + 3600000); // 1 hour
+      // Directory and SSO accounts reset their password at their identity provider
+      if ((user.authProvider || 'local') !== 'local') {
+        logger.warn(`Password reset requested for externally managed account: ${email}`);
+        return genericMessage;
+      }
+
+      // Invalidate any outstanding reset tokens so only the latest one works
+      await PasswordReset.update(
+        { usedAt: new Date() },
+        { where: { userId: user.id, usedAt: null }, transaction }
+      );
+
+      // Generate reset token; only its digest is persisted
+      const resetToken = PasswordReset.generateToken();
+      const expiresAt = new Date(Date.now() + config.security.passwordResetExpiryMinutes * 60 * 1000);
 
-      // Since resetPasswordToken fields don't exist in the model,
-      // we would need to implement a separate PasswordReset model
-      // For now, we'll just return the token
-      logger.warn('Password reset tokens need to be stored in a separate model');
+      await PasswordReset.create({
+        userId: user.id,
+        tokenHash: PasswordReset.hashToken(resetToken),
+        expiresAt,
+        ipAddress: metadata.ipAddress || null,
+        userAgent: metadata.userAgent || null
+      }, { transaction });
+
+      await NotificationService.sendPasswordReset(user.email, resetToken, expiresAt);
 
       // Log password reset request
       await AuditLog.create({
@@ -349,13 +783,14 @@ export class AuthService {
         action: 'PASSWORD_RESET_REQUESTED',
         resource: 'User',
         resourceId: user.id,
-        details: { email }
+        details: { email, expiresAt: expiresAt.toISOString() },
+        ipAddress: metadata.ipAddress,
+        userAgent: metadata.userAgent
       }, { transaction });
 
       logger.info(`Password reset requested for: ${email}`);
 
-      // Return the token (in real app, this would be sent via email)
-      return resetToken;
+      return genericMessage;
     } catch (error) {
       logger.error('Password reset request failed:', error);
       throw error;
@@ -371,33 +806,61 @@ export class AuthService {
     transaction?: Transaction
   ): Promise<void> {
     try {
-      // Since resetPasswordToken fields don't exist in the User model,
-      // this functionality needs to be implemented with a separate model
-      throw new AppError(ErrorCode.INTERNAL_SERVER_ERROR, 'Password reset functionality needs to be implemented with a separate PasswordReset model', 501);
+      const passwordReset = await PasswordReset.findOne({
+        where: { tokenHash: PasswordReset.hashToken(token) },
+        include: [{ model: User, as: 'user' }],
+        transaction
+      });
 
-      // Hash new password
-      const hashedPassword = await BcryptUtil.hashPassword(newPassword);
+      if (!passwordReset || passwordReset.isUsed() || !passwordReset.user) {
+        throw new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'Invalid or already used reset token');
+      }
 
-      // This code is unreachable due to the previous change, but would be:
-      // await matchedUser.update({
-      //   password: hashedPassword
-      // }, { transaction });
+      if (passwordReset.isExpired()) {
+        throw new AuthenticationError(ErrorCode.AUTH_TOKEN_EXPIRED, 'Reset token has expired');
+      }
 
-      // This code is commented out as the resetPassword functionality needs to be implemented
-      // with a separate PasswordReset model
-      
-      // // Revoke all refresh tokens
-      // await AuthUtil.revokeAllUserTokens(matchedUser.id, transaction);
-
-      // // Log password reset
-      // await AuditLog.create({
-      //   userId: matchedUser.id,
-      //   action: 'PASSWORD_RESET_COMPLETED',
-      //   resource: 'User',
-      //   resourceId: matchedUser.id
-      // }, { transaction });
-
-      // logger.info(`Password reset completed for user: ${matchedUser.id}`);
+      const user = passwordReset.user;
+      if (!user.isActive) {
+        throw new AuthenticationError(ErrorCode.AUTH_ACCOUNT_DISABLED, 'Account is inactive');
+      }
+
+      // Consume the token atomically so a concurrent request cannot reuse it
+      const [consumed] = await PasswordReset.update(
+        { usedAt: new Date() },
+        { where: { id: passwordReset.id, usedAt: null }, transaction }
+      );
+
+      if (consumed === 0) {
+        throw new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'Invalid or already used reset token');
+      }
+
+      // Update password (will be hashed by the model's beforeUpdate hook)
+      await user.update({ password: newPassword }, { transaction });
+
+      // Any other outstanding tokens for this user are no longer valid
+      await PasswordReset.update(
+        { usedAt: new Date() },
+        { where: { userId: user.id, usedAt: null, id: { [Op.ne]: passwordReset.id } }, transaction }
+      );
+
+      // Revoke all refresh tokens, and access tokens issued before the reset
+      await AuthUtil.revokeAllUserTokens(user.id, transaction);
+      await PermissionVersionService.bumpUsers([user.id], transaction);
+
+      // Log password reset
+      await AuditLog.create({
+        userId: user.id,
+        action: 'PASSWORD_RESET_COMPLETED',
+        resource: 'User',
+        resourceId: user.id,
+        details: {
+          resetId: passwordReset.id,
+          forced_logout: true
+        }
+      }, { transaction });
+
+      logger.info(`Password reset completed for user: ${user.id}`);
     } catch (error) {
       logger.error('Password reset failed:', error);
       throw error;
@@ -407,40 +870,136 @@ export class AuthService {
   /**
    * Verify email with token
    */
-  static async verifyEmail(userId: string, token: string, transaction?: Transaction): Promise<void> {
+  static async verifyEmail(token: string, transaction?: Transaction): Promise<void> {
     try {
-      const user = await User.findByPk(userId, { transaction });
-      
-      if (!user) {
-        throw new NotFoundError('User');
+      const verification = await EmailVerification.findOne({
+        where: { tokenHash: EmailVerification.hashToken(token) },
+        include: [{ model: User, as: 'user' }],
+        transaction
+      });
+
+      if (!verification || verification.isUsed() || !verification.user) {
+        throw new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'Invalid or already used verification token');
       }
 
-      // Since emailVerified fields don't exist in the model,
-      // this functionality needs to be implemented differently
-      throw new AppError(ErrorCode.INTERNAL_SERVER_ERROR, 'Email verification functionality needs to be implemented with proper fields in the User model', 501);
+      if (verification.isExpired()) {
+        throw new AuthenticationError(ErrorCode.AUTH_TOKEN_EXPIRED, 'Verification token has expired');
+      }
+
+      // Consume the token atomically so a concurrent request cannot reuse it
+      const [consumed] = await EmailVerification.update(
+        { usedAt: new Date() },
+        { where: { id: verification.id, usedAt: null }, transaction }
+      );
+
+      if (consumed === 0) {
+        throw new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'Invalid or already used verification token');
+      }
+
+      const user = verification.user;
+      await user.update({
+        emailVerified: true,
+        emailVerifiedAt: new Date()
+      }, { transaction });
 
       // Log email verification
       await AuditLog.create({
-        userId,
+        userId: user.id,
         action: 'EMAIL_VERIFIED',
         resource: 'User',
-        resourceId: userId
+        resourceId: user.id,
+        details: {
+          email: user.email,
+          verificationId: verification.id
+        }
       }, { transaction });
 
-      logger.info(`Email verified for user: ${userId}`);
+      logger.info(`Email verified for user: ${user.id}`);
     } catch (error) {
       logger.error('Email verification failed:', error);
       throw error;
     }
   }
 
+  /**
+   * Resend the email verification link
+   */
+  static async resendVerification(
+    email: string,
+    metadata: { ipAddress?: string; userAgent?: string } = {},
+    transaction?: Transaction
+  ): Promise<string> {
+    const genericMessage = 'If the account exists and is unverified, a verification link will be sent';
+
+    try {
+      const user = await User.findOne({
+        where: { email },
+        transaction
+      });
+
+      if (!user || !user.isActive || user.emailVerified) {
+        // Don't reveal if email exists or is already verified
+        logger.warn(`Verification resend skipped for email: ${email}`);
+        return genericMessage;
+      }
+
+      await this.issueEmailVerification(user, metadata, transaction);
+
+      return genericMessage;
+    } catch (error) {
+      logger.error('Verification resend failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a verification token for the user's email and send it
+   */
+  private static async issueEmailVerification(
+    user: User,
+    metadata: { ipAddress?: string; userAgent?: string },
+    transaction?: Transaction
+  ): Promise<void> {
+    // Invalidate any outstanding verification tokens so only the latest one works
+    await EmailVerification.update(
+      { usedAt: new Date() },
+      { where: { userId: user.id, usedAt: null }, transaction }
+    );
+
+    // Generate verification token; only its digest is persisted
+    const verificationToken = EmailVerification.generateToken();
+    const expiresAt = new Date(Date.now() + config.security.emailVerificationExpiryHours * 60 * 60 * 1000);
+
+    await EmailVerification.create({
+      userId: user.id,
+      tokenHash: EmailVerification.hashToken(verificationToken),
+      expiresAt,
+      ipAddress: metadata.ipAddress || null,
+      userAgent: metadata.userAgent || null
+    }, { transaction });
+
+    await NotificationService.sendEmailVerification(user.email, verificationToken, expiresAt);
+
+    await AuditLog.create({
+      userId: user.id,
+      action: 'EMAIL_VERIFICATION_SENT',
+      resource: 'User',
+      resourceId: user.id,
+      details: { email: user.email, expiresAt: expiresAt.toISOString() },
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent
+    }, { transaction });
+
+    logger.info(`Email verification sent to: ${user.email}`);
+  }
+
   /**
    * Get active sessions for a user
    */
   static async getActiveSessions(userId: string): Promise<RefreshToken[]> {
     try {
       const sessions = await RefreshToken.findAll({
-        where: { userId },
+        where: { userId, revokedAt: null },
         order: [['createdAt', 'DESC']]
       });
 
@@ -457,7 +1016,7 @@ export class AuthService {
   static async revokeSession(userId: string, tokenId: string, transaction?: Transaction): Promise<void> {
     try {
       const token = await RefreshToken.findOne({
-        where: { id: tokenId, userId },
+        where: { id: tokenId, userId, revokedAt: null },
         transaction
       });
 
@@ -465,7 +1024,7 @@ export class AuthService {
         throw new NotFoundError('Session');
       }
 
-      await token.destroy({ transaction });
+      await token.revoke(transaction);
 
       logger.info(`Session revoked for user ${userId}: ${tokenId}`);
     } catch (error) {
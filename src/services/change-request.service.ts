@@ -0,0 +1,725 @@
+import { Transaction, WhereOptions, Op } from 'sequelize';
+import { ChangeRequest } from '../models/ChangeRequest';
+import { Role } from '../models/Role';
+import { Permission } from '../models/Permission';
+import { User } from '../models/User';
+import { UserRole } from '../models/UserRole';
+import { ApiError } from '../utils/api-error';
+import { AuthorizationError, ConflictError } from '../utils/errors';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { RoleService } from './role.service';
+import { UserService } from './user.service';
+import { OrgUnitService } from './org-unit.service';
+import { SodService } from './sod.service';
+import permissionService from './permission.service';
+import { PaginationOptions, RoleValidity } from '../types/user.types';
+import { RolePermissionUpdate, UpdateRoleData } from '../types/role.types';
+import {
+  ChangeRequestType,
+  ChangeRequestFilter,
+  ChangeRequestPayload,
+  ChangeRequestComment,
+  ChangeRisk,
+  RolePermissionsChange,
+  RoleUpdateChange,
+  RoleUsersChange,
+  UserRolesChange,
+  ScopedUserRoleChange
+} from '../types/change-request.types';
+
+type RequestMetadata = { ipAddress?: string; userAgent?: string };
+
+// The approver must be allowed to make the change themselves
+const REQUIRED_PERMISSION: Record<ChangeRequestType, string> = {
+  role_permissions: 'roles:update',
+  role_update: 'roles:update',
+  role_users: 'roles:update',
+  user_roles: 'users:manage-roles',
+  scoped_user_role: 'org_unit:assign'
+};
+
+// Both replace a role's permissions, so one approved after the other would undo it
+const CONFLICTING_TYPES: Record<ChangeRequestType, ChangeRequestType[]> = {
+  role_permissions: ['role_permissions', 'role_update'],
+  role_update: ['role_permissions', 'role_update'],
+  role_users: ['role_users'],
+  user_roles: ['user_roles'],
+  scoped_user_role: ['scoped_user_role']
+};
+
+export class ChangeRequestService {
+  /**
+   * Hold a role permission change for approval when it edits a system role
+   * or adds wildcard permissions. Returns null when the change is not
+   * high-risk and may be applied right away.
+   */
+  static async holdRolePermissionUpdate(
+    roleId: string,
+    update: RolePermissionUpdate,
+    requestedBy: string,
+    metadata: RequestMetadata = {},
+    transaction?: Transaction
+  ): Promise<ChangeRequest | null> {
+    if (!config.changeRequests.enabled) {
+      return null;
+    }
+
+    const role = await Role.findByPk(roleId, { transaction });
+
+    if (!role) {
+      throw new ApiError(404, 'Role not found');
+    }
+
+    const risks: ChangeRisk[] = [];
+
+    if (role.isSystem) {
+      risks.push({ reason: 'system_role', detail: `${role.name} is a system role` });
+    }
+
+    if (update.add && update.add.length > 0) {
+      const added = await Permission.findAll({ where: { id: update.add }, attributes: ['name'], transaction });
+      risks.push(...this.wildcardRisks(added.map(permission => permission.name)));
+    }
+
+    if (risks.length === 0) {
+      return null;
+    }
+
+    const payload: RolePermissionsChange = { update };
+    return this.createChangeRequest('role_permissions', roleId, payload, risks, requestedBy, metadata, transaction);
+  }
+
+  /**
+   * Hold a role update for approval when it replaces the permissions of a
+   * system role, adds wildcard permissions or moves the role under a parent
+   * that grants them. Renames and other edits are never held.
+   */
+  static async holdRoleUpdate(
+    roleId: string,
+    update: UpdateRoleData,
+    requestedBy: string,
+    metadata: RequestMetadata = {},
+    transaction?: Transaction
+  ): Promise<ChangeRequest | null> {
+    if (!config.changeRequests.enabled) {
+      return null;
+    }
+
+    if (update.permissionIds === undefined && update.parentId === undefined) {
+      return null;
+    }
+
+    const role = await Role.findByPk(roleId, { include: ['permissions'], transaction });
+
+    if (!role) {
+      throw new ApiError(404, 'Role not found');
+    }
+
+    const risks: ChangeRisk[] = [];
+
+    if (role.isSystem) {
+      risks.push({ reason: 'system_role', detail: `${role.name} is a system role` });
+    }
+
+    if (update.permissionIds !== undefined) {
+      const currentIds = (role.permissions || []).map(permission => permission.id);
+      const addedIds = update.permissionIds.filter(permissionId => !currentIds.includes(permissionId));
+
+      if (addedIds.length > 0) {
+        const added = await Permission.findAll({ where: { id: addedIds }, attributes: ['name'], transaction });
+        risks.push(...this.wildcardRisks(added.map(permission => permission.name)));
+      }
+    }
+
+    if (update.parentId && update.parentId !== role.parentId) {
+      risks.push(...await this.roleRisks([update.parentId], transaction));
+    }
+
+    if (risks.length === 0) {
+      return null;
+    }
+
+    const payload: RoleUpdateChange = { update };
+    return this.createChangeRequest('role_update', roleId, payload, risks, requestedBy, metadata, transaction);
+  }
+
+  /**
+   * Hold the assignment of a role to users for approval on the same terms
+   * as a user role change. Returns null when it may be applied right away.
+   */
+  static async holdRoleUserAssignment(
+    roleId: string,
+    userIds: string[],
+    requestedBy: string,
+    metadata: RequestMetadata = {},
+    transaction?: Transaction,
+    validity?: RoleValidity
+  ): Promise<ChangeRequest | null> {
+    if (!config.changeRequests.enabled) {
+      return null;
+    }
+
+    const role = await Role.findByPk(roleId, { attributes: ['id'], transaction });
+
+    if (!role) {
+      throw new ApiError(404, 'Role not found');
+    }
+
+    const risks = await this.roleRisks([roleId], transaction);
+
+    if (risks.length === 0) {
+      return null;
+    }
+
+    const payload: RoleUsersChange = { userIds, ...(validity ? { validity } : {}) };
+    return this.createChangeRequest('role_users', roleId, payload, risks, requestedBy, metadata, transaction);
+  }
+
+  /**
+   * Whether granting the roles would be held for approval. Accounts created
+   * with such roles are created without them and the roles requested with
+   * holdUserRoleUpdate.
+   */
+  static async requiresApproval(roleIds: string[], transaction?: Transaction): Promise<boolean> {
+    if (!config.changeRequests.enabled || roleIds.length === 0) {
+      return false;
+    }
+
+    const risks = await this.roleRisks(roleIds, transaction);
+    return risks.length > 0;
+  }
+
+  /**
+   * The roles among `roleIds` whose assignment would be held for approval.
+   * Identity providers may not grant them, as nobody approves a login.
+   */
+  static async heldRoleIds(roleIds: string[], transaction?: Transaction): Promise<string[]> {
+    const held: string[] = [];
+
+    for (const roleId of new Set(roleIds)) {
+      if (await this.requiresApproval([roleId], transaction)) {
+        held.push(roleId);
+      }
+    }
+
+    return held;
+  }
+
+  /**
+   * High-risk grants among roles and permissions, as they would be held for
+   * approval if assigned directly
+   */
+  static async grantRisks(roleIds: string[], permissionIds: string[], transaction?: Transaction): Promise<ChangeRisk[]> {
+    const risks = roleIds.length > 0 ? await this.roleRisks(roleIds, transaction) : [];
+
+    if (permissionIds.length > 0) {
+      const permissions = await Permission.findAll({ where: { id: permissionIds }, attributes: ['name'], transaction });
+      risks.push(...this.wildcardRisks(permissions.map(permission => permission.name)));
+    }
+
+    return risks;
+  }
+
+  /**
+   * Hold a user role change for approval when a role it adds is a system
+   * role or grants `*:*` or other wildcard permissions, directly or through
+   * its parent roles.
+   * Returns null when the change may be applied right away.
+   */
+  static async holdUserRoleUpdate(
+    userId: string,
+    roleIds: string[],
+    requestedBy: string,
+    metadata: RequestMetadata = {},
+    transaction?: Transaction,
+    validity?: Record<string, RoleValidity>
+  ): Promise<ChangeRequest | null> {
+    if (!config.changeRequests.enabled) {
+      return null;
+    }
+
+    const user = await User.findByPk(userId, { attributes: ['id'], transaction });
+
+    if (!user) {
+      throw new ApiError(404, 'User not found');
+    }
+
+    const currentRoleIds = await this.getUserRoleIds(userId, transaction);
+    const added = roleIds.filter(roleId => !currentRoleIds.includes(roleId));
+
+    if (added.length === 0) {
+      return null;
+    }
+
+    // A change that could never be applied is refused now rather than at approval
+    await SodService.assertAllowedForUser(userId, roleIds, transaction);
+
+    const risks = await this.roleRisks(added, transaction);
+
+    if (risks.length === 0) {
+      return null;
+    }
+
+    const payload: UserRolesChange = { roleIds, currentRoleIds, ...(validity ? { validity } : {}) };
+    return this.createChangeRequest('user_roles', userId, payload, risks, requestedBy, metadata, transaction);
+  }
+
+  /**
+   * Hold a role assignment within an org unit for approval on the same
+   * terms as a global one. Returns null when it may be applied right away.
+   */
+  static async holdScopedRoleAssignment(
+    userId: string,
+    orgUnitId: string,
+    roleId: string,
+    requestedBy: string,
+    metadata: RequestMetadata = {},
+    transaction?: Transaction
+  ): Promise<ChangeRequest | null> {
+    if (!config.changeRequests.enabled) {
+      return null;
+    }
+
+    const user = await User.findByPk(userId, { attributes: ['id'], transaction });
+
+    if (!user) {
+      throw new ApiError(404, 'User not found');
+    }
+
+    const risks = await this.roleRisks([roleId], transaction);
+
+    if (risks.length === 0) {
+      return null;
+    }
+
+    const globalRoleIds = await this.getUserRoleIds(userId, transaction);
+    await SodService.assertAllowedForUser(userId, [...globalRoleIds, roleId], transaction);
+
+    const payload: ScopedUserRoleChange = { orgUnitId, roleId };
+    return this.createChangeRequest('scoped_user_role', userId, payload, risks, requestedBy, metadata, transaction);
+  }
+
+  /**
+   * Get change requests with pagination and filtering, newest first
+   */
+  static async listChangeRequests(
+    filter: ChangeRequestFilter = {},
+    pagination: PaginationOptions = { page: 1, limit: 20 }
+  ): Promise<{ changeRequests: ChangeRequest[]; total: number }> {
+    await this.expireStale();
+
+    const { page = 1, limit = 20 } = pagination;
+    const where: WhereOptions<ChangeRequest> = {};
+
+    if (filter.status) {
+      where.status = filter.status;
+    }
+
+    if (filter.type) {
+      where.type = filter.type;
+    }
+
+    if (filter.targetId) {
+      where.targetId = filter.targetId;
+    }
+
+    if (filter.requestedBy) {
+      where.requestedBy = filter.requestedBy;
+    }
+
+    const { count, rows } = await ChangeRequest.findAndCountAll({
+      where,
+      include: this.userIncludes(),
+      limit,
+      offset: (page - 1) * limit,
+      order: [['createdAt', 'DESC']]
+    });
+
+    return { changeRequests: rows, total: count };
+  }
+
+  static async getChangeRequestById(changeRequestId: string, transaction?: Transaction): Promise<ChangeRequest> {
+    const changeRequest = await ChangeRequest.findByPk(changeRequestId, {
+      include: this.userIncludes(),
+      transaction
+    });
+
+    if (!changeRequest) {
+      throw new ApiError(404, 'Change request not found');
+    }
+
+    return changeRequest;
+  }
+
+  /**
+   * Approve a pending change request and apply the change. The approver
+   * must be someone other than the requester and, for role assignments,
+   * the users whose roles change.
+   */
+  static async approveChangeRequest(
+    changeRequestId: string,
+    reviewerId: string,
+    comment: string | undefined,
+    metadata: RequestMetadata = {},
+    transaction?: Transaction
+  ): Promise<ChangeRequest> {
+    const changeRequest = await this.getPendingChangeRequest(changeRequestId, transaction);
+
+    if (changeRequest.requestedBy === reviewerId) {
+      throw new AuthorizationError('Change requests must be approved by someone other than the requester');
+    }
+
+    if (this.getAffectedUserIds(changeRequest).includes(reviewerId)) {
+      throw new AuthorizationError('Users cannot approve changes to their own roles');
+    }
+
+    // A scoped assignment may be approved by anyone allowed to make it in that unit
+    const requiredPermission = REQUIRED_PERMISSION[changeRequest.type];
+    const { hasPermission } = changeRequest.type === 'scoped_user_role'
+      ? await permissionService.checkUserPermission(
+        reviewerId,
+        requiredPermission,
+        (changeRequest.payload as ScopedUserRoleChange).orgUnitId
+      )
+      : await permissionService.checkUserPermission(reviewerId, requiredPermission);
+    if (!hasPermission) {
+      throw new AuthorizationError(`Approving this change requires the ${requiredPermission} permission`);
+    }
+
+    await this.review(changeRequest, 'approved', reviewerId, comment, transaction);
+    await this.applyChange(changeRequest, transaction);
+
+    await AuditService.log({
+      userId: reviewerId,
+      action: 'change_request:approve',
+      resource: 'change_request',
+      resourceId: changeRequest.id,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: {
+        type: changeRequest.type,
+        targetId: changeRequest.targetId,
+        requestedBy: changeRequest.requestedBy,
+        comment: comment || null
+      }
+    }, transaction);
+
+    logger.info(`Change request ${changeRequest.id} (${changeRequest.type}) approved by ${reviewerId}`);
+    return changeRequest;
+  }
+
+  /**
+   * Reject a pending change request. Requesters withdraw their own
+   * requests with cancel instead.
+   */
+  static async rejectChangeRequest(
+    changeRequestId: string,
+    reviewerId: string,
+    comment: string,
+    metadata: RequestMetadata = {},
+    transaction?: Transaction
+  ): Promise<ChangeRequest> {
+    const changeRequest = await this.getPendingChangeRequest(changeRequestId, transaction);
+
+    if (changeRequest.requestedBy === reviewerId) {
+      throw new AuthorizationError('Cancel your own change request instead of rejecting it');
+    }
+
+    await this.review(changeRequest, 'rejected', reviewerId, comment, transaction);
+
+    await AuditService.log({
+      userId: reviewerId,
+      action: 'change_request:reject',
+      resource: 'change_request',
+      resourceId: changeRequest.id,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: { type: changeRequest.type, targetId: changeRequest.targetId, comment }
+    }, transaction);
+
+    logger.info(`Change request ${changeRequest.id} (${changeRequest.type}) rejected by ${reviewerId}`);
+    return changeRequest;
+  }
+
+  /**
+   * Withdraw a pending change request; only its requester may do so
+   */
+  static async cancelChangeRequest(
+    changeRequestId: string,
+    userId: string,
+    metadata: RequestMetadata = {},
+    transaction?: Transaction
+  ): Promise<ChangeRequest> {
+    const changeRequest = await this.getPendingChangeRequest(changeRequestId, transaction);
+
+    if (changeRequest.requestedBy !== userId) {
+      throw new AuthorizationError('Only the requester can cancel a change request');
+    }
+
+    await this.review(changeRequest, 'cancelled', userId, undefined, transaction);
+
+    await AuditService.log({
+      userId,
+      action: 'change_request:cancel',
+      resource: 'change_request',
+      resourceId: changeRequest.id,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: { type: changeRequest.type, targetId: changeRequest.targetId }
+    }, transaction);
+
+    return changeRequest;
+  }
+
+  /**
+   * Add a comment to a pending change request
+   */
+  static async addComment(
+    changeRequestId: string,
+    userId: string,
+    comment: string,
+    metadata: RequestMetadata = {},
+    transaction?: Transaction
+  ): Promise<ChangeRequest> {
+    const changeRequest = await this.getPendingChangeRequest(changeRequestId, transaction);
+
+    await changeRequest.update({ comments: this.withComment(changeRequest, userId, comment) }, { transaction });
+
+    await AuditService.log({
+      userId,
+      action: 'change_request:comment',
+      resource: 'change_request',
+      resourceId: changeRequest.id,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: { comment }
+    }, transaction);
+
+    return changeRequest;
+  }
+
+  /**
+   * Mark pending change requests past their expiry as expired
+   */
+  static async expireStale(transaction?: Transaction): Promise<number> {
+    const stale = await ChangeRequest.findAll({
+      where: { status: 'pending', expiresAt: { [Op.lte]: new Date() } },
+      transaction
+    });
+
+    for (const changeRequest of stale) {
+      await changeRequest.update({ status: 'expired' }, { transaction });
+
+      await AuditService.log({
+        userId: null,
+        action: 'change_request:expire',
+        resource: 'change_request',
+        resourceId: changeRequest.id,
+        details: {
+          type: changeRequest.type,
+          targetId: changeRequest.targetId,
+          requestedBy: changeRequest.requestedBy
+        }
+      }, transaction);
+    }
+
+    if (stale.length > 0) {
+      logger.info(`Expired ${stale.length} change request(s)`);
+    }
+
+    return stale.length;
+  }
+
+  private static async createChangeRequest(
+    type: ChangeRequestType,
+    targetId: string,
+    payload: ChangeRequestPayload,
+    risks: ChangeRisk[],
+    requestedBy: string,
+    metadata: RequestMetadata,
+    transaction?: Transaction
+  ): Promise<ChangeRequest> {
+    // A second request could be approved on top of the first and undo it
+    const pending = await ChangeRequest.findOne({
+      where: { type: CONFLICTING_TYPES[type], targetId, status: 'pending', expiresAt: { [Op.gt]: new Date() } },
+      transaction
+    });
+
+    if (pending) {
+      throw new ConflictError(`Change request ${pending.id} for this ${type.startsWith('role_') ? 'role' : 'user'} is still pending`);
+    }
+
+    const changeRequest = await ChangeRequest.create({
+      type,
+      targetId,
+      payload,
+      risks,
+      requestedBy,
+      comments: [],
+      expiresAt: new Date(Date.now() + config.changeRequests.ttlHours * 60 * 60 * 1000)
+    }, { transaction });
+
+    await AuditService.log({
+      userId: requestedBy,
+      action: 'change_request:create',
+      resource: 'change_request',
+      resourceId: changeRequest.id,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: { type, targetId, payload, risks }
+    }, transaction);
+
+    logger.info(`Change request ${changeRequest.id} (${type} on ${targetId}) awaits approval`);
+    return changeRequest;
+  }
+
+  private static async getPendingChangeRequest(changeRequestId: string, transaction?: Transaction): Promise<ChangeRequest> {
+    const changeRequest = await ChangeRequest.findByPk(changeRequestId, { transaction });
+
+    if (!changeRequest) {
+      throw new ApiError(404, 'Change request not found');
+    }
+
+    if (changeRequest.status !== 'pending') {
+      throw new ConflictError(`Change request is ${changeRequest.status}`);
+    }
+
+    if (changeRequest.isExpired()) {
+      throw new ConflictError('Change request has expired');
+    }
+
+    return changeRequest;
+  }
+
+  /**
+   * Close a pending request. The conditional update keeps two reviewers
+   * from both acting on it.
+   */
+  private static async review(
+    changeRequest: ChangeRequest,
+    status: 'approved' | 'rejected' | 'cancelled',
+    reviewerId: string,
+    comment: string | undefined,
+    transaction?: Transaction
+  ): Promise<void> {
+    const reviewedAt = new Date();
+    const comments = comment ? this.withComment(changeRequest, reviewerId, comment) : changeRequest.comments;
+
+    const [updated] = await ChangeRequest.update(
+      { status, reviewedBy: reviewerId, reviewedAt, comments },
+      { where: { id: changeRequest.id, status: 'pending' }, transaction }
+    );
+
+    if (updated === 0) {
+      throw new ConflictError('Change request has already been reviewed');
+    }
+
+    changeRequest.set({ status, reviewedBy: reviewerId, reviewedAt, comments });
+  }
+
+  private static async applyChange(changeRequest: ChangeRequest, transaction?: Transaction): Promise<void> {
+    if (changeRequest.type === 'role_permissions') {
+      const { update } = changeRequest.payload as RolePermissionsChange;
+      await RoleService.updateRolePermissions(changeRequest.targetId, update, changeRequest.requestedBy, transaction);
+      return;
+    }
+
+    if (changeRequest.type === 'role_update') {
+      const { update } = changeRequest.payload as RoleUpdateChange;
+      await RoleService.updateRole(changeRequest.targetId, update, changeRequest.requestedBy, transaction);
+      return;
+    }
+
+    if (changeRequest.type === 'role_users') {
+      const { userIds, validity } = changeRequest.payload as RoleUsersChange;
+      if (validity) {
+        await RoleService.assignUsersToRole(changeRequest.targetId, userIds, changeRequest.requestedBy, transaction, validity);
+      } else {
+        await RoleService.assignUsersToRole(changeRequest.targetId, userIds, changeRequest.requestedBy, transaction);
+      }
+      return;
+    }
+
+    if (changeRequest.type === 'scoped_user_role') {
+      const { orgUnitId, roleId } = changeRequest.payload as ScopedUserRoleChange;
+      await OrgUnitService.assignRole(
+        orgUnitId,
+        { userId: changeRequest.targetId, roleId },
+        changeRequest.requestedBy,
+        transaction
+      );
+      return;
+    }
+
+    const { roleIds, currentRoleIds, validity } = changeRequest.payload as UserRolesChange;
+    const roleIdsNow = await this.getUserRoleIds(changeRequest.targetId, transaction);
+
+    // The request replaces the user's roles, so it would undo changes made since
+    if (roleIdsNow.length !== currentRoleIds.length || roleIdsNow.some(roleId => !currentRoleIds.includes(roleId))) {
+      throw new ConflictError('The user\'s roles changed after the request was made; request the change again');
+    }
+
+    if (validity) {
+      await UserService.updateUserRoles(changeRequest.targetId, roleIds, changeRequest.requestedBy, transaction, validity);
+    } else {
+      await UserService.updateUserRoles(changeRequest.targetId, roleIds, changeRequest.requestedBy, transaction);
+    }
+  }
+
+  /**
+   * Users whose own roles the change alters; none of them may approve it
+   */
+  private static getAffectedUserIds(changeRequest: ChangeRequest): string[] {
+    if (changeRequest.type === 'role_users') {
+      return (changeRequest.payload as RoleUsersChange).userIds;
+    }
+
+    return changeRequest.type === 'user_roles' || changeRequest.type === 'scoped_user_role'
+      ? [changeRequest.targetId]
+      : [];
+  }
+
+  private static async getUserRoleIds(userId: string, transaction?: Transaction): Promise<string[]> {
+    const assignments = await UserRole.findAll({ where: { userId }, attributes: ['roleId'], transaction });
+    return assignments.map(assignment => assignment.roleId);
+  }
+
+  /**
+   * System roles and wildcard grants among roles, including those they inherit
+   */
+  private static async roleRisks(roleIds: string[], transaction?: Transaction): Promise<ChangeRisk[]> {
+    const effectiveRoleIds = await Role.getEffectiveRoleIds(roleIds, transaction);
+    const roles = await Role.findAll({
+      where: { id: effectiveRoleIds },
+      include: [{ association: 'permissions', attributes: ['name'], through: { attributes: [], where: { effect: 'allow' } } }],
+      transaction
+    });
+    const granted = new Set(roles.flatMap(role => role.permissions?.map(permission => permission.name) || []));
+    const systemRisks = roles
+      .filter(role => role.isSystem)
+      .map(role => ({ reason: 'system_role' as const, detail: `${role.name} is a system role` }));
+
+    return [...systemRisks, ...this.wildcardRisks(Array.from(granted))];
+  }
+
+  private static wildcardRisks(permissionNames: string[]): ChangeRisk[] {
+    return permissionNames
+      .filter(name => name.split(':').includes('*'))
+      .map(name => name === '*:*'
+        ? { reason: 'superuser_grant' as const, detail: 'Grants every permission (*:*)' }
+        : { reason: 'wildcard_permission' as const, detail: `Grants ${name}` });
+  }
+
+  private static withComment(changeRequest: ChangeRequest, userId: string, comment: string): ChangeRequestComment[] {
+    return [...(changeRequest.comments || []), { userId, comment, createdAt: new Date().toISOString() }];
+  }
+
+  private static userIncludes() {
+    return [
+      { model: User, as: 'requester', attributes: ['id', 'username', 'email'] },
+      { model: User, as: 'reviewer', attributes: ['id', 'username', 'email'] }
+    ];
+  }
+}
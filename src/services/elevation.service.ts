@@ -0,0 +1,389 @@
+import { Transaction, WhereOptions, Op } from 'sequelize';
+import { sequelize } from '../config/database';
+import { ElevationRequest } from '../models/ElevationRequest';
+import { Role } from '../models/Role';
+import { Permission } from '../models/Permission';
+import { User } from '../models/User';
+import { UserRole } from '../models/UserRole';
+import { ApiError } from '../utils/api-error';
+import { AuthorizationError, ConflictError } from '../utils/errors';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { SodService } from './sod.service';
+import { ChangeRequestService } from './change-request.service';
+import permissionService from './permission.service';
+import { PermissionVersionService } from './permission-version.service';
+import { PaginationOptions } from '../types/user.types';
+import { CreateElevationRequestData, ElevationRequestFilter } from '../types/elevation.types';
+
+type RequestMetadata = { ipAddress?: string; userAgent?: string };
+
+/**
+ * Just-in-time elevation: users request a role or permissions for a limited
+ * time, with a justification, and another user approves. The grant starts on
+ * approval and is read from the request itself (see PermissionCacheService),
+ * so the user's standing role assignments are never touched.
+ */
+export class ElevationService {
+  /**
+   * Request a role or permissions for the requesting user
+   */
+  static async requestElevation(
+    userId: string,
+    data: CreateElevationRequestData,
+    metadata: RequestMetadata = {},
+    transaction?: Transaction
+  ): Promise<ElevationRequest> {
+    const maxDuration = config.elevation.maxDurationMinutes;
+
+    if (data.durationMinutes > maxDuration) {
+      throw new ApiError(400, `Elevations can last at most ${maxDuration} minutes`);
+    }
+
+    const permissionIds = data.permissionIds || [];
+    await this.assertGrantable(userId, data.roleId || null, permissionIds, transaction);
+
+    const elevation = await ElevationRequest.create({
+      userId,
+      roleId: data.roleId || null,
+      permissionIds,
+      justification: data.justification,
+      durationMinutes: data.durationMinutes
+    }, { transaction });
+
+    await AuditService.log({
+      userId,
+      action: 'elevation:request',
+      resource: 'elevation',
+      resourceId: elevation.id,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: {
+        roleId: elevation.roleId,
+        permissionIds,
+        durationMinutes: elevation.durationMinutes,
+        justification: elevation.justification
+      }
+    }, transaction);
+
+    logger.info(`Elevation ${elevation.id} requested by ${userId} for ${elevation.durationMinutes} minutes`);
+    return elevation;
+  }
+
+  /**
+   * Get elevation requests with pagination and filtering, newest first
+   */
+  static async listElevationRequests(
+    filter: ElevationRequestFilter = {},
+    pagination: PaginationOptions = { page: 1, limit: 20 }
+  ): Promise<{ elevationRequests: ElevationRequest[]; total: number }> {
+    const { page = 1, limit = 20 } = pagination;
+    const where: WhereOptions<ElevationRequest> = {};
+
+    if (filter.status) {
+      where.status = filter.status;
+    }
+
+    if (filter.userId) {
+      where.userId = filter.userId;
+    }
+
+    const { count, rows } = await ElevationRequest.findAndCountAll({
+      where,
+      include: [
+        { model: User, as: 'user', attributes: ['id', 'username', 'email'] },
+        { model: User, as: 'reviewer', attributes: ['id', 'username', 'email'] },
+        { model: Role, as: 'role', attributes: ['id', 'name'] }
+      ],
+      limit,
+      offset: (page - 1) * limit,
+      order: [['createdAt', 'DESC']]
+    });
+
+    return { elevationRequests: rows, total: count };
+  }
+
+  /**
+   * Approve a pending request, starting the grant. Nobody can approve
+   * their own elevation, nor grant a permission they do not hold.
+   */
+  static async approveElevation(
+    elevationId: string,
+    reviewerId: string,
+    comment: string | undefined,
+    metadata: RequestMetadata = {},
+    transaction?: Transaction
+  ): Promise<ElevationRequest> {
+    const elevation = await this.getPendingElevation(elevationId, transaction);
+
+    if (elevation.userId === reviewerId) {
+      throw new AuthorizationError('Elevations must be approved by someone other than the requester');
+    }
+
+    // The user's roles, and what the role grants, may have changed since the request
+    await this.assertGrantable(elevation.userId, elevation.roleId, elevation.permissionIds, transaction);
+    await this.assertApproverHolds(reviewerId, elevation, transaction);
+
+    const expiresAt = new Date(Date.now() + elevation.durationMinutes * 60 * 1000);
+    await this.review(elevation, 'approved', reviewerId, comment, transaction, expiresAt);
+
+    // Tokens issued before the grant are refused so the holder picks it up on refresh
+    await PermissionVersionService.bumpUsers([elevation.userId], transaction);
+
+    await AuditService.log({
+      userId: reviewerId,
+      action: 'elevation:approve',
+      resource: 'elevation',
+      resourceId: elevation.id,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: {
+        requestedBy: elevation.userId,
+        roleId: elevation.roleId,
+        permissionIds: elevation.permissionIds,
+        expiresAt,
+        comment: comment || null
+      }
+    }, transaction);
+
+    logger.info(`Elevation ${elevation.id} for ${elevation.userId} approved by ${reviewerId} until ${expiresAt.toISOString()}`);
+    return elevation;
+  }
+
+  /**
+   * Reject a pending request. Requesters withdraw their own requests with
+   * cancel instead.
+   */
+  static async rejectElevation(
+    elevationId: string,
+    reviewerId: string,
+    comment: string,
+    metadata: RequestMetadata = {},
+    transaction?: Transaction
+  ): Promise<ElevationRequest> {
+    const elevation = await this.getPendingElevation(elevationId, transaction);
+
+    if (elevation.userId === reviewerId) {
+      throw new AuthorizationError('Cancel your own elevation request instead of rejecting it');
+    }
+
+    await this.review(elevation, 'rejected', reviewerId, comment, transaction);
+
+    await AuditService.log({
+      userId: reviewerId,
+      action: 'elevation:reject',
+      resource: 'elevation',
+      resourceId: elevation.id,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: { requestedBy: elevation.userId, comment }
+    }, transaction);
+
+    logger.info(`Elevation ${elevation.id} for ${elevation.userId} rejected by ${reviewerId}`);
+    return elevation;
+  }
+
+  /**
+   * Withdraw a pending request; only its requester may do so
+   */
+  static async cancelElevation(
+    elevationId: string,
+    userId: string,
+    metadata: RequestMetadata = {},
+    transaction?: Transaction
+  ): Promise<ElevationRequest> {
+    const elevation = await this.getPendingElevation(elevationId, transaction);
+
+    if (elevation.userId !== userId) {
+      throw new AuthorizationError('Only the requester can cancel an elevation request');
+    }
+
+    await this.review(elevation, 'cancelled', userId, undefined, transaction);
+
+    await AuditService.log({
+      userId,
+      action: 'elevation:cancel',
+      resource: 'elevation',
+      resourceId: elevation.id,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent
+    }, transaction);
+
+    return elevation;
+  }
+
+  /**
+   * Mark approved elevations past their expiry as expired, auditing each one.
+   * They grant nothing from `expiresAt` on, but tokens issued while they
+   * applied stay valid until the holders' permissions version is bumped here.
+   * Returns how many expired.
+   */
+  static async sweepExpired(now: Date = new Date()): Promise<number> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      // Locked so that instances sweeping at the same time audit each expiry once
+      const elapsed = await ElevationRequest.findAll({
+        where: { status: 'approved', expiresAt: { [Op.lte]: now } },
+        lock: transaction.LOCK.UPDATE,
+        transaction
+      });
+
+      for (const elevation of elapsed) {
+        await elevation.update({ status: 'expired' }, { transaction });
+
+        await AuditService.log({
+          userId: null,
+          action: 'elevation:expire',
+          resource: 'elevation',
+          resourceId: elevation.id,
+          details: {
+            requestedBy: elevation.userId,
+            roleId: elevation.roleId,
+            permissionIds: elevation.permissionIds,
+            approvedBy: elevation.reviewedBy,
+            expiresAt: elevation.expiresAt
+          }
+        }, transaction);
+      }
+
+      await PermissionVersionService.bumpUsers(elapsed.map(elevation => elevation.userId), transaction);
+      await transaction.commit();
+
+      if (elapsed.length > 0) {
+        logger.info(`Expired ${elapsed.length} elevation(s)`);
+      }
+
+      return elapsed.length;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Refuse unknown roles or permissions, roles the user may not hold
+   * together with their current ones, and high-risk grants, which only
+   * change requests may give
+   */
+  private static async assertGrantable(
+    userId: string,
+    roleId: string | null,
+    permissionIds: string[],
+    transaction?: Transaction
+  ): Promise<void> {
+    if (roleId) {
+      const role = await Role.findByPk(roleId, { attributes: ['id'], transaction });
+
+      if (!role) {
+        throw new ApiError(404, 'Role not found');
+      }
+
+      const assignments = await UserRole.findAll({ where: { userId }, attributes: ['roleId'], transaction });
+      await SodService.assertAllowedForUser(userId, [...assignments.map(assignment => assignment.roleId), roleId], transaction);
+    }
+
+    if (permissionIds.length > 0) {
+      const permissions = await Permission.count({ where: { id: permissionIds }, transaction });
+
+      if (permissions !== permissionIds.length) {
+        throw new ApiError(400, 'One or more permission IDs are invalid');
+      }
+    }
+
+    const risks = await ChangeRequestService.grantRisks(roleId ? [roleId] : [], permissionIds, transaction);
+
+    if (risks.length > 0) {
+      throw new AuthorizationError(
+        `System roles and wildcard permissions cannot be granted by elevation: ${risks.map(risk => risk.detail).join('; ')}`
+      );
+    }
+  }
+
+  /**
+   * Refuse approvers who do not hold every permission the elevation would
+   * grant, including those its role inherits, so that `elevation:approve`
+   * never hands out more than its holder has
+   */
+  private static async assertApproverHolds(
+    reviewerId: string,
+    elevation: ElevationRequest,
+    transaction?: Transaction
+  ): Promise<void> {
+    const granted = new Set<string>();
+
+    if (elevation.roleId) {
+      const roleIds = await Role.getEffectiveRoleIds([elevation.roleId], transaction);
+      const roles = await Role.findAll({
+        where: { id: roleIds },
+        include: [{ association: 'permissions', attributes: ['name'], through: { attributes: [], where: { effect: 'allow' } } }],
+        transaction
+      });
+      roles.forEach(role => role.permissions?.forEach(permission => granted.add(permission.name)));
+    }
+
+    if (elevation.permissionIds.length > 0) {
+      const permissions = await Permission.findAll({ where: { id: elevation.permissionIds }, attributes: ['name'], transaction });
+      permissions.forEach(permission => granted.add(permission.name));
+    }
+
+    const missing: string[] = [];
+    for (const name of granted) {
+      const { hasPermission } = await permissionService.checkUserPermission(reviewerId, name);
+      if (!hasPermission) {
+        missing.push(name);
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new AuthorizationError(`Approvers must hold every permission they grant; missing ${missing.join(', ')}`);
+    }
+  }
+
+  private static async getPendingElevation(elevationId: string, transaction?: Transaction): Promise<ElevationRequest> {
+    const elevation = await ElevationRequest.findByPk(elevationId, { transaction });
+
+    if (!elevation) {
+      throw new ApiError(404, 'Elevation request not found');
+    }
+
+    if (elevation.status !== 'pending') {
+      throw new ConflictError(`Elevation request is ${elevation.status}`);
+    }
+
+    return elevation;
+  }
+
+  /**
+   * Close a pending request. The conditional update keeps two reviewers
+   * from both acting on it.
+   */
+  private static async review(
+    elevation: ElevationRequest,
+    status: 'approved' | 'rejected' | 'cancelled',
+    reviewerId: string,
+    comment: string | undefined,
+    transaction?: Transaction,
+    expiresAt: Date | null = null
+  ): Promise<void> {
+    const changes = {
+      status,
+      reviewedBy: reviewerId,
+      reviewedAt: new Date(),
+      reviewComment: comment || null,
+      expiresAt
+    };
+
+    const [updated] = await ElevationRequest.update(changes, {
+      where: { id: elevation.id, status: 'pending' },
+      transaction
+    });
+
+    if (updated === 0) {
+      throw new ConflictError('Elevation request has already been reviewed');
+    }
+
+    elevation.set(changes);
+  }
+}
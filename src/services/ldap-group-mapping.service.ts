@@ -0,0 +1,178 @@
+import { Transaction, UniqueConstraintError } from 'sequelize';
+import { LdapGroupMapping } from '../models/LdapGroupMapping';
+import { Role } from '../models/Role';
+import { ApiError } from '../utils/api-error';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { UserService } from './user.service';
+import { ChangeRequestService } from './change-request.service';
+
+const roleInclude = {
+  model: Role,
+  as: 'role',
+  attributes: ['id', 'name', 'description']
+};
+
+export class LdapGroupMappingService {
+  /**
+   * List mappings, optionally only those granting a role
+   */
+  static async listMappings(filter: { roleId?: string; groupDn?: string } = {}): Promise<LdapGroupMapping[]> {
+    const where: Record<string, string> = {};
+
+    if (filter.roleId) {
+      where.roleId = filter.roleId;
+    }
+    if (filter.groupDn) {
+      where.groupDn = LdapGroupMapping.normalizeDn(filter.groupDn);
+    }
+
+    return LdapGroupMapping.findAll({
+      where,
+      include: [roleInclude],
+      order: [['groupDn', 'ASC']]
+    });
+  }
+
+  static async getMappingById(mappingId: string, transaction?: Transaction): Promise<LdapGroupMapping> {
+    const mapping = await LdapGroupMapping.findByPk(mappingId, { include: [roleInclude], transaction });
+
+    if (!mapping) {
+      throw new ApiError(404, 'Group mapping not found');
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Map a directory group to a role. Takes effect for each member at their next login.
+   */
+  static async createMapping(
+    data: { groupDn: string; roleId: string },
+    createdBy: string,
+    transaction?: Transaction
+  ): Promise<LdapGroupMapping> {
+    await this.assertRoleMappable(data.roleId, transaction);
+
+    try {
+      const mapping = await LdapGroupMapping.create({
+        groupDn: data.groupDn,
+        roleId: data.roleId,
+        createdBy
+      }, { transaction });
+
+      await AuditService.log({
+        userId: createdBy,
+        action: 'ldap_group_mapping:create',
+        resource: 'ldap_group_mapping',
+        resourceId: mapping.id,
+        details: { groupDn: mapping.groupDn, roleId: data.roleId }
+      }, transaction);
+
+      logger.info(`LDAP group ${mapping.groupDn} mapped to role ${data.roleId}`);
+      return this.getMappingById(mapping.id, transaction);
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        throw new ApiError(409, 'This group is already mapped to the role');
+      }
+      throw error;
+    }
+  }
+
+  static async updateMapping(
+    mappingId: string,
+    data: { groupDn?: string; roleId?: string },
+    updatedBy: string,
+    transaction?: Transaction
+  ): Promise<LdapGroupMapping> {
+    const mapping = await this.getMappingById(mappingId, transaction);
+
+    if (data.roleId) {
+      await this.assertRoleMappable(data.roleId, transaction);
+    }
+
+    try {
+      await mapping.update(data, { transaction });
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        throw new ApiError(409, 'This group is already mapped to the role');
+      }
+      throw error;
+    }
+
+    await AuditService.log({
+      userId: updatedBy,
+      action: 'ldap_group_mapping:update',
+      resource: 'ldap_group_mapping',
+      resourceId: mappingId,
+      details: { changes: data }
+    }, transaction);
+
+    return this.getMappingById(mappingId, transaction);
+  }
+
+  /**
+   * Remove a mapping. Roles already granted through it are removed at each
+   * member's next login, unless the role is still mapped from another group.
+   */
+  static async deleteMapping(mappingId: string, deletedBy: string, transaction?: Transaction): Promise<void> {
+    const mapping = await this.getMappingById(mappingId, transaction);
+
+    await mapping.destroy({ transaction });
+
+    await AuditService.log({
+      userId: deletedBy,
+      action: 'ldap_group_mapping:delete',
+      resource: 'ldap_group_mapping',
+      resourceId: mappingId,
+      details: { groupDn: mapping.groupDn, roleId: mapping.roleId }
+    }, transaction);
+  }
+
+  /**
+   * Make a user's directory-managed roles match their groups. Only roles that
+   * appear in some mapping are touched, so roles assigned by hand survive.
+   */
+  static async syncUserRoles(
+    userId: string,
+    groupDns: string[],
+    transaction?: Transaction
+  ): Promise<{ added: string[]; removed: string[] }> {
+    const mappings = await LdapGroupMapping.findAll({ attributes: ['groupDn', 'roleId'], transaction });
+
+    const groups = new Set(groupDns.map(dn => LdapGroupMapping.normalizeDn(dn)));
+    const managedRoleIds = Array.from(new Set(mappings.map(mapping => mapping.roleId)));
+    const targetRoleIds = mappings.filter(mapping => groups.has(mapping.groupDn)).map(mapping => mapping.roleId);
+
+    // Roles that need approval are left as they are, whatever the groups say
+    const held = await ChangeRequestService.heldRoleIds(targetRoleIds, transaction);
+    if (held.length > 0) {
+      logger.warn(`Groups of user ${userId} map to roles that need approval, not synced: ${held.join(', ')}`);
+    }
+
+    return UserService.syncManagedRoles(
+      userId,
+      managedRoleIds.filter(roleId => !held.includes(roleId)),
+      targetRoleIds.filter(roleId => !held.includes(roleId)),
+      'ldap',
+      transaction
+    );
+  }
+
+  /**
+   * Refuse unknown roles, and roles whose assignment is held for approval:
+   * group members would get them at login without anyone approving
+   */
+  private static async assertRoleMappable(roleId: string, transaction?: Transaction): Promise<void> {
+    const role = await Role.findByPk(roleId, { attributes: ['id'], transaction });
+
+    if (!role) {
+      throw new ApiError(400, 'Role not found');
+    }
+
+    const held = await ChangeRequestService.heldRoleIds([roleId], transaction);
+    if (held.length > 0) {
+      throw new ApiError(400, 'Roles whose assignment needs approval cannot be mapped to a group');
+    }
+  }
+}
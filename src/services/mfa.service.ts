@@ -0,0 +1,283 @@
+import { Transaction } from 'sequelize';
+import { User } from '../models/User';
+import { Role } from '../models/Role';
+import { MfaRecoveryCode } from '../models/MfaRecoveryCode';
+import { AuditLog } from '../models/AuditLog';
+import { TOTPUtil } from '../utils/totp.util';
+import { logger } from '../utils/logger';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  ValidationError
+} from '../utils/errors';
+import { ErrorCode } from '../types';
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export class MfaService {
+  /**
+   * Start TOTP enrollment. The secret is stored encrypted but MFA stays
+   * disabled until the user confirms a code from their authenticator.
+   */
+  static async startEnrollment(userId: string, transaction?: Transaction): Promise<MfaEnrollment> {
+    try {
+      const user = await this.getUser(userId, transaction);
+
+      if (user.mfaEnabled) {
+        throw new ValidationError('MFA is already enabled');
+      }
+
+      const secret = TOTPUtil.generateSecret();
+
+      await user.update({
+        mfaSecret: TOTPUtil.encryptSecret(secret),
+        mfaLastUsedStep: null
+      }, { transaction });
+
+      logger.info(`MFA enrollment started for user: ${user.id}`);
+
+      return {
+        secret,
+        otpauthUri: TOTPUtil.buildOtpAuthUri(secret, user.email)
+      };
+    } catch (error) {
+      logger.error('MFA enrollment failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app.
+   * Returns the recovery codes; they are only shown once.
+   */
+  static async confirmEnrollment(userId: string, code: string, transaction?: Transaction): Promise<string[]> {
+    try {
+      const user = await this.getUser(userId, transaction);
+
+      if (user.mfaEnabled) {
+        throw new ValidationError('MFA is already enabled');
+      }
+
+      if (!user.mfaSecret) {
+        throw new ValidationError('MFA enrollment has not been started');
+      }
+
+      const step = TOTPUtil.verifyCode(TOTPUtil.decryptSecret(user.mfaSecret), code);
+      if (step === null) {
+        throw new AuthenticationError(ErrorCode.AUTH_MFA_INVALID_CODE, 'Invalid MFA code');
+      }
+
+      await user.update({
+        mfaEnabled: true,
+        mfaLastUsedStep: step
+      }, { transaction });
+
+      const recoveryCodes = await this.replaceRecoveryCodes(user.id, transaction);
+
+      await AuditLog.create({
+        userId: user.id,
+        action: 'MFA_ENABLED',
+        resource: 'User',
+        resourceId: user.id,
+        details: { method: 'totp' }
+      }, { transaction });
+
+      logger.info(`MFA enabled for user: ${user.id}`);
+
+      return recoveryCodes;
+    } catch (error) {
+      logger.error('MFA enrollment confirmation failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check a TOTP or recovery code for a user with MFA enabled.
+   * Accepted TOTP steps and recovery codes cannot be used again.
+   */
+  static async verifyCode(user: User, code: string, transaction?: Transaction): Promise<boolean> {
+    if (!user.mfaEnabled || !user.mfaSecret) {
+      return false;
+    }
+
+    const step = TOTPUtil.verifyCode(TOTPUtil.decryptSecret(user.mfaSecret), code);
+    if (step !== null) {
+      if (user.mfaLastUsedStep !== null && user.mfaLastUsedStep !== undefined && step <= user.mfaLastUsedStep) {
+        logger.warn(`Replayed MFA code rejected for user: ${user.id}`);
+        return false;
+      }
+
+      await user.update({ mfaLastUsedStep: step }, { transaction });
+      return true;
+    }
+
+    return this.consumeRecoveryCode(user, code, transaction);
+  }
+
+  /**
+   * Disable MFA after confirming a current code
+   */
+  static async disable(userId: string, code: string, transaction?: Transaction): Promise<void> {
+    try {
+      const user = await this.getUser(userId, transaction);
+
+      if (!user.mfaEnabled) {
+        throw new ValidationError('MFA is not enabled');
+      }
+
+      if (await this.isRequiredByRole(user.id, transaction)) {
+        throw new AuthorizationError('MFA is required by one of your roles and cannot be disabled');
+      }
+
+      if (!(await this.verifyCode(user, code, transaction))) {
+        throw new AuthenticationError(ErrorCode.AUTH_MFA_INVALID_CODE, 'Invalid MFA code');
+      }
+
+      await user.update({
+        mfaEnabled: false,
+        mfaSecret: null,
+        mfaLastUsedStep: null
+      }, { transaction });
+
+      await MfaRecoveryCode.destroy({ where: { userId: user.id }, transaction });
+
+      await AuditLog.create({
+        userId: user.id,
+        action: 'MFA_DISABLED',
+        resource: 'User',
+        resourceId: user.id
+      }, { transaction });
+
+      logger.info(`MFA disabled for user: ${user.id}`);
+    } catch (error) {
+      logger.error('MFA disable failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace all recovery codes after confirming a current code
+   */
+  static async regenerateRecoveryCodes(userId: string, code: string, transaction?: Transaction): Promise<string[]> {
+    try {
+      const user = await this.getUser(userId, transaction);
+
+      if (!user.mfaEnabled) {
+        throw new ValidationError('MFA is not enabled');
+      }
+
+      if (!(await this.verifyCode(user, code, transaction))) {
+        throw new AuthenticationError(ErrorCode.AUTH_MFA_INVALID_CODE, 'Invalid MFA code');
+      }
+
+      const recoveryCodes = await this.replaceRecoveryCodes(user.id, transaction);
+
+      await AuditLog.create({
+        userId: user.id,
+        action: 'MFA_RECOVERY_CODES_REGENERATED',
+        resource: 'User',
+        resourceId: user.id
+      }, { transaction });
+
+      return recoveryCodes;
+    } catch (error) {
+      logger.error('MFA recovery code regeneration failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether any of the user's roles, directly or through inheritance, requires MFA
+   */
+  static async isRequiredByRole(userId: string, transaction?: Transaction): Promise<boolean> {
+    const user = await User.findByPk(userId, {
+      include: [
+        {
+          model: Role,
+          as: 'roles',
+          attributes: ['id'],
+          through: { attributes: [] }
+        }
+      ],
+      transaction
+    });
+
+    const directRoleIds = (user?.roles || []).map(role => role.id);
+    if (directRoleIds.length === 0) {
+      return false;
+    }
+
+    const roleIds = await Role.getEffectiveRoleIds(directRoleIds, transaction);
+    const count = await Role.count({
+      where: { id: roleIds, mfaRequired: true },
+      transaction
+    });
+
+    return count > 0;
+  }
+
+  private static async consumeRecoveryCode(user: User, code: string, transaction?: Transaction): Promise<boolean> {
+    const recoveryCode = await MfaRecoveryCode.findOne({
+      where: {
+        userId: user.id,
+        codeHash: TOTPUtil.hashRecoveryCode(code),
+        usedAt: null
+      },
+      transaction
+    });
+
+    if (!recoveryCode) {
+      return false;
+    }
+
+    // Consume atomically so a concurrent request cannot reuse the code
+    const [consumed] = await MfaRecoveryCode.update(
+      { usedAt: new Date() },
+      { where: { id: recoveryCode.id, usedAt: null }, transaction }
+    );
+
+    if (consumed === 0) {
+      return false;
+    }
+
+    await AuditLog.create({
+      userId: user.id,
+      action: 'MFA_RECOVERY_CODE_USED',
+      resource: 'User',
+      resourceId: user.id,
+      details: { recoveryCodeId: recoveryCode.id }
+    }, { transaction });
+
+    logger.warn(`MFA recovery code used by user: ${user.id}`);
+    return true;
+  }
+
+  private static async replaceRecoveryCodes(userId: string, transaction?: Transaction): Promise<string[]> {
+    const recoveryCodes = TOTPUtil.generateRecoveryCodes();
+
+    await MfaRecoveryCode.destroy({ where: { userId }, transaction });
+    await MfaRecoveryCode.bulkCreate(
+      recoveryCodes.map(code => ({
+        userId,
+        codeHash: TOTPUtil.hashRecoveryCode(code)
+      })),
+      { transaction }
+    );
+
+    return recoveryCodes;
+  }
+
+  private static async getUser(userId: string, transaction?: Transaction): Promise<User> {
+    const user = await User.findByPk(userId, { transaction });
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    return user;
+  }
+}
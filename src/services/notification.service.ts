@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export interface NotificationMessage {
+  to: string;
+  subject: string;
+  body: string;
+  template: string;
+  data?: Record<string, any>;
+}
+
+/**
+ * Delivery channel for outgoing notifications (email, SMS, chat, ...)
+ */
+export interface Notifier {
+  send(message: NotificationMessage): Promise<void>;
+}
+
+/**
+ * Default notifier that writes each message as a JSON file to a local outbox
+ * directory, so account flows work without any mail infrastructure.
+ */
+export class OutboxNotifier implements Notifier {
+  constructor(private readonly outboxDir: string = config.notifications.outboxDir) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    await fs.promises.mkdir(this.outboxDir, { recursive: true });
+
+    const createdAt = new Date();
+    const fileName = `${createdAt.toISOString().replace(/[:.]/g, '-')}-${message.template}-${uuidv4()}.json`;
+    const filePath = path.join(this.outboxDir, fileName);
+
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify({ ...message, createdAt: createdAt.toISOString() }, null, 2),
+      'utf8'
+    );
+
+    logger.info(`Notification "${message.template}" written to outbox: ${filePath}`);
+  }
+}
+
+export class NotificationService {
+  private static notifier: Notifier = new OutboxNotifier();
+
+  /**
+   * Replace the delivery channel (e.g. with an SMTP implementation)
+   */
+  static setNotifier(notifier: Notifier): void {
+    this.notifier = notifier;
+  }
+
+  static getNotifier(): Notifier {
+    return this.notifier;
+  }
+
+  /**
+   * Send a password reset link
+   */
+  static async sendPasswordReset(to: string, token: string, expiresAt: Date): Promise<void> {
+    const resetUrl = `${config.app.baseUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.notifier.send({
+      to,
+      subject: 'Password reset request',
+      template: 'password-reset',
+      body: [
+        'A password reset was requested for your account.',
+        `Use the following link to choose a new password: ${resetUrl}`,
+        `The link expires at ${expiresAt.toISOString()} and can only be used once.`,
+        'If you did not request a reset, you can ignore this message.'
+      ].join('\n\n'),
+      data: { token, resetUrl, expiresAt: expiresAt.toISOString() }
+    });
+  }
+
+  /**
+   * Send an email verification link
+   */
+  static async sendEmailVerification(to: string, token: string, expiresAt: Date): Promise<void> {
+    const verifyUrl = `${config.app.baseUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.notifier.send({
+      to,
+      subject: 'Verify your email address',
+      template: 'email-verification',
+      body: [
+        'Please confirm that this email address belongs to you.',
+        `Use the following link to verify it: ${verifyUrl}`,
+        `The link expires at ${expiresAt.toISOString()} and can only be used once.`
+      ].join('\n\n'),
+      data: { token, verifyUrl, expiresAt: expiresAt.toISOString() }
+    });
+  }
+}
@@ -0,0 +1,838 @@
+import { Transaction, Op } from 'sequelize';
+import { validate as isUuid } from 'uuid';
+import { User } from '../models/User';
+import { RefreshToken } from '../models/RefreshToken';
+import { OAuthClient } from '../models/OAuthClient';
+import { OAuthAuthorizationCode } from '../models/OAuthAuthorizationCode';
+import { OAuthConsent } from '../models/OAuthConsent';
+import { RevokedToken } from '../models/RevokedToken';
+import { AuditDetails } from '../models/AuditLog';
+import { AuthUtil } from '../utils/auth.util';
+import { JWTUtil, JWTPayload, RefreshTokenPayload } from '../utils/jwt.util';
+import { ApiError } from '../utils/api-error';
+import { OAuthError, isAppError } from '../utils/errors';
+import { TokenPair } from '../types/auth.types';
+import {
+  CreateOAuthClientData,
+  UpdateOAuthClientData,
+  OAuthAuthorizationParams,
+  OAuthAuthorizationDetails,
+  OAuthTokenRequest,
+  OAuthTokenResponse,
+  OAuthGrant,
+  OAuthTokenLookupRequest,
+  OAuthIntrospectionResponse
+} from '../types/oauth.types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { AuthService } from './auth.service';
+import { ServiceAccountService } from './service-account.service';
+
+// Scopes are permission patterns, e.g. workorder:read or label:*
+const SCOPE_PATTERN = /^(\*|[a-z][a-z0-9_]*):(\*|[a-z][a-z0-9_]*)$/;
+
+const clientAttributes = ['id', 'name'];
+
+/**
+ * A token presented for introspection or revocation, after its signature was checked
+ */
+type PresentedToken =
+  | { type: 'access_token'; payload: JWTPayload }
+  | { type: 'refresh_token'; storedToken: RefreshToken };
+
+/**
+ * Credentials a client presented at the token endpoint, from the
+ * Authorization header or the request body
+ */
+export interface OAuthClientCredentials {
+  clientId?: string;
+  clientSecret?: string;
+}
+
+export class OAuthService {
+  /**
+   * List all registered clients, including inactive ones
+   */
+  static async listClients(): Promise<OAuthClient[]> {
+    return OAuthClient.findAll({ order: [['name', 'ASC']] });
+  }
+
+  static async getClientById(clientId: string, transaction?: Transaction): Promise<OAuthClient> {
+    const client = await OAuthClient.findByPk(clientId, { transaction });
+
+    if (!client) {
+      throw new ApiError(404, 'OAuth client not found');
+    }
+
+    return client;
+  }
+
+  /**
+   * Register a client. The secret of a confidential client is only ever
+   * returned here and when it is rotated.
+   */
+  static async createClient(
+    data: CreateOAuthClientData,
+    createdBy: string,
+    transaction?: Transaction
+  ): Promise<{ client: OAuthClient; clientSecret: string | null }> {
+    const confidential = data.confidential !== false;
+    const redirectUris = data.redirectUris || [];
+    const serviceAccountId = data.serviceAccountId || null;
+
+    await this.assertClientSettings({ ...data, redirectUris, serviceAccountId }, confidential, transaction);
+
+    const generated = confidential ? OAuthClient.generateSecret() : null;
+
+    const client = await OAuthClient.create({
+      name: data.name,
+      clientSecretHash: generated ? generated.secretHash : null,
+      redirectUris,
+      grantTypes: data.grantTypes,
+      scopes: data.scopes,
+      serviceAccountId,
+      requireConsent: data.requireConsent,
+      isActive: data.isActive,
+      createdBy
+    }, { transaction });
+
+    await AuditService.log({
+      userId: createdBy,
+      action: 'oauth_client:create',
+      resource: 'oauth_client',
+      resourceId: client.id,
+      details: { name: client.name, grantTypes: client.grantTypes, scopes: client.scopes, confidential }
+    }, transaction);
+
+    logger.info(`OAuth client registered: ${client.name} (${client.id})`);
+    return { client, clientSecret: generated ? generated.secret : null };
+  }
+
+  /**
+   * Update a client. Deactivating it or changing its scopes revokes its
+   * refresh tokens, so no token outlives the scopes it was granted under;
+   * access tokens already issued stay valid until they expire.
+   */
+  static async updateClient(
+    clientId: string,
+    data: UpdateOAuthClientData,
+    updatedBy: string,
+    transaction?: Transaction
+  ): Promise<OAuthClient> {
+    const client = await this.getClientById(clientId, transaction);
+
+    await this.assertClientSettings({
+      grantTypes: data.grantTypes ?? client.grantTypes,
+      redirectUris: data.redirectUris ?? client.redirectUris,
+      serviceAccountId: data.serviceAccountId !== undefined ? data.serviceAccountId : client.serviceAccountId
+    }, client.isConfidential(), transaction);
+
+    await client.update(data, { transaction });
+
+    if (data.isActive === false || data.scopes) {
+      await RefreshToken.update(
+        { revokedAt: new Date() },
+        { where: { clientId, revokedAt: null }, transaction }
+      );
+    }
+
+    await AuditService.log({
+      userId: updatedBy,
+      action: 'oauth_client:update',
+      resource: 'oauth_client',
+      resourceId: clientId,
+      details: { changes: data }
+    }, transaction);
+
+    return client;
+  }
+
+  /**
+   * Delete a client together with its codes, consents and refresh tokens
+   */
+  static async deleteClient(clientId: string, deletedBy: string, transaction?: Transaction): Promise<void> {
+    const client = await this.getClientById(clientId, transaction);
+
+    await client.destroy({ transaction });
+
+    await AuditService.log({
+      userId: deletedBy,
+      action: 'oauth_client:delete',
+      resource: 'oauth_client',
+      resourceId: clientId,
+      details: { name: client.name }
+    }, transaction);
+  }
+
+  /**
+   * Replace the secret of a confidential client. The old secret stops working immediately.
+   */
+  static async rotateClientSecret(
+    clientId: string,
+    rotatedBy: string,
+    transaction?: Transaction
+  ): Promise<{ client: OAuthClient; clientSecret: string }> {
+    const client = await this.getClientById(clientId, transaction);
+
+    if (!client.isConfidential()) {
+      throw new ApiError(400, 'Public clients have no secret');
+    }
+
+    const { secret, secretHash } = OAuthClient.generateSecret();
+    await client.update({ clientSecretHash: secretHash }, { transaction });
+
+    await AuditService.log({
+      userId: rotatedBy,
+      action: 'oauth_client:rotate_secret',
+      resource: 'oauth_client',
+      resourceId: clientId,
+      details: { name: client.name }
+    }, transaction);
+
+    return { client, clientSecret: secret };
+  }
+
+  /**
+   * Validate an authorization request and describe it for the consent screen
+   */
+  static async getAuthorizationRequest(
+    userId: string,
+    params: OAuthAuthorizationParams,
+    transaction?: Transaction
+  ): Promise<OAuthAuthorizationDetails> {
+    const client = await this.getAuthorizingClient(params, transaction);
+    const scopes = this.resolveScopes(client, params.scope);
+
+    const consent = await OAuthConsent.findOne({ where: { userId, clientId: client.id }, transaction });
+
+    return {
+      client: { id: client.id, name: client.name },
+      redirectUri: params.redirect_uri,
+      scopes,
+      consentRequired: client.requireConsent && !(consent && consent.covers(scopes))
+    };
+  }
+
+  /**
+   * Record the user's decision on an authorization request and return the
+   * client redirect URI carrying either an authorization code or an
+   * access_denied error (RFC 6749 sections 4.1.2 and 4.1.2.1)
+   */
+  static async authorize(
+    userId: string,
+    params: OAuthAuthorizationParams,
+    approved: boolean,
+    transaction?: Transaction
+  ): Promise<string> {
+    const user = await User.findByPk(userId, { transaction });
+    if (!user || user.isServiceAccount) {
+      throw new ApiError(403, 'Only users can authorize applications');
+    }
+
+    const details = await this.getAuthorizationRequest(userId, params, transaction);
+    const redirect = new URL(params.redirect_uri);
+
+    if (!approved) {
+      redirect.searchParams.set('error', 'access_denied');
+      if (params.state) {
+        redirect.searchParams.set('state', params.state);
+      }
+
+      await this.auditAuthorization(userId, details, false, transaction);
+      return redirect.toString();
+    }
+
+    await this.recordConsent(userId, details.client.id, details.scopes, transaction);
+
+    // Expired codes are cleaned up here rather than by a scheduled job
+    await OAuthAuthorizationCode.destroy({ where: { expiresAt: { [Op.lt]: new Date() } }, transaction });
+
+    const { code, codeHash } = OAuthAuthorizationCode.generate();
+    await OAuthAuthorizationCode.create({
+      codeHash,
+      clientId: details.client.id,
+      userId,
+      redirectUri: params.redirect_uri,
+      scopes: details.scopes,
+      codeChallenge: params.code_challenge,
+      expiresAt: new Date(Date.now() + config.oauth.codeTtlSeconds * 1000)
+    }, { transaction });
+
+    await this.auditAuthorization(userId, details, true, transaction);
+
+    redirect.searchParams.set('code', code);
+    if (params.state) {
+      redirect.searchParams.set('state', params.state);
+    }
+
+    return redirect.toString();
+  }
+
+  /**
+   * Applications the user has approved, with the scopes approved for each
+   */
+  static async listConsents(userId: string): Promise<OAuthConsent[]> {
+    return OAuthConsent.findAll({
+      where: { userId },
+      include: [{ model: OAuthClient, as: 'client', attributes: clientAttributes }],
+      order: [['updatedAt', 'DESC']]
+    });
+  }
+
+  /**
+   * Withdraw the user's approval of a client and revoke the refresh tokens it holds for them
+   */
+  static async revokeConsent(userId: string, clientId: string, transaction?: Transaction): Promise<void> {
+    const consent = await OAuthConsent.findOne({ where: { userId, clientId }, transaction });
+
+    if (!consent) {
+      throw new ApiError(404, 'Consent not found');
+    }
+
+    await consent.destroy({ transaction });
+    const [revokedCount] = await RefreshToken.update(
+      { revokedAt: new Date() },
+      { where: { userId, clientId, revokedAt: null }, transaction }
+    );
+
+    await AuditService.log({
+      userId,
+      action: 'oauth:consent_revoke',
+      resource: 'oauth_client',
+      resourceId: clientId,
+      details: { scopes: consent.scopes, revokedCount }
+    }, transaction);
+  }
+
+  /**
+   * Token endpoint (RFC 6749 section 3.2): authenticate the client and
+   * issue tokens for the requested grant
+   */
+  static async token(
+    request: OAuthTokenRequest,
+    credentials: OAuthClientCredentials,
+    metadata: { ipAddress?: string; userAgent?: string } = {}
+  ): Promise<OAuthTokenResponse> {
+    const client = await this.authenticateClient(credentials);
+
+    if (!client.allowsGrant(request.grant_type)) {
+      throw new OAuthError('unauthorized_client', `The client may not use the ${request.grant_type} grant`);
+    }
+
+    switch (request.grant_type) {
+      case 'authorization_code':
+        return this.redeemAuthorizationCode(client, request, metadata);
+      case 'refresh_token':
+        return this.refreshTokens(client, request, metadata);
+      case 'client_credentials':
+        return this.issueClientCredentials(client, request, metadata);
+      default:
+        throw new OAuthError('unsupported_grant_type', 'Unsupported grant type');
+    }
+  }
+
+  /**
+   * Token introspection (RFC 7662). Open to confidential clients, i.e.
+   * resource servers that can authenticate; tokens that are invalid,
+   * expired, revoked or belong to an inactive user are reported inactive.
+   */
+  static async introspect(
+    request: OAuthTokenLookupRequest,
+    credentials: OAuthClientCredentials,
+    metadata: { ipAddress?: string; userAgent?: string } = {}
+  ): Promise<OAuthIntrospectionResponse> {
+    const client = await this.authenticateClient(credentials);
+
+    if (!client.isConfidential()) {
+      throw new OAuthError('unauthorized_client', 'Only confidential clients may introspect tokens');
+    }
+
+    const presented = await this.findPresentedToken(request.token, request.token_type_hint);
+    const response = presented ? await this.describeToken(presented) : { active: false };
+
+    await this.auditTokenLookup('oauth:introspect', client, presented, metadata, { active: response.active });
+    return response;
+  }
+
+  /**
+   * Token revocation (RFC 7009). Revoking a refresh token revokes its whole
+   * family; revoking an access token puts it on the denylist. Unknown and
+   * already invalid tokens are not an error.
+   */
+  static async revoke(
+    request: OAuthTokenLookupRequest,
+    credentials: OAuthClientCredentials,
+    metadata: { ipAddress?: string; userAgent?: string } = {}
+  ): Promise<void> {
+    const client = await this.authenticateClient(credentials);
+    const presented = await this.findPresentedToken(request.token, request.token_type_hint);
+
+    // A client may only revoke what was issued to it (RFC 7009 section 2.1), never users' own sessions
+    const owner = presented ? this.getTokenOwner(presented) : null;
+    const permitted = !owner || owner.clientId === client.id;
+
+    const revokedCount = presented && permitted ? await this.revokePresentedToken(presented) : 0;
+
+    await this.auditTokenLookup('oauth:revoke', client, presented, metadata, { revokedCount, permitted });
+
+    if (!permitted) {
+      throw new OAuthError('unauthorized_client', 'The token was not issued to this client');
+    }
+  }
+
+  /**
+   * Exchange an authorization code and PKCE verifier for tokens
+   */
+  private static async redeemAuthorizationCode(
+    client: OAuthClient,
+    request: OAuthTokenRequest,
+    metadata: { ipAddress?: string; userAgent?: string }
+  ): Promise<OAuthTokenResponse> {
+    if (!request.code || !request.redirect_uri || !request.code_verifier) {
+      throw new OAuthError('invalid_request', 'code, redirect_uri and code_verifier are required');
+    }
+
+    const authorizationCode = await OAuthAuthorizationCode.findOne({
+      where: { codeHash: OAuthAuthorizationCode.hashCode(request.code), clientId: client.id }
+    });
+
+    if (!authorizationCode) {
+      throw new OAuthError('invalid_grant', 'Invalid authorization code');
+    }
+    if (authorizationCode.usedAt) {
+      return this.handleCodeReuse(authorizationCode, metadata);
+    }
+    if (authorizationCode.isExpired()) {
+      throw new OAuthError('invalid_grant', 'Authorization code has expired');
+    }
+    if (authorizationCode.redirectUri !== request.redirect_uri) {
+      throw new OAuthError('invalid_grant', 'redirect_uri does not match the authorization request');
+    }
+    if (!authorizationCode.verifyCodeVerifier(request.code_verifier)) {
+      throw new OAuthError('invalid_grant', 'Invalid code verifier');
+    }
+
+    // Claim the code atomically; losing the race to a concurrent redemption counts as reuse
+    const [claimed] = await OAuthAuthorizationCode.update(
+      { usedAt: new Date() },
+      { where: { id: authorizationCode.id, usedAt: null } }
+    );
+    if (claimed === 0) {
+      return this.handleCodeReuse(authorizationCode, metadata);
+    }
+
+    const user = await User.findByPk(authorizationCode.userId);
+    if (!user || !user.isActive || user.isLocked()) {
+      throw new OAuthError('invalid_grant', 'The user can no longer sign in');
+    }
+
+    const grant: OAuthGrant = { clientId: client.id, scopes: authorizationCode.scopes };
+    let response: OAuthTokenResponse;
+
+    if (client.allowsGrant('refresh_token')) {
+      const tokens = await AuthUtil.generateUserTokens(user, metadata.ipAddress, metadata.userAgent, undefined, grant);
+
+      // Remember the family so a replayed code can revoke what it was exchanged for
+      const { tokenId } = JWTUtil.decodeToken(tokens.refreshToken) as RefreshTokenPayload;
+      await authorizationCode.update({ tokenFamilyId: tokenId });
+
+      response = this.tokenResponse(tokens.accessToken, grant.scopes, tokens.refreshToken);
+    } else {
+      const payload = await AuthUtil.buildAccessTokenPayload(user, grant);
+      response = this.tokenResponse(JWTUtil.generateAccessToken(payload), grant.scopes);
+    }
+
+    await this.auditToken(user.id, client, 'authorization_code', grant.scopes, metadata);
+    return response;
+  }
+
+  /**
+   * Rotate a refresh token issued to the client. The new tokens keep the
+   * scopes originally granted.
+   */
+  private static async refreshTokens(
+    client: OAuthClient,
+    request: OAuthTokenRequest,
+    metadata: { ipAddress?: string; userAgent?: string }
+  ): Promise<OAuthTokenResponse> {
+    if (!request.refresh_token) {
+      throw new OAuthError('invalid_request', 'refresh_token is required');
+    }
+
+    let tokens: TokenPair;
+    try {
+      tokens = await AuthService.refreshToken(request.refresh_token, metadata, undefined, client.id);
+    } catch (error) {
+      // Every authentication failure of the rotation means the grant is no good
+      if (isAppError(error) && error.statusCode === 401) {
+        throw new OAuthError('invalid_grant', error.message);
+      }
+      throw error;
+    }
+
+    const { scope } = JWTUtil.decodeToken(tokens.accessToken) as JWTPayload;
+    return this.tokenResponse(tokens.accessToken, scope ? scope.split(' ') : [], tokens.refreshToken);
+  }
+
+  /**
+   * Issue an access token for the client's own service account. No refresh
+   * token: the client can always authenticate again (RFC 6749 section 4.4.3).
+   */
+  private static async issueClientCredentials(
+    client: OAuthClient,
+    request: OAuthTokenRequest,
+    metadata: { ipAddress?: string; userAgent?: string }
+  ): Promise<OAuthTokenResponse> {
+    const account = client.serviceAccountId ? await User.findByPk(client.serviceAccountId) : null;
+
+    if (!account || !account.isServiceAccount || !account.isActive) {
+      throw new OAuthError('unauthorized_client', 'The client has no active service account');
+    }
+
+    const grant: OAuthGrant = { clientId: client.id, scopes: this.resolveScopes(client, request.scope) };
+    const payload = await AuthUtil.buildAccessTokenPayload(account, grant);
+
+    await this.auditToken(account.id, client, 'client_credentials', grant.scopes, metadata);
+    return this.tokenResponse(JWTUtil.generateAccessToken(payload), grant.scopes);
+  }
+
+  /**
+   * A code presented after it was redeemed was probably intercepted, so the
+   * tokens issued for it are revoked (RFC 6749 section 4.1.2)
+   */
+  private static async handleCodeReuse(
+    authorizationCode: OAuthAuthorizationCode,
+    metadata: { ipAddress?: string; userAgent?: string }
+  ): Promise<never> {
+    const revokedCount = authorizationCode.tokenFamilyId
+      ? await RefreshToken.revokeFamily(authorizationCode.tokenFamilyId)
+      : 0;
+
+    await AuditService.log({
+      userId: authorizationCode.userId,
+      action: 'oauth:code_reuse',
+      resource: 'oauth_client',
+      resourceId: authorizationCode.clientId,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: { familyId: authorizationCode.tokenFamilyId, revokedCount }
+    });
+
+    logger.warn(`Authorization code reuse detected for client ${authorizationCode.clientId}`);
+    throw new OAuthError('invalid_grant', 'Authorization code has already been used');
+  }
+
+  /**
+   * Identify a token by its signature, starting with the kind the client
+   * hinted at (RFC 7662 section 2.1)
+   */
+  private static async findPresentedToken(token: string, hint?: string): Promise<PresentedToken | null> {
+    if (hint === 'refresh_token') {
+      return (await this.findRefreshToken(token)) || this.findAccessToken(token);
+    }
+
+    return this.findAccessToken(token) || this.findRefreshToken(token);
+  }
+
+  private static findAccessToken(token: string): PresentedToken | null {
+    try {
+      return { type: 'access_token', payload: JWTUtil.verifyAccessToken(token) };
+    } catch (error) {
+      if (isAppError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private static async findRefreshToken(token: string): Promise<PresentedToken | null> {
+    let payload: RefreshTokenPayload;
+    try {
+      payload = JWTUtil.verifyRefreshToken(token);
+    } catch (error) {
+      if (isAppError(error)) {
+        return null;
+      }
+      throw error;
+    }
+
+    const storedToken = await RefreshToken.findOne({
+      where: { id: payload.tokenId, userId: payload.sub, tokenHash: RefreshToken.hashToken(token) },
+      include: [{ model: User, as: 'user' }]
+    });
+
+    return storedToken ? { type: 'refresh_token', storedToken } : null;
+  }
+
+  /**
+   * Introspection response for a token, applying the same checks as
+   * `authenticate` and `AuthService.refreshToken`
+   */
+  private static async describeToken(presented: PresentedToken): Promise<OAuthIntrospectionResponse> {
+    const inactive = { active: false };
+
+    if (presented.type === 'access_token') {
+      const { payload } = presented;
+
+      if (payload.jti && await RevokedToken.isRevoked(payload.jti)) {
+        return inactive;
+      }
+
+      const user = await User.findByPk(payload.sub);
+      if (
+        !user ||
+        !user.isActive ||
+        (payload.permissionsVersion !== undefined && payload.permissionsVersion !== user.permissionsVersion)
+      ) {
+        return inactive;
+      }
+
+      return {
+        active: true,
+        ...(payload.clientId ? { scope: payload.scope || '', client_id: payload.clientId } : {}),
+        username: user.username,
+        token_type: 'Bearer',
+        exp: payload.exp,
+        iat: payload.iat,
+        sub: payload.sub,
+        jti: payload.jti,
+        permissions: payload.permissions,
+        ...(payload.deniedPermissions ? { denied_permissions: payload.deniedPermissions } : {}),
+        ...(payload.scopedPermissions ? { scoped_permissions: payload.scopedPermissions } : {}),
+        ...(payload.conditionalPermissions ? { conditional_permissions: payload.conditionalPermissions } : {}),
+        ...(payload.elevations ? { elevations: payload.elevations } : {})
+      };
+    }
+
+    const { storedToken } = presented;
+    if (
+      storedToken.isRevoked() ||
+      storedToken.isRotated() ||
+      storedToken.isExpired() ||
+      !storedToken.user ||
+      !storedToken.user.isActive
+    ) {
+      return inactive;
+    }
+
+    return {
+      active: true,
+      ...(storedToken.clientId
+        ? { scope: (storedToken.scopes || []).join(' '), client_id: storedToken.clientId }
+        : {}),
+      username: storedToken.user.username,
+      token_type: 'refresh_token',
+      exp: Math.floor(storedToken.expiresAt.getTime() / 1000),
+      iat: Math.floor(storedToken.createdAt.getTime() / 1000),
+      sub: storedToken.userId
+    };
+  }
+
+  private static getTokenOwner(presented: PresentedToken): { userId: string; clientId: string | null } {
+    return presented.type === 'access_token'
+      ? { userId: presented.payload.sub, clientId: presented.payload.clientId || null }
+      : { userId: presented.storedToken.userId, clientId: presented.storedToken.clientId || null };
+  }
+
+  private static async revokePresentedToken(presented: PresentedToken): Promise<number> {
+    if (presented.type === 'refresh_token') {
+      return RefreshToken.revokeFamily(presented.storedToken.familyId);
+    }
+
+    const { payload } = presented;
+    if (!payload.jti || !payload.exp) {
+      return 0;
+    }
+
+    await RevokedToken.revoke(payload.jti, payload.sub, new Date(payload.exp * 1000), 'oauth_revoke');
+    return 1;
+  }
+
+  /**
+   * Find the client and check its secret. Public clients identify themselves
+   * with client_id alone; confidential clients must present their secret.
+   */
+  private static async authenticateClient(credentials: OAuthClientCredentials): Promise<OAuthClient> {
+    const client = credentials.clientId && isUuid(credentials.clientId)
+      ? await OAuthClient.findByPk(credentials.clientId)
+      : null;
+
+    if (!client || !client.isActive) {
+      throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+    }
+
+    const authenticated = client.isConfidential()
+      ? !!credentials.clientSecret && client.matchesSecret(credentials.clientSecret)
+      : !credentials.clientSecret;
+
+    if (!authenticated) {
+      throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+    }
+
+    return client;
+  }
+
+  /**
+   * The active client an authorization request is for, with a registered redirect URI
+   */
+  private static async getAuthorizingClient(
+    params: OAuthAuthorizationParams,
+    transaction?: Transaction
+  ): Promise<OAuthClient> {
+    const client = await OAuthClient.findByPk(params.client_id, { transaction });
+
+    if (!client || !client.isActive) {
+      throw new OAuthError('invalid_request', 'Unknown or inactive client');
+    }
+    if (!client.allowsGrant('authorization_code')) {
+      throw new OAuthError('unauthorized_client', 'The client may not use the authorization_code grant');
+    }
+    // Exact match only: a prefix or pattern match would let codes leak to other URLs
+    if (!client.redirectUris.includes(params.redirect_uri)) {
+      throw new OAuthError('invalid_request', 'redirect_uri is not registered for this client');
+    }
+
+    return client;
+  }
+
+  /**
+   * The scopes a request asks for, or all scopes of the client when it names
+   * none. Each must lie within the scopes the client is registered for.
+   */
+  private static resolveScopes(client: OAuthClient, scope?: string): string[] {
+    if (!scope || !scope.trim()) {
+      return client.scopes;
+    }
+
+    const requested = Array.from(new Set(scope.trim().split(/\s+/)));
+
+    for (const item of requested) {
+      const allowed = SCOPE_PATTERN.test(item) &&
+        ServiceAccountService.scopePermissions([item], client.scopes).includes(item);
+
+      if (!allowed) {
+        throw new OAuthError('invalid_scope', `Scope ${item} is not allowed for this client`);
+      }
+    }
+
+    return requested;
+  }
+
+  /**
+   * Remember the approved scopes, adding to those approved before
+   */
+  private static async recordConsent(
+    userId: string,
+    clientId: string,
+    scopes: string[],
+    transaction?: Transaction
+  ): Promise<void> {
+    const consent = await OAuthConsent.findOne({ where: { userId, clientId }, transaction });
+
+    if (!consent) {
+      await OAuthConsent.create({ userId, clientId, scopes }, { transaction });
+    } else if (!consent.covers(scopes)) {
+      await consent.update({ scopes: Array.from(new Set([...consent.scopes, ...scopes])) }, { transaction });
+    }
+  }
+
+  /**
+   * Check the settings a client's grant types depend on
+   */
+  private static async assertClientSettings(
+    settings: Pick<CreateOAuthClientData, 'grantTypes' | 'redirectUris' | 'serviceAccountId'>,
+    confidential: boolean,
+    transaction?: Transaction
+  ): Promise<void> {
+    const grantTypes = settings.grantTypes;
+
+    if (grantTypes.includes('authorization_code') && (settings.redirectUris || []).length === 0) {
+      throw new ApiError(400, 'The authorization_code grant requires at least one redirect URI');
+    }
+    if (grantTypes.includes('refresh_token') && !grantTypes.includes('authorization_code')) {
+      throw new ApiError(400, 'The refresh_token grant requires the authorization_code grant');
+    }
+
+    if (!grantTypes.includes('client_credentials')) {
+      return;
+    }
+
+    // A public client cannot keep a secret, so anyone could act as its service account
+    if (!confidential) {
+      throw new ApiError(400, 'The client_credentials grant requires a confidential client');
+    }
+    if (!settings.serviceAccountId) {
+      throw new ApiError(400, 'The client_credentials grant requires a service account');
+    }
+
+    const account = await User.findByPk(settings.serviceAccountId, { attributes: ['id', 'isServiceAccount'], transaction });
+    if (!account || !account.isServiceAccount) {
+      throw new ApiError(400, 'Service account not found');
+    }
+  }
+
+  private static tokenResponse(accessToken: string, scopes: string[], refreshToken?: string): OAuthTokenResponse {
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: JWTUtil.getAccessTokenExpiresInSeconds(),
+      ...(refreshToken ? { refresh_token: refreshToken } : {}),
+      scope: scopes.join(' ')
+    };
+  }
+
+  private static async auditAuthorization(
+    userId: string,
+    details: OAuthAuthorizationDetails,
+    approved: boolean,
+    transaction?: Transaction
+  ): Promise<void> {
+    await AuditService.log({
+      userId,
+      action: approved ? 'oauth:authorize' : 'oauth:deny',
+      resource: 'oauth_client',
+      resourceId: details.client.id,
+      details: { scopes: details.scopes, redirectUri: details.redirectUri }
+    }, transaction);
+  }
+
+  private static async auditToken(
+    userId: string,
+    client: OAuthClient,
+    grantType: string,
+    scopes: string[],
+    metadata: { ipAddress?: string; userAgent?: string }
+  ): Promise<void> {
+    await AuditService.log({
+      userId,
+      action: 'oauth:token',
+      resource: 'oauth_client',
+      resourceId: client.id,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: { grantType, scopes }
+    });
+  }
+
+  /**
+   * Record an introspection or revocation. The token itself is never logged.
+   */
+  private static async auditTokenLookup(
+    action: 'oauth:introspect' | 'oauth:revoke',
+    client: OAuthClient,
+    presented: PresentedToken | null,
+    metadata: { ipAddress?: string; userAgent?: string },
+    details: AuditDetails
+  ): Promise<void> {
+    await AuditService.log({
+      userId: presented ? this.getTokenOwner(presented).userId : null,
+      action,
+      resource: 'oauth_client',
+      resourceId: client.id,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: { tokenType: presented ? presented.type : null, ...details }
+    });
+  }
+}
@@ -0,0 +1,427 @@
+import crypto from 'crypto';
+import { Transaction, Op, UniqueConstraintError, ValidationError as SequelizeValidationError } from 'sequelize';
+import { User } from '../models/User';
+import { Role } from '../models/Role';
+import { OidcProvider } from '../models/OidcProvider';
+import { OidcLoginState } from '../models/OidcLoginState';
+import { AuthUtil } from '../utils/auth.util';
+import { OidcClient, IdTokenClaims } from '../utils/oidc.util';
+import { TOTPUtil } from '../utils/totp.util';
+import { ApiError } from '../utils/api-error';
+import { AuthenticationError, ConflictError } from '../utils/errors';
+import { ErrorCode } from '../types';
+import { TokenPair } from '../types/auth.types';
+import {
+  CreateOidcProviderData,
+  UpdateOidcProviderData,
+  OidcCallbackParams,
+  OidcClaimMapping
+} from '../types/oidc.types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { UserService } from './user.service';
+import { ChangeRequestService } from './change-request.service';
+
+const DEFAULT_CLAIM_MAPPING: Required<OidcClaimMapping> = {
+  username: 'preferred_username',
+  email: 'email',
+  firstName: 'given_name',
+  lastName: 'family_name'
+};
+
+// Identities without an email claim still need a unique, undeliverable address
+const OIDC_FALLBACK_EMAIL_DOMAIN = 'oidc.invalid';
+
+const roleInclude = {
+  model: Role,
+  as: 'roles',
+  attributes: ['id', 'name', 'description'],
+  through: { attributes: [] }
+};
+
+const claimString = (claims: IdTokenClaims, name: string): string | null => {
+  const value = claims[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+};
+
+const claimValues = (claims: IdTokenClaims, name: string): string[] => {
+  const value = claims[name];
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  return typeof value === 'string' ? value.split(/[\s,]+/).filter(Boolean) : [];
+};
+
+export class OidcService {
+  // Clients cache discovery metadata and signing keys, so they live as long as the provider is unchanged
+  private static clients = new Map<string, { updatedAt: number; client: OidcClient }>();
+
+  /**
+   * List all providers, including disabled ones
+   */
+  static async listProviders(): Promise<OidcProvider[]> {
+    return OidcProvider.findAll({ order: [['name', 'ASC']] });
+  }
+
+  /**
+   * Providers offered on the login page
+   */
+  static async listEnabledProviders(): Promise<Pick<OidcProvider, 'name' | 'displayName'>[]> {
+    const providers = await OidcProvider.findAll({
+      where: { isEnabled: true },
+      attributes: ['name', 'displayName'],
+      order: [['displayName', 'ASC']]
+    });
+
+    return providers.map(({ name, displayName }) => ({ name, displayName }));
+  }
+
+  static async getProviderById(providerId: string, transaction?: Transaction): Promise<OidcProvider> {
+    const provider = await OidcProvider.findByPk(providerId, { transaction });
+
+    if (!provider) {
+      throw new ApiError(404, 'Identity provider not found');
+    }
+
+    return provider;
+  }
+
+  static async createProvider(
+    data: CreateOidcProviderData,
+    createdBy: string,
+    transaction?: Transaction
+  ): Promise<OidcProvider> {
+    await this.assertRolesMappable(data.roleMappings?.map(mapping => mapping.roleId), transaction);
+
+    try {
+      const provider = await OidcProvider.create({
+        ...data,
+        clientSecret: data.clientSecret ? TOTPUtil.encryptSecret(data.clientSecret) : null,
+        createdBy
+      }, { transaction });
+
+      await AuditService.log({
+        userId: createdBy,
+        action: 'oidc_provider:create',
+        resource: 'oidc_provider',
+        resourceId: provider.id,
+        details: { name: provider.name, issuer: provider.issuer }
+      }, transaction);
+
+      logger.info(`OIDC provider created: ${provider.name} (${provider.issuer})`);
+      return provider;
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        throw new ApiError(409, 'An identity provider with this name already exists');
+      }
+      throw error;
+    }
+  }
+
+  static async updateProvider(
+    providerId: string,
+    data: UpdateOidcProviderData,
+    updatedBy: string,
+    transaction?: Transaction
+  ): Promise<OidcProvider> {
+    const provider = await this.getProviderById(providerId, transaction);
+
+    await this.assertRolesMappable(data.roleMappings?.map(mapping => mapping.roleId), transaction);
+
+    const changes = { ...data };
+    if (data.clientSecret !== undefined) {
+      changes.clientSecret = data.clientSecret ? TOTPUtil.encryptSecret(data.clientSecret) : null;
+    }
+
+    await provider.update(changes, { transaction });
+    this.clients.delete(providerId);
+
+    // Never write the secret to the audit log
+    const audited: Record<string, unknown> = { ...data };
+    if ('clientSecret' in audited) {
+      audited.clientSecret = '[changed]';
+    }
+
+    await AuditService.log({
+      userId: updatedBy,
+      action: 'oidc_provider:update',
+      resource: 'oidc_provider',
+      resourceId: providerId,
+      details: { changes: audited }
+    }, transaction);
+
+    return provider;
+  }
+
+  /**
+   * Delete a provider. Users who signed in with it keep their accounts but
+   * cannot sign in again until they are linked to another provider.
+   */
+  static async deleteProvider(providerId: string, deletedBy: string, transaction?: Transaction): Promise<void> {
+    const provider = await this.getProviderById(providerId, transaction);
+
+    await provider.destroy({ transaction });
+    this.clients.delete(providerId);
+
+    await AuditService.log({
+      userId: deletedBy,
+      action: 'oidc_provider:delete',
+      resource: 'oidc_provider',
+      resourceId: providerId,
+      details: { name: provider.name, issuer: provider.issuer }
+    }, transaction);
+  }
+
+  /**
+   * Start a sign-in: remember the state, nonce and PKCE verifier, and return
+   * the provider's authorization URL to redirect the browser to
+   */
+  static async beginLogin(providerName: string, transaction?: Transaction): Promise<string> {
+    const provider = await this.getEnabledProvider(providerName, transaction);
+
+    const state = OidcClient.randomToken();
+    const nonce = OidcClient.randomToken();
+    const { codeVerifier, codeChallenge } = OidcClient.generatePkce();
+
+    // Abandoned sign-ins are cleaned up here rather than by a scheduled job
+    await OidcLoginState.destroy({ where: { expiresAt: { [Op.lt]: new Date() } }, transaction });
+
+    await OidcLoginState.create({
+      providerId: provider.id,
+      stateHash: OidcLoginState.hashState(state),
+      nonce,
+      codeVerifier,
+      expiresAt: new Date(Date.now() + config.oidc.stateTtlMinutes * 60 * 1000)
+    }, { transaction });
+
+    try {
+      return await this.getClient(provider).authorizationUrl({
+        redirectUri: this.redirectUri(provider),
+        scope: provider.scopes,
+        state,
+        nonce,
+        codeChallenge
+      });
+    } catch (error) {
+      logger.error(`OIDC discovery failed for ${provider.name}:`, error);
+      throw new ApiError(503, 'Identity provider is unavailable');
+    }
+  }
+
+  /**
+   * Finish a sign-in from the provider's redirect: redeem the code, validate
+   * the ID token, provision or update the user and issue our own tokens
+   */
+  static async completeLogin(
+    providerName: string,
+    params: OidcCallbackParams,
+    metadata: { ipAddress?: string; userAgent?: string } = {},
+    transaction?: Transaction
+  ): Promise<{ user: User; tokens: TokenPair }> {
+    const provider = await this.getEnabledProvider(providerName, transaction);
+
+    if (params.error) {
+      logger.warn(`OIDC sign-in with ${provider.name} was refused: ${params.error} ${params.error_description || ''}`);
+      throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Sign-in was cancelled or refused by the identity provider');
+    }
+    if (!params.code || !params.state) {
+      throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Missing authorization code or state');
+    }
+
+    // Each state is accepted once, so a replayed redirect fails here
+    const loginState = await OidcLoginState.findOne({
+      where: { stateHash: OidcLoginState.hashState(params.state), providerId: provider.id },
+      transaction
+    });
+    if (!loginState || loginState.isExpired()) {
+      throw new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'Sign-in request is invalid or has expired');
+    }
+    await loginState.destroy({ transaction });
+
+    let claims: IdTokenClaims;
+    try {
+      const client = this.getClient(provider);
+      const idToken = await client.exchangeCode(params.code, this.redirectUri(provider), loginState.codeVerifier);
+      claims = await client.verifyIdToken(idToken, loginState.nonce);
+    } catch (error) {
+      logger.warn(`OIDC sign-in with ${provider.name} failed: ${(error as Error).message}`);
+      await AuditService.logAuth({
+        action: 'failed_login',
+        success: false,
+        ipAddress: metadata.ipAddress,
+        userAgent: metadata.userAgent,
+        details: { loginMethod: 'oidc', provider: provider.name, reason: (error as Error).message }
+      }, transaction);
+      throw new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'Identity provider response could not be verified');
+    }
+
+    const user = await this.provision(provider, claims, transaction);
+
+    if (!user.isActive) {
+      throw new AuthenticationError(ErrorCode.AUTH_ACCOUNT_DISABLED, 'Account is inactive');
+    }
+    if (user.isLocked()) {
+      throw new AuthenticationError(ErrorCode.AUTH_TOO_MANY_ATTEMPTS, 'Account is temporarily locked');
+    }
+
+    if (provider.roleClaim) {
+      const mappings = provider.roleMappings || [];
+      const values = new Set(claimValues(claims, provider.roleClaim));
+      const targetRoleIds = mappings.filter(mapping => values.has(mapping.value)).map(mapping => mapping.roleId);
+
+      // Roles that need approval are left as they are, whatever the claim says
+      const held = await ChangeRequestService.heldRoleIds(targetRoleIds, transaction);
+      if (held.length > 0) {
+        logger.warn(`${provider.name} claims of user ${user.id} map to roles that need approval, not synced: ${held.join(', ')}`);
+      }
+
+      await UserService.syncManagedRoles(
+        user.id,
+        Array.from(new Set(mappings.map(mapping => mapping.roleId))).filter(roleId => !held.includes(roleId)),
+        targetRoleIds.filter(roleId => !held.includes(roleId)),
+        'oidc',
+        transaction
+      );
+    }
+
+    await user.reload({ include: [roleInclude], transaction });
+
+    // The provider authenticated the user, including any second factor it requires
+    const tokens = await AuthUtil.generateUserTokens(user, metadata.ipAddress, metadata.userAgent);
+
+    await AuditService.logAuth({
+      userId: user.id,
+      action: 'login',
+      success: true,
+      email: user.email,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: { loginMethod: 'oidc', provider: provider.name }
+    }, transaction);
+
+    logger.info(`User logged in with ${provider.name}: ${user.email}`);
+    return { user, tokens };
+  }
+
+  /**
+   * Find the user linked to the identity, creating it on first sign-in when
+   * the provider allows, and refresh its profile from the claims
+   */
+  private static async provision(
+    provider: OidcProvider,
+    claims: IdTokenClaims,
+    transaction?: Transaction
+  ): Promise<User> {
+    const mapping = { ...DEFAULT_CLAIM_MAPPING, ...provider.claimMapping };
+    const externalId = `${provider.id}:${claims.sub}`;
+    const email = claimString(claims, mapping.email);
+    const firstName = claimString(claims, mapping.firstName);
+    const lastName = claimString(claims, mapping.lastName);
+
+    const existing = await User.findOne({ where: { authProvider: 'oidc', externalId }, transaction });
+
+    if (existing) {
+      const profile: Partial<Pick<User, 'email' | 'firstName' | 'lastName'>> = { firstName, lastName };
+
+      if (email && email !== existing.email) {
+        const taken = await User.count({ where: { email, id: { [Op.ne]: existing.id } }, transaction });
+        if (!taken) {
+          profile.email = email;
+        }
+      }
+
+      await existing.update(profile, { transaction });
+      return existing;
+    }
+
+    if (!provider.autoProvision) {
+      throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'No account is linked to this identity');
+    }
+
+    // Usernames are limited to letters, digits, dots, dashes and underscores
+    const rawUsername = claimString(claims, mapping.username) || claims.sub;
+    const username = rawUsername.split('@')[0].replace(/[^a-zA-Z0-9_.-]/g, '_').slice(0, 50);
+
+    try {
+      const created = await User.create({
+        username,
+        email: email || `${username}@${provider.name}.${OIDC_FALLBACK_EMAIL_DOMAIN}`,
+        // Never used: the identity provider authenticates the user
+        password: crypto.randomBytes(32).toString('hex'),
+        firstName,
+        lastName,
+        authProvider: 'oidc',
+        externalId,
+        emailVerified: !!email && claims.email_verified !== false,
+        isActive: true,
+        lastLogin: null
+      }, { transaction });
+
+      logger.info(`Provisioned ${provider.name} user ${created.username} (${claims.sub})`);
+      return created;
+    } catch (error) {
+      // E.g. a local account already uses the name or email
+      if (error instanceof SequelizeValidationError) {
+        logger.warn(`Cannot provision ${provider.name} user ${claims.sub}: ${error.message}`);
+        throw new ConflictError('An account with this username or email already exists', ErrorCode.USER_ALREADY_EXISTS);
+      }
+      throw error;
+    }
+  }
+
+  private static async getEnabledProvider(name: string, transaction?: Transaction): Promise<OidcProvider> {
+    const provider = await OidcProvider.findOne({ where: { name, isEnabled: true }, transaction });
+
+    if (!provider) {
+      throw new ApiError(404, 'Identity provider not found');
+    }
+
+    return provider;
+  }
+
+  private static getClient(provider: OidcProvider): OidcClient {
+    const updatedAt = provider.updatedAt ? provider.updatedAt.getTime() : 0;
+    const cached = this.clients.get(provider.id);
+
+    if (cached && cached.updatedAt === updatedAt) {
+      return cached.client;
+    }
+
+    const client = new OidcClient({
+      issuer: provider.issuer,
+      clientId: provider.clientId,
+      clientSecret: provider.clientSecret ? TOTPUtil.decryptSecret(provider.clientSecret) : null,
+      timeoutMs: config.oidc.httpTimeoutMs
+    });
+    this.clients.set(provider.id, { updatedAt, client });
+
+    return client;
+  }
+
+  private static redirectUri(provider: OidcProvider): string {
+    return `${config.oidc.redirectBaseUrl.replace(/\/$/, '')}/${provider.name}/callback`;
+  }
+
+  /**
+   * Refuse unknown roles, and roles whose assignment is held for approval:
+   * users would get them at login without anyone approving
+   */
+  private static async assertRolesMappable(roleIds: string[] | undefined, transaction?: Transaction): Promise<void> {
+    if (!roleIds || roleIds.length === 0) {
+      return;
+    }
+
+    const unique = Array.from(new Set(roleIds));
+    const count = await Role.count({ where: { id: unique }, transaction });
+
+    if (count !== unique.length) {
+      throw new ApiError(400, 'One or more role IDs are invalid');
+    }
+
+    const held = await ChangeRequestService.heldRoleIds(unique, transaction);
+    if (held.length > 0) {
+      throw new ApiError(400, 'Roles whose assignment needs approval cannot be mapped from a claim');
+    }
+  }
+}
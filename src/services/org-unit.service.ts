@@ -0,0 +1,296 @@
+import { Transaction, Op, WhereOptions } from 'sequelize';
+import { OrgUnit } from '../models/OrgUnit';
+import { ScopedRoleAssignment } from '../models/ScopedRoleAssignment';
+import { User } from '../models/User';
+import { Role } from '../models/Role';
+import { UserRole } from '../models/UserRole';
+import { ApiError } from '../utils/api-error';
+import { ConflictError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { PermissionVersionService } from './permission-version.service';
+import { SodService } from './sod.service';
+import {
+  CreateOrgUnitData,
+  UpdateOrgUnitData,
+  OrgUnitFilter,
+  OrgUnitTreeNode,
+  AssignScopedRoleData
+} from '../types/org-unit.types';
+
+export class OrgUnitService {
+  static async listOrgUnits(filter: OrgUnitFilter = {}): Promise<OrgUnit[]> {
+    const where: WhereOptions<OrgUnit> = {};
+
+    if (filter.level) {
+      Object.assign(where, { level: filter.level });
+    }
+
+    if (filter.parentId) {
+      Object.assign(where, { parentId: filter.parentId });
+    }
+
+    if (filter.search) {
+      Object.assign(where, {
+        [Op.or]: [
+          { name: { [Op.like]: `%${filter.search}%` } },
+          { code: { [Op.like]: `%${filter.search}%` } }
+        ]
+      });
+    }
+
+    return OrgUnit.findAll({ where, order: [['name', 'ASC']] });
+  }
+
+  /**
+   * The whole hierarchy as nested nodes, one root per enterprise
+   */
+  static async getOrgUnitTree(): Promise<OrgUnitTreeNode[]> {
+    const units = await OrgUnit.findAll({ order: [['name', 'ASC']] });
+    const nodes = new Map<string, OrgUnitTreeNode>(
+      units.map(unit => [unit.id, { id: unit.id, name: unit.name, code: unit.code, level: unit.level, children: [] }])
+    );
+    const roots: OrgUnitTreeNode[] = [];
+
+    for (const unit of units) {
+      const parent = unit.parentId ? nodes.get(unit.parentId) : undefined;
+      (parent ? parent.children : roots).push(nodes.get(unit.id)!);
+    }
+
+    return roots;
+  }
+
+  static async getOrgUnitById(orgUnitId: string, transaction?: Transaction): Promise<OrgUnit> {
+    const orgUnit = await OrgUnit.findByPk(orgUnitId, { transaction });
+
+    if (!orgUnit) {
+      throw new ApiError(404, 'Org unit not found');
+    }
+
+    return orgUnit;
+  }
+
+  /**
+   * Create a unit exactly one ISA-95 level below its parent. Only
+   * enterprises sit at the top, without a parent.
+   */
+  static async createOrgUnit(
+    data: CreateOrgUnitData,
+    createdBy: string,
+    transaction?: Transaction
+  ): Promise<OrgUnit> {
+    await this.assertCodeAvailable(data.code, null, transaction);
+
+    if (data.parentId) {
+      const parent = await OrgUnit.findByPk(data.parentId, { transaction });
+
+      if (!parent) {
+        throw new ApiError(400, 'Parent org unit not found');
+      }
+
+      const expectedLevel = OrgUnit.childLevel(parent.level);
+
+      if (expectedLevel === null) {
+        throw new ApiError(400, 'Work cells cannot contain other units');
+      }
+
+      if (data.level !== expectedLevel) {
+        throw new ApiError(400, `Units below a ${parent.level} must be at the ${expectedLevel} level`);
+      }
+    } else if (data.level !== 'enterprise') {
+      throw new ApiError(400, `A ${data.level} must have a parent unit`);
+    }
+
+    const orgUnit = await OrgUnit.create({
+      name: data.name,
+      code: data.code,
+      level: data.level,
+      parentId: data.parentId ?? null,
+      description: data.description ?? null
+    }, { transaction });
+
+    await AuditService.log({
+      userId: createdBy,
+      action: 'org_unit:create',
+      resource: 'org_unit',
+      resourceId: orgUnit.id,
+      details: { name: orgUnit.name, code: orgUnit.code, level: orgUnit.level, parentId: orgUnit.parentId }
+    }, transaction);
+
+    logger.info(`Org unit created: ${orgUnit.code} (${orgUnit.level})`);
+    return orgUnit;
+  }
+
+  /**
+   * Update a unit's name, code or description. Its level and parent are
+   * fixed, since moving a unit would move every role assigned above it.
+   */
+  static async updateOrgUnit(
+    orgUnitId: string,
+    data: UpdateOrgUnitData,
+    updatedBy: string,
+    transaction?: Transaction
+  ): Promise<OrgUnit> {
+    const orgUnit = await this.getOrgUnitById(orgUnitId, transaction);
+
+    if (data.code !== undefined && data.code !== orgUnit.code) {
+      await this.assertCodeAvailable(data.code, orgUnitId, transaction);
+    }
+
+    await orgUnit.update(data, { transaction });
+
+    await AuditService.log({
+      userId: updatedBy,
+      action: 'org_unit:update',
+      resource: 'org_unit',
+      resourceId: orgUnitId,
+      details: { changes: data }
+    }, transaction);
+
+    return orgUnit;
+  }
+
+  /**
+   * Delete a unit without units below it, along with the roles assigned at it
+   */
+  static async deleteOrgUnit(orgUnitId: string, deletedBy: string, transaction?: Transaction): Promise<void> {
+    const orgUnit = await this.getOrgUnitById(orgUnitId, transaction);
+
+    const children = await OrgUnit.count({ where: { parentId: orgUnitId }, transaction });
+    if (children > 0) {
+      throw new ConflictError('Org unit still contains other units; delete them first');
+    }
+
+    const assignments = await ScopedRoleAssignment.findAll({
+      where: { orgUnitId },
+      attributes: ['userId'],
+      transaction
+    });
+
+    await orgUnit.destroy({ transaction });
+    await PermissionVersionService.bumpUsers(assignments.map(assignment => assignment.userId), transaction);
+
+    await AuditService.log({
+      userId: deletedBy,
+      action: 'org_unit:delete',
+      resource: 'org_unit',
+      resourceId: orgUnitId,
+      details: { name: orgUnit.name, code: orgUnit.code, level: orgUnit.level, assignments: assignments.length }
+    }, transaction);
+
+    logger.info(`Org unit deleted: ${orgUnit.code} (${orgUnit.level})`);
+  }
+
+  /**
+   * Roles assigned at a unit. Assignments made further up apply too but are
+   * listed at their own unit.
+   */
+  static async listAssignments(orgUnitId: string): Promise<ScopedRoleAssignment[]> {
+    await this.getOrgUnitById(orgUnitId);
+
+    return ScopedRoleAssignment.findAll({
+      where: { orgUnitId },
+      include: [
+        { model: User, as: 'user', attributes: ['id', 'username', 'email'] },
+        { model: Role, as: 'role', attributes: ['id', 'name'] }
+      ],
+      order: [['assignedAt', 'ASC']]
+    });
+  }
+
+  /**
+   * Assign a role to a user within a unit and every unit below it
+   */
+  static async assignRole(
+    orgUnitId: string,
+    data: AssignScopedRoleData,
+    assignedBy: string,
+    transaction?: Transaction
+  ): Promise<ScopedRoleAssignment> {
+    const orgUnit = await this.getOrgUnitById(orgUnitId, transaction);
+
+    const user = await User.findByPk(data.userId, { attributes: ['id'], transaction });
+    if (!user) {
+      throw new ApiError(404, 'User not found');
+    }
+
+    const role = await Role.findByPk(data.roleId, { attributes: ['id', 'name'], transaction });
+    if (!role) {
+      throw new ApiError(404, 'Role not found');
+    }
+
+    const existing = await ScopedRoleAssignment.findOne({
+      where: { orgUnitId, userId: data.userId, roleId: data.roleId },
+      transaction
+    });
+    if (existing) {
+      throw new ConflictError('The user already has this role in the org unit');
+    }
+
+    const globalRoles = await UserRole.findAll({ where: { userId: data.userId }, attributes: ['roleId'], transaction });
+    await SodService.assertAllowedForUser(
+      data.userId,
+      [...globalRoles.map(assignment => assignment.roleId), data.roleId],
+      transaction
+    );
+
+    const assignment = await ScopedRoleAssignment.create({
+      orgUnitId,
+      userId: data.userId,
+      roleId: data.roleId,
+      assignedBy
+    }, { transaction });
+
+    await PermissionVersionService.bumpUsers([data.userId], transaction);
+
+    await AuditService.log({
+      userId: assignedBy,
+      action: 'org_unit:assign_role',
+      resource: 'org_unit',
+      resourceId: orgUnitId,
+      details: { assignmentId: assignment.id, userId: data.userId, roleId: role.id, role: role.name }
+    }, transaction);
+
+    logger.info(`Role ${role.name} assigned to user ${data.userId} in org unit ${orgUnit.code}`);
+    return assignment;
+  }
+
+  static async removeAssignment(
+    orgUnitId: string,
+    assignmentId: string,
+    removedBy: string,
+    transaction?: Transaction
+  ): Promise<void> {
+    const assignment = await ScopedRoleAssignment.findOne({
+      where: { id: assignmentId, orgUnitId },
+      transaction
+    });
+
+    if (!assignment) {
+      throw new ApiError(404, 'Role assignment not found');
+    }
+
+    await assignment.destroy({ transaction });
+    await PermissionVersionService.bumpUsers([assignment.userId], transaction);
+
+    await AuditService.log({
+      userId: removedBy,
+      action: 'org_unit:remove_role',
+      resource: 'org_unit',
+      resourceId: orgUnitId,
+      details: { assignmentId, userId: assignment.userId, roleId: assignment.roleId }
+    }, transaction);
+  }
+
+  private static async assertCodeAvailable(
+    code: string,
+    orgUnitId: string | null,
+    transaction?: Transaction
+  ): Promise<void> {
+    const existing = await OrgUnit.findOne({ where: { code }, transaction });
+
+    if (existing && existing.id !== orgUnitId) {
+      throw new ApiError(409, 'Org unit code is already taken');
+    }
+  }
+}
@@ -0,0 +1,336 @@
+import { Transaction, Op } from 'sequelize';
+import { User } from '../models/User';
+import { Role } from '../models/Role';
+import { Permission } from '../models/Permission';
+import { RolePermission } from '../models/RolePermission';
+import { ScopedRoleAssignment } from '../models/ScopedRoleAssignment';
+import { UserRole } from '../models/UserRole';
+import { ElevationRequest } from '../models/ElevationRequest';
+import { PermissionEffect, ConditionalPermission } from '../types/permission.types';
+import { ActiveElevation } from '../types/elevation.types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export interface EffectiveRole {
+  id: string;
+  name: string;
+  /** True when the role is assigned directly, false when inherited from a child role */
+  direct: boolean;
+  permissions: string[];
+  // Permissions the role explicitly denies; absent on entries cached before deny entries existed
+  deniedPermissions?: string[];
+  // Entries with a condition, which are in neither list above
+  conditionalPermissions?: ConditionalPermission[];
+}
+
+/**
+ * Roles a user holds at one org unit, which apply to it and the units below it
+ */
+export interface ScopedEffectivePermissions {
+  orgUnitId: string;
+  /** `direct` marks roles assigned at the unit, as opposed to inherited by them */
+  roles: EffectiveRole[];
+  permissions: string[];
+  deniedPermissions: string[];
+  conditionalPermissions?: ConditionalPermission[];
+}
+
+/**
+ * Everything needed to answer permission checks for a user without a query.
+ * `roles` and `permissions` come from global assignments and apply everywhere.
+ */
+export interface EffectivePermissions {
+  userId: string;
+  isSuperuser: boolean;
+  roles: EffectiveRole[];
+  permissions: string[];
+  // Denied by any effective role, overriding every allow (see PermissionUtil)
+  deniedPermissions?: string[];
+  // Allows and denies that apply only while their condition holds (see ConditionUtil)
+  conditionalPermissions?: ConditionalPermission[];
+  // Absent on entries cached before org units existed
+  scopes?: ScopedEffectivePermissions[];
+  // Approved elevations, whose roles and permissions are included above; absent when there are none
+  elevations?: ActiveElevation[];
+  // When a time-bound role assignment or an elevation next starts or ends (ms since epoch); the entry is stale from then on
+  refreshAt?: number;
+}
+
+/**
+ * Storage for effective permissions. Methods are async so that a shared
+ * store (e.g. Redis) can implement the same contract.
+ */
+export interface PermissionCache {
+  get(userId: string): Promise<EffectivePermissions | undefined>;
+  set(userId: string, value: EffectivePermissions): Promise<void>;
+  delete(userIds: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * In-process least-recently-used cache with a per-entry time to live
+ */
+export class LruPermissionCache implements PermissionCache {
+  private readonly entries = new Map<string, { value: EffectivePermissions; expiresAt: number }>();
+
+  constructor(
+    private readonly maxEntries: number = config.permissionCache.maxEntries,
+    private readonly ttlMs: number = config.permissionCache.ttlSeconds * 1000
+  ) {}
+
+  get(userId: string): Promise<EffectivePermissions | undefined> {
+    const entry = this.entries.get(userId);
+    if (!entry) {
+      return Promise.resolve(undefined);
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(userId);
+      return Promise.resolve(undefined);
+    }
+
+    // Re-insert so the entry becomes the most recently used
+    this.entries.delete(userId);
+    this.entries.set(userId, entry);
+    return Promise.resolve(entry.value);
+  }
+
+  set(userId: string, value: EffectivePermissions): Promise<void> {
+    this.entries.delete(userId);
+    this.entries.set(userId, { value, expiresAt: Date.now() + this.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+
+    return Promise.resolve();
+  }
+
+  delete(userIds: string[]): Promise<void> {
+    userIds.forEach(userId => this.entries.delete(userId));
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.entries.clear();
+    return Promise.resolve();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export class PermissionCacheService {
+  private static cache: PermissionCache = new LruPermissionCache();
+
+  /**
+   * Replace the cache backend (e.g. with a Redis adapter shared across instances)
+   */
+  static setCache(cache: PermissionCache): void {
+    this.cache = cache;
+  }
+
+  static getCache(): PermissionCache {
+    return this.cache;
+  }
+
+  /**
+   * Get a user's effective roles and permissions, loading them on a cache miss.
+   * Returns null when the user does not exist.
+   */
+  static async getEffectivePermissions(userId: string): Promise<EffectivePermissions | null> {
+    if (config.permissionCache.enabled) {
+      const cached = await this.cache.get(userId);
+      if (cached && !(cached.refreshAt !== undefined && cached.refreshAt <= Date.now())) {
+        return cached;
+      }
+    }
+
+    const effective = await this.loadEffectivePermissions(userId);
+
+    if (effective && config.permissionCache.enabled) {
+      await this.cache.set(userId, effective);
+    }
+
+    return effective;
+  }
+
+  /**
+   * Drop cached permissions for specific users, e.g. after their roles change.
+   * When a transaction is given the entries are dropped again after it commits,
+   * so a read racing the commit cannot leave stale data behind.
+   */
+  static async invalidateUsers(userIds: string[], transaction?: Transaction): Promise<void> {
+    if (userIds.length === 0) {
+      return;
+    }
+
+    await this.cache.delete(userIds);
+    transaction?.afterCommit(() => this.cache.delete(userIds));
+
+    logger.debug(`Permission cache invalidated for ${userIds.length} user(s)`);
+  }
+
+  /**
+   * Drop every cached entry. Used when role permissions or the role hierarchy
+   * change, since that can affect any user holding the role or a descendant.
+   */
+  static async invalidateAll(transaction?: Transaction): Promise<void> {
+    await this.cache.clear();
+    transaction?.afterCommit(() => this.cache.clear());
+
+    logger.debug('Permission cache cleared');
+  }
+
+  private static async loadEffectivePermissions(userId: string): Promise<EffectivePermissions | null> {
+    const user = await User.findByPk(userId, {
+      attributes: ['id', 'isSuperuser'],
+      include: [
+        {
+          model: Role,
+          as: 'roles',
+          attributes: ['id'],
+          through: { attributes: ['validFrom', 'validUntil'] }
+        },
+        {
+          model: ScopedRoleAssignment,
+          as: 'scopedRoleAssignments',
+          attributes: ['roleId', 'orgUnitId']
+        },
+        {
+          model: ElevationRequest,
+          as: 'elevationRequests',
+          attributes: ['id', 'roleId', 'permissionIds', 'expiresAt'],
+          where: { status: 'approved', expiresAt: { [Op.gt]: new Date() } },
+          required: false
+        }
+      ]
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    // Assignments that have not started yet or have expired but not been swept grant nothing
+    const now = new Date();
+    const assignedRoles = (user.roles || []) as Array<Role & { UserRole?: UserRole }>;
+    const directRoleIds = assignedRoles
+      .filter(role => !role.UserRole || UserRole.isInEffect(role.UserRole, now))
+      .map(role => role.id);
+    // Elevated roles count as assigned until the elevation expires
+    const elevations = user.elevationRequests || [];
+    const elevatedRoleIds = elevations.flatMap(elevation => (elevation.roleId ? [elevation.roleId] : []));
+    const heldRoleIds = Array.from(new Set([...directRoleIds, ...elevatedRoleIds]));
+    const boundaries = [
+      ...assignedRoles.flatMap(role => [role.UserRole?.validFrom, role.UserRole?.validUntil]),
+      ...elevations.map(elevation => elevation.expiresAt)
+    ]
+      .map(time => (time ? new Date(time).getTime() : NaN))
+      .filter(time => time > now.getTime());
+    const effectiveRoleIds = await Role.getEffectiveRoleIds(heldRoleIds);
+
+    const elevatedPermissionIds = Array.from(new Set(elevations.flatMap(elevation => elevation.permissionIds || [])));
+    const elevatedPermissions = elevatedPermissionIds.length > 0
+      ? await Permission.findAll({ where: { id: elevatedPermissionIds }, attributes: ['id', 'name'] })
+      : [];
+    const permissionNames = new Map(elevatedPermissions.map(permission => [permission.id, permission.name]));
+
+    // Roles assigned at each unit, expanded with the roles they inherit from
+    const assignments = user.scopedRoleAssignments || [];
+    const units = await Promise.all(
+      Array.from(new Set(assignments.map(assignment => assignment.orgUnitId))).map(async orgUnitId => {
+        const assignedRoleIds = assignments
+          .filter(assignment => assignment.orgUnitId === orgUnitId)
+          .map(assignment => assignment.roleId);
+        return { orgUnitId, assignedRoleIds, roleIds: await Role.getEffectiveRoleIds(assignedRoleIds) };
+      })
+    );
+    const allRoleIds = Array.from(new Set([...effectiveRoleIds, ...units.flatMap(unit => unit.roleIds)]));
+
+    // One query for all roles and their permissions
+    const roles = allRoleIds.length > 0
+      ? await Role.findAll({
+        where: { id: allRoleIds },
+        attributes: ['id', 'name'],
+        include: [
+          {
+            model: Permission,
+            as: 'permissions',
+            attributes: ['name'],
+            through: { attributes: ['effect', 'condition'] },
+            required: false
+          }
+        ]
+      })
+      : [];
+
+    const toEffectiveRoles = (roleIds: string[], assignedRoleIds: string[]): EffectiveRole[] => roles
+      .filter(role => roleIds.includes(role.id))
+      .map(role => {
+        const entries = (role.permissions || []) as Array<Permission & { RolePermission?: RolePermission }>;
+        const namesWithEffect = (effect: PermissionEffect) => entries
+          .filter(permission => !permission.RolePermission?.condition)
+          .filter(permission => (permission.RolePermission?.effect || 'allow') === effect)
+          .map(permission => permission.name);
+
+        return {
+          id: role.id,
+          name: role.name,
+          direct: assignedRoleIds.includes(role.id),
+          permissions: namesWithEffect('allow'),
+          deniedPermissions: namesWithEffect('deny'),
+          conditionalPermissions: entries
+            .filter(permission => permission.RolePermission?.condition)
+            .map(permission => ({
+              permission: permission.name,
+              effect: permission.RolePermission!.effect || 'allow',
+              condition: permission.RolePermission!.condition!
+            }))
+        };
+      });
+    const collect = (effectiveRoles: EffectiveRole[], key: 'permissions' | 'deniedPermissions') =>
+      Array.from(new Set(effectiveRoles.flatMap(role => role[key] || [])));
+    // The same entry held through two roles needs evaluating only once
+    const collectConditional = (effectiveRoles: EffectiveRole[]) => Array.from(
+      new Map(effectiveRoles
+        .flatMap(role => role.conditionalPermissions || [])
+        .map(entry => [`${entry.effect} ${entry.permission} ${entry.condition}`, entry])).values()
+    );
+
+    const effectiveRoles = toEffectiveRoles(effectiveRoleIds, heldRoleIds);
+    const activeElevations: ActiveElevation[] = elevations.map(elevation => ({
+      id: elevation.id,
+      roleId: elevation.roleId,
+      role: effectiveRoles.find(role => role.id === elevation.roleId)?.name ?? null,
+      permissions: (elevation.permissionIds || []).filter(id => permissionNames.has(id)).map(id => permissionNames.get(id)!),
+      expiresAt: new Date(elevation.expiresAt!).toISOString()
+    }));
+    const scopes = units.map(unit => {
+      const unitRoles = toEffectiveRoles(unit.roleIds, unit.assignedRoleIds);
+      return {
+        orgUnitId: unit.orgUnitId,
+        roles: unitRoles,
+        permissions: collect(unitRoles, 'permissions'),
+        deniedPermissions: collect(unitRoles, 'deniedPermissions'),
+        conditionalPermissions: collectConditional(unitRoles)
+      };
+    });
+
+    return {
+      userId: user.id,
+      isSuperuser: Boolean(user.isSuperuser),
+      roles: effectiveRoles,
+      permissions: Array.from(new Set([
+        ...collect(effectiveRoles, 'permissions'),
+        ...activeElevations.flatMap(elevation => elevation.permissions)
+      ])),
+      deniedPermissions: collect(effectiveRoles, 'deniedPermissions'),
+      conditionalPermissions: collectConditional(effectiveRoles),
+      scopes,
+      ...(activeElevations.length > 0 ? { elevations: activeElevations } : {}),
+      ...(boundaries.length > 0 ? { refreshAt: Math.min(...boundaries) } : {})
+    };
+  }
+}
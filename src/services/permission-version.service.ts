@@ -0,0 +1,60 @@
+import { Transaction } from 'sequelize';
+import { User } from '../models/User';
+import { Role } from '../models/Role';
+import { UserRole } from '../models/UserRole';
+import { ScopedRoleAssignment } from '../models/ScopedRoleAssignment';
+import { logger } from '../utils/logger';
+import { PermissionCacheService } from './permission-cache.service';
+
+/**
+ * Records that users' effective permissions changed. Bumping
+ * `permissionsVersion` makes `authenticate` reject access tokens issued
+ * before the change, and the cached permissions are dropped so the
+ * refreshed token is built from current data.
+ */
+export class PermissionVersionService {
+  /**
+   * Bump the version for users whose own role assignments changed
+   */
+  static async bumpUsers(userIds: string[], transaction?: Transaction): Promise<void> {
+    const uniqueIds = Array.from(new Set(userIds));
+    if (uniqueIds.length === 0) {
+      return;
+    }
+
+    await User.increment('permissionsVersion', {
+      by: 1,
+      where: { id: uniqueIds },
+      transaction
+    });
+
+    await PermissionCacheService.invalidateUsers(uniqueIds, transaction);
+
+    logger.debug(`Permissions version bumped for ${uniqueIds.length} user(s)`);
+  }
+
+  /**
+   * Bump the version for every user holding a role, or a role inheriting from it,
+   * globally or within an org unit.
+   * Call before deleting a role, while its assignments still exist.
+   */
+  static async bumpRoleHolders(roleId: string, transaction?: Transaction): Promise<void> {
+    const roleIds = [roleId, ...(await Role.getDescendantIds(roleId, transaction))];
+
+    const assignments = await UserRole.findAll({
+      where: { roleId: roleIds },
+      attributes: ['userId'],
+      transaction
+    });
+    const scopedAssignments = await ScopedRoleAssignment.findAll({
+      where: { roleId: roleIds },
+      attributes: ['userId'],
+      transaction
+    });
+
+    await this.bumpUsers(
+      [...assignments, ...scopedAssignments].map(assignment => assignment.userId),
+      transaction
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { Transaction, Op, WhereOptions } from 'sequelize';
-import { Permission, Role, RolePermission, Resource } from '../models';
+import { Permission, Role, RolePermission, Resource, OrgUnit } from '../models';
 import {
   IPermission,
   IPermissionCreate,
@@ -16,6 +16,13 @@ import {
 import { ApiError } from '../utils/api-error';
 import { sequelize } from '../config/database';
 import { logger } from '../utils/logger';
+import { PermissionUtil } from '../utils/permission.util';
+import { PermissionCacheService, EffectiveRole } from './permission-cache.service';
+import { PermissionVersionService } from './permission-version.service';
+import { ConditionScope } from '../utils/condition.util';
+
+// A role weighed by checkUserPermission, its conditional entries already sorted into allows and denies
+type CandidateRole = EffectiveRole & { scoped?: boolean; conditional: string[] };
 
 export class PermissionService {
   async createPermission(data: IPermissionCreate): Promise<IPermission> {
@@ -175,69 +182,92 @@ export class PermissionService {
     }
   }
 
-  async checkUserPermission(userId: string, permissionName: string): Promise<IPermissionCheckResult> {
-    const user = await sequelize.models.User.findByPk(userId, {
-      include: [{
-        model: Role,
-        as: 'roles',
-        include: [{
-          model: Permission,
-          as: 'permissions',
-          where: { name: permissionName },
-          required: false
-        }]
-      }]
-    });
-
-    if (!user) {
+  /**
+   * Check a permission globally, or at an org unit when one is given. At a
+   * unit, roles assigned at the unit or any unit above it count as well.
+   * Conditional entries are evaluated against `conditions`; without it no
+   * condition is decided, so conditional allows do not grant and
+   * conditional denies apply.
+   */
+  async checkUserPermission(
+    userId: string,
+    permissionName: string,
+    orgUnitId?: string,
+    conditions?: ConditionScope
+  ): Promise<IPermissionCheckResult> {
+    const effective = await PermissionCacheService.getEffectivePermissions(userId);
+
+    if (!effective) {
       throw new ApiError(404, 'User not found');
     }
 
-    const userData = user.toJSON() as any;
-
-    if (userData.isSuperuser) {
+    if (effective.isSuperuser) {
       return {
         hasPermission: true,
         source: 'superuser'
       };
     }
 
-    for (const role of userData.roles || []) {
-      if (role.permissions && role.permissions.length > 0) {
-        return {
-          hasPermission: true,
-          source: `role:${role.name}`
-        };
-      }
+    const unitIds = orgUnitId ? await OrgUnit.getScopeChain(orgUnitId) : [];
+    const candidates = [
+      ...effective.roles,
+      ...(effective.scopes || [])
+        .filter(scope => unitIds.includes(scope.orgUnitId))
+        .flatMap(scope => scope.roles.map(role => ({ ...role, scoped: true })))
+    ].map((role): CandidateRole => {
+      // Conditional entries join the role's allows or denies depending on how their condition turns out
+      const { allowed, denied } = PermissionUtil.applyConditions(
+        role.permissions,
+        role.deniedPermissions || [],
+        role.conditionalPermissions,
+        permissionName,
+        conditions
+      );
+      const conditional = PermissionUtil.matchingConditions(role.conditionalPermissions, permissionName)
+        .map(entry => entry.permission);
+      return { ...role, permissions: allowed, deniedPermissions: denied, conditional };
+    });
+
+    // Prefer specific entries over wildcards, and directly assigned roles over inherited ones
+    const rank = (entries: (role: CandidateRole) => string[]) => candidates
+      .map(role => {
+        const match = PermissionUtil.mostSpecificMatch(entries(role), permissionName);
+        const specificity = match === null ? -1 : PermissionUtil.specificity(match, permissionName);
+        return { role, match, exact: specificity === 3, inherited: !role.direct, specificity };
+      })
+      .filter(candidate => candidate.match !== null)
+      .map(candidate => ({ ...candidate, rank: (3 - candidate.specificity) * 2 + (candidate.inherited ? 1 : 0) }))
+      .sort((a, b) => a.rank - b.rank);
+
+    // A deny on any role overrides every allow (see PermissionUtil for the precedence)
+    const denied = rank(role => role.deniedPermissions || []);
+    if (denied.length > 0) {
+      const qualifier = denied[0].role.conditional.includes(denied[0].match!) ? ', conditional' : '';
+      return {
+        hasPermission: false,
+        source: `role:${denied[0].role.name} (denied by ${denied[0].match}${qualifier})`
+      };
     }
 
-    const parts = permissionName.split(':');
-    if (parts.length === 2) {
-      const resource = parts[0];
-      const wildcardPermission = `${resource}:*`;
-
-      for (const role of userData.roles || []) {
-        const hasWildcard = await Permission.count({
-          include: [{
-            model: Role,
-            as: 'roles',
-            where: { id: role.id },
-            required: true
-          }],
-          where: { name: wildcardPermission }
-        });
+    const ranked = rank(role => role.permissions);
 
-        if (hasWildcard > 0) {
-          return {
-            hasPermission: true,
-            source: `role:${role.name} (wildcard)`
-          };
-        }
-      }
+    if (ranked.length === 0) {
+      return {
+        hasPermission: false
+      };
     }
 
+    const best = ranked[0];
+    const qualifiers = [
+      ...(best.exact ? [] : ['wildcard']),
+      ...(best.inherited ? ['inherited'] : []),
+      ...(best.role.scoped ? ['scoped'] : []),
+      ...(best.role.conditional.includes(best.match!) ? ['conditional'] : [])
+    ];
+
     return {
-      hasPermission: false
+      hasPermission: true,
+      source: `role:${best.role.name}${qualifiers.length > 0 ? ` (${qualifiers.join(', ')})` : ''}`
     };
   }
 
@@ -246,7 +276,7 @@ export class PermissionService {
       include: [{
         model: Permission,
         as: 'permissions',
-        through: { attributes: ['grantedAt', 'grantedBy'] }
+        through: { attributes: ['effect', 'condition', 'grantedAt', 'grantedBy'] }
       }]
     });
 
@@ -299,6 +329,8 @@ export class PermissionService {
         await RolePermission.bulkCreate(rolePermissions, { transaction });
       }
 
+      await PermissionVersionService.bumpRoleHolders(roleId, transaction);
+
       await transaction.commit();
 
       logger.info(`Permissions updated for role ${roleId}: ${permissionIds.length} permissions assigned`);
@@ -0,0 +1,96 @@
+import { Op } from 'sequelize';
+import { sequelize } from '../config/database';
+import { config } from '../config';
+import { UserRole } from '../models/UserRole';
+import { Role } from '../models/Role';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { PermissionVersionService } from './permission-version.service';
+import { ElevationService } from './elevation.service';
+
+/**
+ * Removes role assignments past their `validUntil`. Such assignments grant
+ * nothing even before they are swept (see PermissionCacheService), but
+ * tokens issued while they applied stay valid until the sweep bumps the
+ * holders' permissions version.
+ */
+export class RoleExpiryService {
+  private static timer?: NodeJS.Timeout;
+
+  /**
+   * Delete expired assignments, auditing each one. Returns how many were removed.
+   */
+  static async sweepExpired(now: Date = new Date()): Promise<number> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      // Locked so that instances sweeping at the same time audit each expiry once
+      const expired = await UserRole.findAll({
+        where: { validUntil: { [Op.lte]: now } },
+        lock: transaction.LOCK.UPDATE,
+        transaction
+      });
+
+      if (expired.length === 0) {
+        await transaction.commit();
+        return 0;
+      }
+
+      const roles = await Role.findAll({
+        where: { id: Array.from(new Set(expired.map(assignment => assignment.roleId))) },
+        attributes: ['id', 'name'],
+        transaction
+      });
+      const roleNames = new Map(roles.map(role => [role.id, role.name]));
+
+      for (const assignment of expired) {
+        await assignment.destroy({ transaction });
+
+        await AuditService.log({
+          userId: null,
+          action: 'role:expire',
+          resource: 'user',
+          resourceId: assignment.userId,
+          details: {
+            roleId: assignment.roleId,
+            role: roleNames.get(assignment.roleId) ?? null,
+            assignedBy: assignment.assignedBy,
+            validFrom: assignment.validFrom,
+            validUntil: assignment.validUntil
+          }
+        }, transaction);
+      }
+
+      await PermissionVersionService.bumpUsers(expired.map(assignment => assignment.userId), transaction);
+      await transaction.commit();
+
+      logger.info(`Removed ${expired.length} expired role assignment(s)`);
+      return expired.length;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Sweep on an interval for the life of the process, together with elapsed
+   * elevations. An interval of 0 disables the sweeper.
+   */
+  static start(intervalSeconds: number = config.roleExpiry.sweepIntervalSeconds): void {
+    if (intervalSeconds <= 0 || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.sweepExpired().catch(error => logger.error('Role expiry sweep failed:', error));
+      ElevationService.sweepExpired().catch(error => logger.error('Elevation expiry sweep failed:', error));
+    }, intervalSeconds * 1000);
+    // The sweeper alone must not keep the process running
+    this.timer.unref();
+  }
+
+  static stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
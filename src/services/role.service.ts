@@ -2,11 +2,15 @@ import { Transaction, Op, WhereOptions, Order, Sequelize } from 'sequelize';
 import { Role } from '../models/Role';
 import { User } from '../models/User';
 import { Permission } from '../models/Permission';
+import { RolePermission } from '../models/RolePermission';
+import { UserRole } from '../models/UserRole';
 import { MenuPermission } from '../models/MenuPermission';
 import { AuditLog } from '../models/AuditLog';
 import { ApiError } from '../utils/api-error';
 import { logger } from '../utils/logger';
 import { sequelize } from '../config/database';
+import { PermissionVersionService } from './permission-version.service';
+import { SodService } from './sod.service';
 import {
   CreateRoleData,
   UpdateRoleData,
@@ -20,7 +24,11 @@ import {
   RoleCloneData,
   RoleHierarchy
 } from '../types/role.types';
-import { PaginationOptions } from '../types/user.types';
+import { PermissionEffect } from '../types/permission.types';
+import { PaginationOptions, RoleValidity } from '../types/user.types';
+
+// A permission loaded through a role, carrying its role_permissions entry
+type PermissionWithEffect = Permission & { RolePermission?: RolePermission };
 
 export class RoleService {
   /**
@@ -138,7 +146,7 @@ export class RoleService {
             model: Permission,
             as: 'permissions',
             attributes: ['id', 'name', 'resource', 'action', 'description'],
-            through: { attributes: [] }
+            through: { attributes: ['effect', 'condition'] }
           },
           {
             model: User,
@@ -209,11 +217,17 @@ export class RoleService {
         throw new ApiError(409, 'Role with this name already exists');
       }
 
+      if (data.parentId) {
+        await this.validateParentRole(null, data.parentId, transaction);
+      }
+
       // Create role
       const role = await Role.create({
         name: data.name,
         description: data.description,
-        isSystem: data.isSystem || false
+        parentId: data.parentId || null,
+        isSystem: data.isSystem || false,
+        mfaRequired: data.mfaRequired || false
       }, { transaction });
 
       // Assign permissions if provided
@@ -239,6 +253,8 @@ export class RoleService {
         resourceId: role.id,
         details: {
           name: role.name,
+          parentId: role.parentId,
+          mfaRequired: role.mfaRequired,
           permissions: data.permissionIds
         }
       }, { transaction });
@@ -286,10 +302,17 @@ export class RoleService {
         }
       }
 
+      // Validate the new parent before touching the hierarchy
+      if (data.parentId) {
+        await this.validateParentRole(roleId, data.parentId, transaction);
+      }
+
       // Update role fields
       const updateData: any = {};
       if (data.name !== undefined) updateData.name = data.name;
       if (data.description !== undefined) updateData.description = data.description;
+      if (data.parentId !== undefined) updateData.parentId = data.parentId;
+      if (data.mfaRequired !== undefined) updateData.mfaRequired = data.mfaRequired;
 
       if (Object.keys(updateData).length > 0) {
         await role.update(updateData, { transaction });
@@ -322,6 +345,11 @@ export class RoleService {
         }
       }, { transaction });
 
+      // Renames, hierarchy and permission changes affect every holder of the role
+      if (data.name !== undefined || data.parentId !== undefined || data.permissionIds !== undefined) {
+        await PermissionVersionService.bumpRoleHolders(roleId, transaction);
+      }
+
       // Get updated role with details
       const updatedRole = await this.getRoleById(roleId);
 
@@ -357,6 +385,9 @@ export class RoleService {
         throw new ApiError(400, `Cannot delete role with ${userCount} assigned users`);
       }
 
+      // Child roles no longer inherit from the deleted role
+      await PermissionVersionService.bumpRoleHolders(roleId, transaction);
+
       // Delete role (cascades to role_permissions and menu_permissions)
       await role.destroy({ transaction });
 
@@ -379,7 +410,9 @@ export class RoleService {
   }
 
   /**
-   * Update role permissions (add/remove specific permissions)
+   * Update role permissions (allow, deny or remove specific permissions).
+   * Adding or denying a permission the role already has switches its effect,
+   * and sets its condition to the one given in `conditions`, or none.
    */
   static async updateRolePermissions(
     roleId: string,
@@ -389,7 +422,11 @@ export class RoleService {
   ): Promise<RoleWithDetails> {
     try {
       const role = await Role.findByPk(roleId, {
-        include: ['permissions'],
+        include: [{
+          model: Permission,
+          as: 'permissions',
+          through: { attributes: ['effect', 'condition'] }
+        }],
         transaction
       });
 
@@ -397,19 +434,23 @@ export class RoleService {
         throw new ApiError(404, 'Role not found');
       }
 
-      const currentPermissionIds = role.permissions?.map(p => p.id) || [];
-      let newPermissionIds = [...currentPermissionIds];
+      const currentEntries = new Map<string, { effect: PermissionEffect; condition: string | null }>(
+        (role.permissions || []).map(p => {
+          const entry = (p as PermissionWithEffect).RolePermission;
+          return [p.id, { effect: entry?.effect || 'allow', condition: entry?.condition ?? null }];
+        })
+      );
+      const newEntries = new Map(currentEntries);
+      const conditionOf = (id: string) => update.conditions?.[id] ?? null;
 
       // Remove permissions
-      if (update.remove && update.remove.length > 0) {
-        newPermissionIds = newPermissionIds.filter(id => !update.remove!.includes(id));
-      }
+      (update.remove || []).forEach(id => newEntries.delete(id));
 
-      // Add permissions
-      if (update.add && update.add.length > 0) {
-        const toAdd = update.add.filter(id => !newPermissionIds.includes(id));
-        newPermissionIds.push(...toAdd);
-      }
+      // Allow and deny permissions
+      (update.add || []).forEach(id => newEntries.set(id, { effect: 'allow', condition: conditionOf(id) }));
+      (update.deny || []).forEach(id => newEntries.set(id, { effect: 'deny', condition: conditionOf(id) }));
+
+      const newPermissionIds = Array.from(newEntries.keys());
 
       // Validate all permission IDs
       const permissions = await Permission.findAll({
@@ -421,8 +462,35 @@ export class RoleService {
         throw new ApiError(400, 'One or more permission IDs are invalid');
       }
 
-      // Update permissions
-      await (role as any).setPermissions(permissions, { transaction });
+      // Rewrite only the entries that were removed or whose effect or condition changed
+      const changedIds = newPermissionIds.filter(id => {
+        const current = currentEntries.get(id);
+        const next = newEntries.get(id)!;
+        return !current || current.effect !== next.effect || current.condition !== next.condition;
+      });
+      const droppedIds = Array.from(currentEntries.keys()).filter(id => !newEntries.has(id) || changedIds.includes(id));
+
+      if (droppedIds.length > 0) {
+        await RolePermission.destroy({
+          where: { roleId, permissionId: droppedIds },
+          transaction
+        });
+      }
+
+      if (changedIds.length > 0) {
+        await RolePermission.bulkCreate(changedIds.map(permissionId => {
+          const { effect, condition } = newEntries.get(permissionId)!;
+          return {
+            roleId,
+            permissionId,
+            effect,
+            ...(condition !== null ? { condition } : {}),
+            grantedBy: updatedBy
+          };
+        }), { transaction });
+      }
+
+      await PermissionVersionService.bumpRoleHolders(roleId, transaction);
 
       // Create audit log
       await AuditLog.create({
@@ -432,7 +500,9 @@ export class RoleService {
         resourceId: roleId,
         details: {
           added: update.add || [],
+          denied: update.deny || [],
           removed: update.remove || [],
+          ...(update.conditions ? { conditions: update.conditions } : {}),
           total: newPermissionIds.length
         }
       }, { transaction });
@@ -484,6 +554,27 @@ export class RoleService {
       // Clone permissions if requested
       if (data.includePermissions && sourceRole.permissions) {
         await (newRole as any).setPermissions(sourceRole.permissions, { transaction });
+
+        // setPermissions writes every entry as an unconditional allow, so carry denies and conditions over
+        const deniedIds = sourceRole.permissions
+          .filter(p => (p as PermissionWithEffect).RolePermission?.effect === 'deny')
+          .map(p => p.id);
+        if (deniedIds.length > 0) {
+          await RolePermission.update({ effect: 'deny' }, {
+            where: { roleId: newRole.id, permissionId: deniedIds },
+            transaction
+          });
+        }
+
+        for (const permission of sourceRole.permissions) {
+          const condition = (permission as PermissionWithEffect).RolePermission?.condition;
+          if (condition) {
+            await RolePermission.update({ condition }, {
+              where: { roleId: newRole.id, permissionId: permission.id },
+              transaction
+            });
+          }
+        }
       }
 
       // Clone menu permissions if requested
@@ -672,13 +763,14 @@ export class RoleService {
   }
 
   /**
-   * Assign users to a role
+   * Assign users to a role, optionally only for the given period
    */
   static async assignUsersToRole(
     roleId: string,
     userIds: string[],
     assignedBy: string,
-    transaction?: Transaction
+    transaction?: Transaction,
+    validity?: RoleValidity
   ): Promise<BulkRoleOperationResult> {
     const results: BulkRoleOperationResult = {
       success: [],
@@ -710,8 +802,12 @@ export class RoleService {
             continue;
           }
 
+          await SodService.assertAllowedForUser(userId, [...(user.roles || []).map(r => r.id), roleId], transaction);
+
           // Add role to user
-          await (user as any).addRole(role, { transaction });
+          await (user as any).addRole(role, validity
+            ? { transaction, through: UserRole.toValidityValues(validity) }
+            : { transaction });
           results.success.push(userId);
         } catch (error) {
           results.failed.push({
@@ -721,6 +817,8 @@ export class RoleService {
         }
       }
 
+      await PermissionVersionService.bumpUsers(results.success, transaction);
+
       // Create audit log
       await AuditLog.create({
         userId: assignedBy,
@@ -732,7 +830,8 @@ export class RoleService {
           total: userIds.length,
           success: results.success.length,
           failed: results.failed.length,
-          userIds: results.success
+          userIds: results.success,
+          ...(validity ? { validity } : {})
         }
       }, { transaction });
 
@@ -794,6 +893,8 @@ export class RoleService {
         }
       }
 
+      await PermissionVersionService.bumpUsers(results.success, transaction);
+
       // Create audit log
       await AuditLog.create({
         userId: removedBy,
@@ -818,7 +919,7 @@ export class RoleService {
   }
 
   /**
-   * Get role hierarchy (for visualization)
+   * Get role hierarchy as a tree of parent/child roles
    */
   static async getRoleHierarchy(): Promise<RoleHierarchy[]> {
     try {
@@ -840,20 +941,78 @@ export class RoleService {
         order: [['isSystem', 'DESC'], ['name', 'ASC']]
       });
 
-      return roles.map(role => ({
-        id: role.id,
-        name: role.name,
-        description: role.description,
-        isSystem: role.isSystem,
-        permissionCount: role.permissions?.length || 0,
-        userCount: role.users?.length || 0
-      }));
+      const nodeMap = new Map<string, RoleHierarchy>();
+      roles.forEach(role => {
+        nodeMap.set(role.id, {
+          id: role.id,
+          name: role.name,
+          description: role.description,
+          isSystem: role.isSystem,
+          parentId: role.parentId,
+          level: 0,
+          permissionCount: role.permissions?.length || 0,
+          userCount: role.users?.length || 0,
+          children: []
+        });
+      });
+
+      // Build tree structure; roles with a missing parent are treated as roots
+      const rootRoles: RoleHierarchy[] = [];
+      for (const node of nodeMap.values()) {
+        const parent = node.parentId ? nodeMap.get(node.parentId) : undefined;
+        if (parent) {
+          parent.children.push(node);
+        } else {
+          rootRoles.push(node);
+        }
+      }
+
+      // Assign depth levels, guarding against cycles in legacy data
+      const visited = new Set<string>();
+      const assignLevels = (nodes: RoleHierarchy[], level: number) => {
+        nodes.forEach(node => {
+          if (visited.has(node.id)) {
+            return;
+          }
+          visited.add(node.id);
+          node.level = level;
+          assignLevels(node.children, level + 1);
+        });
+      };
+      assignLevels(rootRoles, 0);
+
+      return rootRoles;
     } catch (error) {
       logger.error('Failed to get role hierarchy:', error);
       throw error;
     }
   }
 
+  /**
+   * Ensure a parent role exists and would not introduce a cycle
+   */
+  private static async validateParentRole(
+    roleId: string | null,
+    parentId: string,
+    transaction?: Transaction
+  ): Promise<void> {
+    if (roleId && roleId === parentId) {
+      throw new ApiError(400, 'A role cannot be its own parent');
+    }
+
+    const parentRole = await Role.findByPk(parentId, { transaction });
+    if (!parentRole) {
+      throw new ApiError(404, 'Parent role not found');
+    }
+
+    if (roleId) {
+      const ancestorIds = await Role.getAncestorIds(parentId, transaction);
+      if (ancestorIds.includes(roleId)) {
+        throw new ApiError(400, 'Cannot set a descendant role as parent');
+      }
+    }
+  }
+
   /**
    * Check if role has specific permission
    */
@@ -865,6 +1024,8 @@ export class RoleService {
             model: Permission,
             as: 'permissions',
             where: { name: permissionName },
+            // A denied entry withholds the permission, and a conditional one grants it only sometimes
+            through: { attributes: [], where: { effect: 'allow', condition: null } },
             required: false
           }
         ]
@@ -0,0 +1,486 @@
+import crypto from 'crypto';
+import { Transaction, Op, WhereOptions } from 'sequelize';
+import { User } from '../models/User';
+import { Role } from '../models/Role';
+import { ApiKey } from '../models/ApiKey';
+import { ApiError } from '../utils/api-error';
+import { AuthenticationError } from '../utils/errors';
+import { ErrorCode } from '../types';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { PermissionCacheService } from './permission-cache.service';
+import { PermissionVersionService } from './permission-version.service';
+import { SodService } from './sod.service';
+import { PaginationOptions } from '../types/user.types';
+import { ScopedPermissionMap } from '../types/org-unit.types';
+import { ConditionalPermission } from '../types/permission.types';
+import { PermissionUtil } from '../utils/permission.util';
+import {
+  CreateServiceAccountData,
+  UpdateServiceAccountData,
+  ServiceAccountFilter,
+  CreateApiKeyData,
+  IssuedApiKey,
+  ApiKeyAuthentication
+} from '../types/service-account.types';
+
+// Service accounts never receive mail; the reserved TLD guarantees it cannot be delivered
+const SERVICE_ACCOUNT_EMAIL_DOMAIN = 'service-accounts.invalid';
+
+// Writing last-used details on every request would turn each call into a write
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const roleInclude = {
+  model: Role,
+  as: 'roles',
+  attributes: ['id', 'name', 'description'],
+  through: { attributes: [] }
+};
+
+/**
+ * Intersection of two `resource:action` patterns, where `*` matches anything
+ */
+const intersectPattern = (a: string, b: string): string | null => {
+  const [resourceA, actionA] = a.split(':');
+  const [resourceB, actionB] = b.split(':');
+
+  const narrower = (x: string, y: string): string | null => {
+    if (x === '*') return y;
+    if (y === '*' || x === y) return x;
+    return null;
+  };
+
+  const resource = narrower(resourceA, resourceB);
+  const action = narrower(actionA, actionB);
+
+  return resource !== null && action !== null ? `${resource}:${action}` : null;
+};
+
+export class ServiceAccountService {
+  /**
+   * Limit an account's permissions to the scopes of a key. Wildcards are
+   * narrowed rather than dropped, so `user:*` scoped to `*:read` becomes
+   * `user:read`. A key without scopes keeps every permission.
+   */
+  static scopePermissions(permissions: string[], scopes: string[] | null | undefined): string[] {
+    if (!scopes) {
+      return permissions;
+    }
+
+    const scoped = new Set<string>();
+    for (const permission of permissions) {
+      for (const scope of scopes) {
+        const intersection = intersectPattern(permission, scope);
+        if (intersection) {
+          scoped.add(intersection);
+        }
+      }
+    }
+
+    return Array.from(scoped);
+  }
+
+  /**
+   * Limit the allows of every unit in a scoped permission map the same way,
+   * dropping units left with nothing
+   */
+  static scopeUnitPermissions(scoped: ScopedPermissionMap, scopes: string[] | null | undefined): ScopedPermissionMap {
+    return PermissionUtil.toScopedPermissionMap(
+      Object.entries(scoped).map(([orgUnitId, unit]) => ({
+        orgUnitId,
+        permissions: this.scopePermissions(unit.permissions, scopes),
+        deniedPermissions: unit.deniedPermissions,
+        conditionalPermissions: this.scopeConditionalPermissions(unit.conditionalPermissions || [], scopes)
+      }))
+    );
+  }
+
+  /**
+   * Narrow conditional allows the same way, keeping their conditions.
+   * Conditional denies are kept as they are.
+   */
+  static scopeConditionalPermissions(
+    entries: ConditionalPermission[],
+    scopes: string[] | null | undefined
+  ): ConditionalPermission[] {
+    if (!scopes) {
+      return entries;
+    }
+
+    return entries.flatMap(entry => entry.effect === 'deny'
+      ? [entry]
+      : this.scopePermissions([entry.permission], scopes).map(permission => ({ ...entry, permission })));
+  }
+
+  /**
+   * Get service accounts with pagination and filtering
+   */
+  static async listServiceAccounts(
+    filter: ServiceAccountFilter = {},
+    pagination: PaginationOptions = { page: 1, limit: 20 }
+  ): Promise<{ serviceAccounts: User[]; total: number }> {
+    const { page = 1, limit = 20 } = pagination;
+    const where: WhereOptions<User> = { isServiceAccount: true };
+
+    if (filter.search) {
+      where.username = { [Op.like]: `%${filter.search}%` };
+    }
+
+    if (filter.isActive !== undefined) {
+      where.isActive = filter.isActive;
+    }
+
+    const { count, rows } = await User.findAndCountAll({
+      where,
+      include: [roleInclude],
+      limit,
+      offset: (page - 1) * limit,
+      order: [['username', 'ASC']],
+      distinct: true
+    });
+
+    return { serviceAccounts: rows, total: count };
+  }
+
+  /**
+   * Get a service account with its roles
+   */
+  static async getServiceAccountById(accountId: string, transaction?: Transaction): Promise<User> {
+    const account = await User.findOne({
+      where: { id: accountId, isServiceAccount: true },
+      include: [roleInclude],
+      transaction
+    });
+
+    if (!account) {
+      throw new ApiError(404, 'Service account not found');
+    }
+
+    return account;
+  }
+
+  /**
+   * Create a service account. It gets an unguessable password that is never
+   * revealed, and password login is refused for it anyway.
+   */
+  static async createServiceAccount(
+    data: CreateServiceAccountData,
+    createdBy: string,
+    transaction?: Transaction
+  ): Promise<User> {
+    const email = data.email || `${data.name}@${SERVICE_ACCOUNT_EMAIL_DOMAIN}`;
+
+    const existing = await User.findOne({
+      where: { [Op.or]: [{ username: data.name }, { email }] },
+      transaction
+    });
+
+    if (existing) {
+      throw new ApiError(409, existing.username === data.name ? 'Name is already taken' : 'Email is already in use');
+    }
+
+    const roles = await this.findRoles(data.roleIds, transaction);
+    await SodService.assertAllowed(roles.map(role => role.id), transaction);
+
+    const account = await User.create({
+      username: data.name,
+      email,
+      password: crypto.randomBytes(32).toString('hex'),
+      isActive: data.isActive !== undefined ? data.isActive : true,
+      isSuperuser: false,
+      isServiceAccount: true,
+      emailVerified: true
+    }, { transaction });
+
+    if (roles.length > 0) {
+      await account.setRoles(roles, { transaction });
+    }
+
+    await AuditService.log({
+      userId: createdBy,
+      action: 'service_account:create',
+      resource: 'service_account',
+      resourceId: account.id,
+      details: { name: account.username, roleIds: data.roleIds }
+    }, transaction);
+
+    logger.info(`Service account created: ${account.username}`);
+    return this.getServiceAccountById(account.id, transaction);
+  }
+
+  /**
+   * Update a service account's status or roles
+   */
+  static async updateServiceAccount(
+    accountId: string,
+    data: UpdateServiceAccountData,
+    updatedBy: string,
+    transaction?: Transaction
+  ): Promise<User> {
+    const account = await this.getServiceAccountById(accountId, transaction);
+
+    if (data.isActive !== undefined) {
+      await account.update({ isActive: data.isActive }, { transaction });
+    }
+
+    if (data.roleIds !== undefined) {
+      const roles = await this.findRoles(data.roleIds, transaction);
+      await SodService.assertAllowedForUser(accountId, roles.map(role => role.id), transaction);
+      await account.setRoles(roles, { transaction });
+      await PermissionVersionService.bumpUsers([accountId], transaction);
+    }
+
+    await AuditService.log({
+      userId: updatedBy,
+      action: 'service_account:update',
+      resource: 'service_account',
+      resourceId: accountId,
+      details: { changes: data }
+    }, transaction);
+
+    logger.info(`Service account updated: ${account.username}`);
+    return this.getServiceAccountById(accountId, transaction);
+  }
+
+  /**
+   * Deactivate a service account and revoke all of its keys
+   */
+  static async deleteServiceAccount(
+    accountId: string,
+    deletedBy: string,
+    transaction?: Transaction
+  ): Promise<void> {
+    const account = await this.getServiceAccountById(accountId, transaction);
+
+    await account.update({ isActive: false }, { transaction });
+    await ApiKey.update(
+      { revokedAt: new Date() },
+      { where: { userId: accountId, revokedAt: null }, transaction }
+    );
+
+    await AuditService.log({
+      userId: deletedBy,
+      action: 'service_account:delete',
+      resource: 'service_account',
+      resourceId: accountId,
+      details: { name: account.username }
+    }, transaction);
+
+    logger.info(`Service account deleted (deactivated): ${account.username}`);
+  }
+
+  /**
+   * List the keys of a service account, newest first
+   */
+  static async listApiKeys(accountId: string): Promise<ApiKey[]> {
+    await this.getServiceAccountById(accountId);
+
+    return ApiKey.findAll({
+      where: { userId: accountId },
+      order: [['createdAt', 'DESC']]
+    });
+  }
+
+  /**
+   * Issue a key. The returned plaintext key cannot be retrieved again.
+   */
+  static async createApiKey(
+    accountId: string,
+    data: CreateApiKeyData,
+    createdBy: string,
+    transaction?: Transaction
+  ): Promise<IssuedApiKey> {
+    const account = await this.getServiceAccountById(accountId, transaction);
+
+    if (!account.isActive) {
+      throw new ApiError(400, 'Cannot issue keys for an inactive service account');
+    }
+
+    const issued = await this.issueKey(accountId, data, createdBy, transaction);
+
+    await AuditService.log({
+      userId: createdBy,
+      action: 'service_account:key_create',
+      resource: 'service_account',
+      resourceId: accountId,
+      details: { keyId: issued.apiKey.id, prefix: issued.apiKey.prefix, scopes: issued.apiKey.scopes }
+    }, transaction);
+
+    return issued;
+  }
+
+  /**
+   * Revoke a key immediately
+   */
+  static async revokeApiKey(
+    accountId: string,
+    keyId: string,
+    revokedBy: string,
+    transaction?: Transaction
+  ): Promise<void> {
+    const apiKey = await this.findApiKey(accountId, keyId, transaction);
+
+    if (apiKey.isRevoked()) {
+      throw new ApiError(400, 'API key is already revoked');
+    }
+
+    await apiKey.update({ revokedAt: new Date() }, { transaction });
+
+    await AuditService.log({
+      userId: revokedBy,
+      action: 'service_account:key_revoke',
+      resource: 'service_account',
+      resourceId: accountId,
+      details: { keyId, prefix: apiKey.prefix }
+    }, transaction);
+  }
+
+  /**
+   * Replace a key with a new one carrying the same name, scopes and expiry.
+   * The old key keeps working for the grace period so that gateways can be
+   * redeployed with the new key without downtime.
+   */
+  static async rotateApiKey(
+    accountId: string,
+    keyId: string,
+    gracePeriodMinutes: number,
+    rotatedBy: string,
+    transaction?: Transaction
+  ): Promise<IssuedApiKey> {
+    const apiKey = await this.findApiKey(accountId, keyId, transaction);
+
+    if (apiKey.isRevoked() || apiKey.isExpired() || apiKey.replacedBy) {
+      throw new ApiError(400, 'Only active keys can be rotated');
+    }
+
+    const issued = await this.issueKey(accountId, {
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt
+    }, rotatedBy, transaction);
+
+    const graceEndsAt = new Date(Date.now() + gracePeriodMinutes * 60 * 1000);
+    await apiKey.update({
+      replacedBy: issued.apiKey.id,
+      ...(gracePeriodMinutes > 0
+        ? { expiresAt: apiKey.expiresAt && apiKey.expiresAt < graceEndsAt ? apiKey.expiresAt : graceEndsAt }
+        : { revokedAt: new Date() })
+    }, { transaction });
+
+    await AuditService.log({
+      userId: rotatedBy,
+      action: 'service_account:key_rotate',
+      resource: 'service_account',
+      resourceId: accountId,
+      details: { keyId, replacedBy: issued.apiKey.id, gracePeriodMinutes }
+    }, transaction);
+
+    return issued;
+  }
+
+  /**
+   * Resolve the service account behind a raw API key, with its permissions
+   * limited to the key's scopes
+   */
+  static async authenticateApiKey(key: string, ipAddress?: string | null): Promise<ApiKeyAuthentication> {
+    const prefix = ApiKey.parsePrefix(key);
+    const apiKey = prefix ? await ApiKey.findOne({ where: { prefix } }) : null;
+
+    if (!apiKey || !apiKey.matches(key)) {
+      throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Invalid API key');
+    }
+
+    if (apiKey.isRevoked()) {
+      throw new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'API key has been revoked');
+    }
+
+    if (apiKey.isExpired()) {
+      throw new AuthenticationError(ErrorCode.AUTH_TOKEN_EXPIRED, 'API key has expired');
+    }
+
+    const user = await User.findByPk(apiKey.userId);
+
+    if (!user || !user.isServiceAccount || !user.isActive) {
+      throw new AuthenticationError(ErrorCode.AUTH_ACCOUNT_DISABLED, 'Service account not found or inactive');
+    }
+
+    const effective = await PermissionCacheService.getEffectivePermissions(user.id);
+
+    this.recordUsage(apiKey, ipAddress || null);
+
+    return {
+      user,
+      apiKey,
+      roles: (effective?.roles || []).filter(role => role.direct).map(role => role.name),
+      permissions: this.scopePermissions(effective?.permissions || [], apiKey.scopes),
+      // Denies apply as they are; narrowing the allows cannot let a denied permission through
+      deniedPermissions: effective?.deniedPermissions || [],
+      scopedPermissions: this.scopeUnitPermissions(
+        PermissionUtil.toScopedPermissionMap(effective?.scopes || []),
+        apiKey.scopes
+      ),
+      conditionalPermissions: this.scopeConditionalPermissions(effective?.conditionalPermissions || [], apiKey.scopes)
+    };
+  }
+
+  /**
+   * Update last-used details without delaying the request
+   */
+  private static recordUsage(apiKey: ApiKey, ipAddress: string | null): void {
+    const stale = !apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS;
+
+    if (!stale && apiKey.lastUsedIp === ipAddress) {
+      return;
+    }
+
+    apiKey.update({ lastUsedAt: new Date(), lastUsedIp: ipAddress }).catch(error => {
+      logger.error(`Failed to record usage of API key ${apiKey.prefix}:`, error);
+    });
+  }
+
+  private static async issueKey(
+    accountId: string,
+    data: CreateApiKeyData,
+    createdBy: string,
+    transaction?: Transaction
+  ): Promise<IssuedApiKey> {
+    const { key, prefix, keyHash } = ApiKey.generate();
+
+    const apiKey = await ApiKey.create({
+      userId: accountId,
+      name: data.name,
+      prefix,
+      keyHash,
+      scopes: data.scopes && data.scopes.length > 0 ? data.scopes : null,
+      expiresAt: data.expiresAt || null,
+      createdBy
+    }, { transaction });
+
+    logger.info(`API key ${prefix} issued for service account ${accountId}`);
+    return { apiKey, key };
+  }
+
+  private static async findApiKey(accountId: string, keyId: string, transaction?: Transaction): Promise<ApiKey> {
+    const apiKey = await ApiKey.findOne({ where: { id: keyId, userId: accountId }, transaction });
+
+    if (!apiKey) {
+      throw new ApiError(404, 'API key not found');
+    }
+
+    return apiKey;
+  }
+
+  private static async findRoles(roleIds: string[] | undefined, transaction?: Transaction): Promise<Role[]> {
+    if (!roleIds || roleIds.length === 0) {
+      return [];
+    }
+
+    const roles = await Role.findAll({ where: { id: roleIds }, transaction });
+
+    if (roles.length !== roleIds.length) {
+      throw new ApiError(400, 'One or more role IDs are invalid');
+    }
+
+    return roles;
+  }
+}
@@ -0,0 +1,255 @@
+import { Transaction, WhereOptions } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import { User } from '../models/User';
+import { Signature } from '../models/Signature';
+import { ApiError } from '../utils/api-error';
+import { AppError, AuthenticationError, AuthorizationError, ValidationError } from '../utils/errors';
+import { BcryptUtil } from '../utils/bcrypt.util';
+import { ErrorCode } from '../types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { AuthService } from './auth.service';
+import permissionService from './permission.service';
+import { PaginationOptions } from '../types/user.types';
+import {
+  CreateSignatureData,
+  SignatureFilter,
+  SignatureVerification,
+  SignatureUseContext
+} from '../types/signature.types';
+
+export class SignatureService {
+  /**
+   * Sign a record. The user re-enters their password, which counts towards
+   * account lockout like a login, and must hold the permission the signature
+   * is for. Signing does not perform the action; a route guarded with
+   * `requireSignature` uses the signature.
+   */
+  static async createSignature(
+    userId: string,
+    data: CreateSignatureData,
+    metadata: { ipAddress?: string; userAgent?: string } = {},
+    transaction?: Transaction
+  ): Promise<Signature> {
+    const user = await User.findByPk(userId, { transaction });
+
+    if (!user || !user.isActive) {
+      throw new AuthenticationError(ErrorCode.AUTH_ACCOUNT_DISABLED, 'Account is inactive');
+    }
+
+    if ((user.authProvider || 'local') !== 'local') {
+      throw new ValidationError('Electronic signatures require a password managed by this system');
+    }
+
+    if (user.isLocked()) {
+      throw new AuthenticationError(ErrorCode.AUTH_TOO_MANY_ATTEMPTS, 'Account is temporarily locked');
+    }
+
+    if (!(await BcryptUtil.comparePassword(data.password, user.password))) {
+      await AuditService.log({
+        userId,
+        action: 'signature:failed',
+        resource: data.resourceType,
+        resourceId: data.resourceId,
+        ipAddress: metadata.ipAddress,
+        userAgent: metadata.userAgent,
+        details: { reason: 'invalid_password', meaning: data.meaning, permission: data.permission }
+      }, transaction);
+
+      await AuthService.recordFailedLogin(user, metadata, transaction);
+
+      throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Password is incorrect');
+    }
+
+    const { hasPermission } = await permissionService.checkUserPermission(userId, data.permission);
+    if (!hasPermission) {
+      throw new AuthorizationError(`Signing requires the ${data.permission} permission`);
+    }
+
+    // Fields are fixed before the row is written so the manifest hash covers the stored values
+    const fields = {
+      id: uuidv4(),
+      userId,
+      signerUsername: user.username,
+      signerName: user.getFullName(),
+      meaning: data.meaning,
+      permission: data.permission,
+      resourceType: data.resourceType,
+      resourceId: data.resourceId,
+      recordHash: data.recordHash.toLowerCase(),
+      signedAt: new Date()
+    };
+
+    const signature = await Signature.create({
+      ...fields,
+      reason: data.reason || null,
+      ipAddress: metadata.ipAddress || null,
+      manifestHash: Signature.computeManifestHash(fields, config.signatures.secret)
+    }, { transaction });
+
+    if (user.failedLoginAttempts > 0) {
+      await user.update({ failedLoginAttempts: 0 }, { transaction });
+    }
+
+    await AuditService.log({
+      userId,
+      action: 'signature:create',
+      resource: 'signature',
+      resourceId: signature.id,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent,
+      details: {
+        meaning: signature.meaning,
+        permission: signature.permission,
+        resourceType: signature.resourceType,
+        resourceId: signature.resourceId,
+        recordHash: signature.recordHash
+      }
+    }, transaction);
+
+    logger.info(`Signature ${signature.id} (${signature.meaning}) by ${user.username} on ${signature.resourceType} ${signature.resourceId}`);
+    return signature;
+  }
+
+  /**
+   * Get signatures with pagination and filtering, newest first
+   */
+  static async listSignatures(
+    filter: SignatureFilter = {},
+    pagination: PaginationOptions = { page: 1, limit: 20 }
+  ): Promise<{ signatures: Signature[]; total: number }> {
+    const { page = 1, limit = 20 } = pagination;
+    const where: WhereOptions<Signature> = {};
+
+    if (filter.resourceType) {
+      where.resourceType = filter.resourceType;
+    }
+
+    if (filter.resourceId) {
+      where.resourceId = filter.resourceId;
+    }
+
+    if (filter.userId) {
+      where.userId = filter.userId;
+    }
+
+    const { count, rows } = await Signature.findAndCountAll({
+      where,
+      limit,
+      offset: (page - 1) * limit,
+      order: [['signedAt', 'DESC']]
+    });
+
+    return { signatures: rows, total: count };
+  }
+
+  static async getSignatureById(signatureId: string, transaction?: Transaction): Promise<Signature> {
+    const signature = await Signature.findByPk(signatureId, { transaction });
+
+    if (!signature) {
+      throw new ApiError(404, 'Signature not found');
+    }
+
+    return signature;
+  }
+
+  /**
+   * Check that a signature is unchanged since signing and, when a record
+   * hash is given, that it was made over that record
+   */
+  static async verifySignature(signatureId: string, recordHash?: string): Promise<SignatureVerification> {
+    const signature = await this.getSignatureById(signatureId);
+
+    const integrity = signature.hasValidManifest(config.signatures.secret);
+    const recordMatches = recordHash === undefined ? null : recordHash.toLowerCase() === signature.recordHash;
+
+    if (!integrity) {
+      logger.warn(`Signature ${signature.id} does not match its manifest hash`);
+    }
+
+    return {
+      valid: integrity && recordMatches !== false,
+      integrity,
+      recordMatches,
+      signature
+    };
+  }
+
+  /**
+   * Use a signature to authorize one guarded action. The signature must be
+   * the user's own, made for the permission the action requires, intact,
+   * unused and no older than SIGNATURE_MAX_AGE_SECONDS.
+   */
+  static async consumeSignature(
+    signatureId: string,
+    userId: string,
+    permission: string,
+    context: SignatureUseContext,
+    transaction?: Transaction
+  ): Promise<Signature> {
+    const signature = await Signature.findByPk(signatureId, { transaction });
+
+    if (!signature || signature.userId !== userId) {
+      throw this.invalidSignature('Signature not found');
+    }
+
+    if (signature.permission !== permission) {
+      throw this.invalidSignature(`Signature was given for ${signature.permission}, not ${permission}`);
+    }
+
+    if (
+      (context.resourceType !== undefined && signature.resourceType !== context.resourceType) ||
+      (context.resourceId !== undefined && signature.resourceId !== context.resourceId)
+    ) {
+      throw this.invalidSignature('Signature was given for a different record');
+    }
+
+    if (signature.consumedAt) {
+      throw this.invalidSignature('Signature has already been used');
+    }
+
+    if (Date.now() - signature.signedAt.getTime() > config.signatures.maxAgeSeconds * 1000) {
+      throw this.invalidSignature('Signature has expired, please sign again');
+    }
+
+    if (!signature.hasValidManifest(config.signatures.secret)) {
+      logger.warn(`Signature ${signature.id} does not match its manifest hash`);
+      throw this.invalidSignature('Signature failed verification');
+    }
+
+    // Conditional update so that concurrent requests cannot both use the signature
+    const consumedAt = new Date();
+    const [updated] = await Signature.update(
+      { consumedAt },
+      { where: { id: signature.id, consumedAt: null }, transaction }
+    );
+
+    if (updated === 0) {
+      throw this.invalidSignature('Signature has already been used');
+    }
+
+    signature.consumedAt = consumedAt;
+
+    await AuditService.log({
+      userId,
+      action: 'signature:use',
+      resource: 'signature',
+      resourceId: signature.id,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      details: {
+        permission,
+        action: context.action,
+        resourceType: signature.resourceType,
+        resourceId: signature.resourceId
+      }
+    }, transaction);
+
+    return signature;
+  }
+
+  private static invalidSignature(message: string): AppError {
+    return new AppError(ErrorCode.SIGNATURE_INVALID, message, 403);
+  }
+}
@@ -0,0 +1,259 @@
+import { Op, Transaction } from 'sequelize';
+import { SodRule } from '../models/SodRule';
+import { Role } from '../models/Role';
+import { User } from '../models/User';
+import { UserRole } from '../models/UserRole';
+import { ScopedRoleAssignment } from '../models/ScopedRoleAssignment';
+import { ElevationRequest } from '../models/ElevationRequest';
+import { ApiError } from '../utils/api-error';
+import { ConflictError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import {
+  CreateSodRuleData,
+  UpdateSodRuleData,
+  SodViolation,
+  SodViolationReportEntry
+} from '../types/sod.types';
+
+export class SodService {
+  static async listRules(): Promise<SodRule[]> {
+    return SodRule.findAll({ order: [['name', 'ASC']] });
+  }
+
+  static async getRuleById(ruleId: string, transaction?: Transaction): Promise<SodRule> {
+    const rule = await SodRule.findByPk(ruleId, { transaction });
+
+    if (!rule) {
+      throw new ApiError(404, 'SoD rule not found');
+    }
+
+    return rule;
+  }
+
+  /**
+   * Create a rule. Users who already break it keep their roles and show up
+   * in the violation report.
+   */
+  static async createRule(data: CreateSodRuleData, createdBy: string, transaction?: Transaction): Promise<SodRule> {
+    const maxRoles = data.maxRoles ?? 1;
+
+    await this.assertNameAvailable(data.name, null, transaction);
+    await this.assertValidRule(data.roleIds, maxRoles, transaction);
+
+    const rule = await SodRule.create({
+      name: data.name,
+      description: data.description ?? null,
+      roleIds: data.roleIds,
+      maxRoles
+    }, { transaction });
+
+    await AuditService.log({
+      userId: createdBy,
+      action: 'sod_rule:create',
+      resource: 'sod_rule',
+      resourceId: rule.id,
+      details: { name: rule.name, roleIds: rule.roleIds, maxRoles: rule.maxRoles }
+    }, transaction);
+
+    logger.info(`SoD rule created: ${rule.name}`);
+    return rule;
+  }
+
+  static async updateRule(
+    ruleId: string,
+    data: UpdateSodRuleData,
+    updatedBy: string,
+    transaction?: Transaction
+  ): Promise<SodRule> {
+    const rule = await this.getRuleById(ruleId, transaction);
+
+    if (data.name !== undefined && data.name !== rule.name) {
+      await this.assertNameAvailable(data.name, ruleId, transaction);
+    }
+
+    if (data.roleIds !== undefined || data.maxRoles !== undefined) {
+      await this.assertValidRule(data.roleIds ?? rule.roleIds, data.maxRoles ?? rule.maxRoles, transaction);
+    }
+
+    await rule.update(data, { transaction });
+
+    await AuditService.log({
+      userId: updatedBy,
+      action: 'sod_rule:update',
+      resource: 'sod_rule',
+      resourceId: ruleId,
+      details: { changes: data }
+    }, transaction);
+
+    return rule;
+  }
+
+  static async deleteRule(ruleId: string, deletedBy: string, transaction?: Transaction): Promise<void> {
+    const rule = await this.getRuleById(ruleId, transaction);
+
+    await rule.destroy({ transaction });
+
+    await AuditService.log({
+      userId: deletedBy,
+      action: 'sod_rule:delete',
+      resource: 'sod_rule',
+      resourceId: ruleId,
+      details: { name: rule.name, roleIds: rule.roleIds, maxRoles: rule.maxRoles }
+    }, transaction);
+
+    logger.info(`SoD rule deleted: ${rule.name}`);
+  }
+
+  /**
+   * Rules a user holding exactly these roles would break. Roles inherited
+   * through the role hierarchy count as held.
+   */
+  static async findViolations(roleIds: string[], transaction?: Transaction): Promise<SodViolation[]> {
+    if (roleIds.length === 0) {
+      return [];
+    }
+
+    const rules = await SodRule.findAll({ transaction });
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const held = new Set(await Role.getEffectiveRoleIds(roleIds, transaction));
+    const [violations] = await this.toViolations(rules, [held], transaction);
+    return violations;
+  }
+
+  /**
+   * Refuse a set of roles that breaks a rule
+   */
+  static async assertAllowed(roleIds: string[], transaction?: Transaction): Promise<void> {
+    const [violation] = await this.findViolations(roleIds, transaction);
+
+    if (violation) {
+      throw new ConflictError(
+        `Roles violate separation of duties rule "${violation.rule}": ` +
+        `at most ${violation.maxRoles} of ${violation.roles.map(role => role.name).join(', ')} may be held together`
+      );
+    }
+  }
+
+  /**
+   * Refuse global roles for a user that break a rule together with the roles
+   * the user holds within org units or through an active elevation. A role
+   * held in any unit counts, as the units may overlap or the user may act in
+   * both.
+   */
+  static async assertAllowedForUser(userId: string, roleIds: string[], transaction?: Transaction): Promise<void> {
+    const scoped = await ScopedRoleAssignment.findAll({ where: { userId }, attributes: ['roleId'], transaction });
+    const elevations = await ElevationRequest.findAll({
+      where: { userId, status: 'approved', roleId: { [Op.ne]: null }, expiresAt: { [Op.gt]: new Date() } },
+      attributes: ['roleId'],
+      transaction
+    });
+
+    await this.assertAllowed([
+      ...roleIds,
+      ...scoped.map(assignment => assignment.roleId),
+      ...elevations.map(elevation => elevation.roleId as string)
+    ], transaction);
+  }
+
+  /**
+   * Users whose current global and org unit roles break a rule
+   */
+  static async getViolationReport(): Promise<SodViolationReportEntry[]> {
+    const rules = await SodRule.findAll({ order: [['name', 'ASC']] });
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const assignments: Array<{ userId: string; roleId: string }> = [
+      ...await UserRole.findAll({ attributes: ['userId', 'roleId'] }),
+      ...await ScopedRoleAssignment.findAll({ attributes: ['userId', 'roleId'] })
+    ];
+    const rolesByUser = new Map<string, string[]>();
+    for (const assignment of assignments) {
+      rolesByUser.set(assignment.userId, [...(rolesByUser.get(assignment.userId) || []), assignment.roleId]);
+    }
+
+    // Expand each assigned role once rather than once per user
+    const inherited = new Map<string, string[]>();
+    for (const roleId of new Set(assignments.map(assignment => assignment.roleId))) {
+      inherited.set(roleId, await Role.getEffectiveRoleIds([roleId]));
+    }
+
+    const userIds = Array.from(rolesByUser.keys());
+    const held = userIds.map(userId => new Set(rolesByUser.get(userId)!.flatMap(roleId => inherited.get(roleId) || [])));
+    const violations = await this.toViolations(rules, held);
+
+    const violating = userIds.filter((_userId, index) => violations[index].length > 0);
+    if (violating.length === 0) {
+      return [];
+    }
+
+    const users = await User.findAll({ where: { id: violating }, attributes: ['id', 'username', 'email'] });
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    return violating
+      .filter(userId => usersById.has(userId))
+      .map(userId => {
+        const user = usersById.get(userId)!;
+        return {
+          user: { id: user.id, username: user.username, email: user.email },
+          violations: violations[userIds.indexOf(userId)]
+        };
+      });
+  }
+
+  /**
+   * Violations for each set of held roles, resolving role names in one query
+   */
+  private static async toViolations(
+    rules: SodRule[],
+    heldSets: Array<Set<string>>,
+    transaction?: Transaction
+  ): Promise<SodViolation[][]> {
+    const broken = heldSets.map(held => rules
+      .map(rule => ({ rule, roleIds: Array.from(new Set(rule.roleIds)).filter(roleId => held.has(roleId)) }))
+      .filter(({ rule, roleIds }) => roleIds.length > rule.maxRoles));
+
+    const roleIds = Array.from(new Set(broken.flat().flatMap(entry => entry.roleIds)));
+    if (roleIds.length === 0) {
+      return heldSets.map(() => []);
+    }
+
+    const roles = await Role.findAll({ where: { id: roleIds }, attributes: ['id', 'name'], transaction });
+    const names = new Map(roles.map(role => [role.id, role.name]));
+
+    return broken.map(entries => entries.map(({ rule, roleIds: held }) => ({
+      ruleId: rule.id,
+      rule: rule.name,
+      maxRoles: rule.maxRoles,
+      roles: held.map(id => ({ id, name: names.get(id) ?? id }))
+    })));
+  }
+
+  private static async assertValidRule(roleIds: string[], maxRoles: number, transaction?: Transaction): Promise<void> {
+    if (maxRoles >= roleIds.length) {
+      throw new ApiError(400, 'maxRoles must be lower than the number of roles, or the rule can never be broken');
+    }
+
+    const roles = await Role.count({ where: { id: roleIds }, transaction });
+    if (roles !== roleIds.length) {
+      throw new ApiError(400, 'One or more role IDs are invalid');
+    }
+  }
+
+  private static async assertNameAvailable(
+    name: string,
+    ruleId: string | null,
+    transaction?: Transaction
+  ): Promise<void> {
+    const existing = await SodRule.findOne({ where: { name }, transaction });
+
+    if (existing && existing.id !== ruleId) {
+      throw new ConflictError('SoD rule name is already taken');
+    }
+  }
+}
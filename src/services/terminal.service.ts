@@ -0,0 +1,176 @@
+import { Transaction } from 'sequelize';
+import { Terminal } from '../models/Terminal';
+import { ApiError } from '../utils/api-error';
+import { AuthenticationError } from '../utils/errors';
+import { ErrorCode } from '../types';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { CreateTerminalData, UpdateTerminalData, IssuedTerminalKey } from '../types/terminal.types';
+
+// Writing last-used details on every login would turn each login into an extra write
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export class TerminalService {
+  static async listTerminals(): Promise<Terminal[]> {
+    return Terminal.findAll({ order: [['name', 'ASC']] });
+  }
+
+  static async getTerminalById(terminalId: string, transaction?: Transaction): Promise<Terminal> {
+    const terminal = await Terminal.findByPk(terminalId, { transaction });
+
+    if (!terminal) {
+      throw new ApiError(404, 'Terminal not found');
+    }
+
+    return terminal;
+  }
+
+  /**
+   * Register a terminal. The key is only ever returned here and when it is rotated.
+   */
+  static async createTerminal(
+    data: CreateTerminalData,
+    createdBy: string,
+    transaction?: Transaction
+  ): Promise<IssuedTerminalKey> {
+    await this.assertNameAvailable(data.name, null, transaction);
+
+    const { key, prefix, keyHash } = Terminal.generateKey();
+
+    const terminal = await Terminal.create({
+      name: data.name,
+      location: data.location ?? null,
+      prefix,
+      keyHash,
+      isActive: data.isActive,
+      createdBy
+    }, { transaction });
+
+    await AuditService.log({
+      userId: createdBy,
+      action: 'terminal:create',
+      resource: 'terminal',
+      resourceId: terminal.id,
+      details: { name: terminal.name, location: terminal.location, prefix }
+    }, transaction);
+
+    logger.info(`Terminal registered: ${terminal.name} (${prefix})`);
+    return { terminal, key };
+  }
+
+  static async updateTerminal(
+    terminalId: string,
+    data: UpdateTerminalData,
+    updatedBy: string,
+    transaction?: Transaction
+  ): Promise<Terminal> {
+    const terminal = await this.getTerminalById(terminalId, transaction);
+
+    if (data.name !== undefined && data.name !== terminal.name) {
+      await this.assertNameAvailable(data.name, terminalId, transaction);
+    }
+
+    await terminal.update(data, { transaction });
+
+    await AuditService.log({
+      userId: updatedBy,
+      action: 'terminal:update',
+      resource: 'terminal',
+      resourceId: terminalId,
+      details: { changes: data }
+    }, transaction);
+
+    return terminal;
+  }
+
+  /**
+   * Delete a terminal. Tokens already issued at it stay valid until they expire.
+   */
+  static async deleteTerminal(terminalId: string, deletedBy: string, transaction?: Transaction): Promise<void> {
+    const terminal = await this.getTerminalById(terminalId, transaction);
+
+    await terminal.destroy({ transaction });
+
+    await AuditService.log({
+      userId: deletedBy,
+      action: 'terminal:delete',
+      resource: 'terminal',
+      resourceId: terminalId,
+      details: { name: terminal.name, prefix: terminal.prefix }
+    }, transaction);
+
+    logger.info(`Terminal deleted: ${terminal.name} (${terminal.prefix})`);
+  }
+
+  /**
+   * Replace the key of a terminal. The old key stops working immediately.
+   */
+  static async rotateTerminalKey(
+    terminalId: string,
+    rotatedBy: string,
+    transaction?: Transaction
+  ): Promise<IssuedTerminalKey> {
+    const terminal = await this.getTerminalById(terminalId, transaction);
+    const previousPrefix = terminal.prefix;
+    const { key, prefix, keyHash } = Terminal.generateKey();
+
+    await terminal.update({ prefix, keyHash }, { transaction });
+
+    await AuditService.log({
+      userId: rotatedBy,
+      action: 'terminal:rotate_key',
+      resource: 'terminal',
+      resourceId: terminalId,
+      details: { previousPrefix, prefix }
+    }, transaction);
+
+    return { terminal, key };
+  }
+
+  /**
+   * Resolve the active terminal behind a raw terminal key
+   */
+  static async authenticateTerminal(key: string | undefined, ipAddress?: string | null): Promise<Terminal> {
+    const prefix = key ? Terminal.parsePrefix(key) : null;
+    const terminal = prefix ? await Terminal.findOne({ where: { prefix } }) : null;
+
+    if (!terminal || !terminal.matches(key!)) {
+      throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Invalid terminal key');
+    }
+
+    if (!terminal.isActive) {
+      throw new AuthenticationError(ErrorCode.AUTH_ACCOUNT_DISABLED, 'Terminal is inactive');
+    }
+
+    this.recordUsage(terminal, ipAddress || null);
+
+    return terminal;
+  }
+
+  /**
+   * Update last-used details without delaying the login
+   */
+  private static recordUsage(terminal: Terminal, ipAddress: string | null): void {
+    const stale = !terminal.lastUsedAt || Date.now() - terminal.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS;
+
+    if (!stale && terminal.lastUsedIp === ipAddress) {
+      return;
+    }
+
+    terminal.update({ lastUsedAt: new Date(), lastUsedIp: ipAddress }).catch(error => {
+      logger.error(`Failed to record usage of terminal ${terminal.prefix}:`, error);
+    });
+  }
+
+  private static async assertNameAvailable(
+    name: string,
+    terminalId: string | null,
+    transaction?: Transaction
+  ): Promise<void> {
+    const existing = await Terminal.findOne({ where: { name }, transaction });
+
+    if (existing && existing.id !== terminalId) {
+      throw new ApiError(409, 'Terminal name is already taken');
+    }
+  }
+}
@@ -1,17 +1,23 @@
 import { Transaction, Op, WhereOptions, Order } from 'sequelize';
 import { User } from '../models/User';
 import { Role } from '../models/Role';
+import { UserRole } from '../models/UserRole';
 import { AuditLog } from '../models/AuditLog';
 import { BcryptUtil } from '../utils/bcrypt.util';
 import { ApiError } from '../utils/api-error';
 import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { PermissionVersionService } from './permission-version.service';
+import { SodService } from './sod.service';
 import { 
   CreateUserData, 
   UpdateUserData, 
   UserFilter, 
   PaginationOptions,
   UserWithRoles,
-  BulkOperationResult
+  BulkOperationResult,
+  AssignBadgeData,
+  RoleValidity
 } from '../types/user.types';
 
 export class UserService {
@@ -181,6 +187,7 @@ export class UserService {
           throw new ApiError(400, 'One or more role IDs are invalid');
         }
 
+        await SodService.assertAllowed(roles.map(role => role.id), transaction);
         await user.setRoles(roles);
         user.roles = roles;
       }
@@ -222,6 +229,10 @@ export class UserService {
         throw new ApiError(404, 'User not found');
       }
 
+      if (user.isServiceAccount && data.isSuperuser) {
+        throw new ApiError(400, 'Service accounts cannot be superusers');
+      }
+
       // Check for duplicate email/username if being changed
       if (data.email && data.email !== user.email) {
         const existingEmail = await User.findOne({
@@ -245,7 +256,7 @@ export class UserService {
 
       // Update user fields
       const updateData: any = {};
-      const allowedFields = ['email', 'username', 'firstName', 'lastName', 'isActive', 'isSuperuser'];
+      const allowedFields = ['email', 'username', 'firstName', 'lastName', 'isActive', 'isSuperuser', 'attributes'];
       
       for (const field of allowedFields) {
         if ((data as any)[field] !== undefined) {
@@ -268,10 +279,15 @@ export class UserService {
           throw new ApiError(400, 'One or more role IDs are invalid');
         }
 
+        await SodService.assertAllowedForUser(userId, roles.map(role => role.id), transaction);
         await user.setRoles(roles);
         user.roles = roles;
       }
 
+      if (data.roleIds !== undefined || updateData.isSuperuser !== undefined) {
+        await PermissionVersionService.bumpUsers([userId], transaction);
+      }
+
       // Create audit log
       await AuditLog.create({
         userId: updatedBy,
@@ -413,9 +429,10 @@ export class UserService {
    */
   static async updateUserRoles(
     userId: string,
-    roleIds: number[],
+    roleIds: string[],
     updatedBy: string,
-    transaction?: Transaction
+    transaction?: Transaction,
+    validity?: Record<string, RoleValidity>
   ): Promise<UserWithRoles> {
     try {
       const user = await User.findByPk(userId, {
@@ -446,10 +463,19 @@ export class UserService {
         throw new ApiError(400, 'One or more role IDs are invalid');
       }
 
+      await SodService.assertAllowedForUser(userId, roleIds, transaction);
+
       // Update roles
-      await user.setRoles(roles);
+      await user.setRoles(roles, { transaction });
       user.roles = roles;
 
+      // Roles without an entry keep their current validity, or none when newly assigned
+      for (const [roleId, bounds] of Object.entries(validity || {})) {
+        await UserRole.update(UserRole.toValidityValues(bounds), { where: { userId, roleId }, transaction });
+      }
+
+      await PermissionVersionService.bumpUsers([userId], transaction);
+
       // Create audit log
       await AuditLog.create({
         userId: updatedBy,
@@ -458,7 +484,8 @@ export class UserService {
         resourceId: userId,
         details: {
           oldRoles: oldRoleIds,
-          newRoles: roleIds
+          newRoles: roleIds,
+          ...(validity ? { validity } : {})
         }
       }, { transaction });
 
@@ -470,6 +497,67 @@ export class UserService {
     }
   }
 
+  /**
+   * Make the roles an identity provider manages match what it granted. Roles
+   * outside `managedRoleIds` are left alone, so roles assigned by hand survive.
+   */
+  static async syncManagedRoles(
+    userId: string,
+    managedRoleIds: string[],
+    targetRoleIds: string[],
+    source: string,
+    transaction?: Transaction
+  ): Promise<{ added: string[]; removed: string[] }> {
+    if (managedRoleIds.length === 0) {
+      return { added: [], removed: [] };
+    }
+
+    const targets = new Set(targetRoleIds.filter(roleId => managedRoleIds.includes(roleId)));
+
+    const current = await UserRole.findAll({
+      where: { userId, roleId: managedRoleIds },
+      attributes: ['roleId'],
+      transaction
+    });
+    const currentRoleIds = new Set(current.map(assignment => assignment.roleId));
+
+    const added = Array.from(targets).filter(roleId => !currentRoleIds.has(roleId));
+    const removed = Array.from(currentRoleIds).filter(roleId => !targets.has(roleId));
+
+    // A directory or provider granting roles that break a rule is refused like anyone else
+    if (added.length > 0) {
+      const held = await UserRole.findAll({ where: { userId }, attributes: ['roleId'], transaction });
+      const roleIds = held.map(assignment => assignment.roleId).filter(roleId => !removed.includes(roleId));
+      await SodService.assertAllowedForUser(userId, [...roleIds, ...added], transaction);
+    }
+
+    if (removed.length > 0) {
+      await UserRole.destroy({ where: { userId, roleId: removed }, transaction });
+    }
+    if (added.length > 0) {
+      await UserRole.bulkCreate(
+        added.map(roleId => ({ userId, roleId, assignedBy: null })),
+        { transaction }
+      );
+    }
+
+    if (added.length > 0 || removed.length > 0) {
+      await PermissionVersionService.bumpUsers([userId], transaction);
+
+      await AuditService.log({
+        userId,
+        action: `role:${source}_sync`,
+        resource: 'user',
+        resourceId: userId,
+        details: { added, removed }
+      }, transaction);
+
+      logger.info(`${source} roles synced for user ${userId}: +${added.length} -${removed.length}`);
+    }
+
+    return { added, removed };
+  }
+
   /**
    * Reset user password (admin action)
    */
@@ -516,6 +604,153 @@ export class UserService {
     }
   }
 
+  /**
+   * Unlock an account locked by repeated failed logins (admin action)
+   */
+  static async unlockUser(
+    userId: string,
+    unlockedBy: string,
+    metadata: { ipAddress?: string; userAgent?: string } = {},
+    transaction?: Transaction
+  ): Promise<void> {
+    try {
+      const user = await User.findByPk(userId, { transaction });
+
+      if (!user) {
+        throw new ApiError(404, 'User not found');
+      }
+
+      if (!user.isLocked()) {
+        throw new ApiError(400, 'User account is not locked');
+      }
+
+      const lockedUntil = user.lockedUntil;
+
+      await user.update({
+        failedLoginAttempts: 0,
+        lockoutCount: 0,
+        lockedUntil: null
+      }, { transaction });
+
+      await AuditService.logAuth({
+        userId: user.id,
+        action: 'account_unlocked',
+        success: true,
+        email: user.email,
+        ipAddress: metadata.ipAddress,
+        userAgent: metadata.userAgent,
+        details: {
+          unlockedBy,
+          lockedUntil: lockedUntil?.toISOString()
+        }
+      }, transaction);
+
+      logger.info(`User account unlocked: ${user.email}`);
+    } catch (error) {
+      logger.error(`Failed to unlock user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Assign a badge for quick login at shop-floor terminals. A badge belongs
+   * to one user at a time: assigning it takes it away from its previous
+   * holder. Badge identifiers are never logged.
+   */
+  static async assignBadge(
+    userId: string,
+    data: AssignBadgeData,
+    assignedBy: string,
+    transaction?: Transaction
+  ): Promise<void> {
+    try {
+      const user = await User.findByPk(userId, { transaction });
+
+      if (!user) {
+        throw new ApiError(404, 'User not found');
+      }
+
+      if (user.isServiceAccount) {
+        throw new ApiError(400, 'Service accounts cannot have badges');
+      }
+
+      if (!data.pin && !user.pinHash) {
+        throw new ApiError(400, 'A PIN is required when assigning the first badge');
+      }
+
+      const badgeIdHash = User.hashBadgeId(data.badgeId);
+      const previousHolder = await User.findOne({ where: { badgeIdHash }, transaction });
+
+      if (previousHolder && previousHolder.id !== user.id) {
+        await previousHolder.update({ badgeIdHash: null }, { transaction });
+
+        await AuditService.log({
+          userId: assignedBy,
+          action: 'user:badge_remove',
+          resource: 'user',
+          resourceId: previousHolder.id,
+          details: { reason: 'reassigned', reassignedTo: user.id }
+        }, transaction);
+      }
+
+      const replacedBadge = !!user.badgeIdHash && user.badgeIdHash !== badgeIdHash;
+
+      await user.update({
+        badgeIdHash,
+        ...(data.pin ? { pinHash: await BcryptUtil.hashPassword(data.pin) } : {})
+      }, { transaction });
+
+      await AuditService.log({
+        userId: assignedBy,
+        action: 'user:badge_assign',
+        resource: 'user',
+        resourceId: user.id,
+        details: {
+          reassignedFrom: previousHolder && previousHolder.id !== user.id ? previousHolder.id : null,
+          replacedBadge,
+          pinChanged: !!data.pin
+        }
+      }, transaction);
+
+      logger.info(`Badge assigned to user: ${user.email}`);
+    } catch (error) {
+      logger.error(`Failed to assign badge to user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Take a user's badge and PIN away, e.g. when the badge is lost
+   */
+  static async removeBadge(userId: string, removedBy: string, transaction?: Transaction): Promise<void> {
+    try {
+      const user = await User.findByPk(userId, { transaction });
+
+      if (!user) {
+        throw new ApiError(404, 'User not found');
+      }
+
+      if (!user.badgeIdHash) {
+        throw new ApiError(400, 'User has no badge');
+      }
+
+      await user.update({ badgeIdHash: null, pinHash: null }, { transaction });
+
+      await AuditService.log({
+        userId: removedBy,
+        action: 'user:badge_remove',
+        resource: 'user',
+        resourceId: user.id,
+        details: { reason: 'removed' }
+      }, transaction);
+
+      logger.info(`Badge removed from user: ${user.email}`);
+    } catch (error) {
+      logger.error(`Failed to remove badge from user ${userId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Bulk activate/deactivate users
    */
@@ -8,6 +8,11 @@ export interface LoginCredentials {
   userAgent?: string;
 }
 
+export interface BadgeLoginCredentials {
+  badgeId: string;
+  pin: string;
+}
+
 export interface RegisterData {
   email: string;
   password: string;
@@ -27,6 +32,14 @@ export interface TokenPair {
 
 export type AuthTokens = TokenPair;
 
+/**
+ * Token issued by badge login. It cannot be refreshed.
+ */
+export interface BadgeAccessToken {
+  accessToken: string;
+  expiresIn: number;
+}
+
 export interface AuthRequest extends Request {
   user?: {
     id: string;
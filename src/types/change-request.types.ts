@@ -0,0 +1,69 @@
+import { RolePermissionUpdate, UpdateRoleData } from './role.types';
+import { RoleValidity } from './user.types';
+
+export type ChangeRequestType = 'role_permissions' | 'role_update' | 'role_users' | 'user_roles' | 'scoped_user_role';
+
+export type ChangeRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled' | 'expired';
+
+/**
+ * Why a change needs a second approver
+ */
+export interface ChangeRisk {
+  reason: 'superuser_grant' | 'system_role' | 'wildcard_permission';
+  detail: string;
+}
+
+export interface ChangeRequestComment {
+  userId: string;
+  comment: string;
+  createdAt: string;
+}
+
+export interface RolePermissionsChange {
+  update: RolePermissionUpdate;
+}
+
+export interface RoleUpdateChange {
+  update: UpdateRoleData;
+}
+
+/**
+ * Users given the role that is the request's target
+ */
+export interface RoleUsersChange {
+  userIds: string[];
+  validity?: RoleValidity;
+}
+
+/**
+ * `currentRoleIds` are the roles the user had when the change was requested;
+ * approval is refused if they changed in the meantime
+ */
+export interface UserRolesChange {
+  roleIds: string[];
+  currentRoleIds: string[];
+  // When given roles apply, keyed by role ID (see UserService.updateUserRoles)
+  validity?: Record<string, RoleValidity>;
+}
+
+/**
+ * A role assigned to the user (the request's target) within an org unit
+ */
+export interface ScopedUserRoleChange {
+  orgUnitId: string;
+  roleId: string;
+}
+
+export type ChangeRequestPayload =
+  | RolePermissionsChange
+  | RoleUpdateChange
+  | RoleUsersChange
+  | UserRolesChange
+  | ScopedUserRoleChange;
+
+export interface ChangeRequestFilter {
+  status?: ChangeRequestStatus;
+  type?: ChangeRequestType;
+  targetId?: string;
+  requestedBy?: string;
+}
@@ -0,0 +1,30 @@
+export type ElevationStatus = 'pending' | 'approved' | 'rejected' | 'cancelled' | 'expired';
+
+/**
+ * A request for a role or for individual permissions, for the requester
+ */
+export interface CreateElevationRequestData {
+  roleId?: string;
+  permissionIds?: string[];
+  justification: string;
+  durationMinutes: number;
+}
+
+export interface ElevationRequestFilter {
+  status?: ElevationStatus;
+  userId?: string;
+}
+
+/**
+ * An approved elevation that has not expired yet, as carried in access
+ * tokens. `permissions` are the names granted individually; the role's
+ * permissions are part of the holder's permissions but not listed here.
+ */
+export interface ActiveElevation {
+  id: string;
+  roleId: string | null;
+  role: string | null;
+  permissions: string[];
+  // ISO 8601
+  expiresAt: string;
+}
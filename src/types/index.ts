@@ -39,6 +39,15 @@ export enum ErrorCode {
   AUTH_INSUFFICIENT_PERMISSIONS = 'AUTH_004',
   AUTH_ACCOUNT_DISABLED = 'AUTH_005',
   AUTH_TOO_MANY_ATTEMPTS = 'AUTH_006',
+  AUTH_EMAIL_NOT_VERIFIED = 'AUTH_007',
+  AUTH_MFA_INVALID_CODE = 'AUTH_008',
+
+  // OAuth errors
+  OAUTH_ERROR = 'OAUTH_001',
+
+  // Electronic signature errors
+  SIGNATURE_REQUIRED = 'SIG_001',
+  SIGNATURE_INVALID = 'SIG_002',
 
   // User errors
   USER_NOT_FOUND = 'USER_001',
@@ -9,6 +9,22 @@ export type { AuditLog, AuditDetails } from '@models/AuditLog';
 export type { UserRole } from '@models/UserRole';
 export type { RolePermission } from '@models/RolePermission';
 export type { MenuPermission } from '@models/MenuPermission';
+export type { PasswordReset } from '@models/PasswordReset';
+export type { EmailVerification } from '@models/EmailVerification';
+export type { MfaRecoveryCode } from '@models/MfaRecoveryCode';
+export type { RevokedToken } from '@models/RevokedToken';
+export type { ApiKey } from '@models/ApiKey';
+export type { LdapGroupMapping } from '@models/LdapGroupMapping';
+export type { OidcProvider } from '@models/OidcProvider';
+export type { OidcLoginState } from '@models/OidcLoginState';
+export type { OAuthClient } from '@models/OAuthClient';
+export type { OAuthAuthorizationCode } from '@models/OAuthAuthorizationCode';
+export type { OAuthConsent } from '@models/OAuthConsent';
+export type { Terminal } from '@models/Terminal';
+export type { Signature } from '@models/Signature';
+export type { ChangeRequest } from '@models/ChangeRequest';
+export type { OrgUnit } from '@models/OrgUnit';
+export type { ScopedRoleAssignment } from '@models/ScopedRoleAssignment';
 
 // Common types for API responses
 export interface UserWithRoles {
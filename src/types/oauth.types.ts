@@ -0,0 +1,114 @@
+import { ScopedPermissionMap } from './org-unit.types';
+import { ConditionalPermission } from './permission.types';
+import { ActiveElevation } from './elevation.types';
+
+export type OAuthGrantType = 'authorization_code' | 'refresh_token' | 'client_credentials';
+
+export interface CreateOAuthClientData {
+  name: string;
+  // Public clients (e.g. single-page or mobile apps) cannot keep a secret
+  confidential?: boolean;
+  redirectUris?: string[];
+  grantTypes: OAuthGrantType[];
+  scopes: string[];
+  serviceAccountId?: string | null;
+  requireConsent?: boolean;
+  isActive?: boolean;
+}
+
+export type UpdateOAuthClientData = Partial<Omit<CreateOAuthClientData, 'confidential'>>;
+
+/**
+ * Parameters of an authorization request (RFC 6749 section 4.1.1, RFC 7636 section 4.3)
+ */
+export interface OAuthAuthorizationParams {
+  response_type: string;
+  client_id: string;
+  redirect_uri: string;
+  scope?: string;
+  state?: string;
+  code_challenge: string;
+  code_challenge_method: string;
+}
+
+/**
+ * What the consent screen shows for an authorization request
+ */
+export interface OAuthAuthorizationDetails {
+  client: { id: string; name: string };
+  redirectUri: string;
+  scopes: string[];
+  // False when the user already approved these scopes or the client is trusted
+  consentRequired: boolean;
+}
+
+/**
+ * Token request body (RFC 6749 sections 4.1.3, 4.4.2 and 6)
+ */
+export interface OAuthTokenRequest {
+  grant_type: OAuthGrantType;
+  code?: string;
+  redirect_uri?: string;
+  code_verifier?: string;
+  refresh_token?: string;
+  scope?: string;
+  client_id?: string;
+  client_secret?: string;
+}
+
+/**
+ * Successful token response (RFC 6749 section 5.1)
+ */
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  refresh_token?: string;
+  scope: string;
+}
+
+/**
+ * A client's access on behalf of a user or service account, carried in its tokens
+ */
+export interface OAuthGrant {
+  clientId: string;
+  scopes: string[];
+}
+
+export type OAuthTokenTypeHint = 'access_token' | 'refresh_token';
+
+/**
+ * Introspection and revocation request body (RFC 7662 section 2.1, RFC 7009 section 2.1)
+ */
+export interface OAuthTokenLookupRequest {
+  token: string;
+  // Where to look first; unknown hints are ignored and both kinds are searched
+  token_type_hint?: string;
+  client_id?: string;
+  client_secret?: string;
+}
+
+/**
+ * Introspection response (RFC 7662 section 2.2). Inactive tokens are
+ * reported as `{ active: false }` only.
+ */
+export interface OAuthIntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  username?: string;
+  token_type?: 'Bearer' | 'refresh_token';
+  exp?: number;
+  iat?: number;
+  sub?: string;
+  jti?: string;
+  // Extension: effective permissions carried by an access token, and the denies that override them
+  permissions?: string[];
+  denied_permissions?: string[];
+  // Extension: permissions held through org unit role assignments, keyed by unit ID
+  scoped_permissions?: ScopedPermissionMap;
+  // Extension: permissions that apply only while their condition holds
+  conditional_permissions?: ConditionalPermission[];
+  // Extension: approved elevations whose roles and permissions are included above
+  elevations?: ActiveElevation[];
+}
@@ -0,0 +1,44 @@
+/**
+ * ID token claims that hold the user's profile. Omitted fields use the
+ * standard OIDC claims.
+ */
+export interface OidcClaimMapping {
+  username?: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+/**
+ * Grants a role to users whose role claim contains `value`
+ */
+export interface OidcRoleMapping {
+  value: string;
+  roleId: string;
+}
+
+export interface CreateOidcProviderData {
+  name: string;
+  displayName: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string | null;
+  scopes?: string;
+  claimMapping?: OidcClaimMapping | null;
+  roleClaim?: string | null;
+  roleMappings?: OidcRoleMapping[] | null;
+  autoProvision?: boolean;
+  isEnabled?: boolean;
+}
+
+export type UpdateOidcProviderData = Partial<Omit<CreateOidcProviderData, 'name'>>;
+
+/**
+ * Parameters the identity provider sends back to the callback
+ */
+export interface OidcCallbackParams {
+  code?: string;
+  state?: string;
+  error?: string;
+  error_description?: string;
+}
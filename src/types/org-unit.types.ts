@@ -0,0 +1,57 @@
+import { ConditionalPermission } from './permission.types';
+
+/**
+ * ISA-95 equipment hierarchy levels, from the top down. Each unit sits
+ * exactly one level below its parent.
+ */
+export const ORG_UNIT_LEVELS = ['enterprise', 'site', 'area', 'line', 'work_cell'] as const;
+
+export type OrgUnitLevel = typeof ORG_UNIT_LEVELS[number];
+
+export interface CreateOrgUnitData {
+  name: string;
+  code: string;
+  level: OrgUnitLevel;
+  parentId?: string | null;
+  description?: string | null;
+}
+
+export interface UpdateOrgUnitData {
+  name?: string;
+  code?: string;
+  description?: string | null;
+}
+
+export interface OrgUnitFilter {
+  level?: OrgUnitLevel;
+  parentId?: string;
+  search?: string;
+}
+
+export interface OrgUnitTreeNode {
+  id: string;
+  name: string;
+  code: string;
+  level: OrgUnitLevel;
+  children: OrgUnitTreeNode[];
+}
+
+export interface AssignScopedRoleData {
+  userId: string;
+  roleId: string;
+}
+
+/**
+ * Permissions a user holds through roles assigned at one unit. They apply
+ * to that unit and every unit below it.
+ */
+export interface UnitPermissions {
+  permissions: string[];
+  deniedPermissions?: string[];
+  conditionalPermissions?: ConditionalPermission[];
+}
+
+/**
+ * Permissions per unit a role is assigned at, keyed by org unit ID
+ */
+export type ScopedPermissionMap = Record<string, UnitPermissions>;
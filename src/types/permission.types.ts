@@ -45,6 +45,21 @@ export interface IPermissionPaginationResult {
   };
 }
 
+/**
+ * Whether a role permission entry grants or withholds the permission
+ */
+export type PermissionEffect = 'allow' | 'deny';
+
+/**
+ * A role permission entry that applies only while its condition holds
+ * (see ConditionUtil)
+ */
+export interface ConditionalPermission {
+  permission: string;
+  effect: PermissionEffect;
+  condition: string;
+}
+
 export interface IPermissionCheckResult {
   hasPermission: boolean;
   source?: string;
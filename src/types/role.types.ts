@@ -5,7 +5,9 @@ import { User } from '../models/User';
 export interface CreateRoleData {
   name: string;
   description?: string;
+  parentId?: string | null;
   isSystem?: boolean;
+  mfaRequired?: boolean;
   permissionIds?: string[];
   createdBy?: string;
 }
@@ -13,6 +15,8 @@ export interface CreateRoleData {
 export interface UpdateRoleData {
   name?: string;
   description?: string;
+  parentId?: string | null;
+  mfaRequired?: boolean;
   permissionIds?: string[];
 }
 
@@ -66,8 +70,12 @@ export interface RoleStatistics {
 }
 
 export interface RolePermissionUpdate {
+  // Permission IDs to allow, deny or drop from the role
   add?: string[];
+  deny?: string[];
   remove?: string[];
+  // Conditions for entries being added or denied, keyed by permission ID; null makes an entry unconditional
+  conditions?: Record<string, string | null>;
 }
 
 export interface RoleMenuPermissions {
@@ -94,7 +102,9 @@ export interface RoleHierarchy {
   name: string;
   description: string | null;
   isSystem: boolean;
-  children?: RoleHierarchy[];
+  parentId: string | null;
+  level: number;
+  children: RoleHierarchy[];
   permissionCount: number;
   userCount: number;
 }
\ No newline at end of file
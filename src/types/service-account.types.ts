@@ -0,0 +1,49 @@
+import { User } from '../models/User';
+import { ApiKey } from '../models/ApiKey';
+import { ScopedPermissionMap } from './org-unit.types';
+import { ConditionalPermission } from './permission.types';
+
+export interface CreateServiceAccountData {
+  name: string;
+  email?: string;
+  roleIds?: string[];
+  isActive?: boolean;
+}
+
+export interface UpdateServiceAccountData {
+  isActive?: boolean;
+  roleIds?: string[];
+}
+
+export interface ServiceAccountFilter {
+  search?: string;
+  isActive?: boolean;
+}
+
+export interface CreateApiKeyData {
+  name: string;
+  scopes?: string[] | null;
+  expiresAt?: Date | null;
+}
+
+/**
+ * A newly issued key. `key` is only ever returned here; afterwards only its
+ * prefix identifies it.
+ */
+export interface IssuedApiKey {
+  apiKey: ApiKey;
+  key: string;
+}
+
+/**
+ * Identity resolved from an `X-API-Key` header
+ */
+export interface ApiKeyAuthentication {
+  user: User;
+  apiKey: ApiKey;
+  roles: string[];
+  permissions: string[];
+  deniedPermissions: string[];
+  scopedPermissions: ScopedPermissionMap;
+  conditionalPermissions: ConditionalPermission[];
+}
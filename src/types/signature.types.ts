@@ -0,0 +1,41 @@
+import { Signature } from '../models/Signature';
+
+export type SignatureMeaning = 'approved' | 'reviewed' | 'released' | 'rejected' | 'authored';
+
+export interface CreateSignatureData {
+  password: string;
+  meaning: SignatureMeaning;
+  permission: string;
+  resourceType: string;
+  resourceId: string;
+  recordHash: string;
+  reason?: string | null;
+}
+
+export interface SignatureFilter {
+  resourceType?: string;
+  resourceId?: string;
+  userId?: string;
+}
+
+/**
+ * Result of checking a signature. `recordMatches` is null when no record
+ * hash was given to compare against.
+ */
+export interface SignatureVerification {
+  valid: boolean;
+  integrity: boolean;
+  recordMatches: boolean | null;
+  signature: Signature;
+}
+
+/**
+ * Context of a guarded request, recorded when it uses a signature
+ */
+export interface SignatureUseContext {
+  action: string;
+  resourceType?: string;
+  resourceId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
@@ -0,0 +1,33 @@
+export interface CreateSodRuleData {
+  name: string;
+  description?: string | null;
+  roleIds: string[];
+  // Defaults to 1, which makes the roles mutually exclusive
+  maxRoles?: number;
+}
+
+export interface UpdateSodRuleData {
+  name?: string;
+  description?: string | null;
+  roleIds?: string[];
+  maxRoles?: number;
+}
+
+/**
+ * A rule broken by a set of roles, with the constrained roles held
+ */
+export interface SodViolation {
+  ruleId: string;
+  rule: string;
+  maxRoles: number;
+  roles: Array<{ id: string; name: string }>;
+}
+
+/**
+ * An existing user holding more of a rule's roles than it allows, e.g.
+ * because the rule was added after the roles were assigned
+ */
+export interface SodViolationReportEntry {
+  user: { id: string; username: string; email: string };
+  violations: SodViolation[];
+}
@@ -0,0 +1,18 @@
+import { Terminal } from '../models/Terminal';
+
+export interface CreateTerminalData {
+  name: string;
+  location?: string | null;
+  isActive?: boolean;
+}
+
+export type UpdateTerminalData = Partial<CreateTerminalData>;
+
+/**
+ * A newly registered or re-keyed terminal. `key` is only ever returned here;
+ * afterwards only its prefix identifies it.
+ */
+export interface IssuedTerminalKey {
+  terminal: Terminal;
+  key: string;
+}
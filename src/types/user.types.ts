@@ -1,4 +1,4 @@
-import { User } from '../models/User';
+import { User, UserAttributes } from '../models/User';
 import { Role } from '../models/Role';
 
 export interface CreateUserData {
@@ -20,9 +20,26 @@ export interface UpdateUserData {
   lastName?: string;
   isActive?: boolean;
   isSuperuser?: boolean;
+  // Replaces all attributes; null clears them
+  attributes?: UserAttributes | null;
   roleIds?: number[];
 }
 
+/**
+ * When a role assignment applies. A role past its end is removed by the
+ * expiry sweeper; null leaves that end open.
+ */
+export interface RoleValidity {
+  validFrom?: Date | string | null;
+  validUntil?: Date | string | null;
+}
+
+export interface AssignBadgeData {
+  badgeId: string;
+  // Required when the user has no PIN yet; otherwise replaces it when given
+  pin?: string;
+}
+
 export interface UserFilter {
   search?: string;
   isActive?: boolean;
@@ -1,50 +1,101 @@
-import { Op } from 'sequelize';
+import { Op, Transaction } from 'sequelize';
 import { User, Role, Permission } from '../models';
-import { JWTUtil } from './jwt.util';
+import { JWTUtil, JWTPayload, RefreshTokenPayload } from './jwt.util';
 import { BcryptUtil } from './bcrypt.util';
 import { AppError, AuthenticationError } from './errors';
 import { ErrorCode } from '../types';
 import { v4 as uuidv4 } from 'uuid';
-import { RefreshToken } from '../models';
+import { RefreshToken, RevokedToken } from '../models';
 import { AuthTokens } from '../types';
+import { BadgeAccessToken } from '../types/auth.types';
 import { config } from '../config';
+import { PermissionCacheService } from '../services/permission-cache.service';
+import { ServiceAccountService } from '../services/service-account.service';
+import { OAuthGrant } from '../types/oauth.types';
+import { ScopedPermissionMap } from '../types/org-unit.types';
+import { ConditionalPermission } from '../types/permission.types';
+import { PermissionUtil } from './permission.util';
 
 export class AuthUtil {
-  static async generateUserTokens(user: User, ipAddress?: string | null, userAgent?: string | null): Promise<AuthTokens> {
-    // Get user roles and permissions
-    const roles = await user.getRoles();
-
-    const roleNames = roles.map(role => role.name);
-    const permissions = new Set<string>();
-
-    // Load permissions for each role
-    for (const role of roles) {
-      const rolePermissions = await role.getPermissions();
-      rolePermissions.forEach(permission => {
-        permissions.add(permission.name);
-      });
-    }
+  /**
+   * Claims of an access token for the user. With an OAuth grant the token is
+   * for the client: its permissions are limited to the granted scopes and it
+   * carries no roles, since role checks would bypass the scopes.
+   */
+  static async buildAccessTokenPayload(
+    user: User,
+    grant?: OAuthGrant
+  ): Promise<Omit<JWTPayload, 'iat' | 'exp' | 'jti'>> {
+    // Effective roles and permissions, including those inherited through the role hierarchy
+    const effective = await PermissionCacheService.getEffectivePermissions(user.id);
+    const roleNames = (effective?.roles || []).filter(role => role.direct).map(role => role.name);
+    const permissions = effective?.permissions || [];
+    // Superusers bypass permission checks, denies included
+    const deniedPermissions = user.isSuperuser ? [] : effective?.deniedPermissions || [];
+    const scopedPermissions = user.isSuperuser ? {} : PermissionUtil.toScopedPermissionMap(effective?.scopes || []);
+    const conditionalPermissions = user.isSuperuser ? [] : effective?.conditionalPermissions || [];
+    const elevations = effective?.elevations || [];
 
-    // Generate tokens
-    const tokenId = uuidv4();
-    const tokenPayload = {
+    const payload = {
       sub: user.id,
       username: user.username,
       email: user.email,
       roles: roleNames,
-      permissions: Array.from(permissions)
+      permissions,
+      ...(deniedPermissions.length > 0 ? { deniedPermissions } : {}),
+      ...(Object.keys(scopedPermissions).length > 0 ? { scopedPermissions } : {}),
+      ...(conditionalPermissions.length > 0 ? { conditionalPermissions } : {}),
+      ...(elevations.length > 0 ? { elevations } : {}),
+      permissionsVersion: user.permissionsVersion
+    };
+
+    if (!grant) {
+      return payload;
+    }
+
+    // Superusers hold every permission implicitly, so their scopes are granted as requested
+    const granted = user.isSuperuser ? ['*:*'] : permissions;
+
+    return {
+      ...payload,
+      roles: [],
+      permissions: ServiceAccountService.scopePermissions(granted, grant.scopes),
+      ...this.scopeUnits(scopedPermissions, grant.scopes),
+      ...this.scopeConditions(conditionalPermissions, grant.scopes),
+      clientId: grant.clientId,
+      scope: grant.scopes.join(' ')
     };
+  }
 
+  /**
+   * Issue an access/refresh token pair. Pass the family ID when rotating a
+   * refresh token; otherwise the new token starts its own family. Pass the
+   * grant when the tokens are for an OAuth client.
+   */
+  static async generateUserTokens(
+    user: User,
+    ipAddress?: string | null,
+    userAgent?: string | null,
+    familyId?: string,
+    grant?: OAuthGrant
+  ): Promise<AuthTokens> {
+    const tokenPayload = await this.buildAccessTokenPayload(user, grant);
+
+    // Generate tokens
+    const tokenId = uuidv4();
     const tokens = JWTUtil.generateTokenPair(tokenPayload, tokenId);
 
     // Store refresh token in database
     await RefreshToken.create({
       id: tokenId,
       userId: user.id,
-      token: tokens.refreshToken,
+      tokenHash: RefreshToken.hashToken(tokens.refreshToken),
+      familyId: familyId || tokenId,
       expiresAt: new Date(Date.now() + this.getRefreshTokenExpiryMs()),
       ipAddress: ipAddress || null,
-      userAgent: userAgent || null
+      userAgent: userAgent || null,
+      clientId: grant?.clientId || null,
+      scopes: grant?.scopes || null
     });
 
     // Update last login
@@ -53,6 +104,30 @@ export class AuthUtil {
     return tokens;
   }
 
+  /**
+   * Issue a short-lived access token for a badge login at a terminal. There
+   * is no refresh token; the operator badges in again. The permissions are
+   * the user's, limited to those of the badge login role, and like client
+   * tokens it carries no roles so that role checks cannot widen it.
+   */
+  static async generateBadgeToken(user: User, terminalId: string): Promise<BadgeAccessToken> {
+    const payload = await this.buildAccessTokenPayload(user);
+    const granted = user.isSuperuser ? ['*:*'] : payload.permissions;
+    const badgePermissions = await this.getBadgeRolePermissions();
+    const expiresIn = config.badgeLogin.tokenTtlSeconds;
+
+    const accessToken = JWTUtil.generateAccessToken({
+      ...payload,
+      roles: [],
+      permissions: ServiceAccountService.scopePermissions(granted, badgePermissions),
+      ...this.scopeUnits(payload.scopedPermissions || {}, badgePermissions),
+      ...this.scopeConditions(payload.conditionalPermissions || [], badgePermissions),
+      terminalId
+    }, expiresIn);
+
+    return { accessToken, expiresIn };
+  }
+
   static async validateLogin(username: string, password: string): Promise<User> {
     // Find user by username or email
     const user = await User.findOne({
@@ -64,7 +139,8 @@ export class AuthUtil {
       }
     });
 
-    if (!user) {
+    // Service accounts authenticate with API keys only
+    if (!user || user.isServiceAccount) {
       throw new AuthenticationError(ErrorCode.AUTH_INVALID_CREDENTIALS, 'Invalid credentials');
     }
 
@@ -83,19 +159,25 @@ export class AuthUtil {
   }
 
   static async revokeRefreshToken(token: string): Promise<void> {
+    const payload = JWTUtil.decodeToken(token) as RefreshTokenPayload | null;
+    if (!payload?.tokenId) {
+      return;
+    }
+
     const refreshToken = await RefreshToken.findOne({
-      where: { token }
+      where: { id: payload.tokenId, tokenHash: RefreshToken.hashToken(token), revokedAt: null }
     });
 
     if (refreshToken) {
-      await refreshToken.destroy();
+      await refreshToken.revoke();
     }
   }
 
-  static async revokeAllUserTokens(userId: string): Promise<void> {
-    await RefreshToken.destroy({
-      where: { userId }
-    });
+  static async revokeAllUserTokens(userId: string, transaction?: Transaction): Promise<void> {
+    await RefreshToken.update(
+      { revokedAt: new Date() },
+      { where: { userId, revokedAt: null }, transaction }
+    );
   }
 
   static async cleanExpiredTokens(): Promise<number> {
@@ -107,7 +189,59 @@ export class AuthUtil {
       }
     });
 
-    return result;
+    // Expired access tokens no longer need to be on the revocation list
+    const revoked = await RevokedToken.cleanExpired();
+
+    return result + revoked;
+  }
+
+  /**
+   * Permissions of the badge login role, including those it inherits
+   */
+  private static async getBadgeRolePermissions(): Promise<string[]> {
+    const role = await Role.findOne({ where: { name: config.badgeLogin.role } });
+
+    // Without the role there is nothing to limit the token to, so refuse rather than issue a full token
+    if (!role) {
+      throw new AppError(ErrorCode.SERVICE_UNAVAILABLE, 'Badge login is not configured', 503);
+    }
+
+    const roles = await Role.findAll({
+      where: { id: await Role.getEffectiveRoleIds([role.id]) },
+      attributes: ['id'],
+      include: [
+        {
+          model: Permission,
+          as: 'permissions',
+          attributes: ['name'],
+          // Conditional allows would widen the badge ceiling past their condition
+          through: { attributes: [], where: { effect: 'allow', condition: null } },
+          required: false
+        }
+      ]
+    });
+
+    return Array.from(new Set(roles.flatMap(r => (r.permissions || []).map(permission => permission.name))));
+  }
+
+  /**
+   * Scoped permissions narrowed to a token's scopes, as a spreadable claim.
+   * The claim is set even when empty so that it replaces the unscoped one.
+   */
+  private static scopeUnits(scoped: ScopedPermissionMap, scopes: string[]): Pick<JWTPayload, 'scopedPermissions'> {
+    const scopedPermissions = ServiceAccountService.scopeUnitPermissions(scoped, scopes);
+    return { scopedPermissions: Object.keys(scopedPermissions).length > 0 ? scopedPermissions : undefined };
+  }
+
+  /**
+   * Conditional permissions narrowed to a token's scopes, as a spreadable claim
+   */
+  private static scopeConditions(
+    entries: ConditionalPermission[],
+    scopes: string[]
+  ): Pick<JWTPayload, 'conditionalPermissions'> {
+    const conditionalPermissions = ServiceAccountService.scopeConditionalPermissions(entries, scopes);
+    return { conditionalPermissions: conditionalPermissions.length > 0 ? conditionalPermissions : undefined };
   }
 
   private static getRefreshTokenExpiryMs(): number {
@@ -140,32 +274,7 @@ export class AuthUtil {
   }
 
   static async getUserPermissions(userId: string): Promise<string[]> {
-    const user = await User.findByPk(userId, {
-      include: [
-        {
-          model: Role,
-          include: [
-            {
-              model: Permission,
-              through: { attributes: [] }
-            }
-          ]
-        }
-      ]
-    });
-
-    if (!user) {
-      return [];
-    }
-
-    const permissions = new Set<string>();
-
-    user.roles?.forEach(role => {
-      role.permissions?.forEach(permission => {
-        permissions.add(permission.name);
-      });
-    });
-
-    return Array.from(permissions);
+    const effective = await PermissionCacheService.getEffectivePermissions(userId);
+    return effective ? effective.permissions : [];
   }
 }
\ No newline at end of file
@@ -0,0 +1,491 @@
+import { ValidationError } from './errors';
+
+export type ConditionAttributes = Record<string, unknown>;
+
+/**
+ * What a condition can refer to. `resource` is absent when the route does
+ * not say which resource it acts on, and conditions reading it are undecided.
+ */
+export interface ConditionScope {
+  user: ConditionAttributes;
+  resource?: ConditionAttributes;
+  context: ConditionAttributes;
+}
+
+type Primitive = string | number | boolean | null;
+type Value = Primitive | Primitive[];
+
+type ConditionNode =
+  | { type: 'literal'; value: Primitive }
+  | { type: 'path'; root: ConditionRoot; keys: string[] }
+  | { type: 'list'; items: ConditionNode[] }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { type: 'compare'; operator: ComparisonOperator; left: ConditionNode; right: ConditionNode };
+
+type ConditionRoot = 'user' | 'resource' | 'context';
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+interface Token {
+  kind: 'number' | 'string' | 'literal' | 'name' | 'symbol' | 'end';
+  text: string;
+  value?: Primitive;
+  position: number;
+}
+
+const ROOTS: readonly ConditionRoot[] = ['user', 'resource', 'context'];
+const COMPARISON_OPERATORS: readonly string[] = ['==', '!=', '<', '<=', '>', '>=', 'in'];
+const SYMBOLS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')', '[', ']', ',', '.', '-'];
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const MAX_LENGTH = 500;
+const MAX_DEPTH = 32;
+const MAX_CACHED = 500;
+
+/**
+ * Thrown while evaluating when a value is missing or has the wrong type for
+ * an operator; the enclosing comparison becomes undecided
+ */
+class Undecided extends Error {}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Recursive-descent parser for the condition language:
+ *
+ *   or         := and ('||' and)*
+ *   and        := not ('&&' not)*
+ *   not        := '!' not | comparison
+ *   comparison := operand (('==' | '!=' | '<' | '<=' | '>' | '>=' | 'in') operand)?
+ *   operand    := literal | path | '[' operand (',' operand)* ']' | '(' or ')'
+ *   path       := ('user' | 'resource' | 'context') ('.' name)*
+ */
+class ConditionParser {
+  private readonly tokens: Token[];
+  private index = 0;
+  private depth = 0;
+
+  constructor(source: string) {
+    this.tokens = ConditionParser.tokenize(source);
+  }
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+
+    if (this.current.kind !== 'end') {
+      throw ConditionParser.syntaxError(`unexpected '${this.current.text}'`, this.current.position);
+    }
+
+    return node;
+  }
+
+  private static tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+
+    while (position < source.length) {
+      const char = source[position];
+
+      if (/\s/.test(char)) {
+        position++;
+        continue;
+      }
+
+      const number = /^\d+(\.\d+)?/.exec(source.slice(position));
+      if (number) {
+        tokens.push({ kind: 'number', text: number[0], value: Number(number[0]), position });
+        position += number[0].length;
+        continue;
+      }
+
+      const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(position));
+      if (name) {
+        const literals: Record<string, Primitive> = { true: true, false: false, null: null };
+        const isLiteral = Object.prototype.hasOwnProperty.call(literals, name[0]);
+        tokens.push(isLiteral
+          ? { kind: 'literal', text: name[0], value: literals[name[0]], position }
+          : { kind: 'name', text: name[0], position });
+        position += name[0].length;
+        continue;
+      }
+
+      if (char === '\'' || char === '"') {
+        let value = '';
+        let end = position + 1;
+
+        while (end < source.length && source[end] !== char) {
+          if (source[end] === '\\') {
+            const escaped = source[end + 1];
+            if (escaped !== '\\' && escaped !== '\'' && escaped !== '"') {
+              throw ConditionParser.syntaxError('unsupported escape in string', end);
+            }
+            value += escaped;
+            end += 2;
+          } else {
+            value += source[end];
+            end++;
+          }
+        }
+
+        if (end >= source.length) {
+          throw ConditionParser.syntaxError('unterminated string', position);
+        }
+
+        tokens.push({ kind: 'string', text: source.slice(position, end + 1), value, position });
+        position = end + 1;
+        continue;
+      }
+
+      const symbol = SYMBOLS.find(candidate => source.startsWith(candidate, position));
+      if (!symbol) {
+        throw ConditionParser.syntaxError(`unexpected character '${char}'`, position);
+      }
+
+      tokens.push({ kind: 'symbol', text: symbol, position });
+      position += symbol.length;
+    }
+
+    tokens.push({ kind: 'end', text: 'end of condition', position });
+    return tokens;
+  }
+
+  private static syntaxError(message: string, position: number): ValidationError {
+    return new ValidationError(`Invalid condition at position ${position + 1}: ${message}`);
+  }
+
+  private get current(): Token {
+    return this.tokens[this.index];
+  }
+
+  private accept(text: string): boolean {
+    if (this.current.kind !== 'string' && this.current.text === text) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string): void {
+    if (!this.accept(text)) {
+      throw ConditionParser.syntaxError(`expected '${text}' but found '${this.current.text}'`, this.current.position);
+    }
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_DEPTH) {
+      throw ConditionParser.syntaxError('condition is nested too deeply', this.current.position);
+    }
+
+    const result = parse();
+    this.depth--;
+    return result;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.accept('||')) {
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.accept('&&')) {
+      left = { type: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.accept('!')) {
+      return this.nested(() => ({ type: 'not', operand: this.parseNot() }));
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parseOperand();
+    const operator = this.current.text;
+
+    if (this.current.kind === 'string' || !COMPARISON_OPERATORS.includes(operator)) {
+      return left;
+    }
+
+    this.index++;
+    return { type: 'compare', operator: operator as ComparisonOperator, left, right: this.parseOperand() };
+  }
+
+  private parseOperand(): ConditionNode {
+    const token = this.current;
+
+    if (token.kind === 'number' || token.kind === 'string' || token.kind === 'literal') {
+      this.index++;
+      return { type: 'literal', value: token.value as Primitive };
+    }
+
+    if (this.accept('-')) {
+      const number = this.current;
+      if (number.kind !== 'number' || typeof number.value !== 'number') {
+        throw ConditionParser.syntaxError('expected a number after \'-\'', number.position);
+      }
+      this.index++;
+      return { type: 'literal', value: -number.value };
+    }
+
+    if (this.accept('(')) {
+      const node = this.nested(() => this.parseOr());
+      this.expect(')');
+      return node;
+    }
+
+    if (this.accept('[')) {
+      const items: ConditionNode[] = [];
+      if (!this.accept(']')) {
+        do {
+          items.push(this.nested(() => this.parseOperand()));
+        } while (this.accept(','));
+        this.expect(']');
+      }
+      return { type: 'list', items };
+    }
+
+    if (token.kind === 'name') {
+      if (!ROOTS.includes(token.text as ConditionRoot)) {
+        throw ConditionParser.syntaxError(
+          `unknown name '${token.text}'; paths start with user, resource or context`,
+          token.position
+        );
+      }
+
+      this.index++;
+      const keys: string[] = [];
+      while (this.accept('.')) {
+        if (this.current.kind !== 'name' && this.current.kind !== 'number') {
+          throw ConditionParser.syntaxError(`expected a property name after '.'`, this.current.position);
+        }
+        keys.push(this.current.text);
+        this.index++;
+      }
+
+      return { type: 'path', root: token.text as ConditionRoot, keys };
+    }
+
+    throw ConditionParser.syntaxError(`unexpected '${token.text}'`, token.position);
+  }
+}
+
+/**
+ * Conditions on role permissions: small boolean expressions over the user,
+ * the resource a request acts on and the request context, e.g.
+ *
+ *   resource.lineId in user.lines && context.time >= '06:00'
+ *
+ * Expressions are parsed into a tree and interpreted; nothing is ever handed
+ * to `eval` or `Function`. Paths read own properties only, so a condition
+ * cannot reach prototypes.
+ *
+ * Evaluation is three-valued. A comparison whose operands are missing or of
+ * the wrong type (a string compared with a number, `resource` on a route that
+ * supplies none) is undecided rather than false, and `&&`, `||` and `!`
+ * propagate that the way SQL does with NULL. An attribute that is absent or
+ * null counts as missing, so two missing attributes are not equal; only a
+ * comparison with the literal `null` (`user.shift != null`) tests whether one
+ * is there. Callers decide what undecided means: an allow needs its
+ * condition to be true, while a deny applies unless its condition is false.
+ */
+export class ConditionUtil {
+  static readonly MAX_LENGTH = MAX_LENGTH;
+
+  private static readonly parsed = new Map<string, ConditionNode>();
+
+  /**
+   * Throws a ValidationError describing the first syntax error, if any
+   */
+  static validate(expression: string): void {
+    this.parse(expression);
+  }
+
+  /**
+   * Evaluate a condition: true or false, or null when it cannot be decided
+   */
+  static test(expression: string, scope: ConditionScope): boolean | null {
+    return this.truth(this.parse(expression), scope);
+  }
+
+  /**
+   * Request context conditions can refer to. Times and dates are in the
+   * server's time zone, the plant's local time for an on-site deployment.
+   */
+  static buildContext(now: Date = new Date(), extra: ConditionAttributes = {}): ConditionAttributes {
+    return {
+      time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+      hour: now.getHours(),
+      weekday: WEEKDAYS[now.getDay()],
+      date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+      ...extra
+    };
+  }
+
+  private static parse(expression: string): ConditionNode {
+    const cached = this.parsed.get(expression);
+    if (cached) {
+      return cached;
+    }
+
+    if (expression.length > MAX_LENGTH) {
+      throw new ValidationError(`Condition must not exceed ${MAX_LENGTH} characters`);
+    }
+
+    const node = new ConditionParser(expression).parse();
+
+    if (this.parsed.size >= MAX_CACHED) {
+      this.parsed.clear();
+    }
+    this.parsed.set(expression, node);
+
+    return node;
+  }
+
+  private static truth(node: ConditionNode, scope: ConditionScope): boolean | null {
+    switch (node.type) {
+      case 'not': {
+        const operand = this.truth(node.operand, scope);
+        return operand === null ? null : !operand;
+      }
+      case 'and': {
+        const left = this.truth(node.left, scope);
+        const right = this.truth(node.right, scope);
+        if (left === false || right === false) return false;
+        return left === null || right === null ? null : true;
+      }
+      case 'or': {
+        const left = this.truth(node.left, scope);
+        const right = this.truth(node.right, scope);
+        if (left === true || right === true) return true;
+        return left === null || right === null ? null : false;
+      }
+      case 'compare':
+        try {
+          const nullCheck = (node.operator === '==' || node.operator === '!=')
+            && (this.isNullLiteral(node.left) || this.isNullLiteral(node.right));
+          return this.compare(
+            node.operator,
+            this.value(node.left, scope, nullCheck),
+            this.value(node.right, scope, nullCheck)
+          );
+        } catch (error) {
+          if (error instanceof Undecided) return null;
+          throw error;
+        }
+      default:
+        try {
+          const value = this.value(node, scope);
+          return typeof value === 'boolean' ? value : null;
+        } catch (error) {
+          if (error instanceof Undecided) return null;
+          throw error;
+        }
+    }
+  }
+
+  private static isNullLiteral(node: ConditionNode): boolean {
+    return node.type === 'literal' && node.value === null;
+  }
+
+  /**
+   * A missing attribute is undecided, or null when `missingAsNull` is set
+   * for a comparison with the literal `null`
+   */
+  private static value(node: ConditionNode, scope: ConditionScope, missingAsNull = false): Value {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+      case 'list':
+        return node.items.map(item => {
+          const value = this.value(item, scope);
+          if (Array.isArray(value)) throw new Undecided();
+          return value;
+        });
+      case 'path':
+        return this.resolve(node.root, node.keys, scope, missingAsNull);
+      default: {
+        // A boolean subexpression used as an operand, e.g. `(a == b) == true`
+        const truth = this.truth(node, scope);
+        if (truth === null) throw new Undecided();
+        return truth;
+      }
+    }
+  }
+
+  private static resolve(root: ConditionRoot, keys: string[], scope: ConditionScope, missingAsNull: boolean): Value {
+    const start = scope[root];
+    if (start === undefined) {
+      throw new Undecided();
+    }
+
+    const missing = (): null => {
+      if (missingAsNull) return null;
+      throw new Undecided();
+    };
+
+    let current: unknown = start;
+    for (const key of keys) {
+      if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, key)) {
+        return missing();
+      }
+      current = (current as Record<string, unknown>)[key];
+    }
+
+    if (Array.isArray(current)) {
+      if (!current.every(item => item === null || ['string', 'number', 'boolean'].includes(typeof item))) {
+        throw new Undecided();
+      }
+      return current as Primitive[];
+    }
+
+    if (current === null || current === undefined) {
+      return missing();
+    }
+
+    if (current instanceof Date) {
+      return current.toISOString();
+    }
+
+    if (['string', 'number', 'boolean'].includes(typeof current)) {
+      return current as Primitive;
+    }
+
+    throw new Undecided();
+  }
+
+  private static compare(operator: ComparisonOperator, left: Value, right: Value): boolean {
+    if (operator === 'in') {
+      if (!Array.isArray(right) || Array.isArray(left)) throw new Undecided();
+      return right.includes(left);
+    }
+
+    // A list can only be checked for being there: it is never null
+    if (Array.isArray(left) || Array.isArray(right)) {
+      const nullCheck = (operator === '==' || operator === '!=') && (left === null || right === null);
+      if (!nullCheck) throw new Undecided();
+      return operator === '!=';
+    }
+
+    if (operator === '==') return left === right;
+    if (operator === '!=') return left !== right;
+
+    const comparable = (typeof left === 'number' && typeof right === 'number')
+      || (typeof left === 'string' && typeof right === 'string');
+    if (!comparable) {
+      throw new Undecided();
+    }
+
+    switch (operator) {
+      case '<': return left < right;
+      case '<=': return left <= right;
+      case '>': return left > right;
+      default: return left >= right;
+    }
+  }
+}
@@ -66,6 +66,22 @@ export class ConflictError extends AppError {
   }
 }
 
+/**
+ * Error of the OAuth 2.0 endpoints. `error` is the registered error code
+ * (e.g. invalid_grant) the token endpoint reports (RFC 6749 section 5.2).
+ */
+export class OAuthError extends AppError {
+  public readonly error: string;
+
+  constructor(error: string, description: string, statusCode = 400) {
+    super(ErrorCode.OAUTH_ERROR, description, statusCode, true, { error });
+    this.error = error;
+
+    // AppError resets the prototype, which would break instanceof checks for this class
+    Object.setPrototypeOf(this, OAuthError.prototype);
+  }
+}
+
 export class RateLimitError extends AppError {
   constructor(retryAfter?: number) {
     super(
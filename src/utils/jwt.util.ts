@@ -1,7 +1,12 @@
 import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config';
 import { AppError, AuthenticationError } from './errors';
 import { ErrorCode } from '../types';
+import { KeyStore, PublicJwk } from './keystore.util';
+import { ScopedPermissionMap } from '../types/org-unit.types';
+import { ConditionalPermission } from '../types/permission.types';
+import { ActiveElevation } from '../types/elevation.types';
 
 export interface JWTPayload {
   sub: string;
@@ -9,6 +14,22 @@ export interface JWTPayload {
   email: string;
   roles: string[];
   permissions: string[];
+  // Explicitly denied permissions, which override `permissions`; absent when there are none
+  deniedPermissions?: string[];
+  // Permissions held through roles assigned at org units, keyed by unit ID; absent when there are none
+  scopedPermissions?: ScopedPermissionMap;
+  // Allows and denies that apply only while their condition holds; absent when there are none
+  conditionalPermissions?: ConditionalPermission[];
+  // Approved elevations whose roles and permissions are included above; absent when there are none
+  elevations?: ActiveElevation[];
+  // Absent on tokens issued before versioning was introduced
+  permissionsVersion?: number;
+  // Set on tokens issued to an OAuth client: its ID and the granted scopes, space-separated
+  clientId?: string;
+  scope?: string;
+  // Set on tokens issued by badge login: the terminal the user signed in at
+  terminalId?: string;
+  jti?: string;
   iat?: number;
   exp?: number;
 }
@@ -20,18 +41,88 @@ export interface RefreshTokenPayload {
   exp?: number;
 }
 
+export interface MfaTokenPayload {
+  sub: string;
+  type: 'mfa_pending';
+  enrollmentRequired: boolean;
+  iat?: number;
+  exp?: number;
+}
+
 export class JWTUtil {
   private static readonly JWT_SECRET = config.jwt.secret;
   private static readonly JWT_EXPIRY = config.jwt.expiresIn;
   private static readonly REFRESH_TOKEN_SECRET = config.jwt.refreshSecret;
   private static readonly REFRESH_TOKEN_EXPIRY = config.jwt.refreshExpiresIn;
+  // Derived secret so an mfa_pending token can never pass as an access token
+  private static readonly MFA_TOKEN_SECRET = `${config.jwt.secret}:mfa_pending`;
 
-  static generateAccessToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): string {
-    return jwt.sign(payload as any, this.JWT_SECRET, {
-      expiresIn: this.JWT_EXPIRY
-    } as jwt.SignOptions);
+  private static keyStore: KeyStore | null | undefined;
+
+  /**
+   * Keys used to sign access tokens with RS256/ES256, loaded on first use.
+   * Returns null when access tokens are signed with the HS256 secret.
+   */
+  static getKeyStore(): KeyStore | null {
+    if (this.keyStore === undefined) {
+      const algorithm = config.jwt.algorithm || 'HS256';
+
+      if (algorithm === 'HS256') {
+        this.keyStore = null;
+      } else {
+        const keyStore = KeyStore.fromDirectory(config.jwt.keystoreDir, config.jwt.activeKeyId || undefined);
+        const signingKey = keyStore.getSigningKey();
+
+        if (signingKey.alg !== algorithm) {
+          throw new Error(`JWT signing key "${signingKey.kid}" is a ${signingKey.alg} key but JWT_ALGORITHM is ${algorithm}`);
+        }
+        this.keyStore = keyStore;
+      }
+    }
+
+    return this.keyStore;
+  }
+
+  /**
+   * Replace the keystore, e.g. after adding a key during rotation.
+   * Pass undefined to reload from configuration on next use.
+   */
+  static setKeyStore(keyStore: KeyStore | null | undefined): void {
+    this.keyStore = keyStore;
+  }
+
+  /**
+   * Public keys downstream services use to verify access tokens
+   */
+  static getJwks(): { keys: PublicJwk[] } {
+    return this.getKeyStore()?.getJwks() ?? { keys: [] };
   }
 
+  static generateAccessToken(payload: Omit<JWTPayload, 'iat' | 'exp' | 'jti'>, expiresInSeconds?: number): string {
+    const options: jwt.SignOptions = {
+      expiresIn: expiresInSeconds ?? this.JWT_EXPIRY as jwt.SignOptions['expiresIn'],
+      // Unique ID so an individual token can be put on the revocation list
+      jwtid: uuidv4()
+    };
+
+    const keyStore = this.getKeyStore();
+    if (!keyStore) {
+      return jwt.sign(payload, this.JWT_SECRET, { ...options, algorithm: 'HS256' });
+    }
+
+    const signingKey = keyStore.getSigningKey();
+    return jwt.sign(payload, signingKey.privateKey, {
+      ...options,
+      algorithm: signingKey.alg,
+      keyid: signingKey.kid
+    });
+  }
+
+  /**
+   * Refresh tokens are only ever verified by this service, so they keep using
+   * the HMAC secret. Signing them with the published keys would let services
+   * trusting the JWKS accept a refresh token in place of an access token.
+   */
   static generateRefreshToken(userId: string, tokenId: string): string {
     const payload: RefreshTokenPayload = {
       sub: userId,
@@ -45,7 +136,20 @@ export class JWTUtil {
 
   static verifyAccessToken(token: string): JWTPayload {
     try {
-      return jwt.verify(token, this.JWT_SECRET) as JWTPayload;
+      const keyStore = this.getKeyStore();
+      if (!keyStore) {
+        return jwt.verify(token, this.JWT_SECRET, { algorithms: ['HS256'] }) as JWTPayload;
+      }
+
+      // Pick the key named in the header and only accept the algorithm that key is for
+      const decoded = jwt.decode(token, { complete: true });
+      const kid = decoded?.header.kid;
+      const key = kid ? keyStore.getVerificationKey(kid) : undefined;
+      if (!key) {
+        throw new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'Invalid token');
+      }
+
+      return jwt.verify(token, key.publicKey, { algorithms: [key.alg] }) as JWTPayload;
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
         throw new AuthenticationError(ErrorCode.AUTH_TOKEN_EXPIRED, 'Token expired');
@@ -58,7 +162,7 @@ export class JWTUtil {
 
   static verifyRefreshToken(token: string): RefreshTokenPayload {
     try {
-      return jwt.verify(token, this.REFRESH_TOKEN_SECRET) as RefreshTokenPayload;
+      return jwt.verify(token, this.REFRESH_TOKEN_SECRET, { algorithms: ['HS256'] }) as RefreshTokenPayload;
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
         throw new AuthenticationError(ErrorCode.AUTH_TOKEN_EXPIRED, 'Refresh token expired');
@@ -69,11 +173,54 @@ export class JWTUtil {
     }
   }
 
+  /**
+   * Short-lived token proving the password step of a login succeeded
+   */
+  static generateMfaToken(userId: string, enrollmentRequired: boolean): string {
+    const payload: MfaTokenPayload = {
+      sub: userId,
+      type: 'mfa_pending',
+      enrollmentRequired
+    };
+
+    return jwt.sign(payload as any, this.MFA_TOKEN_SECRET, {
+      expiresIn: config.mfa.pendingTokenExpiry
+    } as jwt.SignOptions);
+  }
+
+  static verifyMfaToken(token: string): MfaTokenPayload {
+    let payload: MfaTokenPayload;
+    try {
+      payload = jwt.verify(token, this.MFA_TOKEN_SECRET) as MfaTokenPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new AuthenticationError(ErrorCode.AUTH_TOKEN_EXPIRED, 'MFA token expired, please login again');
+      } else if (error instanceof jwt.JsonWebTokenError) {
+        throw new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'Invalid MFA token');
+      }
+      throw error;
+    }
+
+    if (payload.type !== 'mfa_pending') {
+      throw new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'Invalid MFA token');
+    }
+
+    return payload;
+  }
+
+  static getAccessTokenExpiresInSeconds(): number {
+    return this.getExpiresInSeconds();
+  }
+
+  static getMfaTokenExpiresInSeconds(): number {
+    return this.parseExpiry(config.mfa.pendingTokenExpiry, 300);
+  }
+
   static decodeToken(token: string): JWTPayload | RefreshTokenPayload | null {
     return jwt.decode(token) as JWTPayload | RefreshTokenPayload | null;
   }
 
-  static generateTokenPair(payload: Omit<JWTPayload, 'iat' | 'exp'>, tokenId: string) {
+  static generateTokenPair(payload: Omit<JWTPayload, 'iat' | 'exp' | 'jti'>, tokenId: string) {
     const accessToken = this.generateAccessToken(payload);
     const refreshToken = this.generateRefreshToken(payload.sub, tokenId);
 
@@ -86,14 +233,17 @@ export class JWTUtil {
   }
 
   private static getExpiresInSeconds(): number {
-    const expiry = this.JWT_EXPIRY;
+    return this.parseExpiry(this.JWT_EXPIRY, 900); // Default 15 minutes
+  }
+
+  private static parseExpiry(expiry: string | number, fallback: number): number {
     if (typeof expiry === 'number') {
       return expiry;
     }
 
     const match = expiry.match(/^(\d+)([smhd])$/);
     if (!match) {
-      return 900; // Default 15 minutes
+      return fallback;
     }
 
     const value = parseInt(match[1], 10);
@@ -109,7 +259,7 @@ export class JWTUtil {
       case 'd':
         return value * 86400;
       default:
-        return 900;
+        return fallback;
     }
   }
 }
\ No newline at end of file
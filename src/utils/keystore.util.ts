@@ -0,0 +1,122 @@
+import fs from 'fs';
+import path from 'path';
+import crypto, { KeyObject } from 'crypto';
+
+export type AsymmetricAlgorithm = 'RS256' | 'ES256';
+
+export interface StoredKey {
+  kid: string;
+  alg: AsymmetricAlgorithm;
+  publicKey: KeyObject;
+  // Absent for retired keys that only verify tokens issued before a rotation
+  privateKey?: KeyObject;
+}
+
+export interface PublicJwk extends crypto.JsonWebKey {
+  kid: string;
+  use: 'sig';
+  alg: AsymmetricAlgorithm;
+}
+
+const PUBLIC_KEY_SUFFIX = '.pub.pem';
+const PRIVATE_KEY_SUFFIX = '.pem';
+
+/**
+ * Choose the JWS algorithm matching a key, rejecting keys too weak to use
+ */
+const algorithmFor = (kid: string, key: KeyObject): AsymmetricAlgorithm => {
+  const details = key.asymmetricKeyDetails;
+
+  if (key.asymmetricKeyType === 'rsa') {
+    if (!details?.modulusLength || details.modulusLength < 2048) {
+      throw new Error(`JWT key "${kid}" must be an RSA key of at least 2048 bits`);
+    }
+    return 'RS256';
+  }
+
+  if (key.asymmetricKeyType === 'ec' && details?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+
+  throw new Error(`JWT key "${kid}" must be an RSA or P-256 EC key`);
+};
+
+/**
+ * Signing and verification keys for asymmetric JWTs, identified by `kid`.
+ * Exactly one key signs new tokens; every key verifies, so tokens signed
+ * before a rotation stay valid until they expire.
+ */
+export class KeyStore {
+  private readonly keys = new Map<string, StoredKey>();
+  private readonly activeKid: string;
+
+  constructor(keys: StoredKey[], activeKid?: string) {
+    keys.forEach(key => this.keys.set(key.kid, key));
+
+    const signingKids = keys.filter(key => key.privateKey).map(key => key.kid).sort();
+    // Without an explicit choice the newest key signs, so date-prefixed kids rotate naturally
+    const kid = activeKid || signingKids[signingKids.length - 1];
+
+    if (!kid) {
+      throw new Error('JWT keystore contains no private key to sign tokens with');
+    }
+    if (!this.keys.get(kid)?.privateKey) {
+      throw new Error(`JWT signing key "${kid}" was not found or has no private key`);
+    }
+
+    this.activeKid = kid;
+  }
+
+  /**
+   * Load every key in a directory. `<kid>.pem` holds a private key (PKCS#8 or
+   * traditional PEM); `<kid>.pub.pem` holds a public key kept for verification only.
+   */
+  static fromDirectory(directory: string, activeKid?: string): KeyStore {
+    if (!fs.existsSync(directory)) {
+      throw new Error(`JWT keystore directory "${directory}" does not exist`);
+    }
+
+    const keys = new Map<string, StoredKey>();
+    const files = fs.readdirSync(directory).filter(file => file.endsWith(PRIVATE_KEY_SUFFIX)).sort();
+
+    for (const file of files) {
+      const isPublic = file.endsWith(PUBLIC_KEY_SUFFIX);
+      const kid = file.slice(0, -(isPublic ? PUBLIC_KEY_SUFFIX : PRIVATE_KEY_SUFFIX).length);
+      const pem = fs.readFileSync(path.join(directory, file), 'utf8');
+
+      // A private key already provides the public half
+      if (isPublic && keys.get(kid)?.privateKey) {
+        continue;
+      }
+
+      const privateKey = isPublic ? undefined : crypto.createPrivateKey(pem);
+      const publicKey = privateKey ? crypto.createPublicKey(privateKey) : crypto.createPublicKey(pem);
+
+      keys.set(kid, { kid, alg: algorithmFor(kid, publicKey), publicKey, privateKey });
+    }
+
+    return new KeyStore(Array.from(keys.values()), activeKid);
+  }
+
+  getSigningKey(): StoredKey & { privateKey: KeyObject } {
+    return this.keys.get(this.activeKid) as StoredKey & { privateKey: KeyObject };
+  }
+
+  getVerificationKey(kid: string): StoredKey | undefined {
+    return this.keys.get(kid);
+  }
+
+  /**
+   * Public keys in JSON Web Key Set format
+   */
+  getJwks(): { keys: PublicJwk[] } {
+    return {
+      keys: Array.from(this.keys.values()).map(key => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        use: 'sig',
+        alg: key.alg
+      }))
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { Client, Entry, InvalidCredentialsError, escapeFilter } from 'ldapts';
+
+export interface LdapOptions {
+  url: string;
+  bindDn: string;
+  bindPassword: string;
+  searchBase: string;
+  // `{{username}}` is replaced with the escaped login name
+  userFilter: string;
+  usernameAttribute: string;
+  groupAttribute: string;
+  startTls: boolean;
+  tlsRejectUnauthorized: boolean;
+  timeoutMs: number;
+}
+
+/**
+ * A directory account whose password was verified by binding as it
+ */
+export interface DirectoryUser {
+  dn: string;
+  username: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  groups: string[];
+}
+
+const values = (value: Entry[string] | undefined): string[] => {
+  if (value === undefined) {
+    return [];
+  }
+
+  return (Array.isArray(value) ? value : [value]).map(item => item.toString());
+};
+
+/**
+ * Verifies passwords against an LDAP server or Active Directory using
+ * search-then-bind: a service account finds the user's DN, then a second
+ * connection binds as that DN with the supplied password.
+ */
+export class LdapDirectory {
+  constructor(private readonly options: LdapOptions) {}
+
+  /**
+   * Returns the account when the password is correct, or null when the login
+   * is unknown, ambiguous or the password is wrong. Connection failures throw.
+   */
+  async authenticate(login: string, password: string): Promise<DirectoryUser | null> {
+    // Most servers treat a bind with an empty password as an anonymous bind that succeeds
+    if (!login || !password) {
+      return null;
+    }
+
+    const entry = await this.findUser(login);
+    if (!entry) {
+      return null;
+    }
+
+    const client = await this.connect();
+    try {
+      await client.bind(entry.dn, password);
+    } catch (error) {
+      if (error instanceof InvalidCredentialsError) {
+        return null;
+      }
+      throw error;
+    } finally {
+      await client.unbind().catch(() => undefined);
+    }
+
+    return this.toDirectoryUser(entry, login);
+  }
+
+  private async findUser(login: string): Promise<Entry | null> {
+    const { searchBase, userFilter, usernameAttribute, groupAttribute, bindDn, bindPassword } = this.options;
+    const escapedLogin = escapeFilter`${login}`;
+    const filter = userFilter.replace(/\{\{username\}\}/g, () => escapedLogin);
+
+    const client = await this.connect();
+    try {
+      if (bindDn) {
+        await client.bind(bindDn, bindPassword);
+      }
+
+      const { searchEntries } = await client.search(searchBase, {
+        scope: 'sub',
+        filter,
+        attributes: [usernameAttribute, 'mail', 'givenName', 'sn', groupAttribute]
+      });
+
+      // A filter matching several accounts must not pick one arbitrarily
+      return searchEntries.length === 1 ? searchEntries[0] : null;
+    } finally {
+      await client.unbind().catch(() => undefined);
+    }
+  }
+
+  private async connect(): Promise<Client> {
+    const tlsOptions = { rejectUnauthorized: this.options.tlsRejectUnauthorized };
+    const client = new Client({
+      url: this.options.url,
+      timeout: this.options.timeoutMs,
+      connectTimeout: this.options.timeoutMs,
+      // Any TLS options make the client speak TLS from the start, so only ldaps:// gets them
+      tlsOptions: this.options.url.startsWith('ldaps:') ? tlsOptions : undefined
+    });
+
+    if (this.options.startTls) {
+      await client.startTLS(tlsOptions);
+    }
+
+    return client;
+  }
+
+  private toDirectoryUser(entry: Entry, login: string): DirectoryUser {
+    const first = (attribute: string): string | null => values(entry[attribute])[0] || null;
+
+    return {
+      dn: entry.dn,
+      username: first(this.options.usernameAttribute) || login,
+      email: first('mail'),
+      firstName: first('givenName'),
+      lastName: first('sn'),
+      groups: values(entry[this.options.groupAttribute])
+    };
+  }
+}
@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import jwt, { Algorithm, JwtPayload } from 'jsonwebtoken';
+
+export interface OidcClientOptions {
+  issuer: string;
+  clientId: string;
+  // Null for public clients, which authenticate the code exchange with PKCE only
+  clientSecret: string | null;
+  timeoutMs: number;
+}
+
+/**
+ * The parts of the provider metadata the relying party uses
+ */
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface IdTokenClaims extends JwtPayload {
+  sub: string;
+  nonce?: string;
+  [claim: string]: unknown;
+}
+
+interface JsonWebKeySet {
+  keys: (crypto.JsonWebKey & { kid?: string; use?: string })[];
+}
+
+// Asymmetric algorithms only: HS256 would make the client secret a signing key
+const ID_TOKEN_ALGORITHMS: Algorithm[] = [
+  'RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'
+];
+
+// Metadata and keys are refetched after this long, or sooner when a token names an unknown key
+const METADATA_TTL_MS = 60 * 60 * 1000;
+
+// Allowed difference between our clock and the provider's when checking exp and iat
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+/**
+ * Relying-party side of the OpenID Connect authorization code flow with PKCE
+ */
+export class OidcClient {
+  private discovery: { value: OidcDiscovery; fetchedAt: number } | null = null;
+  private jwks: { keys: Map<string, crypto.KeyObject>; fetchedAt: number } | null = null;
+
+  constructor(private readonly options: OidcClientOptions) {}
+
+  /**
+   * Random value for the state and nonce parameters
+   */
+  static randomToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  /**
+   * PKCE pair: the challenge goes to the authorization endpoint, the verifier
+   * to the token endpoint
+   */
+  static generatePkce(): { codeVerifier: string; codeChallenge: string } {
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+    return { codeVerifier, codeChallenge };
+  }
+
+  async authorizationUrl(params: {
+    redirectUri: string;
+    scope: string;
+    state: string;
+    nonce: string;
+    codeChallenge: string;
+  }): Promise<string> {
+    const { authorization_endpoint } = await this.discover();
+    const url = new URL(authorization_endpoint);
+
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.options.clientId);
+    url.searchParams.set('redirect_uri', params.redirectUri);
+    url.searchParams.set('scope', params.scope);
+    url.searchParams.set('state', params.state);
+    url.searchParams.set('nonce', params.nonce);
+    url.searchParams.set('code_challenge', params.codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return url.toString();
+  }
+
+  /**
+   * Redeem an authorization code. Returns the raw ID token.
+   */
+  async exchangeCode(code: string, redirectUri: string, codeVerifier: string): Promise<string> {
+    const { token_endpoint } = await this.discover();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: codeVerifier
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+    if (this.options.clientSecret) {
+      // client_secret_basic: both parts are form-encoded before base64 (RFC 6749 section 2.3.1)
+      const credentials = `${encodeURIComponent(this.options.clientId)}:${encodeURIComponent(this.options.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      body.set('client_id', this.options.clientId);
+    }
+
+    const { data } = await axios.post<{ id_token?: string }>(token_endpoint, body.toString(), {
+      headers,
+      timeout: this.options.timeoutMs
+    });
+
+    if (!data.id_token) {
+      throw new Error('Token response has no ID token');
+    }
+
+    return data.id_token;
+  }
+
+  /**
+   * Check the ID token signature, issuer, audience, lifetime and nonce, and return its claims
+   */
+  async verifyIdToken(idToken: string, nonce: string): Promise<IdTokenClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('ID token is malformed');
+    }
+
+    const algorithm = decoded.header.alg as Algorithm;
+    if (!ID_TOKEN_ALGORITHMS.includes(algorithm)) {
+      throw new Error(`ID token algorithm ${decoded.header.alg} is not accepted`);
+    }
+
+    const { issuer } = await this.discover();
+    const key = await this.getSigningKey(decoded.header.kid);
+
+    const claims = jwt.verify(idToken, key, {
+      algorithms: [algorithm],
+      issuer,
+      audience: this.options.clientId,
+      clockTolerance: CLOCK_TOLERANCE_SECONDS
+    }) as IdTokenClaims;
+
+    if (!claims.sub || typeof claims.iat !== 'number' || typeof claims.exp !== 'number') {
+      throw new Error('ID token lacks sub, iat or exp');
+    }
+    // With several audiences the token must have been issued to us
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== this.options.clientId) {
+      throw new Error('ID token was issued to another client');
+    }
+    if (!claims.nonce || !safeEqual(claims.nonce, nonce)) {
+      throw new Error('ID token nonce does not match');
+    }
+
+    return claims;
+  }
+
+  private async discover(): Promise<OidcDiscovery> {
+    if (this.discovery && Date.now() - this.discovery.fetchedAt < METADATA_TTL_MS) {
+      return this.discovery.value;
+    }
+
+    const issuer = this.options.issuer.replace(/\/$/, '');
+    const { data } = await axios.get<OidcDiscovery>(`${issuer}/.well-known/openid-configuration`, {
+      timeout: this.options.timeoutMs
+    });
+
+    // The metadata must be for the issuer we were configured with (OIDC Discovery section 4.3)
+    if (data.issuer.replace(/\/$/, '') !== issuer) {
+      throw new Error(`Discovery document is for issuer ${data.issuer}`);
+    }
+
+    this.discovery = { value: data, fetchedAt: Date.now() };
+    return data;
+  }
+
+  private async getSigningKey(kid: string | undefined): Promise<crypto.KeyObject> {
+    const stale = !this.jwks || Date.now() - this.jwks.fetchedAt >= METADATA_TTL_MS;
+    // An unknown kid usually means the provider rotated its keys
+    if (stale || (kid && !this.jwks!.keys.has(kid))) {
+      await this.fetchKeys();
+    }
+
+    const keys = this.jwks!.keys;
+    if (kid) {
+      const key = keys.get(kid);
+      if (!key) {
+        throw new Error(`No signing key with kid ${kid}`);
+      }
+      return key;
+    }
+
+    // Tokens without a kid are only unambiguous when the provider has a single key
+    if (keys.size !== 1) {
+      throw new Error('ID token has no kid and the provider publishes several keys');
+    }
+    return keys.values().next().value as crypto.KeyObject;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const { jwks_uri } = await this.discover();
+    const { data } = await axios.get<JsonWebKeySet>(jwks_uri, { timeout: this.options.timeoutMs });
+
+    const keys = new Map<string, crypto.KeyObject>();
+    data.keys
+      .filter(jwk => jwk.use === undefined || jwk.use === 'sig')
+      .forEach((jwk, index) => {
+        keys.set(jwk.kid || `#${index}`, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      });
+
+    this.jwks = { keys, fetchedAt: Date.now() };
+  }
+}
+
+const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
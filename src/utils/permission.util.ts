@@ -0,0 +1,178 @@
+import { PermissionEffect, ConditionalPermission } from '../types/permission.types';
+import { ScopedPermissionMap, UnitPermissions } from '../types/org-unit.types';
+import { ConditionUtil, ConditionScope } from './condition.util';
+
+export interface PermissionDecision {
+  granted: boolean;
+  // The entry that decided the outcome, absent when nothing matched
+  matched?: string;
+  effect?: PermissionEffect;
+}
+
+/**
+ * Evaluates `resource:action` permissions against allow and deny entries.
+ *
+ * Precedence is deterministic and independent of entry order:
+ * 1. Deny beats allow: if any deny entry matches, the permission is refused,
+ *    however specific the allow entries are.
+ * 2. Specific beats wildcard: among matching entries of the deciding effect,
+ *    the most specific one is reported, ranked exact (`workorder:delete`),
+ *    resource wildcard (`workorder:*`), action wildcard (`*:delete`),
+ *    global wildcard (`*:*`).
+ *
+ * So `workorder:*` allowed with `workorder:delete` denied grants every
+ * workorder action except delete. To carve an exception out of a deny,
+ * narrow the deny instead of adding a more specific allow.
+ */
+export class PermissionUtil {
+  /**
+   * How specifically a pattern matches a permission: 3 for an exact match
+   * down to 0 for `*:*`, or -1 when it does not match at all
+   */
+  static specificity(pattern: string, permission: string): number {
+    if (pattern === permission) {
+      return 3;
+    }
+
+    const [resource, action] = permission.split(':');
+    const [patternResource, patternAction] = pattern.split(':');
+
+    if (action === undefined || patternAction === undefined) {
+      return -1;
+    }
+
+    const resourceMatches = patternResource === resource || patternResource === '*';
+    const actionMatches = patternAction === action || patternAction === '*';
+
+    if (!resourceMatches || !actionMatches) {
+      return -1;
+    }
+
+    if (patternResource !== '*') {
+      return 2;
+    }
+
+    return patternAction !== '*' ? 1 : 0;
+  }
+
+  /**
+   * Most specific of the patterns matching a permission, or null
+   */
+  static mostSpecificMatch(patterns: string[], permission: string): string | null {
+    let best: string | null = null;
+    let bestSpecificity = -1;
+
+    for (const pattern of patterns) {
+      const specificity = this.specificity(pattern, permission);
+      if (specificity > bestSpecificity) {
+        best = pattern;
+        bestSpecificity = specificity;
+      }
+    }
+
+    return best;
+  }
+
+  static evaluate(allowed: string[], denied: string[], permission: string): PermissionDecision {
+    const deny = this.mostSpecificMatch(denied, permission);
+    if (deny !== null) {
+      return { granted: false, matched: deny, effect: 'deny' };
+    }
+
+    const allow = this.mostSpecificMatch(allowed, permission);
+    if (allow !== null) {
+      return { granted: true, matched: allow, effect: 'allow' };
+    }
+
+    return { granted: false };
+  }
+
+  static isGranted(allowed: string[], denied: string[], permission: string): boolean {
+    return this.evaluate(allowed, denied, permission).granted;
+  }
+
+  /**
+   * Conditional entries whose pattern matches a permission
+   */
+  static matchingConditions(
+    conditional: ConditionalPermission[] | undefined,
+    permission: string
+  ): ConditionalPermission[] {
+    return (conditional || []).filter(entry => this.specificity(entry.permission, permission) >= 0);
+  }
+
+  /**
+   * Add the conditional entries matching a permission to the allow and deny
+   * lists it is evaluated against. An allow counts only when its condition is
+   * true; a deny counts unless its condition is false, so a condition that
+   * cannot be decided (or no scope to decide it in) never grants anything.
+   */
+  static applyConditions(
+    allowed: string[],
+    denied: string[],
+    conditional: ConditionalPermission[] | undefined,
+    permission: string,
+    scope?: ConditionScope
+  ): { allowed: string[]; denied: string[] } {
+    const result = { allowed: [...allowed], denied: [...denied] };
+
+    for (const entry of this.matchingConditions(conditional, permission)) {
+      let holds: boolean | null = null;
+      try {
+        holds = scope ? ConditionUtil.test(entry.condition, scope) : null;
+      } catch {
+        // A stored condition that no longer parses is undecided
+      }
+
+      if (entry.effect === 'allow' && holds === true) {
+        result.allowed.push(entry.permission);
+      } else if (entry.effect === 'deny' && holds !== false) {
+        result.denied.push(entry.permission);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Per-unit permissions as carried in tokens, leaving out units without any
+   */
+  static toScopedPermissionMap(
+    scopes: Array<{
+      orgUnitId: string;
+      permissions: string[];
+      deniedPermissions?: string[];
+      conditionalPermissions?: ConditionalPermission[];
+    }>
+  ): ScopedPermissionMap {
+    const map: ScopedPermissionMap = {};
+
+    for (const scope of scopes) {
+      const denied = scope.deniedPermissions || [];
+      const conditional = scope.conditionalPermissions || [];
+      if (scope.permissions.length > 0 || denied.length > 0 || conditional.length > 0) {
+        map[scope.orgUnitId] = {
+          permissions: scope.permissions,
+          ...(denied.length > 0 ? { deniedPermissions: denied } : {}),
+          ...(conditional.length > 0 ? { conditionalPermissions: conditional } : {})
+        };
+      }
+    }
+
+    return map;
+  }
+
+  /**
+   * Permissions assigned at any of the given units, typically a unit and its
+   * ancestors. They add to the global permissions rather than replace them.
+   */
+  static forUnits(scoped: ScopedPermissionMap | undefined, orgUnitIds: string[]): Required<UnitPermissions> {
+    const units = orgUnitIds.map(orgUnitId => scoped?.[orgUnitId]).filter((unit): unit is UnitPermissions => !!unit);
+
+    return {
+      permissions: Array.from(new Set(units.flatMap(unit => unit.permissions))),
+      deniedPermissions: Array.from(new Set(units.flatMap(unit => unit.deniedPermissions || []))),
+      conditionalPermissions: units.flatMap(unit => unit.conditionalPermissions || [])
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import { config } from '../config';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 30 second steps, 6 digits)
+ * plus helpers for storing MFA secrets and recovery codes.
+ */
+export class TOTPUtil {
+  static readonly STEP_SECONDS = 30;
+  static readonly DIGITS = 6;
+
+  /**
+   * Generate a random base32 secret (160 bits, as recommended by RFC 4226)
+   */
+  static generateSecret(): string {
+    return this.base32Encode(crypto.randomBytes(20));
+  }
+
+  /**
+   * Time step counter for the given time
+   */
+  static getStep(timestamp: number = Date.now()): number {
+    return Math.floor(timestamp / 1000 / this.STEP_SECONDS);
+  }
+
+  /**
+   * Generate the code for a specific time step
+   */
+  static generateCode(secret: string, step: number = this.getStep()): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', this.base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % Math.pow(10, this.DIGITS);
+
+    return binary.toString().padStart(this.DIGITS, '0');
+  }
+
+  /**
+   * Verify a code, allowing `window` steps of clock drift either way.
+   * Returns the matched step so callers can reject replays, or null.
+   */
+  static verifyCode(secret: string, code: string, window = 1, timestamp: number = Date.now()): number | null {
+    const normalized = code.replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${this.DIGITS}}$`).test(normalized)) {
+      return null;
+    }
+
+    const currentStep = this.getStep(timestamp);
+    for (let step = currentStep - window; step <= currentStep + window; step++) {
+      const expected = this.generateCode(secret, step);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the otpauth:// URI understood by authenticator apps
+   */
+  static buildOtpAuthUri(secret: string, accountName: string, issuer: string = config.mfa.issuer): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(this.DIGITS),
+      period: String(this.STEP_SECONDS)
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * Encrypt a secret for storage (AES-256-GCM)
+   */
+  static encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return [iv, tag, encrypted].map(part => part.toString('base64')).join('.');
+  }
+
+  /**
+   * Decrypt a secret produced by encryptSecret
+   */
+  static decryptSecret(payload: string): string {
+    const [iv, tag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Generate single-use recovery codes formatted as xxxxx-xxxxx
+   */
+  static generateRecoveryCodes(count: number = config.mfa.recoveryCodeCount): string[] {
+    return Array.from({ length: count }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  /**
+   * Hash a recovery code; input is normalized so formatting does not matter
+   */
+  static hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private static getEncryptionKey(): Buffer {
+    return crypto.createHash('sha256').update(config.mfa.encryptionKey).digest();
+  }
+
+  private static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private static base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error(`Invalid base32 character: ${char}`);
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
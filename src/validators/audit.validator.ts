@@ -0,0 +1,89 @@
+import Joi from 'joi';
+import { commonPatterns } from '@middlewares/validation.middleware';
+import { auditLogQuerySchema, dateRangeSchema } from './common.validator';
+
+/**
+ * List audit logs query validation
+ */
+export const listAuditLogsSchema = auditLogQuerySchema.keys({
+  ipAddress: Joi.string()
+    .ip()
+    .optional()
+    .messages({
+      'string.ip': 'Invalid IP address format',
+    }),
+});
+
+/**
+ * Search audit logs query validation
+ */
+export const searchAuditLogsSchema = Joi.object({
+  q: Joi.string()
+    .trim()
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'string.min': 'Search query must not be empty',
+      'string.max': 'Search query is too long',
+      'any.required': 'Search query is required',
+    }),
+  page: commonPatterns.pagination.page,
+  limit: commonPatterns.pagination.limit,
+});
+
+/**
+ * Export audit logs query validation
+ */
+export const exportAuditLogsSchema = listAuditLogsSchema.keys({
+  format: Joi.string()
+    .valid('csv', 'ndjson')
+    .default('csv')
+    .messages({
+      'any.only': 'Invalid export format. Must be one of: csv, ndjson',
+    }),
+});
+
+/**
+ * Audit statistics query validation
+ */
+export const auditStatisticsSchema = dateRangeSchema;
+
+/**
+ * Audit log ID parameter validation
+ */
+export const auditLogIdSchema = Joi.object({
+  id: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid audit log ID format',
+      'any.required': 'Audit log ID is required',
+    }),
+});
+
+/**
+ * Resource history parameter validation
+ */
+export const resourceHistoryParamsSchema = Joi.object({
+  resource: Joi.string()
+    .trim()
+    .max(50)
+    .required()
+    .messages({
+      'any.required': 'Resource is required',
+    }),
+  resourceId: Joi.string()
+    .trim()
+    .max(100)
+    .required()
+    .messages({
+      'any.required': 'Resource ID is required',
+    }),
+});
+
+/**
+ * Activity/history limit query validation
+ */
+export const auditHistoryQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(500).default(50),
+});
@@ -40,6 +40,28 @@ export const loginSchema = Joi.alternatives().try(
   'alternatives.match': 'Either username or email must be provided'
 });
 
+/**
+ * Badge login validation schema. The terminal key is sent in the
+ * X-Terminal-Key header, not the body.
+ */
+export const badgeLoginSchema = Joi.object({
+  badgeId: Joi.string()
+    .required()
+    .trim()
+    .max(64)
+    .messages({
+      'string.empty': 'Badge ID is required',
+      'any.required': 'Badge ID is required',
+    }),
+  pin: Joi.string()
+    .required()
+    .max(8)
+    .messages({
+      'string.empty': 'PIN is required',
+      'any.required': 'PIN is required',
+    }),
+});
+
 /**
  * Registration validation schema
  */
@@ -148,6 +170,61 @@ export const resetPasswordSchema = Joi.object({
     }),
 });
 
+/**
+ * Verify email validation schema
+ */
+export const verifyEmailSchema = Joi.object({
+  token: Joi.string()
+    .required()
+    .messages({
+      'string.empty': 'Verification token is required',
+      'any.required': 'Verification token is required',
+    }),
+});
+
+/**
+ * Resend verification validation schema
+ */
+export const resendVerificationSchema = Joi.object({
+  email: commonPatterns.email
+    .required()
+    .messages({
+      'string.email': 'Please provide a valid email address',
+      'any.required': 'Email is required',
+    }),
+});
+
+/**
+ * MFA code validation schema (TOTP or recovery code)
+ */
+export const mfaCodeSchema = Joi.object({
+  code: Joi.string()
+    .trim()
+    .max(20)
+    .required()
+    .messages({
+      'string.empty': 'MFA code is required',
+      'any.required': 'MFA code is required',
+    }),
+});
+
+/**
+ * MFA setup during login validation schema
+ */
+export const mfaSetupSchema = Joi.object({
+  mfaToken: Joi.string()
+    .required()
+    .messages({
+      'string.empty': 'MFA token is required',
+      'any.required': 'MFA token is required',
+    }),
+});
+
+/**
+ * MFA login verification validation schema
+ */
+export const mfaVerifySchema = mfaSetupSchema.concat(mfaCodeSchema);
+
 /**
  * Logout validation schema
  */
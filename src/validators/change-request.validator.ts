@@ -0,0 +1,64 @@
+import Joi from 'joi';
+import { commonPatterns } from '@middlewares/validation.middleware';
+
+const comment = Joi.string()
+  .trim()
+  .min(1)
+  .max(1000)
+  .messages({
+    'string.empty': 'Comment cannot be empty',
+    'string.max': 'Comment cannot exceed 1000 characters',
+  });
+
+/**
+ * List change requests query validation
+ */
+export const listChangeRequestsSchema = Joi.object({
+  page: commonPatterns.pagination.page,
+  limit: commonPatterns.pagination.limit,
+  status: Joi.string().valid('pending', 'approved', 'rejected', 'cancelled', 'expired').optional(),
+  type: Joi.string().valid('role_permissions', 'role_update', 'role_users', 'user_roles', 'scoped_user_role').optional(),
+  targetId: commonPatterns.uuid.optional(),
+  requestedBy: commonPatterns.uuid.optional(),
+});
+
+/**
+ * Change request ID parameter validation
+ */
+export const changeRequestIdSchema = Joi.object({
+  changeRequestId: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid change request ID format',
+      'any.required': 'Change request ID is required',
+    }),
+});
+
+/**
+ * Approve change request validation schema
+ */
+export const approveChangeRequestSchema = Joi.object({
+  comment: comment.optional(),
+}).default(); // The body is optional
+
+/**
+ * Reject change request validation schema; a rejection must say why
+ */
+export const rejectChangeRequestSchema = Joi.object({
+  comment: comment
+    .required()
+    .messages({
+      'any.required': 'A comment explaining the rejection is required',
+    }),
+});
+
+/**
+ * Add comment validation schema
+ */
+export const addChangeRequestCommentSchema = Joi.object({
+  comment: comment
+    .required()
+    .messages({
+      'any.required': 'Comment is required',
+    }),
+});
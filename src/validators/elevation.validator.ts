@@ -0,0 +1,97 @@
+import Joi from 'joi';
+import { commonPatterns } from '@middlewares/validation.middleware';
+
+const comment = Joi.string()
+  .trim()
+  .min(1)
+  .max(1000)
+  .messages({
+    'string.empty': 'Comment cannot be empty',
+    'string.max': 'Comment cannot exceed 1000 characters',
+  });
+
+/**
+ * Request elevation validation schema: a role or permissions, not both
+ */
+export const createElevationRequestSchema = Joi.object({
+  roleId: commonPatterns.uuid
+    .messages({
+      'string.guid': 'Invalid role ID format',
+    }),
+  permissionIds: Joi.array()
+    .items(commonPatterns.uuid)
+    .min(1)
+    .unique()
+    .messages({
+      'array.min': 'At least one permission ID is required',
+      'array.unique': 'Duplicate permission IDs are not allowed',
+    }),
+  justification: Joi.string()
+    .trim()
+    .min(10)
+    .max(1000)
+    .required()
+    .messages({
+      'string.min': 'Justification must be at least 10 characters long',
+      'string.max': 'Justification cannot exceed 1000 characters',
+      'any.required': 'A justification is required',
+    }),
+  durationMinutes: Joi.number()
+    .integer()
+    .min(1)
+    .required()
+    .messages({
+      'number.min': 'Duration must be at least 1 minute',
+      'any.required': 'Duration is required',
+    }),
+})
+  .xor('roleId', 'permissionIds')
+  .messages({
+    'object.missing': 'Request either a role or permissions',
+    'object.xor': 'Request either a role or permissions, not both',
+  });
+
+/**
+ * List elevation requests query validation
+ */
+export const listElevationRequestsSchema = Joi.object({
+  page: commonPatterns.pagination.page,
+  limit: commonPatterns.pagination.limit,
+  status: Joi.string().valid('pending', 'approved', 'rejected', 'cancelled', 'expired').optional(),
+  userId: commonPatterns.uuid.optional(),
+});
+
+/**
+ * List own elevation requests query validation
+ */
+export const listMyElevationRequestsSchema = listElevationRequestsSchema.fork(['userId'], schema => schema.forbidden());
+
+/**
+ * Elevation request ID parameter validation
+ */
+export const elevationIdSchema = Joi.object({
+  elevationId: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid elevation request ID format',
+      'any.required': 'Elevation request ID is required',
+    }),
+});
+
+/**
+ * Approve elevation validation schema
+ */
+export const approveElevationSchema = Joi.object({
+  comment: comment.optional(),
+}).default(); // The body is optional
+
+/**
+ * Reject elevation validation schema; a rejection must say why
+ */
+export const rejectElevationSchema = Joi.object({
+  comment: comment
+    .required()
+    .messages({
+      'any.required': 'A comment explaining the rejection is required',
+    }),
+});
@@ -5,6 +5,17 @@ export * from './role.validator';
 export * from './permission.validator';
 export * from './menu.validator';
 export * from './resource.validator';
+export * from './audit.validator';
+export * from './service-account.validator';
+export * from './ldap-group-mapping.validator';
+export * from './oidc.validator';
+export * from './oauth.validator';
+export * from './terminal.validator';
+export * from './signature.validator';
+export * from './change-request.validator';
+export * from './org-unit.validator';
+export * from './sod.validator';
+export * from './elevation.validator';
 export * from './common.validator';
 
 // Re-export validation middleware and utilities
@@ -0,0 +1,62 @@
+import Joi from 'joi';
+import { commonPatterns } from '@middlewares/validation.middleware';
+
+/**
+ * Distinguished name of a directory group, e.g. `CN=Operators,OU=Groups,DC=corp,DC=example`
+ */
+const groupDnPattern = Joi.string()
+  .trim()
+  .max(255)
+  .pattern(/^[a-zA-Z][a-zA-Z0-9-]*=[^,]+(,\s*[a-zA-Z][a-zA-Z0-9-]*=[^,]+)*$/)
+  .messages({
+    'string.pattern.base': 'Group must be a distinguished name such as CN=Operators,OU=Groups,DC=example,DC=com',
+  });
+
+/**
+ * Create LDAP group mapping validation schema
+ */
+export const createLdapGroupMappingSchema = Joi.object({
+  groupDn: groupDnPattern
+    .required()
+    .messages({
+      'any.required': 'Group DN is required',
+    }),
+  roleId: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid role ID format',
+      'any.required': 'Role ID is required',
+    }),
+});
+
+/**
+ * Update LDAP group mapping validation schema
+ */
+export const updateLdapGroupMappingSchema = Joi.object({
+  groupDn: groupDnPattern.optional(),
+  roleId: commonPatterns.uuid
+    .optional()
+    .messages({
+      'string.guid': 'Invalid role ID format',
+    }),
+}).min(1);
+
+/**
+ * List LDAP group mappings query validation
+ */
+export const listLdapGroupMappingsSchema = Joi.object({
+  roleId: commonPatterns.uuid.optional(),
+  groupDn: groupDnPattern.optional(),
+});
+
+/**
+ * LDAP group mapping ID parameter validation
+ */
+export const ldapGroupMappingIdSchema = Joi.object({
+  mappingId: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid mapping ID format',
+      'any.required': 'Mapping ID is required',
+    }),
+});
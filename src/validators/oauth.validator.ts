@@ -0,0 +1,178 @@
+import Joi from 'joi';
+import { commonPatterns } from '@middlewares/validation.middleware';
+
+const GRANT_TYPES = ['authorization_code', 'refresh_token', 'client_credentials'];
+
+/**
+ * Permission pattern a client can be granted, e.g. `workorder:read` or `label:*`
+ */
+const scopePattern = Joi.string()
+  .pattern(/^(\*|[a-z][a-z0-9_]*):(\*|[a-z][a-z0-9_]*)$/)
+  .messages({
+    'string.pattern.base': 'Scopes must look like resource:action, where either part may be *',
+  });
+
+/**
+ * Absolute redirect URI without a fragment (RFC 6749 section 3.1.2)
+ */
+const redirectUri = Joi.string()
+  .uri()
+  .max(2048)
+  .pattern(/^[^#]*$/)
+  .messages({
+    'string.uri': 'Redirect URIs must be absolute URIs',
+    'string.pattern.base': 'Redirect URIs must not contain a fragment',
+  });
+
+/**
+ * PKCE code verifier and S256 challenge alphabet (RFC 7636 section 4.1)
+ */
+const pkceValue = Joi.string().pattern(/^[A-Za-z0-9._~-]{43,128}$/);
+
+/**
+ * Register OAuth client validation schema
+ */
+export const createOAuthClientSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'any.required': 'Client name is required',
+    }),
+  confidential: Joi.boolean().optional(),
+  redirectUris: Joi.array()
+    .items(redirectUri)
+    .max(20)
+    .unique()
+    .optional(),
+  grantTypes: Joi.array()
+    .items(Joi.string().valid(...GRANT_TYPES))
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      'any.only': `Grant types must be one of: ${GRANT_TYPES.join(', ')}`,
+      'any.required': 'Grant types are required',
+    }),
+  scopes: Joi.array()
+    .items(scopePattern)
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      'any.required': 'Scopes are required',
+    }),
+  serviceAccountId: commonPatterns.uuid
+    .allow(null)
+    .optional()
+    .messages({
+      'string.guid': 'Invalid service account ID format',
+    }),
+  requireConsent: Joi.boolean().optional(),
+  isActive: Joi.boolean().optional(),
+});
+
+/**
+ * Update OAuth client validation schema. Whether a client is confidential
+ * is fixed at registration.
+ */
+export const updateOAuthClientSchema = createOAuthClientSchema
+  .fork(['name', 'grantTypes', 'scopes'], schema => schema.optional())
+  .keys({ confidential: Joi.forbidden() })
+  .min(1);
+
+/**
+ * OAuth client ID parameter validation
+ */
+export const oauthClientIdSchema = Joi.object({
+  clientId: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid client ID format',
+      'any.required': 'Client ID is required',
+    }),
+});
+
+const authorizationParams = {
+  response_type: Joi.string()
+    .valid('code')
+    .required()
+    .messages({
+      'any.only': 'Only the code response type is supported',
+    }),
+  client_id: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid client ID format',
+    }),
+  redirect_uri: redirectUri.required(),
+  scope: Joi.string().trim().max(1000).optional(),
+  state: Joi.string().max(512).optional(),
+  code_challenge: pkceValue
+    .required()
+    .messages({
+      'string.pattern.base': 'code_challenge must be a base64url S256 challenge',
+      'any.required': 'PKCE is required: provide code_challenge',
+    }),
+  code_challenge_method: Joi.string()
+    .valid('S256')
+    .required()
+    .messages({
+      'any.only': 'Only the S256 code challenge method is supported',
+    }),
+};
+
+/**
+ * Authorization request query validation (consent screen)
+ */
+export const oauthAuthorizationRequestSchema = Joi.object(authorizationParams);
+
+/**
+ * Consent decision validation: the authorization request plus the user's answer
+ */
+export const oauthAuthorizationDecisionSchema = Joi.object({
+  ...authorizationParams,
+  approved: Joi.boolean()
+    .required()
+    .messages({
+      'any.required': 'approved is required',
+    }),
+});
+
+/**
+ * Token request validation (form or JSON body)
+ */
+export const oauthTokenRequestSchema = Joi.object({
+  grant_type: Joi.string()
+    .valid(...GRANT_TYPES)
+    .required(),
+  code: Joi.string().max(512).optional(),
+  redirect_uri: Joi.string().max(2048).optional(),
+  code_verifier: pkceValue
+    .optional()
+    .messages({
+      'string.pattern.base': 'code_verifier must be 43 to 128 unreserved characters',
+    }),
+  refresh_token: Joi.string().max(4096).optional(),
+  scope: Joi.string().trim().max(1000).optional(),
+  client_id: Joi.string().max(255).optional(),
+  client_secret: Joi.string().max(255).optional(),
+});
+
+/**
+ * Introspection and revocation request validation (RFC 7662, RFC 7009)
+ */
+export const oauthTokenLookupSchema = Joi.object({
+  token: Joi.string()
+    .max(4096)
+    .required()
+    .messages({
+      'any.required': 'token is required',
+    }),
+  // Unknown hints are ignored rather than rejected (RFC 7009 section 2.1)
+  token_type_hint: Joi.string().max(50).optional(),
+  client_id: Joi.string().max(255).optional(),
+  client_secret: Joi.string().max(255).optional(),
+});
@@ -0,0 +1,131 @@
+import Joi from 'joi';
+import { commonPatterns } from '@middlewares/validation.middleware';
+import { OidcRoleMapping } from '../types/oidc.types';
+
+/**
+ * URL slug of an identity provider, used in the login and callback routes
+ */
+const providerName = Joi.string()
+  .trim()
+  .lowercase()
+  .pattern(/^[a-z0-9][a-z0-9-]*$/)
+  .min(2)
+  .max(50)
+  .messages({
+    'string.pattern.base': 'Provider name can only contain lowercase letters, numbers and dashes',
+  });
+
+/**
+ * Name of an ID token claim
+ */
+const claimName = Joi.string().trim().min(1).max(100);
+
+const claimMappingSchema = Joi.object({
+  username: claimName.optional(),
+  email: claimName.optional(),
+  firstName: claimName.optional(),
+  lastName: claimName.optional(),
+});
+
+const roleMappingSchema = Joi.object({
+  value: Joi.string().trim().min(1).max(255).required(),
+  roleId: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid role ID format',
+    }),
+});
+
+/**
+ * Create identity provider validation schema
+ */
+export const createOidcProviderSchema = Joi.object({
+  name: providerName
+    .required()
+    .messages({
+      'any.required': 'Provider name is required',
+    }),
+  displayName: Joi.string()
+    .trim()
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'any.required': 'Display name is required',
+    }),
+  issuer: Joi.string()
+    .uri({ scheme: ['https', 'http'] })
+    .max(255)
+    .required()
+    .messages({
+      'string.uri': 'Issuer must be an http(s) URL',
+      'any.required': 'Issuer is required',
+    }),
+  clientId: Joi.string()
+    .trim()
+    .min(1)
+    .max(255)
+    .required()
+    .messages({
+      'any.required': 'Client ID is required',
+    }),
+  clientSecret: Joi.string().min(1).max(1024).allow(null).optional(),
+  scopes: Joi.string()
+    .trim()
+    .max(255)
+    .pattern(/(^|\s)openid(\s|$)/)
+    .optional()
+    .messages({
+      'string.pattern.base': 'Scopes must include openid',
+    }),
+  claimMapping: claimMappingSchema.allow(null).optional(),
+  roleClaim: claimName.allow(null).optional(),
+  roleMappings: Joi.array()
+    .items(roleMappingSchema)
+    .unique((a: OidcRoleMapping, b: OidcRoleMapping) => a.value === b.value && a.roleId === b.roleId)
+    .allow(null)
+    .optional()
+    .messages({
+      'array.unique': 'Duplicate role mappings are not allowed',
+    }),
+  autoProvision: Joi.boolean().optional(),
+  isEnabled: Joi.boolean().optional(),
+});
+
+/**
+ * Update identity provider validation schema. The name is part of the
+ * callback URL registered at the provider and cannot change.
+ */
+export const updateOidcProviderSchema = createOidcProviderSchema
+  .fork(['displayName', 'issuer', 'clientId'], schema => schema.optional())
+  .keys({ name: Joi.forbidden() })
+  .min(1);
+
+/**
+ * Identity provider ID parameter validation
+ */
+export const oidcProviderIdSchema = Joi.object({
+  providerId: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid identity provider ID format',
+      'any.required': 'Identity provider ID is required',
+    }),
+});
+
+/**
+ * Identity provider name parameter validation
+ */
+export const oidcProviderNameSchema = Joi.object({
+  provider: providerName.required(),
+});
+
+/**
+ * Authorization response query validation
+ */
+export const oidcCallbackSchema = Joi.object({
+  code: Joi.string().max(2048).optional(),
+  state: Joi.string().max(512).optional(),
+  error: Joi.string().max(255).optional(),
+  error_description: Joi.string().max(1024).optional(),
+});
@@ -0,0 +1,99 @@
+import Joi from 'joi';
+import { commonPatterns } from '@middlewares/validation.middleware';
+import { ORG_UNIT_LEVELS } from '../types/org-unit.types';
+
+/**
+ * Create org unit validation schema
+ */
+export const createOrgUnitSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'any.required': 'Org unit name is required',
+    }),
+  code: Joi.string()
+    .trim()
+    .uppercase()
+    .pattern(/^[A-Z0-9_-]+$/)
+    .max(50)
+    .required()
+    .messages({
+      'string.pattern.base': 'Code can only contain letters, numbers, underscores and hyphens',
+      'any.required': 'Org unit code is required',
+    }),
+  level: Joi.string()
+    .valid(...ORG_UNIT_LEVELS)
+    .required()
+    .messages({
+      'any.only': `Level must be one of ${ORG_UNIT_LEVELS.join(', ')}`,
+      'any.required': 'Level is required',
+    }),
+  parentId: commonPatterns.uuid
+    .allow(null)
+    .optional(),
+  description: Joi.string()
+    .trim()
+    .max(500)
+    .allow(null, '')
+    .optional(),
+});
+
+/**
+ * Update org unit validation schema. Level and parent cannot change.
+ */
+export const updateOrgUnitSchema = createOrgUnitSchema
+  .fork(['name', 'code'], schema => schema.optional())
+  .fork(['level', 'parentId'], schema => schema.forbidden())
+  .min(1);
+
+/**
+ * List org units query validation
+ */
+export const listOrgUnitsSchema = Joi.object({
+  level: Joi.string().valid(...ORG_UNIT_LEVELS).optional(),
+  parentId: commonPatterns.uuid.optional(),
+  search: Joi.string().trim().max(50).optional(),
+});
+
+/**
+ * Org unit ID parameter validation
+ */
+export const orgUnitIdSchema = Joi.object({
+  orgUnitId: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid org unit ID format',
+      'any.required': 'Org unit ID is required',
+    }),
+});
+
+/**
+ * Scoped role assignment ID parameter validation
+ */
+export const scopedAssignmentIdSchema = orgUnitIdSchema.keys({
+  assignmentId: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid assignment ID format',
+      'any.required': 'Assignment ID is required',
+    }),
+});
+
+/**
+ * Assign role within an org unit validation schema
+ */
+export const assignScopedRoleSchema = Joi.object({
+  userId: commonPatterns.uuid
+    .required()
+    .messages({
+      'any.required': 'User ID is required',
+    }),
+  roleId: commonPatterns.uuid
+    .required()
+    .messages({
+      'any.required': 'Role ID is required',
+    }),
+});
@@ -115,6 +115,11 @@ export const checkPermissionSchema = Joi.object({
       then: Joi.boolean(),
       otherwise: Joi.forbidden(),
     }),
+  orgUnitId: commonPatterns.uuid
+    .optional()
+    .messages({
+      'string.guid': 'Invalid org unit ID format',
+    }),
 });
 
 /**
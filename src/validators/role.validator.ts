@@ -1,5 +1,6 @@
 import Joi from 'joi';
 import { commonPatterns, createPaginationSchema } from '../middlewares/validation.middleware';
+import { ConditionUtil } from '../utils/condition.util';
 
 /**
  * Create role validation schema
@@ -25,9 +26,17 @@ export const createRoleSchema = Joi.object({
     .messages({
       'string.max': 'Description cannot exceed 500 characters',
     }),
+  parentId: commonPatterns.uuid
+    .allow(null)
+    .optional()
+    .messages({
+      'string.guid': 'Invalid parent role ID format',
+    }),
   isSystem: Joi.boolean()
     .optional()
     .default(false),
+  mfaRequired: Joi.boolean()
+    .optional(),
   permissionIds: Joi.array()
     .items(commonPatterns.uuid)
     .unique()
@@ -60,6 +69,14 @@ export const updateRoleSchema = Joi.object({
     .messages({
       'string.max': 'Description cannot exceed 500 characters',
     }),
+  parentId: commonPatterns.uuid
+    .allow(null)
+    .optional()
+    .messages({
+      'string.guid': 'Invalid parent role ID format',
+    }),
+  mfaRequired: Joi.boolean()
+    .optional(),
   permissionIds: Joi.array()
     .items(commonPatterns.uuid)
     .unique()
@@ -110,6 +127,13 @@ export const updateRolePermissionsSchema = Joi.object({
     .messages({
       'array.unique': 'Duplicate permission IDs are not allowed',
     }),
+  deny: Joi.array()
+    .items(commonPatterns.uuid)
+    .unique()
+    .optional()
+    .messages({
+      'array.unique': 'Duplicate permission IDs are not allowed',
+    }),
   remove: Joi.array()
     .items(commonPatterns.uuid)
     .unique()
@@ -117,8 +141,41 @@ export const updateRolePermissionsSchema = Joi.object({
     .messages({
       'array.unique': 'Duplicate permission IDs are not allowed',
     }),
-}).or('add', 'remove').messages({
-  'object.missing': 'Either add or remove permissions must be specified',
+  conditions: Joi.object()
+    .pattern(
+      commonPatterns.uuid,
+      Joi.string()
+        .trim()
+        .max(ConditionUtil.MAX_LENGTH)
+        .custom((value: string, helpers) => {
+          try {
+            ConditionUtil.validate(value);
+          } catch (error) {
+            return helpers.message({ custom: (error as Error).message });
+          }
+          return value;
+        }, 'Condition syntax')
+        .allow(null)
+    )
+    .optional(),
+}).or('add', 'deny', 'remove').custom((
+  value: { add?: string[]; deny?: string[]; remove?: string[]; conditions?: Record<string, string | null> },
+  helpers
+) => {
+  const lists = [value.add || [], value.deny || [], value.remove || []];
+  const ids = lists.flat();
+  if (new Set(ids).size !== ids.length) {
+    return helpers.error('any.invalid');
+  }
+  const conditioned = [...(value.add || []), ...(value.deny || [])];
+  if (Object.keys(value.conditions || {}).some(id => !conditioned.includes(id))) {
+    return helpers.error('custom.conditionWithoutEntry');
+  }
+  return value;
+}, 'Disjoint permission lists').messages({
+  'object.missing': 'Either add, deny or remove permissions must be specified',
+  'any.invalid': 'A permission ID may appear in only one of add, deny and remove',
+  'custom.conditionWithoutEntry': 'Conditions may only be given for permissions being added or denied',
 });
 
 /**
@@ -185,6 +242,37 @@ export const userRoleOperationSchema = Joi.object({
     }),
 });
 
+/**
+ * When a role assignment applies; either end may be left open with null
+ */
+export const roleValiditySchema = Joi.object({
+  validFrom: commonPatterns.date
+    .allow(null)
+    .optional()
+    .messages({
+      'date.base': 'validFrom must be a date',
+      'date.format': 'validFrom must be an ISO 8601 date',
+    }),
+  validUntil: commonPatterns.date
+    .greater('now')
+    .allow(null)
+    .optional()
+    .when('validFrom', {
+      is: Joi.date().required(),
+      then: Joi.date().greater(Joi.ref('validFrom')),
+    })
+    .messages({
+      'date.base': 'validUntil must be a date',
+      'date.format': 'validUntil must be an ISO 8601 date',
+      'date.greater': 'validUntil must be in the future and after validFrom',
+    }),
+});
+
+/**
+ * Assign users to role validation, optionally for a limited period
+ */
+export const assignUsersToRoleSchema = userRoleOperationSchema.concat(roleValiditySchema);
+
 /**
  * Update role menu permissions validation
  */
@@ -0,0 +1,133 @@
+import Joi from 'joi';
+import { commonPatterns } from '@middlewares/validation.middleware';
+
+/**
+ * Permission pattern a key can be scoped to, e.g. `workorder:read` or `label:*`
+ */
+const scopePattern = Joi.string()
+  .pattern(/^(\*|[a-z][a-z0-9_]*):(\*|[a-z][a-z0-9_]*)$/)
+  .messages({
+    'string.pattern.base': 'Scopes must look like resource:action, where either part may be *',
+  });
+
+/**
+ * Create service account validation schema
+ */
+export const createServiceAccountSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .lowercase()
+    .pattern(/^[a-z0-9_]+$/)
+    .min(3)
+    .max(50)
+    .required()
+    .messages({
+      'string.pattern.base': 'Name can only contain letters, numbers and underscores',
+      'any.required': 'Name is required',
+    }),
+  email: commonPatterns.email
+    .optional()
+    .messages({
+      'string.email': 'Please provide a valid email address',
+    }),
+  roleIds: Joi.array()
+    .items(commonPatterns.uuid)
+    .unique()
+    .optional()
+    .messages({
+      'array.unique': 'Duplicate role IDs are not allowed',
+    }),
+  isActive: Joi.boolean()
+    .optional()
+    .default(true),
+});
+
+/**
+ * Update service account validation schema
+ */
+export const updateServiceAccountSchema = Joi.object({
+  isActive: Joi.boolean().optional(),
+  roleIds: Joi.array()
+    .items(commonPatterns.uuid)
+    .unique()
+    .optional()
+    .messages({
+      'array.unique': 'Duplicate role IDs are not allowed',
+    }),
+}).min(1);
+
+/**
+ * List service accounts query validation
+ */
+export const listServiceAccountsSchema = Joi.object({
+  page: commonPatterns.pagination.page,
+  limit: commonPatterns.pagination.limit,
+  search: Joi.string().trim().max(50).optional(),
+  isActive: Joi.boolean().optional(),
+});
+
+/**
+ * Service account ID parameter validation
+ */
+export const serviceAccountIdSchema = Joi.object({
+  accountId: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid service account ID format',
+      'any.required': 'Service account ID is required',
+    }),
+});
+
+/**
+ * API key ID parameter validation
+ */
+export const apiKeyIdSchema = serviceAccountIdSchema.keys({
+  keyId: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid API key ID format',
+      'any.required': 'API key ID is required',
+    }),
+});
+
+/**
+ * Create API key validation schema
+ */
+export const createApiKeySchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'any.required': 'Key name is required',
+    }),
+  scopes: Joi.array()
+    .items(scopePattern)
+    .min(1)
+    .unique()
+    .optional()
+    .messages({
+      'array.min': 'Omit scopes to allow every permission of the service account',
+    }),
+  expiresAt: commonPatterns.date
+    .greater('now')
+    .optional()
+    .messages({
+      'date.greater': 'Expiry must be in the future',
+    }),
+});
+
+/**
+ * Rotate API key validation schema
+ */
+export const rotateApiKeySchema = Joi.object({
+  gracePeriodMinutes: Joi.number()
+    .integer()
+    .min(0)
+    .max(7 * 24 * 60)
+    .default(60)
+    .messages({
+      'number.max': 'Grace period cannot exceed 7 days',
+    }),
+}).default(); // The body is optional
@@ -0,0 +1,92 @@
+import Joi from 'joi';
+import { commonPatterns } from '@middlewares/validation.middleware';
+
+const recordHash = Joi.string()
+  .pattern(/^[0-9a-fA-F]{64}$/)
+  .messages({
+    'string.pattern.base': 'Record hash must be a hex-encoded SHA-256 digest',
+  });
+
+/**
+ * Create signature validation schema
+ */
+export const createSignatureSchema = Joi.object({
+  password: Joi.string()
+    .required()
+    .messages({
+      'string.empty': 'Password is required',
+      'any.required': 'Password is required',
+    }),
+  meaning: Joi.string()
+    .valid('approved', 'reviewed', 'released', 'rejected', 'authored')
+    .required()
+    .messages({
+      'any.only': 'Meaning must be one of approved, reviewed, released, rejected or authored',
+      'any.required': 'Meaning is required',
+    }),
+  permission: Joi.string()
+    .pattern(/^[a-z][a-z0-9_-]*:[a-z][a-z0-9_-]*$/)
+    .max(100)
+    .required()
+    .messages({
+      'string.pattern.base': 'Permission must look like resource:action',
+      'any.required': 'Permission is required',
+    }),
+  resourceType: Joi.string()
+    .trim()
+    .min(1)
+    .max(50)
+    .required()
+    .messages({
+      'any.required': 'Resource type is required',
+    }),
+  resourceId: Joi.string()
+    .trim()
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'any.required': 'Resource ID is required',
+    }),
+  recordHash: recordHash
+    .required()
+    .messages({
+      'any.required': 'Record hash is required',
+    }),
+  reason: Joi.string()
+    .trim()
+    .max(1000)
+    .allow(null, '')
+    .optional(),
+});
+
+/**
+ * List signatures query validation
+ */
+export const listSignaturesSchema = Joi.object({
+  page: commonPatterns.pagination.page,
+  limit: commonPatterns.pagination.limit,
+  resourceType: Joi.string().trim().max(50).optional(),
+  resourceId: Joi.string().trim().max(100).optional(),
+  userId: commonPatterns.uuid.optional(),
+});
+
+/**
+ * Signature ID parameter validation
+ */
+export const signatureIdSchema = Joi.object({
+  signatureId: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid signature ID format',
+      'any.required': 'Signature ID is required',
+    }),
+});
+
+/**
+ * Verify signature validation schema. Without a record hash only the
+ * integrity of the signature is checked.
+ */
+export const verifySignatureSchema = Joi.object({
+  recordHash: recordHash.optional(),
+}).default(); // The body is optional
@@ -0,0 +1,57 @@
+import Joi from 'joi';
+import { commonPatterns } from '@middlewares/validation.middleware';
+
+/**
+ * Create SoD rule validation schema
+ */
+export const createSodRuleSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'any.required': 'Rule name is required',
+    }),
+  description: Joi.string()
+    .trim()
+    .max(500)
+    .allow(null, '')
+    .optional(),
+  roleIds: Joi.array()
+    .items(commonPatterns.uuid)
+    .min(2)
+    .unique()
+    .required()
+    .messages({
+      'array.min': 'A rule must constrain at least two roles',
+      'array.unique': 'Duplicate role IDs are not allowed',
+      'any.required': 'Role IDs are required',
+    }),
+  maxRoles: Joi.number()
+    .integer()
+    .min(1)
+    .optional()
+    .messages({
+      'number.min': 'maxRoles must be at least 1',
+    }),
+});
+
+/**
+ * Update SoD rule validation schema
+ */
+export const updateSodRuleSchema = createSodRuleSchema
+  .fork(['name', 'roleIds'], schema => schema.optional())
+  .min(1);
+
+/**
+ * SoD rule ID parameter validation
+ */
+export const sodRuleIdSchema = Joi.object({
+  ruleId: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid rule ID format',
+      'any.required': 'Rule ID is required',
+    }),
+});
@@ -0,0 +1,41 @@
+import Joi from 'joi';
+import { commonPatterns } from '@middlewares/validation.middleware';
+
+/**
+ * Register terminal validation schema
+ */
+export const createTerminalSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'any.required': 'Terminal name is required',
+    }),
+  location: Joi.string()
+    .trim()
+    .max(100)
+    .allow(null, '')
+    .optional(),
+  isActive: Joi.boolean().optional(),
+});
+
+/**
+ * Update terminal validation schema
+ */
+export const updateTerminalSchema = createTerminalSchema
+  .fork(['name'], schema => schema.optional())
+  .min(1);
+
+/**
+ * Terminal ID parameter validation
+ */
+export const terminalIdSchema = Joi.object({
+  terminalId: commonPatterns.uuid
+    .required()
+    .messages({
+      'string.guid': 'Invalid terminal ID format',
+      'any.required': 'Terminal ID is required',
+    }),
+});
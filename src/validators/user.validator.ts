@@ -1,5 +1,6 @@
 import Joi from 'joi';
 import { commonPatterns, createPaginationSchema, createSearchSchema } from '@middlewares/validation.middleware';
+import { roleValiditySchema } from './role.validator';
 
 /**
  * Create user validation schema
@@ -81,6 +82,22 @@ export const updateUserSchema = Joi.object({
     }),
   isActive: Joi.boolean()
     .optional(),
+  attributes: Joi.object()
+    .pattern(
+      Joi.string().pattern(/^[A-Za-z_][A-Za-z0-9_]*$/).max(50),
+      Joi.alternatives().try(
+        Joi.string().max(255),
+        Joi.number(),
+        Joi.boolean(),
+        Joi.array().items(Joi.string().max(255), Joi.number()).max(100)
+      )
+    )
+    .max(50)
+    .allow(null)
+    .optional()
+    .messages({
+      'object.max': 'A user can have at most 50 attributes',
+    }),
 }).min(1).messages({
   'object.min': 'At least one field must be provided for update',
 });
@@ -122,6 +139,23 @@ export const assignRoleSchema = Joi.object({
     }),
 });
 
+/**
+ * Replace user roles validation. `validity` limits when listed roles apply.
+ */
+export const updateUserRolesSchema = Joi.object({
+  roleIds: Joi.array().items(Joi.string().uuid()).unique().required(),
+  validity: Joi.object()
+    .pattern(commonPatterns.uuid, roleValiditySchema)
+    .optional(),
+}).custom((value: { roleIds: string[]; validity?: Record<string, unknown> }, helpers) => {
+  if (Object.keys(value.validity || {}).some(roleId => !value.roleIds.includes(roleId))) {
+    return helpers.error('custom.validityWithoutRole');
+  }
+  return value;
+}, 'Validity for listed roles').messages({
+  'custom.validityWithoutRole': 'Validity may only be given for roles in roleIds',
+});
+
 /**
  * Remove role from user validation
  */
@@ -177,4 +211,26 @@ export const updateUserPasswordSchema = Joi.object({
   sendNotification: Joi.boolean()
     .optional()
     .default(true),
-});
\ No newline at end of file
+});
+/**
+ * Assign badge validation schema. The PIN may be omitted when replacing a
+ * badge of a user who already has one.
+ */
+export const assignBadgeSchema = Joi.object({
+  badgeId: Joi.string()
+    .trim()
+    .pattern(/^[A-Za-z0-9:-]+$/)
+    .min(4)
+    .max(64)
+    .required()
+    .messages({
+      'string.pattern.base': 'Badge ID can only contain letters, numbers, colons and hyphens',
+      'any.required': 'Badge ID is required',
+    }),
+  pin: Joi.string()
+    .pattern(/^[0-9]{4,8}$/)
+    .optional()
+    .messages({
+      'string.pattern.base': 'PIN must be 4 to 8 digits',
+    }),
+});
@@ -0,0 +1,159 @@
+import { EventEmitter } from 'events';
+import { Request, Response, NextFunction } from 'express';
+import { AuditController } from '../../../src/controllers/audit.controller';
+import { AuditService, AuditLogEntry } from '../../../src/services/audit.service';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const entry = (overrides: Partial<AuditLogEntry> = {}): AuditLogEntry => ({
+  id: 'log-1',
+  userId: 'user-1',
+  action: 'role:update',
+  resource: 'role',
+  resourceId: 'role-1',
+  ipAddress: '10.0.0.5',
+  userAgent: 'Mozilla/5.0',
+  details: { changes: { name: 'line_lead' } },
+  createdAt: new Date('2024-07-01T08:00:00.000Z'),
+  user: { id: 'user-1', email: 'admin@example.com', username: 'admin' },
+  ...overrides
+});
+
+async function* stream(logs: AuditLogEntry[]): AsyncGenerator<AuditLogEntry> {
+  for (const log of logs) {
+    yield await Promise.resolve(log);
+  }
+}
+
+/**
+ * Minimal writable response that records everything written to it
+ */
+const createStreamResponse = () => {
+  const res = new EventEmitter() as any;
+  res.chunks = [] as string[];
+  res.headers = {} as Record<string, string>;
+  res.headersSent = false;
+  res.destroyed = false;
+  res.setHeader = jest.fn((name: string, value: string) => { res.headers[name] = value; });
+  res.write = jest.fn((chunk: string) => {
+    res.headersSent = true;
+    res.chunks.push(chunk);
+    return true;
+  });
+  res.end = jest.fn();
+  res.destroy = jest.fn(() => { res.destroyed = true; });
+  return res;
+};
+
+describe('AuditController', () => {
+  let next: jest.MockedFunction<NextFunction>;
+
+  const request = (validatedQuery: Record<string, unknown>) => ({
+    validatedQuery,
+    params: {},
+    user: { id: 'auditor-1' },
+    ip: '127.0.0.1',
+    get: jest.fn().mockReturnValue('jest')
+  }) as unknown as Request;
+
+  beforeEach(() => {
+    next = jest.fn();
+    jest.spyOn(AuditService, 'logDataAccess').mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getAuditLogs', () => {
+    it('should pass filters to the service and set pagination headers', async () => {
+      const getAuditLogs = jest.spyOn(AuditService, 'getAuditLogs').mockResolvedValue({
+        logs: [entry()],
+        total: 45
+      });
+      const res = { setHeader: jest.fn(), json: jest.fn() } as unknown as Response;
+
+      await AuditController.getAuditLogs(
+        request({ page: 2, limit: 20, resource: 'role', ipAddress: '10.0.0.5' }),
+        res,
+        next
+      );
+
+      expect(getAuditLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ resource: 'role', ipAddress: '10.0.0.5' }),
+        { page: 2, limit: 20 }
+      );
+      expect(res.setHeader).toHaveBeenCalledWith('X-Total-Count', 45);
+      expect(res.setHeader).toHaveBeenCalledWith('X-Total-Pages', 3);
+      expect(res.setHeader).toHaveBeenCalledWith('X-Has-Next', 'true');
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        success: true,
+        data: { logs: [entry()], total: 45 }
+      }));
+    });
+  });
+
+  describe('exportAuditLogs', () => {
+    it('should stream CSV with escaped values and audit the export', async () => {
+      jest.spyOn(AuditService, 'streamAuditLogs').mockReturnValue(stream([
+        entry(),
+        entry({ id: 'log-2', userAgent: '=HYPERLINK("http://evil")', user: undefined, details: null })
+      ]));
+      const res = createStreamResponse();
+
+      await AuditController.exportAuditLogs(request({ format: 'csv', resource: 'role' }), res, next);
+
+      const [header, first, second] = res.chunks.join('').trim().split('\n');
+      expect(res.headers['Content-Type']).toBe('text/csv; charset=utf-8');
+      expect(header).toBe('id,createdAt,userId,username,email,action,resource,resourceId,ipAddress,userAgent,details');
+      expect(first).toBe(
+        'log-1,2024-07-01T08:00:00.000Z,user-1,admin,admin@example.com,role:update,role,role-1,10.0.0.5,Mozilla/5.0,' +
+        '"{""changes"":{""name"":""line_lead""}}"'
+      );
+      expect(second).toContain(',"\'=HYPERLINK(""http://evil"")",');
+      expect(res.end).toHaveBeenCalled();
+      expect(AuditService.logDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'auditor-1',
+        action: 'export',
+        resource: 'audit',
+        dataType: 'csv',
+        recordCount: 2
+      }));
+    });
+
+    it('should stream one JSON document per line for NDJSON', async () => {
+      jest.spyOn(AuditService, 'streamAuditLogs').mockReturnValue(stream([entry(), entry({ id: 'log-2' })]));
+      const res = createStreamResponse();
+
+      await AuditController.exportAuditLogs(request({ format: 'ndjson' }), res, next);
+
+      const lines = res.chunks.join('').trim().split('\n').map((line: string) => JSON.parse(line));
+      expect(res.headers['Content-Type']).toBe('application/x-ndjson');
+      expect(lines.map((line: any) => line.id)).toEqual(['log-1', 'log-2']);
+      expect(lines[0].details).toEqual({ changes: { name: 'line_lead' } });
+    });
+
+    it('should abort the response when the stream fails midway', async () => {
+      async function* failing(): AsyncGenerator<AuditLogEntry> {
+        yield await Promise.resolve(entry());
+        throw new Error('connection lost');
+      }
+      jest.spyOn(AuditService, 'streamAuditLogs').mockReturnValue(failing());
+      const res = createStreamResponse();
+
+      await AuditController.exportAuditLogs(request({ format: 'ndjson' }), res, next);
+
+      expect(res.destroy).toHaveBeenCalled();
+      expect(res.end).not.toHaveBeenCalled();
+      expect(next).not.toHaveBeenCalled();
+      expect(AuditService.logDataAccess).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -148,7 +148,10 @@ describe('AuthController', () => {
 
       await AuthController.refreshToken(req as Request, res as Response, next);
 
-      expect(AuthService.refreshToken).toHaveBeenCalledWith(refreshToken);
+      expect(AuthService.refreshToken).toHaveBeenCalledWith(refreshToken, {
+        ipAddress: '127.0.0.1',
+        userAgent: 'Mozilla/5.0'
+      });
       expect(res.json).toHaveBeenCalled();
     });
 
@@ -0,0 +1,136 @@
+import { Request, Response, NextFunction } from 'express';
+import { RoleController } from '../../../src/controllers/role.controller';
+import { UserController } from '../../../src/controllers/user.controller';
+import { ServiceAccountController } from '../../../src/controllers/service-account.controller';
+import { ChangeRequestService } from '../../../src/services/change-request.service';
+import { RoleService } from '../../../src/services/role.service';
+import { UserService } from '../../../src/services/user.service';
+import { ServiceAccountService } from '../../../src/services/service-account.service';
+import { ChangeRequest } from '../../../src/models/ChangeRequest';
+import { sequelize } from '../../../src/config/database';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+/**
+ * Every endpoint that grants roles or permissions answers 202 with a pending
+ * change request instead of applying a high-risk grant
+ */
+describe('High-risk grants held for approval', () => {
+  const transaction = { commit: jest.fn(), rollback: jest.fn() };
+  const changeRequest = { id: 'cr-1', status: 'pending' } as ChangeRequest;
+  let next: jest.MockedFunction<NextFunction>;
+  let res: Response;
+
+  const request = (params: Record<string, string>, body: Record<string, unknown>) => ({
+    params,
+    body,
+    user: { id: 'admin-1' },
+    ip: '10.0.0.5',
+    get: jest.fn().mockReturnValue('jest')
+  }) as unknown as Request;
+
+  beforeEach(() => {
+    next = jest.fn();
+    res = { status: jest.fn().mockReturnThis(), json: jest.fn() } as unknown as Response;
+    jest.spyOn(sequelize, 'transaction').mockResolvedValue(transaction as any);
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should hold role updates that add wildcard permissions or parents', async () => {
+    const hold = jest.spyOn(ChangeRequestService, 'holdRoleUpdate').mockResolvedValue(changeRequest);
+    const apply = jest.spyOn(RoleService, 'updateRole');
+
+    await RoleController.updateRole(request({ roleId: 'role-1' }, { parentId: 'role-super' }), res, next);
+
+    expect(hold).toHaveBeenCalledWith('role-1', { parentId: 'role-super' }, 'admin-1', {
+      ipAddress: '10.0.0.5',
+      userAgent: 'jest'
+    });
+    expect(apply).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(202);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ data: { changeRequest } }));
+  });
+
+  it('should hold assigning a wildcard role to users', async () => {
+    const hold = jest.spyOn(ChangeRequestService, 'holdRoleUserAssignment').mockResolvedValue(changeRequest);
+    const apply = jest.spyOn(RoleService, 'assignUsersToRole');
+
+    await RoleController.assignUsersToRole(
+      request({ roleId: 'role-super' }, { userIds: ['user-1'], validUntil: '2030-01-01T00:00:00.000Z' }),
+      res,
+      next
+    );
+
+    expect(hold).toHaveBeenCalledWith('role-super', ['user-1'], 'admin-1', expect.anything(), undefined, {
+      validFrom: undefined,
+      validUntil: '2030-01-01T00:00:00.000Z'
+    });
+    expect(apply).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(202);
+  });
+
+  it('should create users without wildcard roles and request the roles for them', async () => {
+    jest.spyOn(ChangeRequestService, 'requiresApproval').mockResolvedValue(true);
+    const create = jest.spyOn(UserService, 'createUser').mockResolvedValue({ id: 'user-1' } as any);
+    const hold = jest.spyOn(ChangeRequestService, 'holdUserRoleUpdate').mockResolvedValue(changeRequest);
+
+    await UserController.createUser(
+      request({}, { email: 'jdoe@example.com', username: 'jdoe', password: 'Test@1234', roleIds: ['role-super'] }) as any,
+      res,
+      next
+    );
+
+    expect(create).toHaveBeenCalledWith(
+      { email: 'jdoe@example.com', username: 'jdoe', password: 'Test@1234', createdBy: 'admin-1' },
+      transaction
+    );
+    expect(hold).toHaveBeenCalledWith('user-1', ['role-super'], 'admin-1', expect.anything(), transaction);
+    expect(transaction.commit).toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(202);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ data: { user: { id: 'user-1' }, changeRequest } }));
+  });
+
+  it('should create service accounts without wildcard roles and request the roles for them', async () => {
+    jest.spyOn(ChangeRequestService, 'requiresApproval').mockResolvedValue(true);
+    const create = jest.spyOn(ServiceAccountService, 'createServiceAccount').mockResolvedValue({ id: 'svc-1' } as any);
+    const hold = jest.spyOn(ChangeRequestService, 'holdUserRoleUpdate').mockResolvedValue(changeRequest);
+
+    await ServiceAccountController.createServiceAccount(
+      request({}, { name: 'label_printer', roleIds: ['role-super'] }),
+      res,
+      next
+    );
+
+    expect(create).toHaveBeenCalledWith({ name: 'label_printer' }, 'admin-1', transaction);
+    expect(hold).toHaveBeenCalledWith('svc-1', ['role-super'], 'admin-1', expect.anything(), transaction);
+    expect(res.status).toHaveBeenCalledWith(202);
+  });
+
+  it('should hold wildcard roles added to a service account and apply its other changes', async () => {
+    jest.spyOn(ServiceAccountService, 'getServiceAccountById').mockResolvedValue({ id: 'svc-1' } as any);
+    const hold = jest.spyOn(ChangeRequestService, 'holdUserRoleUpdate').mockResolvedValue(changeRequest);
+    const update = jest.spyOn(ServiceAccountService, 'updateServiceAccount').mockResolvedValue({ id: 'svc-1' } as any);
+
+    await ServiceAccountController.updateServiceAccount(
+      request({ accountId: 'svc-1' }, { isActive: false, roleIds: ['role-super'] }),
+      res,
+      next
+    );
+
+    expect(hold).toHaveBeenCalledWith('svc-1', ['role-super'], 'admin-1', expect.anything(), transaction);
+    expect(update).toHaveBeenCalledWith('svc-1', { isActive: false }, 'admin-1', transaction);
+    expect(transaction.commit).toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(202);
+  });
+});
@@ -7,6 +7,7 @@ import { sequelize } from '../../../src/config/database';
 
 // Mock dependencies
 jest.mock('../../../src/services/user.service');
+jest.mock('../../../src/services/change-request.service');
 jest.mock('../../../src/config/database', () => ({
   sequelize: {
     transaction: jest.fn()
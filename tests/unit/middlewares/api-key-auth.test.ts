@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction } from 'express';
+import { authenticate, requirePermission } from '../../../src/middlewares/auth.middleware';
+import { User } from '../../../src/models/User';
+import { ApiKey } from '../../../src/models/ApiKey';
+import { PermissionCacheService } from '../../../src/services/permission-cache.service';
+import { ServiceAccountService } from '../../../src/services/service-account.service';
+import { AuditService } from '../../../src/services/audit.service';
+import { ErrorCode } from '../../../src/types';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const serviceAccount = { id: 'svc-1', username: 'label_printer', email: 'label_printer@service-accounts.invalid', isActive: true, isServiceAccount: true };
+
+const buildKey = (overrides: Partial<ApiKey> = {}) => {
+  const { key, prefix, keyHash } = ApiKey.generate();
+  const apiKey = ApiKey.build({ id: 'key-1', userId: 'svc-1', name: 'line 1', prefix, keyHash, scopes: null, ...overrides } as any);
+  jest.spyOn(apiKey, 'update').mockResolvedValue(apiKey);
+  return { key, apiKey };
+};
+
+const run = async (headers: Record<string, string>) => {
+  const req = { headers, ip: '10.0.0.7' } as unknown as Request;
+  const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+  await authenticate(req, {} as Response, next);
+
+  return { req, error: next.mock.calls[0][0] as any };
+};
+
+describe('API key authentication', () => {
+  beforeEach(() => {
+    jest.spyOn(User, 'findByPk').mockResolvedValue(serviceAccount as any);
+    jest.spyOn(PermissionCacheService, 'getEffectivePermissions').mockResolvedValue({
+      userId: 'svc-1',
+      isSuperuser: false,
+      roles: [{ id: 'role-1', name: 'label_service', direct: true, permissions: ['label:*', 'workorder:read'] }],
+      permissions: ['label:*', 'workorder:read']
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('authenticate', () => {
+    it('should populate the request user from an X-API-Key header', async () => {
+      const { key, apiKey } = buildKey();
+      const findOne = jest.spyOn(ApiKey, 'findOne').mockResolvedValue(apiKey);
+
+      const { req, error } = await run({ 'x-api-key': key });
+
+      expect(error).toBeUndefined();
+      expect(findOne).toHaveBeenCalledWith({ where: { prefix: apiKey.prefix } });
+      expect(req.user).toMatchObject({
+        id: 'svc-1',
+        username: 'label_printer',
+        roles: ['label_service'],
+        permissions: ['label:*', 'workorder:read'],
+        isSuperuser: false,
+        isServiceAccount: true,
+        apiKeyId: 'key-1'
+      });
+      expect(apiKey.update).toHaveBeenCalledWith({ lastUsedAt: expect.any(Date), lastUsedIp: '10.0.0.7' });
+    });
+
+    it('should let requirePermission enforce the key scopes unchanged', async () => {
+      const { key, apiKey } = buildKey({ scopes: ['label:print'] });
+      jest.spyOn(ApiKey, 'findOne').mockResolvedValue(apiKey);
+      const { req } = await run({ 'x-api-key': key });
+      const check = (permission: string) => {
+        const next = jest.fn();
+        requirePermission(permission)(req, {} as Response, next);
+        return next.mock.calls[0][0];
+      };
+
+      expect(req.user!.permissions).toEqual(['label:print']);
+      expect(check('label:print')).toBeUndefined();
+      expect(check('workorder:read')).toMatchObject({ code: ErrorCode.AUTH_INSUFFICIENT_PERMISSIONS });
+    });
+
+    it('should reject a key whose secret does not match', async () => {
+      const { key, apiKey } = buildKey();
+      jest.spyOn(ApiKey, 'findOne').mockResolvedValue(apiKey);
+
+      const { error } = await run({ 'x-api-key': `${key.slice(0, -1)}${key.endsWith('A') ? 'B' : 'A'}` });
+
+      expect(error).toMatchObject({ code: ErrorCode.AUTH_INVALID_CREDENTIALS, message: 'Invalid API key' });
+    });
+
+    it('should reject malformed, revoked and expired keys', async () => {
+      const findOne = jest.spyOn(ApiKey, 'findOne');
+
+      expect((await run({ 'x-api-key': 'not-a-key' })).error).toMatchObject({ code: ErrorCode.AUTH_INVALID_CREDENTIALS });
+      expect(findOne).not.toHaveBeenCalled();
+
+      const revoked = buildKey({ revokedAt: new Date() });
+      findOne.mockResolvedValue(revoked.apiKey);
+      expect((await run({ 'x-api-key': revoked.key })).error).toMatchObject({ code: ErrorCode.AUTH_TOKEN_INVALID });
+
+      const expired = buildKey({ expiresAt: new Date(Date.now() - 1000) });
+      findOne.mockResolvedValue(expired.apiKey);
+      expect((await run({ 'x-api-key': expired.key })).error).toMatchObject({ code: ErrorCode.AUTH_TOKEN_EXPIRED });
+    });
+
+    it('should reject keys of inactive service accounts', async () => {
+      const { key, apiKey } = buildKey();
+      jest.spyOn(ApiKey, 'findOne').mockResolvedValue(apiKey);
+      jest.spyOn(User, 'findByPk').mockResolvedValue({ ...serviceAccount, isActive: false } as any);
+
+      const { error } = await run({ 'x-api-key': key });
+
+      expect(error).toMatchObject({ code: ErrorCode.AUTH_ACCOUNT_DISABLED });
+    });
+
+    it('should reject requests carrying both a bearer token and an API key', async () => {
+      const { key } = buildKey();
+
+      const { error } = await run({ 'x-api-key': key, authorization: 'Bearer token' });
+
+      expect(error).toMatchObject({ code: ErrorCode.AUTH_INVALID_CREDENTIALS });
+    });
+  });
+
+  describe('ServiceAccountService.scopePermissions', () => {
+    it('should narrow wildcards to the scopes', () => {
+      expect(ServiceAccountService.scopePermissions(['user:*', 'role:read', 'audit:export'], ['*:read'])).toEqual([
+        'user:read',
+        'role:read'
+      ]);
+      expect(ServiceAccountService.scopePermissions(['label:print'], ['label:*'])).toEqual(['label:print']);
+      expect(ServiceAccountService.scopePermissions(['label:print'], null)).toEqual(['label:print']);
+    });
+  });
+
+  describe('ServiceAccountService.rotateApiKey', () => {
+    it('should issue a replacement and keep the old key valid for the grace period', async () => {
+      const { apiKey } = buildKey({ scopes: ['label:*'] });
+      jest.spyOn(ApiKey, 'findOne').mockResolvedValue(apiKey);
+      const create = jest.spyOn(ApiKey, 'create').mockImplementation(async (values: any) => ApiKey.build({ ...values, id: 'key-2' }));
+      jest.spyOn(AuditService, 'log').mockResolvedValue({} as any);
+
+      const before = Date.now();
+      const { apiKey: replacement, key } = await ServiceAccountService.rotateApiKey('svc-1', 'key-1', 30, 'admin-1');
+
+      expect(key).toMatch(/^mes_[0-9a-f]{12}_/);
+      expect(replacement.keyHash).toBe(ApiKey.hashKey(key));
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({ userId: 'svc-1', scopes: ['label:*'] }), expect.anything());
+
+      const [[changes]] = (apiKey.update as jest.Mock).mock.calls;
+      expect(changes.replacedBy).toBe('key-2');
+      expect(changes.revokedAt).toBeUndefined();
+      expect(changes.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 30 * 60 * 1000);
+    });
+  });
+});
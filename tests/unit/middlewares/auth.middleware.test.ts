@@ -348,6 +348,28 @@ describe('Auth Middleware', () => {
       expect(mockNext).toHaveBeenCalledWith();
     });
 
+    it('should deny access for a permission denied under a wildcard', () => {
+      mockReq.user = {
+        id: 'user-123',
+        username: 'testuser',
+        email: 'test@example.com',
+        roles: [],
+        permissions: ['workorder:*'],
+        deniedPermissions: ['workorder:delete'],
+        isSuperuser: false,
+        isActive: true,
+        createdAt: new Date('2023-01-01'),
+        updatedAt: new Date('2023-01-01')
+      };
+
+      const middleware = requirePermission('workorder:delete');
+      middleware(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Insufficient permissions', statusCode: 403 })
+      );
+    });
+
     it('should allow access for superuser', () => {
       mockReq.user = {
         id: 'user-123',
@@ -490,8 +512,9 @@ describe('Auth Middleware', () => {
       expect(JWTUtil.verifyRefreshToken).toHaveBeenCalledWith(refreshToken);
       expect(RefreshToken.findOne).toHaveBeenCalledWith({
         where: {
-          token: refreshToken,
-          userId: 'user-123'
+          id: 'token-456',
+          userId: 'user-123',
+          tokenHash: RefreshToken.hashToken(refreshToken)
         }
       });
       expect(mockReq.user).toEqual({
@@ -12,6 +12,7 @@ import {
 import permissionService from '../../../src/services/permission.service';
 import { logger } from '../../../src/utils/logger';
 import { ApiError } from '../../../src/utils/ApiError';
+import { OrgUnit } from '../../../src/models/OrgUnit';
 
 jest.mock('../../../src/services/permission.service');
 jest.mock('../../../src/utils/logger', () => ({
@@ -83,6 +84,17 @@ describe('Permission Middleware', () => {
       expect(mockNext).toHaveBeenCalledWith();
     });
 
+    it('should let denied permissions override wildcard grants', () => {
+      mockReq.user!.permissions = ['user:*'];
+      mockReq.user!.deniedPermissions = ['user:delete'];
+
+      requirePermission('user:update')(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockNext).toHaveBeenLastCalledWith();
+
+      requirePermission('user:delete')(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockNext).toHaveBeenLastCalledWith(expect.objectContaining({ statusCode: 403 }));
+    });
+
     it('should handle multiple permissions with OR logic', () => {
       const middleware = requirePermission(['user:delete', 'user:read']);
       middleware(mockReq as Request, mockRes as Response, mockNext);
@@ -114,6 +126,89 @@ describe('Permission Middleware', () => {
       expect(mockNext).toHaveBeenCalledWith();
     });
 
+    it('should add permissions assigned at the org unit or above when scoped', async () => {
+      const getScopeChain = jest.spyOn(OrgUnit, 'getScopeChain').mockResolvedValue(['line-3', 'area-1', 'site-1']);
+      mockReq.params = { lineId: 'line-3' };
+      mockReq.user!.scopedPermissions = {
+        'area-1': { permissions: ['workorder:*'], deniedPermissions: ['workorder:delete'] },
+        'area-2': { permissions: ['quality:approve'] }
+      };
+      const scope = (req: Request) => req.params.lineId;
+
+      await requirePermission('workorder:update', { scope })(mockReq as Request, mockRes as Response, mockNext);
+      expect(getScopeChain).toHaveBeenCalledWith('line-3');
+      expect(mockNext).toHaveBeenLastCalledWith();
+
+      await requirePermission('workorder:delete', { scope })(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockNext).toHaveBeenLastCalledWith(expect.objectContaining({ statusCode: 403 }));
+
+      await requirePermission('quality:approve', { scope })(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockNext).toHaveBeenLastCalledWith(expect.objectContaining({ statusCode: 403 }));
+
+      // Unscoped routes see the global permissions only
+      await requirePermission('workorder:update')(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockNext).toHaveBeenLastCalledWith(expect.objectContaining({ statusCode: 403 }));
+
+      getScopeChain.mockRestore();
+    });
+
+    it('should grant conditional permissions only when their condition holds for the resource', async () => {
+      mockReq.params = { id: 'wo-1' };
+      mockReq.user!.attributes = { lines: ['LINE-3'] };
+      mockReq.user!.conditionalPermissions = [
+        { permission: 'workorder:update', effect: 'allow', condition: 'resource.lineCode in user.lines' },
+        { permission: 'workorder:*', effect: 'deny', condition: "resource.status == 'closed'" }
+      ];
+      const workOrders: Record<string, Record<string, unknown>> = {
+        'wo-1': { lineCode: 'LINE-3', status: 'released' },
+        'wo-2': { lineCode: 'LINE-4', status: 'released' },
+        'wo-3': { lineCode: 'LINE-3', status: 'closed' }
+      };
+      const resource = jest.fn((req: Request) => workOrders[req.params.id]);
+
+      await requirePermission('workorder:update', { resource })(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockNext).toHaveBeenLastCalledWith();
+
+      mockReq.params = { id: 'wo-2' };
+      await requirePermission('workorder:update', { resource })(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockNext).toHaveBeenLastCalledWith(expect.objectContaining({ statusCode: 403 }));
+
+      mockReq.params = { id: 'wo-3' };
+      await requirePermission('workorder:update', { resource })(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockNext).toHaveBeenLastCalledWith(expect.objectContaining({ statusCode: 403 }));
+
+      // Without a resource the conditions are undecided: the allow does not grant and the deny applies
+      await requirePermission('workorder:update')(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockNext).toHaveBeenLastCalledWith(expect.objectContaining({ statusCode: 403 }));
+      await requirePermission('user:read')(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockNext).toHaveBeenLastCalledWith();
+
+      // Routes whose permissions no condition bears on never resolve the resource
+      resource.mockClear();
+      await requirePermission('user:read', { resource })(mockReq as Request, mockRes as Response, mockNext);
+      expect(resource).not.toHaveBeenCalled();
+    });
+
+    it('should pass the resolved org unit to database checks', async () => {
+      const getScopeChain = jest.spyOn(OrgUnit, 'getScopeChain').mockResolvedValue(['line-3']);
+      (permissionService.checkUserPermission as jest.Mock).mockResolvedValue({
+        hasPermission: true,
+        source: 'role:line_lead (scoped)'
+      });
+      mockReq.params = { lineId: 'line-3' };
+
+      const middleware = requirePermission('workorder:update', {
+        checkDatabase: true,
+        scope: req => req.params.lineId
+      });
+      await middleware(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(permissionService.checkUserPermission).toHaveBeenCalledWith('user-123', 'workorder:update', 'line-3');
+      expect(mockNext).toHaveBeenCalledWith();
+
+      getScopeChain.mockRestore();
+    });
+
     it('should require authentication', () => {
       delete mockReq.user;
       const middleware = requirePermission('user:read');
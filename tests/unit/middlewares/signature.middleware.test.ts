@@ -0,0 +1,67 @@
+import { Request, Response, NextFunction } from 'express';
+import { requireSignature } from '../../../src/middlewares/signature.middleware';
+import { SignatureService } from '../../../src/services/signature.service';
+import { ErrorCode } from '../../../src/types';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const run = async (middleware: ReturnType<typeof requireSignature>, headers: Record<string, string>) => {
+  const req = {
+    headers,
+    get: (name: string) => headers[name.toLowerCase()],
+    params: { batchId: 'B-1042' },
+    method: 'POST',
+    originalUrl: '/api/batches/B-1042/release',
+    ip: '10.0.0.7',
+    user: { id: 'user-1' }
+  } as unknown as Request;
+  const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+  await middleware(req, {} as Response, next);
+
+  return { req, error: next.mock.calls[0][0] as any };
+};
+
+describe('requireSignature', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should ask for a signature when none is sent', async () => {
+    const consume = jest.spyOn(SignatureService, 'consumeSignature');
+
+    const { error } = await run(requireSignature('quality:approve'), {});
+
+    expect(error).toMatchObject({
+      code: ErrorCode.SIGNATURE_REQUIRED,
+      statusCode: 428,
+      details: { permission: 'quality:approve' }
+    });
+    expect(consume).not.toHaveBeenCalled();
+  });
+
+  it('should use the signature for the guarded record and expose it on the request', async () => {
+    const signature = { id: 'sig-1' };
+    const consume = jest.spyOn(SignatureService, 'consumeSignature').mockResolvedValue(signature as any);
+
+    const { req, error } = await run(
+      requireSignature('quality:approve', { resourceType: 'batch', resourceIdParam: 'batchId' }),
+      { 'x-signature-id': 'sig-1' }
+    );
+
+    expect(error).toBeUndefined();
+    expect(req.signature).toBe(signature);
+    expect(consume).toHaveBeenCalledWith('sig-1', 'user-1', 'quality:approve', expect.objectContaining({
+      action: 'POST /api/batches/B-1042/release',
+      resourceType: 'batch',
+      resourceId: 'B-1042'
+    }));
+  });
+});
@@ -0,0 +1,126 @@
+import { Request, Response, NextFunction } from 'express';
+import { authenticate } from '../../../src/middlewares/auth.middleware';
+import { User } from '../../../src/models/User';
+import { Role } from '../../../src/models/Role';
+import { UserRole } from '../../../src/models/UserRole';
+import { ScopedRoleAssignment } from '../../../src/models/ScopedRoleAssignment';
+import { RevokedToken } from '../../../src/models/RevokedToken';
+import { PermissionVersionService } from '../../../src/services/permission-version.service';
+import { PermissionCacheService } from '../../../src/services/permission-cache.service';
+import { JWTUtil } from '../../../src/utils/jwt.util';
+import { ErrorCode } from '../../../src/types';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const issueToken = (permissionsVersion?: number) => JWTUtil.generateAccessToken({
+  sub: 'user-1',
+  username: 'operator',
+  email: 'operator@example.com',
+  roles: ['operator'],
+  permissions: ['workorder:read'],
+  permissionsVersion
+});
+
+const run = async (token: string) => {
+  const req = { headers: { authorization: `Bearer ${token}` } } as Request;
+  const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+  await authenticate(req, {} as Response, next);
+
+  return { req, error: next.mock.calls[0][0] as any };
+};
+
+describe('Access token revocation', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('authenticate', () => {
+    beforeEach(() => {
+      jest.spyOn(RevokedToken, 'isRevoked').mockResolvedValue(false);
+    });
+
+    it('should expose the token ID and expiry of a valid token', async () => {
+      jest.spyOn(User, 'findByPk').mockResolvedValue({ id: 'user-1', isActive: true, permissionsVersion: 3 } as any);
+      const token = issueToken(3);
+      const { jti, exp } = JWTUtil.decodeToken(token) as any;
+
+      const { req, error } = await run(token);
+
+      expect(error).toBeUndefined();
+      expect(jti).toEqual(expect.any(String));
+      expect(req.user!.tokenId).toBe(jti);
+      expect(req.user!.tokenExpiresAt).toEqual(new Date(exp * 1000));
+    });
+
+    it('should reject a token on the revocation list', async () => {
+      const isRevoked = jest.spyOn(RevokedToken, 'isRevoked').mockResolvedValue(true);
+      const findByPk = jest.spyOn(User, 'findByPk');
+      const token = issueToken(0);
+
+      const { error } = await run(token);
+
+      expect(isRevoked).toHaveBeenCalledWith((JWTUtil.decodeToken(token) as any).jti);
+      expect(error).toMatchObject({ code: ErrorCode.AUTH_TOKEN_INVALID, message: 'Token has been revoked' });
+      expect(findByPk).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token issued before the permissions changed', async () => {
+      jest.spyOn(User, 'findByPk').mockResolvedValue({ id: 'user-1', isActive: true, permissionsVersion: 4 } as any);
+
+      const { error } = await run(issueToken(3));
+
+      expect(error).toMatchObject({ code: ErrorCode.AUTH_TOKEN_EXPIRED, statusCode: 401 });
+    });
+  });
+
+  describe('PermissionVersionService', () => {
+    it('should bump holders of the role and of roles inheriting from it, globally and within org units', async () => {
+      jest.spyOn(Role, 'getDescendantIds').mockResolvedValue(['line_lead']);
+      const findAll = jest.spyOn(UserRole, 'findAll').mockResolvedValue([
+        { userId: 'user-1' },
+        { userId: 'user-2' },
+        { userId: 'user-1' }
+      ] as any);
+      const findScoped = jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([
+        { userId: 'user-3' }
+      ] as any);
+      const increment = jest.spyOn(User, 'increment').mockResolvedValue([] as any);
+      const invalidate = jest.spyOn(PermissionCacheService, 'invalidateUsers').mockResolvedValue();
+
+      await PermissionVersionService.bumpRoleHolders('operator');
+
+      expect(findAll).toHaveBeenCalledWith(expect.objectContaining({
+        where: { roleId: ['operator', 'line_lead'] }
+      }));
+      expect(findScoped).toHaveBeenCalledWith(expect.objectContaining({
+        where: { roleId: ['operator', 'line_lead'] }
+      }));
+      expect(increment).toHaveBeenCalledWith('permissionsVersion', expect.objectContaining({
+        by: 1,
+        where: { id: ['user-1', 'user-2', 'user-3'] }
+      }));
+      expect(invalidate).toHaveBeenCalledWith(['user-1', 'user-2', 'user-3'], undefined);
+    });
+
+    it('should find descendants through multiple levels of the hierarchy', async () => {
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'operator', parentId: null },
+        { id: 'line_lead', parentId: 'operator' },
+        { id: 'shift_supervisor', parentId: 'line_lead' },
+        { id: 'viewer', parentId: null }
+      ] as any);
+
+      const result = await Role.getDescendantIds('operator');
+
+      expect(result.sort()).toEqual(['line_lead', 'shift_supervisor']);
+    });
+  });
+});
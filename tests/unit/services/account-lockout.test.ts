@@ -0,0 +1,133 @@
+import { User } from '../../../src/models/User';
+import { AuthService } from '../../../src/services/auth.service';
+import { AuditService } from '../../../src/services/audit.service';
+import { UserService } from '../../../src/services/user.service';
+import { BcryptUtil } from '../../../src/utils/bcrypt.util';
+import { config } from '../../../src/config';
+import { ErrorCode } from '../../../src/types';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const buildUser = (overrides: Partial<Record<string, any>> = {}) => ({
+  id: 'user-1',
+  email: 'user@example.com',
+  password: 'hashed',
+  isActive: true,
+  emailVerified: true,
+  failedLoginAttempts: 0,
+  lockoutCount: 0,
+  lockedUntil: null,
+  update: jest.fn().mockResolvedValue(undefined),
+  isLocked(this: { lockedUntil: Date | null }) {
+    return !!this.lockedUntil && this.lockedUntil > new Date();
+  },
+  ...overrides
+});
+
+describe('Account lockout', () => {
+  const credentials = { username: 'user@example.com', password: 'WrongPass123!' };
+  const originalLockout = { ...config.security.lockout };
+
+  beforeEach(() => {
+    config.security.lockout = { maxAttempts: 3, baseDurationMinutes: 15, maxDurationMinutes: 60 };
+  });
+
+  afterEach(() => {
+    config.security.lockout = originalLockout;
+    jest.restoreAllMocks();
+  });
+
+  describe('AuthService.login', () => {
+    it('should count failed attempts below the threshold', async () => {
+      const user = buildUser({ failedLoginAttempts: 1 });
+      jest.spyOn(User, 'findOne').mockResolvedValue(user as any);
+      jest.spyOn(BcryptUtil, 'comparePassword').mockResolvedValue(false);
+
+      await expect(AuthService.login(credentials))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_INVALID_CREDENTIALS });
+      expect(user.update).toHaveBeenCalledWith({ failedLoginAttempts: 2 }, expect.anything());
+    });
+
+    it('should lock the account when the threshold is reached and audit it', async () => {
+      const user = buildUser({ failedLoginAttempts: 2 });
+      jest.spyOn(User, 'findOne').mockResolvedValue(user as any);
+      jest.spyOn(BcryptUtil, 'comparePassword').mockResolvedValue(false);
+      const logAuth = jest.spyOn(AuditService, 'logAuth').mockResolvedValue({} as any);
+
+      await expect(AuthService.login(credentials))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_TOO_MANY_ATTEMPTS, statusCode: 429 });
+
+      const update = user.update.mock.calls[0][0];
+      expect(update).toMatchObject({ failedLoginAttempts: 0, lockoutCount: 1 });
+      const minutes = (update.lockedUntil.getTime() - Date.now()) / 60000;
+      expect(minutes).toBeGreaterThan(14);
+      expect(minutes).toBeLessThanOrEqual(15);
+      expect(logAuth).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'account_locked', userId: 'user-1', success: false }),
+        undefined
+      );
+    });
+
+    it('should double the lock duration for consecutive lockouts up to the maximum', async () => {
+      const user = buildUser({ failedLoginAttempts: 2, lockoutCount: 3 });
+      jest.spyOn(User, 'findOne').mockResolvedValue(user as any);
+      jest.spyOn(BcryptUtil, 'comparePassword').mockResolvedValue(false);
+      jest.spyOn(AuditService, 'logAuth').mockResolvedValue({} as any);
+
+      await expect(AuthService.login(credentials)).rejects.toBeDefined();
+
+      const update = user.update.mock.calls[0][0];
+      const minutes = (update.lockedUntil.getTime() - Date.now()) / 60000;
+      // 15 * 2^3 = 120 minutes, capped at 60
+      expect(minutes).toBeGreaterThan(59);
+      expect(minutes).toBeLessThanOrEqual(60);
+    });
+
+    it('should reject a locked account without checking the password', async () => {
+      const user = buildUser({ lockedUntil: new Date(Date.now() + 60000) });
+      jest.spyOn(User, 'findOne').mockResolvedValue(user as any);
+      const compare = jest.spyOn(BcryptUtil, 'comparePassword');
+
+      await expect(AuthService.login(credentials))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_TOO_MANY_ATTEMPTS });
+      expect(compare).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('UserService.unlockUser', () => {
+    it('should clear lockout state and audit the unlock', async () => {
+      const user = buildUser({ lockoutCount: 2, lockedUntil: new Date(Date.now() + 60000) });
+      jest.spyOn(User, 'findByPk').mockResolvedValue(user as any);
+      const logAuth = jest.spyOn(AuditService, 'logAuth').mockResolvedValue({} as any);
+
+      await UserService.unlockUser('user-1', 'admin-1');
+
+      expect(user.update).toHaveBeenCalledWith(
+        { failedLoginAttempts: 0, lockoutCount: 0, lockedUntil: null },
+        expect.anything()
+      );
+      expect(logAuth).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'account_unlocked',
+          userId: 'user-1',
+          details: expect.objectContaining({ unlockedBy: 'admin-1' })
+        }),
+        undefined
+      );
+    });
+
+    it('should reject unlocking an account that is not locked', async () => {
+      jest.spyOn(User, 'findByPk').mockResolvedValue(buildUser() as any);
+
+      await expect(UserService.unlockUser('user-1', 'admin-1'))
+        .rejects.toThrow('User account is not locked');
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { User } from '../../../src/models/User';
+import { Role } from '../../../src/models/Role';
+import { Terminal } from '../../../src/models/Terminal';
+import { AuditLog } from '../../../src/models/AuditLog';
+import { AuthService } from '../../../src/services/auth.service';
+import { AuditService } from '../../../src/services/audit.service';
+import { UserService } from '../../../src/services/user.service';
+import { PermissionCacheService } from '../../../src/services/permission-cache.service';
+import { BcryptUtil } from '../../../src/utils/bcrypt.util';
+import { JWTUtil, JWTPayload } from '../../../src/utils/jwt.util';
+import { config } from '../../../src/config';
+import { ErrorCode } from '../../../src/types';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const PIN = '4711';
+
+const buildUser = (overrides: Partial<Record<string, any>> = {}) => ({
+  id: 'user-1',
+  username: 'operator1',
+  email: 'operator1@example.com',
+  isActive: true,
+  isSuperuser: false,
+  isServiceAccount: false,
+  permissionsVersion: 2,
+  failedLoginAttempts: 0,
+  lockoutCount: 0,
+  lockedUntil: null,
+  badgeIdHash: User.hashBadgeId('04A2B3C4'),
+  pinHash: 'hashed-pin',
+  update: jest.fn().mockResolvedValue(undefined),
+  validatePin: jest.fn(async (pin: string) => pin === PIN),
+  isLocked(this: { lockedUntil: Date | null }) {
+    return !!this.lockedUntil && this.lockedUntil > new Date();
+  },
+  ...overrides
+});
+
+describe('Badge login', () => {
+  const originalLockout = { ...config.security.lockout };
+  let terminal: Terminal;
+  let terminalKey: string;
+
+  beforeEach(() => {
+    config.security.lockout = { maxAttempts: 3, baseDurationMinutes: 15, maxDurationMinutes: 60 };
+
+    const generated = Terminal.generateKey();
+    terminalKey = generated.key;
+    terminal = Terminal.build({
+      id: 'terminal-1',
+      name: 'Line 3 Cell 2',
+      prefix: generated.prefix,
+      keyHash: generated.keyHash,
+      isActive: true,
+      lastUsedAt: new Date()
+    });
+    jest.spyOn(terminal, 'update').mockResolvedValue(terminal);
+
+    jest.spyOn(Terminal, 'findOne').mockImplementation(async (options: any) =>
+      (options.where.prefix === terminal.prefix ? terminal : null) as any
+    );
+    jest.spyOn(Role, 'findOne').mockResolvedValue({ id: 'role-operator' } as any);
+    jest.spyOn(Role, 'getEffectiveRoleIds').mockResolvedValue(['role-operator']);
+    jest.spyOn(Role, 'findAll').mockResolvedValue([
+      { id: 'role-operator', permissions: [{ name: 'production:*' }, { name: 'workorder:read' }] }
+    ] as any);
+    jest.spyOn(PermissionCacheService, 'getEffectivePermissions').mockResolvedValue({
+      userId: 'user-1',
+      isSuperuser: false,
+      roles: [{ id: 'role-supervisor', name: 'supervisor', direct: true, permissions: [] }],
+      permissions: ['production:view', 'production:update', 'workorder:read', 'user:update']
+    });
+    jest.spyOn(AuditLog, 'create').mockResolvedValue({} as any);
+    jest.spyOn(AuditService, 'logAuth').mockResolvedValue({} as any);
+    jest.spyOn(AuditService, 'log').mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    config.security.lockout = originalLockout;
+    jest.restoreAllMocks();
+  });
+
+  describe('AuthService.badgeLogin', () => {
+    it('should issue a short-lived token limited to the badge login role', async () => {
+      const user = buildUser();
+      jest.spyOn(User, 'findOne').mockResolvedValue(user as any);
+
+      const result = await AuthService.badgeLogin({ badgeId: '04a2b3c4', pin: PIN }, terminalKey);
+
+      expect(User.findOne).toHaveBeenCalledWith(expect.objectContaining({
+        where: { badgeIdHash: User.hashBadgeId('04A2B3C4') }
+      }));
+      expect(result.tokens.expiresIn).toBe(config.badgeLogin.tokenTtlSeconds);
+      expect(result.tokens).not.toHaveProperty('refreshToken');
+
+      const payload = JWTUtil.decodeToken(result.tokens.accessToken) as JWTPayload;
+      expect(payload.exp! - payload.iat!).toBe(config.badgeLogin.tokenTtlSeconds);
+      expect(payload.terminalId).toBe('terminal-1');
+      expect(payload.roles).toEqual([]);
+      expect(payload.permissions.sort()).toEqual(['production:update', 'production:view', 'workorder:read']);
+      expect(Role.findOne).toHaveBeenCalledWith({ where: { name: config.badgeLogin.role } });
+
+      expect(user.update).toHaveBeenCalledWith(
+        expect.objectContaining({ failedLoginAttempts: 0, lockedUntil: null }),
+        expect.anything()
+      );
+      expect(AuditLog.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'USER_LOGIN',
+          details: expect.objectContaining({ loginMethod: 'badge', terminalId: 'terminal-1' })
+        }),
+        expect.anything()
+      );
+    });
+
+    it('should limit a superuser to the badge login role', async () => {
+      jest.spyOn(User, 'findOne').mockResolvedValue(buildUser({ isSuperuser: true }) as any);
+
+      const result = await AuthService.badgeLogin({ badgeId: '04A2B3C4', pin: PIN }, terminalKey);
+
+      const payload = JWTUtil.decodeToken(result.tokens.accessToken) as JWTPayload;
+      expect(payload.permissions.sort()).toEqual(['production:*', 'workorder:read']);
+    });
+
+    it('should refuse requests without a valid terminal key', async () => {
+      jest.spyOn(User, 'findOne');
+      const forged = `term_${terminal.prefix}_${'A'.repeat(43)}`;
+
+      await expect(AuthService.badgeLogin({ badgeId: '04A2B3C4', pin: PIN }, undefined))
+        .rejects.toMatchObject({ statusCode: 401, message: 'Invalid terminal key' });
+      await expect(AuthService.badgeLogin({ badgeId: '04A2B3C4', pin: PIN }, forged))
+        .rejects.toMatchObject({ statusCode: 401, message: 'Invalid terminal key' });
+      expect(User.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should refuse inactive terminals', async () => {
+      terminal.isActive = false;
+
+      await expect(AuthService.badgeLogin({ badgeId: '04A2B3C4', pin: PIN }, terminalKey))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_ACCOUNT_DISABLED, statusCode: 401 });
+    });
+
+    it('should count a wrong PIN as a failed login and audit it', async () => {
+      const user = buildUser({ failedLoginAttempts: 1 });
+      jest.spyOn(User, 'findOne').mockResolvedValue(user as any);
+
+      await expect(AuthService.badgeLogin({ badgeId: '04A2B3C4', pin: '0000' }, terminalKey))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_INVALID_CREDENTIALS, message: 'Invalid badge or PIN' });
+
+      expect(user.update).toHaveBeenCalledWith({ failedLoginAttempts: 2 }, expect.anything());
+      expect(AuditService.logAuth).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'failed_login',
+          userId: 'user-1',
+          details: expect.objectContaining({ loginMethod: 'badge', terminalId: 'terminal-1', reason: 'invalid_pin' })
+        }),
+        undefined
+      );
+    });
+
+    it('should answer an unknown badge like a wrong PIN', async () => {
+      jest.spyOn(User, 'findOne').mockResolvedValue(null);
+
+      await expect(AuthService.badgeLogin({ badgeId: 'FFFFFFFF', pin: PIN }, terminalKey))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_INVALID_CREDENTIALS, message: 'Invalid badge or PIN' });
+      expect(AuditService.logAuth).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'failed_login', userId: null }),
+        undefined
+      );
+    });
+
+    it('should not check the PIN while the account is locked', async () => {
+      const user = buildUser({ lockedUntil: new Date(Date.now() + 10 * 60 * 1000) });
+      jest.spyOn(User, 'findOne').mockResolvedValue(user as any);
+
+      await expect(AuthService.badgeLogin({ badgeId: '04A2B3C4', pin: PIN }, terminalKey))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_TOO_MANY_ATTEMPTS, statusCode: 429 });
+      expect(user.validatePin).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to issue tokens when the badge login role does not exist', async () => {
+      jest.spyOn(User, 'findOne').mockResolvedValue(buildUser() as any);
+      jest.spyOn(Role, 'findOne').mockResolvedValue(null);
+
+      await expect(AuthService.badgeLogin({ badgeId: '04A2B3C4', pin: PIN }, terminalKey))
+        .rejects.toMatchObject({ statusCode: 503 });
+    });
+  });
+
+  describe('UserService.assignBadge', () => {
+    it('should require a PIN for a user without one', async () => {
+      jest.spyOn(User, 'findByPk').mockResolvedValue(buildUser({ badgeIdHash: null, pinHash: null }) as any);
+
+      await expect(UserService.assignBadge('user-1', { badgeId: '04A2B3C4' }, 'admin-1'))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should refuse badges for service accounts', async () => {
+      jest.spyOn(User, 'findByPk').mockResolvedValue(buildUser({ isServiceAccount: true }) as any);
+
+      await expect(UserService.assignBadge('user-1', { badgeId: '04A2B3C4', pin: PIN }, 'admin-1'))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should take the badge from its previous holder and audit both changes', async () => {
+      const user = buildUser({ badgeIdHash: null, pinHash: null });
+      const previousHolder = buildUser({ id: 'user-2' });
+      jest.spyOn(User, 'findByPk').mockResolvedValue(user as any);
+      jest.spyOn(User, 'findOne').mockResolvedValue(previousHolder as any);
+      jest.spyOn(BcryptUtil, 'hashPassword').mockResolvedValue('new-pin-hash');
+
+      await UserService.assignBadge('user-1', { badgeId: '04a2b3c4', pin: PIN }, 'admin-1');
+
+      expect(previousHolder.update).toHaveBeenCalledWith({ badgeIdHash: null }, expect.anything());
+      expect(user.update).toHaveBeenCalledWith(
+        { badgeIdHash: User.hashBadgeId('04A2B3C4'), pinHash: 'new-pin-hash' },
+        expect.anything()
+      );
+      expect(AuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'user:badge_remove', resourceId: 'user-2' }),
+        undefined
+      );
+      expect(AuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'user:badge_assign',
+          resourceId: 'user-1',
+          details: { reassignedFrom: 'user-2', replacedBadge: false, pinChanged: true }
+        }),
+        undefined
+      );
+    });
+  });
+});
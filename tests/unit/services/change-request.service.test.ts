@@ -0,0 +1,487 @@
+import { ChangeRequest } from '../../../src/models/ChangeRequest';
+import { Role } from '../../../src/models/Role';
+import { Permission } from '../../../src/models/Permission';
+import { User } from '../../../src/models/User';
+import { UserRole } from '../../../src/models/UserRole';
+import { SodRule } from '../../../src/models/SodRule';
+import { ScopedRoleAssignment } from '../../../src/models/ScopedRoleAssignment';
+import { ElevationRequest } from '../../../src/models/ElevationRequest';
+import { ChangeRequestService } from '../../../src/services/change-request.service';
+import { RoleService } from '../../../src/services/role.service';
+import { UserService } from '../../../src/services/user.service';
+import { OrgUnitService } from '../../../src/services/org-unit.service';
+import { AuditService } from '../../../src/services/audit.service';
+import permissionService from '../../../src/services/permission.service';
+import { config } from '../../../src/config';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const buildRequest = (overrides: Partial<Record<string, any>> = {}): ChangeRequest => {
+  const changeRequest = ChangeRequest.build({
+    id: 'cr-1',
+    type: 'role_permissions',
+    targetId: 'role-1',
+    payload: { update: { add: ['perm-wildcard'] } },
+    risks: [{ reason: 'wildcard_permission', detail: 'Grants system:*' }],
+    status: 'pending',
+    comments: [],
+    requestedBy: 'admin-1',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    ...overrides
+  } as any);
+  jest.spyOn(changeRequest, 'update').mockResolvedValue(changeRequest);
+  return changeRequest;
+};
+
+describe('ChangeRequestService', () => {
+  const originalSettings = { ...config.changeRequests };
+
+  beforeEach(() => {
+    config.changeRequests = { enabled: true, ttlHours: 72 };
+
+    jest.spyOn(ChangeRequest, 'findOne').mockResolvedValue(null);
+    jest.spyOn(ChangeRequest, 'create').mockImplementation(async (values: any) => ChangeRequest.build(values));
+    jest.spyOn(ChangeRequest, 'update').mockResolvedValue([1] as any);
+    jest.spyOn(AuditService, 'log').mockResolvedValue({} as any);
+    jest.spyOn(permissionService, 'checkUserPermission').mockResolvedValue({ hasPermission: true, source: 'role' } as any);
+    jest.spyOn(SodRule, 'findAll').mockResolvedValue([]);
+    jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([]);
+    jest.spyOn(ElevationRequest, 'findAll').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    config.changeRequests = originalSettings;
+    jest.restoreAllMocks();
+  });
+
+  describe('holdRolePermissionUpdate', () => {
+    it('should let ordinary changes through', async () => {
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({ id: 'role-1', name: 'operator', isSystem: false } as any);
+      jest.spyOn(Permission, 'findAll').mockResolvedValue([{ name: 'workorder:read' }] as any);
+
+      const result = await ChangeRequestService.holdRolePermissionUpdate('role-1', { add: ['perm-1'] }, 'admin-1');
+
+      expect(result).toBeNull();
+      expect(ChangeRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('should hold edits of system roles and wildcard grants', async () => {
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({ id: 'role-1', name: 'system_admin', isSystem: true } as any);
+      jest.spyOn(Permission, 'findAll').mockResolvedValue([{ name: 'system:*' }, { name: 'audit:read' }] as any);
+
+      const result = await ChangeRequestService.holdRolePermissionUpdate(
+        'role-1', { add: ['perm-1', 'perm-2'] }, 'admin-1', { ipAddress: '10.0.0.5' }
+      );
+
+      expect(result).toMatchObject({
+        type: 'role_permissions',
+        targetId: 'role-1',
+        payload: { update: { add: ['perm-1', 'perm-2'] } },
+        risks: [
+          { reason: 'system_role', detail: 'system_admin is a system role' },
+          { reason: 'wildcard_permission', detail: 'Grants system:*' }
+        ],
+        requestedBy: 'admin-1'
+      });
+      expect(result!.expiresAt.getTime()).toBeGreaterThan(Date.now() + 71 * 60 * 60 * 1000);
+      expect(AuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'change_request:create', userId: 'admin-1', ipAddress: '10.0.0.5' }),
+        undefined
+      );
+    });
+
+    it('should apply changes right away when approval is disabled', async () => {
+      config.changeRequests.enabled = false;
+      const findRole = jest.spyOn(Role, 'findByPk');
+
+      await expect(ChangeRequestService.holdRolePermissionUpdate('role-1', { add: ['perm-1'] }, 'admin-1'))
+        .resolves.toBeNull();
+      expect(findRole).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a second pending request for the same role', async () => {
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({ id: 'role-1', name: 'system_admin', isSystem: true } as any);
+      jest.spyOn(ChangeRequest, 'findOne').mockResolvedValue(buildRequest());
+
+      await expect(ChangeRequestService.holdRolePermissionUpdate('role-1', { remove: ['perm-1'] }, 'admin-1'))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('holdUserRoleUpdate', () => {
+    beforeEach(() => {
+      jest.spyOn(User, 'findByPk').mockResolvedValue({ id: 'user-1' } as any);
+      jest.spyOn(UserRole, 'findAll').mockResolvedValue([{ roleId: 'role-operator' }] as any);
+    });
+
+    it('should hold roles that inherit every permission', async () => {
+      const effective = jest.spyOn(Role, 'getEffectiveRoleIds').mockResolvedValue(['role-plant-admin', 'role-super']);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'role-plant-admin', permissions: [{ name: 'production:view' }] },
+        { id: 'role-super', permissions: [{ name: '*:*' }] }
+      ] as any);
+
+      const result = await ChangeRequestService.holdUserRoleUpdate(
+        'user-1', ['role-operator', 'role-plant-admin'], 'admin-1'
+      );
+
+      expect(effective).toHaveBeenCalledWith(['role-plant-admin'], undefined);
+      expect(result).toMatchObject({
+        type: 'user_roles',
+        targetId: 'user-1',
+        payload: { roleIds: ['role-operator', 'role-plant-admin'], currentRoleIds: ['role-operator'] },
+        risks: [{ reason: 'superuser_grant' }]
+      });
+    });
+
+    it('should hold system roles that grant no wildcard permission', async () => {
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockResolvedValue(['role-system-admin']);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'role-system-admin', name: 'system_admin', isSystem: true, permissions: [{ name: 'users:manage-roles' }] }
+      ] as any);
+
+      const result = await ChangeRequestService.holdUserRoleUpdate('user-1', ['role-operator', 'role-system-admin'], 'admin-1');
+
+      expect(result).toMatchObject({
+        type: 'user_roles',
+        risks: [{ reason: 'system_role', detail: 'system_admin is a system role' }]
+      });
+    });
+
+    it('should refuse changes that break a separation of duties rule instead of holding them', async () => {
+      jest.spyOn(SodRule, 'findAll').mockResolvedValue([
+        { id: 'rule-1', name: 'Report vs release', roleIds: ['role-operator', 'role-inspector'], maxRoles: 1 }
+      ] as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds => roleIds);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'role-operator', name: 'production_operator' },
+        { id: 'role-inspector', name: 'quality_inspector' }
+      ] as any);
+
+      await expect(ChangeRequestService.holdUserRoleUpdate('user-1', ['role-operator', 'role-inspector'], 'admin-1'))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(ChangeRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('should let removals through', async () => {
+      const findRoles = jest.spyOn(Role, 'findAll');
+
+      await expect(ChangeRequestService.holdUserRoleUpdate('user-1', [], 'admin-1')).resolves.toBeNull();
+      expect(findRoles).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('holdScopedRoleAssignment', () => {
+    it('should hold wildcard roles assigned within an org unit', async () => {
+      jest.spyOn(User, 'findByPk').mockResolvedValue({ id: 'user-1' } as any);
+      jest.spyOn(UserRole, 'findAll').mockResolvedValue([]);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockResolvedValue(['role-area-admin']);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'role-area-admin', permissions: [{ name: 'workorder:*' }] }
+      ] as any);
+
+      const result = await ChangeRequestService.holdScopedRoleAssignment('user-1', 'area-1', 'role-area-admin', 'admin-1');
+
+      expect(result).toMatchObject({
+        type: 'scoped_user_role',
+        targetId: 'user-1',
+        payload: { orgUnitId: 'area-1', roleId: 'role-area-admin' },
+        risks: [{ reason: 'wildcard_permission', detail: 'Grants workorder:*' }]
+      });
+    });
+  });
+
+  describe('holdRoleUpdate', () => {
+    it('should let renames and other edits through', async () => {
+      const findRole = jest.spyOn(Role, 'findByPk');
+
+      await expect(ChangeRequestService.holdRoleUpdate('role-1', { name: 'line_lead' }, 'admin-1')).resolves.toBeNull();
+      expect(findRole).not.toHaveBeenCalled();
+    });
+
+    it('should hold added wildcard permissions and parents that grant them', async () => {
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({
+        id: 'role-1',
+        name: 'line_lead',
+        isSystem: false,
+        parentId: null,
+        permissions: [{ id: 'perm-read', name: 'workorder:read' }]
+      } as any);
+      const findPermissions = jest.spyOn(Permission, 'findAll').mockResolvedValue([{ name: 'workorder:*' }] as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockResolvedValue(['role-plant-admin', 'role-super']);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'role-plant-admin', permissions: [] },
+        { id: 'role-super', permissions: [{ name: '*:*' }] }
+      ] as any);
+
+      const result = await ChangeRequestService.holdRoleUpdate(
+        'role-1', { permissionIds: ['perm-read', 'perm-wildcard'], parentId: 'role-plant-admin' }, 'admin-1'
+      );
+
+      expect(findPermissions).toHaveBeenCalledWith(expect.objectContaining({ where: { id: ['perm-wildcard'] } }));
+      expect(result).toMatchObject({
+        type: 'role_update',
+        targetId: 'role-1',
+        payload: { update: { permissionIds: ['perm-read', 'perm-wildcard'], parentId: 'role-plant-admin' } },
+        risks: [
+          { reason: 'wildcard_permission', detail: 'Grants workorder:*' },
+          { reason: 'superuser_grant' }
+        ]
+      });
+    });
+
+    it('should refuse it while a permission change for the role is pending', async () => {
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({ id: 'role-1', name: 'system_admin', isSystem: true } as any);
+      const findPending = jest.spyOn(ChangeRequest, 'findOne').mockResolvedValue(buildRequest());
+
+      await expect(ChangeRequestService.holdRoleUpdate('role-1', { permissionIds: [] }, 'admin-1'))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(findPending).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ type: ['role_permissions', 'role_update'], targetId: 'role-1' })
+      }));
+    });
+  });
+
+  describe('holdRoleUserAssignment', () => {
+    it('should hold assigning a wildcard role to users', async () => {
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({ id: 'role-super' } as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockResolvedValue(['role-super']);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([{ id: 'role-super', permissions: [{ name: '*:*' }] }] as any);
+
+      const result = await ChangeRequestService.holdRoleUserAssignment(
+        'role-super', ['user-1', 'user-2'], 'admin-1', {}, undefined, { validUntil: '2030-01-01T00:00:00.000Z' }
+      );
+
+      expect(result).toMatchObject({
+        type: 'role_users',
+        targetId: 'role-super',
+        payload: { userIds: ['user-1', 'user-2'], validity: { validUntil: '2030-01-01T00:00:00.000Z' } },
+        risks: [{ reason: 'superuser_grant' }]
+      });
+    });
+
+    it('should let ordinary roles through', async () => {
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({ id: 'role-operator' } as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockResolvedValue(['role-operator']);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'role-operator', permissions: [{ name: 'workorder:read' }] }
+      ] as any);
+
+      await expect(ChangeRequestService.holdRoleUserAssignment('role-operator', ['user-1'], 'admin-1'))
+        .resolves.toBeNull();
+      expect(ChangeRequest.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requiresApproval', () => {
+    it('should tell whether roles grant wildcard permissions', async () => {
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds => roleIds);
+      jest.spyOn(Role, 'findAll').mockImplementation(async (options: any) => (options.where.id as string[]).map(id => ({
+        id,
+        permissions: [{ name: id === 'role-super' ? '*:*' : 'workorder:read' }]
+      })) as any);
+
+      await expect(ChangeRequestService.requiresApproval(['role-operator', 'role-super'])).resolves.toBe(true);
+      await expect(ChangeRequestService.requiresApproval(['role-operator'])).resolves.toBe(false);
+      await expect(ChangeRequestService.requiresApproval([])).resolves.toBe(false);
+
+      config.changeRequests.enabled = false;
+      await expect(ChangeRequestService.requiresApproval(['role-super'])).resolves.toBe(false);
+    });
+  });
+
+  describe('heldRoleIds', () => {
+    it('should pick out the roles whose assignment would be held', async () => {
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds => roleIds);
+      jest.spyOn(Role, 'findAll').mockImplementation(async (options: any) => (options.where.id as string[]).map(id => ({
+        id,
+        permissions: [{ name: id === 'role-super' ? '*:*' : 'workorder:read' }]
+      })) as any);
+
+      await expect(ChangeRequestService.heldRoleIds(['role-operator', 'role-super', 'role-super']))
+        .resolves.toEqual(['role-super']);
+    });
+  });
+
+  describe('approveChangeRequest', () => {
+    it('should apply the change as requested and audit the approval', async () => {
+      const changeRequest = buildRequest();
+      jest.spyOn(ChangeRequest, 'findByPk').mockResolvedValue(changeRequest);
+      const apply = jest.spyOn(RoleService, 'updateRolePermissions').mockResolvedValue({} as any);
+
+      const result = await ChangeRequestService.approveChangeRequest('cr-1', 'admin-2', 'Checked with QA');
+
+      expect(apply).toHaveBeenCalledWith('role-1', { add: ['perm-wildcard'] }, 'admin-1', undefined);
+      expect(permissionService.checkUserPermission).toHaveBeenCalledWith('admin-2', 'roles:update');
+      expect(ChangeRequest.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'approved', reviewedBy: 'admin-2' }),
+        expect.objectContaining({ where: { id: 'cr-1', status: 'pending' } })
+      );
+      expect(result).toMatchObject({
+        status: 'approved',
+        reviewedBy: 'admin-2',
+        comments: [expect.objectContaining({ userId: 'admin-2', comment: 'Checked with QA' })]
+      });
+      expect(AuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'change_request:approve', userId: 'admin-2', resourceId: 'cr-1' }),
+        undefined
+      );
+    });
+
+    it('should not let the requester approve their own change', async () => {
+      jest.spyOn(ChangeRequest, 'findByPk').mockResolvedValue(buildRequest());
+      const apply = jest.spyOn(RoleService, 'updateRolePermissions');
+
+      await expect(ChangeRequestService.approveChangeRequest('cr-1', 'admin-1', undefined))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(apply).not.toHaveBeenCalled();
+    });
+
+    it('should not let users approve changes to their own roles', async () => {
+      jest.spyOn(ChangeRequest, 'findByPk').mockResolvedValue(buildRequest({
+        type: 'user_roles',
+        targetId: 'admin-2',
+        payload: { roleIds: ['role-super'], currentRoleIds: [] }
+      }));
+
+      await expect(ChangeRequestService.approveChangeRequest('cr-1', 'admin-2', undefined))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should not let users approve a role being assigned to them', async () => {
+      jest.spyOn(ChangeRequest, 'findByPk').mockResolvedValue(buildRequest({
+        type: 'role_users',
+        targetId: 'role-super',
+        payload: { userIds: ['user-1', 'admin-2'] }
+      }));
+      const apply = jest.spyOn(RoleService, 'assignUsersToRole');
+
+      await expect(ChangeRequestService.approveChangeRequest('cr-1', 'admin-2', undefined))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(apply).not.toHaveBeenCalled();
+    });
+
+    it('should apply held role updates and role assignments', async () => {
+      const updateRole = jest.spyOn(RoleService, 'updateRole').mockResolvedValue({} as any);
+      const assignUsers = jest.spyOn(RoleService, 'assignUsersToRole').mockResolvedValue({ success: [], failed: [] });
+
+      jest.spyOn(ChangeRequest, 'findByPk').mockResolvedValueOnce(buildRequest({
+        type: 'role_update',
+        payload: { update: { parentId: 'role-super' } }
+      }));
+      await ChangeRequestService.approveChangeRequest('cr-1', 'admin-2', undefined);
+
+      jest.spyOn(ChangeRequest, 'findByPk').mockResolvedValueOnce(buildRequest({
+        type: 'role_users',
+        targetId: 'role-super',
+        payload: { userIds: ['user-1'] }
+      }));
+      await ChangeRequestService.approveChangeRequest('cr-1', 'admin-2', undefined);
+
+      expect(updateRole).toHaveBeenCalledWith('role-1', { parentId: 'role-super' }, 'admin-1', undefined);
+      expect(assignUsers).toHaveBeenCalledWith('role-super', ['user-1'], 'admin-1', undefined);
+      expect(permissionService.checkUserPermission).toHaveBeenCalledWith('admin-2', 'roles:update');
+    });
+
+    it('should check the approver\'s permission within the org unit of a scoped assignment', async () => {
+      jest.spyOn(ChangeRequest, 'findByPk').mockResolvedValue(buildRequest({
+        type: 'scoped_user_role',
+        targetId: 'user-1',
+        payload: { orgUnitId: 'area-1', roleId: 'role-area-admin' }
+      }));
+      const apply = jest.spyOn(OrgUnitService, 'assignRole').mockResolvedValue({} as any);
+
+      await ChangeRequestService.approveChangeRequest('cr-1', 'admin-2', undefined);
+
+      expect(permissionService.checkUserPermission).toHaveBeenCalledWith('admin-2', 'org_unit:assign', 'area-1');
+      expect(apply).toHaveBeenCalledWith('area-1', { userId: 'user-1', roleId: 'role-area-admin' }, 'admin-1', undefined);
+    });
+
+    it('should require the approver to hold the permission the change needs', async () => {
+      jest.spyOn(ChangeRequest, 'findByPk').mockResolvedValue(buildRequest());
+      jest.spyOn(permissionService, 'checkUserPermission').mockResolvedValue({ hasPermission: false } as any);
+
+      await expect(ChangeRequestService.approveChangeRequest('cr-1', 'admin-2', undefined))
+        .rejects.toMatchObject({ statusCode: 403, message: 'Approving this change requires the roles:update permission' });
+    });
+
+    it('should apply the validity of held role assignments', async () => {
+      const validity = { 'role-super': { validUntil: '2030-01-01T00:00:00.000Z' } };
+      jest.spyOn(ChangeRequest, 'findByPk').mockResolvedValue(buildRequest({
+        type: 'user_roles',
+        targetId: 'user-1',
+        payload: { roleIds: ['role-operator', 'role-super'], currentRoleIds: ['role-operator'], validity }
+      }));
+      jest.spyOn(UserRole, 'findAll').mockResolvedValue([{ roleId: 'role-operator' }] as any);
+      const apply = jest.spyOn(UserService, 'updateUserRoles').mockResolvedValue({} as any);
+
+      await ChangeRequestService.approveChangeRequest('cr-1', 'admin-2', undefined);
+
+      expect(apply).toHaveBeenCalledWith('user-1', ['role-operator', 'role-super'], 'admin-1', undefined, validity);
+    });
+
+    it('should refuse role assignments that changed since the request', async () => {
+      jest.spyOn(ChangeRequest, 'findByPk').mockResolvedValue(buildRequest({
+        type: 'user_roles',
+        targetId: 'user-1',
+        payload: { roleIds: ['role-operator', 'role-super'], currentRoleIds: ['role-operator'] }
+      }));
+      jest.spyOn(UserRole, 'findAll').mockResolvedValue([{ roleId: 'role-operator' }, { roleId: 'role-viewer' }] as any);
+      const apply = jest.spyOn(UserService, 'updateUserRoles');
+
+      await expect(ChangeRequestService.approveChangeRequest('cr-1', 'admin-2', undefined))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(apply).not.toHaveBeenCalled();
+    });
+
+    it('should refuse expired and already reviewed requests', async () => {
+      jest.spyOn(ChangeRequest, 'findByPk').mockResolvedValueOnce(buildRequest({ expiresAt: new Date(Date.now() - 1000) }));
+
+      await expect(ChangeRequestService.approveChangeRequest('cr-1', 'admin-2', undefined))
+        .rejects.toMatchObject({ statusCode: 409, message: 'Change request has expired' });
+
+      jest.spyOn(ChangeRequest, 'findByPk').mockResolvedValueOnce(buildRequest({ status: 'rejected' }));
+
+      await expect(ChangeRequestService.approveChangeRequest('cr-1', 'admin-2', undefined))
+        .rejects.toMatchObject({ statusCode: 409, message: 'Change request is rejected' });
+    });
+  });
+
+  describe('rejectChangeRequest and cancelChangeRequest', () => {
+    it('should leave rejection to other users and cancellation to the requester', async () => {
+      jest.spyOn(ChangeRequest, 'findByPk').mockImplementation(async () => buildRequest());
+
+      await expect(ChangeRequestService.rejectChangeRequest('cr-1', 'admin-1', 'Not needed'))
+        .rejects.toMatchObject({ statusCode: 403 });
+      await expect(ChangeRequestService.cancelChangeRequest('cr-1', 'admin-2'))
+        .rejects.toMatchObject({ statusCode: 403 });
+
+      await expect(ChangeRequestService.rejectChangeRequest('cr-1', 'admin-2', 'Use plant_admin instead'))
+        .resolves.toMatchObject({ status: 'rejected', reviewedBy: 'admin-2' });
+      await expect(ChangeRequestService.cancelChangeRequest('cr-1', 'admin-1'))
+        .resolves.toMatchObject({ status: 'cancelled' });
+    });
+  });
+
+  describe('expireStale', () => {
+    it('should mark overdue pending requests expired and audit each', async () => {
+      const overdue = buildRequest({ expiresAt: new Date(Date.now() - 1000) });
+      jest.spyOn(ChangeRequest, 'findAll').mockResolvedValue([overdue]);
+
+      await expect(ChangeRequestService.expireStale()).resolves.toBe(1);
+
+      expect(overdue.update).toHaveBeenCalledWith({ status: 'expired' }, expect.anything());
+      expect(AuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'change_request:expire', resourceId: 'cr-1' }),
+        undefined
+      );
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { ElevationRequest } from '../../../src/models/ElevationRequest';
+import { Role } from '../../../src/models/Role';
+import { Permission } from '../../../src/models/Permission';
+import { UserRole } from '../../../src/models/UserRole';
+import { SodRule } from '../../../src/models/SodRule';
+import { ScopedRoleAssignment } from '../../../src/models/ScopedRoleAssignment';
+import { ElevationService } from '../../../src/services/elevation.service';
+import { AuditService } from '../../../src/services/audit.service';
+import { PermissionVersionService } from '../../../src/services/permission-version.service';
+import permissionService from '../../../src/services/permission.service';
+import { sequelize } from '../../../src/config/database';
+import { config } from '../../../src/config';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const buildElevation = (overrides: Partial<Record<string, any>> = {}): ElevationRequest => {
+  const elevation = ElevationRequest.build({
+    id: 'elevation-1',
+    userId: 'engineer-1',
+    roleId: null,
+    permissionIds: ['perm-configure'],
+    justification: 'Press 4 hydraulic fault, need to recalibrate',
+    durationMinutes: 60,
+    status: 'pending',
+    ...overrides
+  } as any);
+  jest.spyOn(elevation, 'update').mockResolvedValue(elevation);
+  return elevation;
+};
+
+describe('ElevationService', () => {
+  const originalSettings = { ...config.elevation };
+
+  beforeEach(() => {
+    config.elevation = { maxDurationMinutes: 480 };
+
+    jest.spyOn(AuditService, 'log').mockResolvedValue({} as any);
+    jest.spyOn(PermissionVersionService, 'bumpUsers').mockResolvedValue();
+    jest.spyOn(SodRule, 'findAll').mockResolvedValue([]);
+    jest.spyOn(UserRole, 'findAll').mockResolvedValue([{ roleId: 'role-maintenance' }] as any);
+    jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([]);
+    jest.spyOn(ElevationRequest, 'findAll').mockResolvedValue([]);
+    jest.spyOn(Permission, 'findAll').mockResolvedValue([{ name: 'machine:configure' }] as any);
+    jest.spyOn(permissionService, 'checkUserPermission').mockResolvedValue({ hasPermission: true, source: 'role' } as any);
+  });
+
+  afterEach(() => {
+    config.elevation = originalSettings;
+    jest.restoreAllMocks();
+  });
+
+  describe('requestElevation', () => {
+    it('should record a pending request for permissions', async () => {
+      jest.spyOn(Permission, 'count').mockResolvedValue(1 as any);
+      const create = jest.spyOn(ElevationRequest, 'create').mockImplementation(async (values: any) => ElevationRequest.build(values));
+
+      const elevation = await ElevationService.requestElevation('engineer-1', {
+        permissionIds: ['perm-configure'],
+        justification: 'Press 4 hydraulic fault, need to recalibrate',
+        durationMinutes: 60
+      }, { ipAddress: '10.0.0.7' });
+
+      expect(create).toHaveBeenCalledWith({
+        userId: 'engineer-1',
+        roleId: null,
+        permissionIds: ['perm-configure'],
+        justification: 'Press 4 hydraulic fault, need to recalibrate',
+        durationMinutes: 60
+      }, { transaction: undefined });
+      expect(elevation.status).toBe('pending');
+      expect(AuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'elevation:request', userId: 'engineer-1', ipAddress: '10.0.0.7' }),
+        undefined
+      );
+    });
+
+    it('should refuse durations over the limit and unknown permissions', async () => {
+      const create = jest.spyOn(ElevationRequest, 'create');
+
+      await expect(ElevationService.requestElevation('engineer-1', {
+        permissionIds: ['perm-configure'],
+        justification: 'Press 4 hydraulic fault, need to recalibrate',
+        durationMinutes: 481
+      })).rejects.toMatchObject({ statusCode: 400, message: 'Elevations can last at most 480 minutes' });
+
+      jest.spyOn(Permission, 'count').mockResolvedValue(0 as any);
+      await expect(ElevationService.requestElevation('engineer-1', {
+        permissionIds: ['perm-gone'],
+        justification: 'Press 4 hydraulic fault, need to recalibrate',
+        durationMinutes: 60
+      })).rejects.toMatchObject({ statusCode: 400 });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse wildcard permissions', async () => {
+      jest.spyOn(Permission, 'count').mockResolvedValue(1 as any);
+      jest.spyOn(Permission, 'findAll').mockResolvedValue([{ name: '*:*' }] as any);
+      const create = jest.spyOn(ElevationRequest, 'create');
+
+      await expect(ElevationService.requestElevation('engineer-1', {
+        permissionIds: ['perm-all'],
+        justification: 'Quicker than asking for each permission',
+        durationMinutes: 60
+      })).rejects.toMatchObject({ statusCode: 403 });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse roles that break a separation of duties rule with the user\'s roles', async () => {
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({ id: 'role-inspector' } as any);
+      jest.spyOn(SodRule, 'findAll').mockResolvedValue([
+        { id: 'rule-1', name: 'Repair vs release', roleIds: ['role-maintenance', 'role-inspector'], maxRoles: 1 }
+      ] as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds => roleIds);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'role-maintenance', name: 'maintenance_engineer' },
+        { id: 'role-inspector', name: 'quality_inspector' }
+      ] as any);
+
+      await expect(ElevationService.requestElevation('engineer-1', {
+        roleId: 'role-inspector',
+        justification: 'Release the repaired press myself',
+        durationMinutes: 30
+      })).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('approveElevation', () => {
+    it('should start the grant for its duration and make the holder refresh their token', async () => {
+      const elevation = buildElevation();
+      jest.spyOn(ElevationRequest, 'findByPk').mockResolvedValue(elevation);
+      jest.spyOn(Permission, 'count').mockResolvedValue(1 as any);
+      const update = jest.spyOn(ElevationRequest, 'update').mockResolvedValue([1] as any);
+
+      await ElevationService.approveElevation('elevation-1', 'supervisor-1', 'Go ahead');
+
+      expect(permissionService.checkUserPermission).toHaveBeenCalledWith('supervisor-1', 'machine:configure');
+      expect(update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'approved', reviewedBy: 'supervisor-1', reviewComment: 'Go ahead' }),
+        { where: { id: 'elevation-1', status: 'pending' }, transaction: undefined }
+      );
+      expect(elevation.expiresAt!.getTime()).toBeGreaterThan(Date.now() + 59 * 60 * 1000);
+      expect(elevation.expiresAt!.getTime()).toBeLessThanOrEqual(Date.now() + 60 * 60 * 1000);
+      expect(PermissionVersionService.bumpUsers).toHaveBeenCalledWith(['engineer-1'], undefined);
+      expect(AuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'elevation:approve', userId: 'supervisor-1', resourceId: 'elevation-1' }),
+        undefined
+      );
+    });
+
+    it('should refuse roles that break a separation of duties rule with another active elevation', async () => {
+      jest.spyOn(ElevationRequest, 'findByPk').mockResolvedValue(buildElevation({ roleId: 'role-inspector', permissionIds: [] }));
+      jest.spyOn(ElevationRequest, 'findAll').mockResolvedValue([{ roleId: 'role-planner' }] as any);
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({ id: 'role-inspector' } as any);
+      jest.spyOn(SodRule, 'findAll').mockResolvedValue([
+        { id: 'rule-1', name: 'Plan vs release', roleIds: ['role-planner', 'role-inspector'], maxRoles: 1 }
+      ] as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds => roleIds);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'role-planner', name: 'planner' },
+        { id: 'role-inspector', name: 'quality_inspector' }
+      ] as any);
+      const update = jest.spyOn(ElevationRequest, 'update');
+
+      await expect(ElevationService.approveElevation('elevation-1', 'supervisor-1', undefined))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse system roles', async () => {
+      jest.spyOn(ElevationRequest, 'findByPk').mockResolvedValue(buildElevation({ roleId: 'role-system-admin', permissionIds: [] }));
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({ id: 'role-system-admin' } as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds => roleIds);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'role-system-admin', name: 'system_admin', isSystem: true, permissions: [{ name: 'users:manage-roles' }] }
+      ] as any);
+      const update = jest.spyOn(ElevationRequest, 'update');
+
+      await expect(ElevationService.approveElevation('elevation-1', 'supervisor-1', undefined))
+        .rejects.toMatchObject({ statusCode: 403, message: expect.stringContaining('system_admin is a system role') });
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse approvers who do not hold every permission the elevation grants', async () => {
+      jest.spyOn(ElevationRequest, 'findByPk').mockResolvedValue(buildElevation({ roleId: 'role-plant-admin', permissionIds: [] }));
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({ id: 'role-plant-admin' } as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds => roleIds);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'role-plant-admin', name: 'plant_admin', permissions: [{ name: 'equipment:configure' }, { name: 'users:manage-roles' }] }
+      ] as any);
+      const check = jest.spyOn(permissionService, 'checkUserPermission').mockImplementation(async (_userId, permission) => ({
+        hasPermission: permission === 'equipment:configure',
+        source: 'role'
+      }) as any);
+      const update = jest.spyOn(ElevationRequest, 'update');
+
+      await expect(ElevationService.approveElevation('elevation-1', 'supervisor-1', 'Go ahead'))
+        .rejects.toMatchObject({ statusCode: 403, message: expect.stringContaining('missing users:manage-roles') });
+      expect(check).toHaveBeenCalledWith('supervisor-1', 'users:manage-roles');
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse approval by the requester', async () => {
+      jest.spyOn(ElevationRequest, 'findByPk').mockResolvedValue(buildElevation());
+
+      await expect(ElevationService.approveElevation('elevation-1', 'engineer-1', undefined))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(PermissionVersionService.bumpUsers).not.toHaveBeenCalled();
+    });
+
+    it('should refuse requests that are no longer pending', async () => {
+      jest.spyOn(ElevationRequest, 'findByPk').mockResolvedValue(buildElevation({ status: 'rejected' }));
+
+      await expect(ElevationService.approveElevation('elevation-1', 'supervisor-1', undefined))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('sweepExpired', () => {
+    const transaction = { commit: jest.fn(), rollback: jest.fn(), LOCK: { UPDATE: 'UPDATE' } };
+
+    beforeEach(() => {
+      jest.spyOn(sequelize, 'transaction').mockResolvedValue(transaction as any);
+      jest.clearAllMocks();
+    });
+
+    it('should mark elapsed elevations expired, audit each one and invalidate the holders\' tokens', async () => {
+      const expiresAt = new Date('2024-07-01T07:00:00Z');
+      const elevation = buildElevation({ status: 'approved', reviewedBy: 'supervisor-1', expiresAt });
+      const findAll = jest.spyOn(ElevationRequest, 'findAll').mockResolvedValue([elevation]);
+
+      await expect(ElevationService.sweepExpired(new Date('2024-07-01T07:00:30Z'))).resolves.toBe(1);
+
+      expect(findAll).toHaveBeenCalledWith(expect.objectContaining({ lock: 'UPDATE', transaction }));
+      expect(elevation.update).toHaveBeenCalledWith({ status: 'expired' }, { transaction });
+      expect(AuditService.log).toHaveBeenCalledWith({
+        userId: null,
+        action: 'elevation:expire',
+        resource: 'elevation',
+        resourceId: 'elevation-1',
+        details: {
+          requestedBy: 'engineer-1',
+          roleId: null,
+          permissionIds: ['perm-configure'],
+          approvedBy: 'supervisor-1',
+          expiresAt
+        }
+      }, transaction);
+      expect(PermissionVersionService.bumpUsers).toHaveBeenCalledWith(['engineer-1'], transaction);
+      expect(transaction.commit).toHaveBeenCalled();
+    });
+  });
+});
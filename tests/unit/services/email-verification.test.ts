@@ -0,0 +1,143 @@
+import { User } from '../../../src/models/User';
+import { EmailVerification } from '../../../src/models/EmailVerification';
+import { AuditLog } from '../../../src/models/AuditLog';
+import { AuthService } from '../../../src/services/auth.service';
+import { NotificationService, Notifier } from '../../../src/services/notification.service';
+import { BcryptUtil } from '../../../src/utils/bcrypt.util';
+import { config } from '../../../src/config';
+import { ErrorCode } from '../../../src/types';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('Email verification', () => {
+  let notifier: jest.Mocked<Notifier>;
+  let originalNotifier: Notifier;
+
+  beforeEach(() => {
+    originalNotifier = NotificationService.getNotifier();
+    notifier = { send: jest.fn().mockResolvedValue(undefined) };
+    NotificationService.setNotifier(notifier);
+    jest.spyOn(AuditLog, 'create').mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    NotificationService.setNotifier(originalNotifier);
+    config.security.requireEmailVerification = false;
+    jest.restoreAllMocks();
+  });
+
+  describe('verifyEmail', () => {
+    const buildVerification = (overrides: Partial<Record<string, any>> = {}) => {
+      const user = { id: 'user-1', email: 'user@example.com', update: jest.fn().mockResolvedValue(undefined) };
+      return {
+        id: 'verification-1',
+        usedAt: null,
+        expiresAt: new Date(Date.now() + 60000),
+        user,
+        isUsed() { return this.usedAt !== null; },
+        isExpired() { return new Date() > this.expiresAt; },
+        ...overrides
+      };
+    };
+
+    it('should mark the email as verified and consume the token', async () => {
+      const verification = buildVerification();
+      const findOne = jest.spyOn(EmailVerification, 'findOne').mockResolvedValue(verification as any);
+      jest.spyOn(EmailVerification, 'update').mockResolvedValue([1] as any);
+
+      await AuthService.verifyEmail('raw-token');
+
+      expect(findOne).toHaveBeenCalledWith(expect.objectContaining({
+        where: { tokenHash: EmailVerification.hashToken('raw-token') }
+      }));
+      expect(verification.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({ emailVerified: true, emailVerifiedAt: expect.any(Date) }),
+        expect.anything()
+      );
+      expect(AuditLog.create).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'EMAIL_VERIFIED', userId: 'user-1' }),
+        expect.anything()
+      );
+    });
+
+    it('should reject an expired token', async () => {
+      jest.spyOn(EmailVerification, 'findOne').mockResolvedValue(
+        buildVerification({ expiresAt: new Date(Date.now() - 1000) }) as any
+      );
+
+      await expect(AuthService.verifyEmail('raw-token'))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_TOKEN_EXPIRED });
+    });
+
+    it('should reject an unknown token', async () => {
+      jest.spyOn(EmailVerification, 'findOne').mockResolvedValue(null);
+
+      await expect(AuthService.verifyEmail('raw-token'))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_TOKEN_INVALID });
+    });
+  });
+
+  describe('resendVerification', () => {
+    it('should issue a new token for an unverified account', async () => {
+      jest.spyOn(User, 'findOne').mockResolvedValue({
+        id: 'user-1',
+        email: 'user@example.com',
+        isActive: true,
+        emailVerified: false
+      } as any);
+      const invalidate = jest.spyOn(EmailVerification, 'update').mockResolvedValue([1] as any);
+      const create = jest.spyOn(EmailVerification, 'create').mockResolvedValue({} as any);
+
+      await AuthService.resendVerification('user@example.com');
+
+      expect(invalidate).toHaveBeenCalledWith(
+        { usedAt: expect.any(Date) },
+        expect.objectContaining({ where: { userId: 'user-1', usedAt: null } })
+      );
+      const sent = notifier.send.mock.calls[0][0];
+      expect(sent.template).toBe('email-verification');
+      expect((create.mock.calls[0][0] as any).tokenHash).toBe(EmailVerification.hashToken(sent.data!.token));
+    });
+
+    it('should not send anything for an already verified account', async () => {
+      jest.spyOn(User, 'findOne').mockResolvedValue({
+        id: 'user-1',
+        email: 'user@example.com',
+        isActive: true,
+        emailVerified: true
+      } as any);
+      const create = jest.spyOn(EmailVerification, 'create');
+
+      const message = await AuthService.resendVerification('user@example.com');
+
+      expect(message).toBe('If the account exists and is unverified, a verification link will be sent');
+      expect(create).not.toHaveBeenCalled();
+      expect(notifier.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('login', () => {
+    it('should reject unverified accounts when verification is required', async () => {
+      config.security.requireEmailVerification = true;
+      jest.spyOn(User, 'findOne').mockResolvedValue({
+        id: 'user-1',
+        email: 'user@example.com',
+        password: 'hashed',
+        isActive: true,
+        emailVerified: false,
+        isLocked: () => false
+      } as any);
+      jest.spyOn(BcryptUtil, 'comparePassword').mockResolvedValue(true);
+
+      await expect(AuthService.login({ username: 'user@example.com', password: 'Password123!' }))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_EMAIL_NOT_VERIFIED });
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import ldap from 'ldapjs';
+import { User } from '../../../src/models/User';
+import { UserRole } from '../../../src/models/UserRole';
+import { Role } from '../../../src/models/Role';
+import { SodRule } from '../../../src/models/SodRule';
+import { ScopedRoleAssignment } from '../../../src/models/ScopedRoleAssignment';
+import { ElevationRequest } from '../../../src/models/ElevationRequest';
+import { LdapGroupMapping } from '../../../src/models/LdapGroupMapping';
+import { AuthService } from '../../../src/services/auth.service';
+import { AuditService } from '../../../src/services/audit.service';
+import { PermissionVersionService } from '../../../src/services/permission-version.service';
+import { ChangeRequestService } from '../../../src/services/change-request.service';
+import { LdapGroupMappingService } from '../../../src/services/ldap-group-mapping.service';
+import {
+  AuthProviderService,
+  LdapAuthProvider,
+  LocalAuthProvider
+} from '../../../src/services/auth-provider.service';
+import { LdapDirectory, LdapOptions } from '../../../src/utils/ldap.util';
+import { BcryptUtil } from '../../../src/utils/bcrypt.util';
+import { ErrorCode } from '../../../src/types';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const BASE_DN = 'dc=example,dc=com';
+const SERVICE_DN = `cn=rbac,${BASE_DN}`;
+const OPERATORS_DN = 'CN=Operators,OU=Groups,DC=example,DC=com';
+
+const directoryUsers = [
+  {
+    dn: `cn=jdoe,ou=people,${BASE_DN}`,
+    password: 'Secret123!',
+    attributes: {
+      sAMAccountName: 'jdoe',
+      mail: 'jdoe@example.com',
+      givenName: 'Jane',
+      sn: 'Doe',
+      memberOf: [OPERATORS_DN, `cn=everyone,ou=groups,${BASE_DN}`]
+    }
+  }
+];
+
+// The bundled typings predate ldapjs 3 and leave handler arguments untyped
+type Handler = (req: any, res: any, next: (error?: unknown) => void) => void;
+
+/**
+ * In-process directory: the service account and the users above can bind,
+ * and searches evaluate the filter against each user's attributes
+ */
+const startDirectory = async (filters: string[]): Promise<ldap.Server> => {
+  const server = ldap.createServer();
+
+  const bind: Handler = (req, res, next) => {
+    const dn = req.dn.toString();
+    const user = directoryUsers.find(entry => entry.dn === dn);
+
+    if ((dn === SERVICE_DN && req.credentials === 'service') || (user && user.password === req.credentials)) {
+      res.end();
+      return next();
+    }
+    return next(new ldap.InvalidCredentialsError());
+  };
+
+  const search: Handler = (req, res, next) => {
+    filters.push(req.filter.toString());
+
+    for (const user of directoryUsers) {
+      if (req.filter.matches(user.attributes)) {
+        const attributes = Object.entries(user.attributes).map(([type, values]) => new ldap.Attribute({ type, values }));
+        res.send(res.createSearchEntry({ dn: user.dn, attributes }));
+      }
+    }
+    res.end();
+    return next();
+  };
+
+  server.bind(BASE_DN, bind);
+  server.search(BASE_DN, search);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return server;
+};
+
+describe('LDAP authentication', () => {
+  const filters: string[] = [];
+  let server: ldap.Server;
+  let options: LdapOptions;
+
+  beforeAll(async () => {
+    server = await startDirectory(filters);
+    options = {
+      url: server.url,
+      bindDn: SERVICE_DN,
+      bindPassword: 'service',
+      searchBase: BASE_DN,
+      userFilter: '(|(sAMAccountName={{username}})(userPrincipalName={{username}}))',
+      usernameAttribute: 'sAMAccountName',
+      groupAttribute: 'memberOf',
+      startTls: false,
+      tlsRejectUnauthorized: true,
+      timeoutMs: 2000
+    };
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  afterEach(() => {
+    filters.length = 0;
+    AuthProviderService.setProviders(null);
+    jest.restoreAllMocks();
+  });
+
+  describe('LdapDirectory', () => {
+    it('should return the account and its groups when the password is correct', async () => {
+      const account = await new LdapDirectory(options).authenticate('jdoe', 'Secret123!');
+
+      expect(account).toEqual({
+        dn: `cn=jdoe,ou=people,${BASE_DN}`,
+        username: 'jdoe',
+        email: 'jdoe@example.com',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        groups: [OPERATORS_DN, `cn=everyone,ou=groups,${BASE_DN}`]
+      });
+    });
+
+    it('should return null for a wrong password or an unknown login', async () => {
+      const directory = new LdapDirectory(options);
+
+      await expect(directory.authenticate('jdoe', 'wrong')).resolves.toBeNull();
+      await expect(directory.authenticate('nobody', 'Secret123!')).resolves.toBeNull();
+    });
+
+    it('should not bind with an empty password', async () => {
+      await expect(new LdapDirectory(options).authenticate('jdoe', '')).resolves.toBeNull();
+      expect(filters).toHaveLength(0);
+    });
+
+    it('should escape filter metacharacters in the login', async () => {
+      await expect(new LdapDirectory(options).authenticate('j*', 'Secret123!')).resolves.toBeNull();
+      expect(filters[0]).toContain('\\2a');
+    });
+
+    it('should throw when the directory cannot be reached', async () => {
+      const directory = new LdapDirectory({ ...options, url: 'ldap://127.0.0.1:1' });
+
+      await expect(directory.authenticate('jdoe', 'Secret123!')).rejects.toBeDefined();
+    });
+  });
+
+  describe('LdapAuthProvider', () => {
+    const mockMappings = () => {
+      jest.spyOn(LdapGroupMapping, 'findAll').mockResolvedValue([
+        { groupDn: 'cn=operators,ou=groups,dc=example,dc=com', roleId: 'role-operator' },
+        { groupDn: 'cn=quality,ou=groups,dc=example,dc=com', roleId: 'role-quality' }
+      ] as any);
+      jest.spyOn(UserRole, 'findAll').mockResolvedValue([{ roleId: 'role-quality' }] as any);
+      jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([]);
+      jest.spyOn(ElevationRequest, 'findAll').mockResolvedValue([]);
+      jest.spyOn(SodRule, 'findAll').mockResolvedValue([]);
+      jest.spyOn(PermissionVersionService, 'bumpUsers').mockResolvedValue(undefined as any);
+      jest.spyOn(AuditService, 'log').mockResolvedValue({} as any);
+      jest.spyOn(ChangeRequestService, 'heldRoleIds').mockResolvedValue([]);
+      return {
+        destroy: jest.spyOn(UserRole, 'destroy').mockResolvedValue(1),
+        bulkCreate: jest.spyOn(UserRole, 'bulkCreate').mockResolvedValue([])
+      };
+    };
+
+    it('should provision an unknown user and sync roles from mapped groups', async () => {
+      jest.spyOn(User, 'findOne').mockResolvedValue(null);
+      const create = jest.spyOn(User, 'create').mockImplementation(async (values: any) => ({ id: 'user-9', ...values }));
+      const { destroy, bulkCreate } = mockMappings();
+
+      const user = await new LdapAuthProvider(new LdapDirectory(options)).authenticate('jdoe', 'Secret123!', null);
+
+      expect(user).toMatchObject({ id: 'user-9', username: 'jdoe', authProvider: 'ldap' });
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({
+        email: 'jdoe@example.com',
+        externalId: `cn=jdoe,ou=people,${BASE_DN}`,
+        emailVerified: true
+      }), expect.anything());
+      expect(bulkCreate).toHaveBeenCalledWith(
+        [{ userId: 'user-9', roleId: 'role-operator', assignedBy: null }],
+        expect.anything()
+      );
+      expect(destroy).toHaveBeenCalledWith({ where: { userId: 'user-9', roleId: ['role-quality'] }, transaction: undefined });
+      expect(PermissionVersionService.bumpUsers).toHaveBeenCalledWith(['user-9'], undefined);
+    });
+
+    it('should refresh the profile of an existing directory user', async () => {
+      const existing = { id: 'user-9', email: 'jdoe@example.com', authProvider: 'ldap', update: jest.fn() };
+      jest.spyOn(User, 'count').mockResolvedValue(0);
+      const create = jest.spyOn(User, 'create');
+      mockMappings();
+
+      const user = await new LdapAuthProvider(new LdapDirectory(options))
+        .authenticate('jdoe', 'Secret123!', existing as any);
+
+      expect(user).toBe(existing);
+      expect(existing.update).toHaveBeenCalledWith(
+        { firstName: 'Jane', lastName: 'Doe', externalId: `cn=jdoe,ou=people,${BASE_DN}` },
+        expect.anything()
+      );
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse synced roles that break a separation of duties rule with the user\'s scoped roles', async () => {
+      const existing = { id: 'user-9', email: 'jdoe@example.com', authProvider: 'ldap', update: jest.fn() };
+      jest.spyOn(User, 'count').mockResolvedValue(0);
+      const { bulkCreate } = mockMappings();
+      jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([{ roleId: 'role-inspector' }] as any);
+      jest.spyOn(SodRule, 'findAll').mockResolvedValue([
+        { id: 'rule-1', name: 'Report vs release', roleIds: ['role-operator', 'role-inspector'], maxRoles: 1 }
+      ] as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds => roleIds);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'role-operator', name: 'production_operator' },
+        { id: 'role-inspector', name: 'quality_inspector' }
+      ] as any);
+
+      await expect(new LdapAuthProvider(new LdapDirectory(options)).authenticate('jdoe', 'Secret123!', existing as any))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(bulkCreate).not.toHaveBeenCalled();
+    });
+
+    it('should not grant mapped roles whose assignment needs approval', async () => {
+      const existing = { id: 'user-9', email: 'jdoe@example.com', authProvider: 'ldap', update: jest.fn() };
+      jest.spyOn(User, 'count').mockResolvedValue(0);
+      const { destroy, bulkCreate } = mockMappings();
+      const held = jest.spyOn(ChangeRequestService, 'heldRoleIds').mockResolvedValue(['role-operator']);
+
+      await expect(new LdapAuthProvider(new LdapDirectory(options)).authenticate('jdoe', 'Secret123!', existing as any))
+        .resolves.toBe(existing);
+      expect(held).toHaveBeenCalledWith(['role-operator'], undefined);
+      expect(bulkCreate).not.toHaveBeenCalled();
+      expect(destroy).toHaveBeenCalledWith({ where: { userId: 'user-9', roleId: ['role-quality'] }, transaction: undefined });
+    });
+
+    it('should not provision anyone when the password is wrong', async () => {
+      const create = jest.spyOn(User, 'create');
+
+      await expect(new LdapAuthProvider(new LdapDirectory(options)).authenticate('jdoe', 'wrong', null))
+        .resolves.toBeNull();
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should report an unreachable directory as unavailable', async () => {
+      const provider = new LdapAuthProvider(new LdapDirectory({ ...options, url: 'ldap://127.0.0.1:1' }));
+
+      await expect(provider.authenticate('jdoe', 'Secret123!', null))
+        .rejects.toMatchObject({ code: ErrorCode.SERVICE_UNAVAILABLE, statusCode: 503 });
+    });
+  });
+
+  describe('LdapGroupMappingService', () => {
+    it('should refuse to map a group to a role whose assignment needs approval', async () => {
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({ id: 'role-super' } as any);
+      const held = jest.spyOn(ChangeRequestService, 'heldRoleIds').mockResolvedValue(['role-super']);
+      const create = jest.spyOn(LdapGroupMapping, 'create');
+
+      await expect(LdapGroupMappingService.createMapping(
+        { groupDn: 'cn=admins,ou=groups,dc=example,dc=com', roleId: 'role-super' },
+        'admin-1'
+      )).rejects.toMatchObject({ statusCode: 400 });
+      expect(held).toHaveBeenCalledWith(['role-super'], undefined);
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('AuthProviderService', () => {
+    it('should send local accounts to the local provider and unknown logins to LDAP', () => {
+      const local = new LocalAuthProvider();
+      const directory = new LdapAuthProvider(new LdapDirectory(options));
+      AuthProviderService.setProviders([local, directory]);
+
+      expect(AuthProviderService.resolve({ authProvider: 'local' } as User)).toBe(local);
+      expect(AuthProviderService.resolve({ authProvider: 'ldap' } as User)).toBe(directory);
+      expect(AuthProviderService.resolve(null)).toBe(directory);
+    });
+
+    it('should reject unknown logins without asking the directory when LDAP is disabled', async () => {
+      AuthProviderService.setProviders([new LocalAuthProvider()]);
+      jest.spyOn(User, 'findOne').mockResolvedValue(null);
+
+      await expect(AuthService.login({ username: 'jdoe', password: 'Secret123!' }))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_INVALID_CREDENTIALS });
+      expect(filters).toHaveLength(0);
+    });
+
+    it('should never check directory users against the local password hash', async () => {
+      AuthProviderService.setProviders([new LocalAuthProvider(), new LdapAuthProvider(new LdapDirectory(options))]);
+      const user = {
+        id: 'user-9',
+        username: 'jdoe',
+        authProvider: 'ldap',
+        isActive: true,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        update: jest.fn().mockResolvedValue(undefined),
+        isLocked: () => false
+      };
+      jest.spyOn(User, 'findOne').mockResolvedValue(user as any);
+      const compare = jest.spyOn(BcryptUtil, 'comparePassword');
+
+      await expect(AuthService.login({ username: 'jdoe', password: 'wrong' }))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_INVALID_CREDENTIALS });
+      expect(compare).not.toHaveBeenCalled();
+      expect(user.update).toHaveBeenCalledWith({ failedLoginAttempts: 1 }, expect.anything());
+    });
+  });
+});
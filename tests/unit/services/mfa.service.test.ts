@@ -0,0 +1,161 @@
+import { User } from '../../../src/models/User';
+import { Role } from '../../../src/models/Role';
+import { AuditLog } from '../../../src/models/AuditLog';
+import { MfaRecoveryCode } from '../../../src/models/MfaRecoveryCode';
+import { AuthService } from '../../../src/services/auth.service';
+import { MfaService } from '../../../src/services/mfa.service';
+import { AuthUtil } from '../../../src/utils/auth.util';
+import { BcryptUtil } from '../../../src/utils/bcrypt.util';
+import { JWTUtil } from '../../../src/utils/jwt.util';
+import { TOTPUtil } from '../../../src/utils/totp.util';
+import { ErrorCode } from '../../../src/types';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const secret = TOTPUtil.generateSecret();
+
+const buildUser = (overrides: Partial<Record<string, any>> = {}) => ({
+  id: 'user-1',
+  email: 'operator@example.com',
+  password: 'hashed',
+  isActive: true,
+  emailVerified: true,
+  failedLoginAttempts: 0,
+  lockoutCount: 0,
+  lockedUntil: null,
+  mfaEnabled: true,
+  mfaSecret: TOTPUtil.encryptSecret(secret),
+  mfaLastUsedStep: null as number | null,
+  roles: [],
+  update: jest.fn().mockResolvedValue(undefined),
+  isLocked: () => false,
+  ...overrides
+});
+
+describe('Multi-factor authentication', () => {
+  beforeEach(() => {
+    jest.spyOn(AuditLog, 'create').mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('AuthService.login', () => {
+    it('should return an mfa_pending token instead of tokens when MFA is enabled', async () => {
+      jest.spyOn(User, 'findOne').mockResolvedValue(buildUser() as any);
+      jest.spyOn(BcryptUtil, 'comparePassword').mockResolvedValue(true);
+      const generateTokens = jest.spyOn(AuthUtil, 'generateUserTokens');
+
+      const result = await AuthService.login({ username: 'operator@example.com', password: 'Password123!' });
+
+      expect('mfa' in result).toBe(true);
+      if ('mfa' in result) {
+        expect(result.mfa.enrollmentRequired).toBe(false);
+        expect(JWTUtil.verifyMfaToken(result.mfa.mfaToken).sub).toBe('user-1');
+        expect(() => JWTUtil.verifyAccessToken(result.mfa.mfaToken)).toThrow();
+      }
+      expect(generateTokens).not.toHaveBeenCalled();
+    });
+
+    it('should require enrollment when a role requires MFA', async () => {
+      jest.spyOn(User, 'findOne').mockResolvedValue(
+        buildUser({ mfaEnabled: false, mfaSecret: null }) as any
+      );
+      jest.spyOn(BcryptUtil, 'comparePassword').mockResolvedValue(true);
+      jest.spyOn(MfaService, 'isRequiredByRole').mockResolvedValue(true);
+
+      const result = await AuthService.login({ username: 'operator@example.com', password: 'Password123!' });
+
+      expect('mfa' in result && result.mfa.enrollmentRequired).toBe(true);
+    });
+  });
+
+  describe('AuthService.verifyMfaLogin', () => {
+    it('should issue tokens for a valid TOTP code and reject its replay', async () => {
+      const user = buildUser();
+      jest.spyOn(User, 'findByPk').mockResolvedValue(user as any);
+      jest.spyOn(AuthUtil, 'generateUserTokens').mockResolvedValue({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        expiresIn: 900
+      } as any);
+      const mfaToken = JWTUtil.generateMfaToken('user-1', false);
+      const step = TOTPUtil.getStep();
+      const code = TOTPUtil.generateCode(secret, step);
+
+      const { tokens } = await AuthService.verifyMfaLogin(mfaToken, code);
+
+      expect(tokens.accessToken).toBe('access');
+      expect(user.update).toHaveBeenCalledWith({ mfaLastUsedStep: step }, expect.anything());
+
+      user.mfaLastUsedStep = step;
+      jest.spyOn(MfaRecoveryCode, 'findOne').mockResolvedValue(null);
+      await expect(AuthService.verifyMfaLogin(mfaToken, code))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_MFA_INVALID_CODE });
+    });
+
+    it('should accept an unused recovery code once', async () => {
+      const user = buildUser();
+      jest.spyOn(User, 'findByPk').mockResolvedValue(user as any);
+      jest.spyOn(AuthUtil, 'generateUserTokens').mockResolvedValue({} as any);
+      const findOne = jest.spyOn(MfaRecoveryCode, 'findOne').mockResolvedValue({ id: 'code-1' } as any);
+      jest.spyOn(MfaRecoveryCode, 'update').mockResolvedValue([1] as any);
+
+      await AuthService.verifyMfaLogin(JWTUtil.generateMfaToken('user-1', false), 'abcde-12345');
+
+      expect(findOne).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId: 'user-1', codeHash: TOTPUtil.hashRecoveryCode('abcde12345'), usedAt: null }
+      }));
+      expect(AuditLog.create).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'MFA_RECOVERY_CODE_USED' }),
+        expect.anything()
+      );
+    });
+  });
+
+  describe('MfaService', () => {
+    it('should enable MFA and return recovery codes when enrollment is confirmed', async () => {
+      const user = buildUser({ mfaEnabled: false });
+      jest.spyOn(User, 'findByPk').mockResolvedValue(user as any);
+      jest.spyOn(MfaRecoveryCode, 'destroy').mockResolvedValue(0);
+      const bulkCreate = jest.spyOn(MfaRecoveryCode, 'bulkCreate').mockResolvedValue([] as any);
+
+      const recoveryCodes = await MfaService.confirmEnrollment('user-1', TOTPUtil.generateCode(secret));
+
+      expect(user.update).toHaveBeenCalledWith(
+        expect.objectContaining({ mfaEnabled: true }),
+        expect.anything()
+      );
+      expect(recoveryCodes).toHaveLength(10);
+      const stored = (bulkCreate.mock.calls[0][0] as any[]).map(row => row.codeHash);
+      expect(stored).toEqual(recoveryCodes.map(code => TOTPUtil.hashRecoveryCode(code)));
+    });
+
+    it('should not allow disabling MFA required by a role', async () => {
+      jest.spyOn(User, 'findByPk').mockResolvedValue(buildUser() as any);
+      jest.spyOn(MfaService, 'isRequiredByRole').mockResolvedValue(true);
+
+      await expect(MfaService.disable('user-1', TOTPUtil.generateCode(secret)))
+        .rejects.toThrow('MFA is required by one of your roles and cannot be disabled');
+    });
+
+    it('should detect MFA requirements inherited from parent roles', async () => {
+      jest.spyOn(User, 'findByPk').mockResolvedValue(buildUser({ roles: [{ id: 'line_lead' }] }) as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockResolvedValue(['line_lead', 'quality_manager']);
+      const count = jest.spyOn(Role, 'count').mockResolvedValue(1 as any);
+
+      await expect(MfaService.isRequiredByRole('user-1')).resolves.toBe(true);
+      expect(count).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: ['line_lead', 'quality_manager'], mfaRequired: true }
+      }));
+    });
+  });
+});
@@ -0,0 +1,415 @@
+import crypto from 'crypto';
+import { User } from '../../../src/models/User';
+import { RefreshToken } from '../../../src/models/RefreshToken';
+import { RevokedToken } from '../../../src/models/RevokedToken';
+import { OAuthClient } from '../../../src/models/OAuthClient';
+import { OAuthAuthorizationCode } from '../../../src/models/OAuthAuthorizationCode';
+import { OAuthConsent } from '../../../src/models/OAuthConsent';
+import { OAuthService } from '../../../src/services/oauth.service';
+import { AuditService } from '../../../src/services/audit.service';
+import { AuthService } from '../../../src/services/auth.service';
+import { PermissionCacheService } from '../../../src/services/permission-cache.service';
+import { JWTUtil } from '../../../src/utils/jwt.util';
+import { AuthenticationError } from '../../../src/utils/errors';
+import { ErrorCode } from '../../../src/types';
+import { OAuthAuthorizationParams } from '../../../src/types/oauth.types';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const REDIRECT_URI = 'https://scheduler.mes.example/callback';
+const CLIENT_SECRET = 'scheduler-secret';
+
+const codeVerifier = crypto.randomBytes(32).toString('base64url');
+const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+describe('OAuthService', () => {
+  let client: OAuthClient;
+  let user: Record<string, any>;
+
+  const authorizationParams = (overrides: Partial<OAuthAuthorizationParams> = {}): OAuthAuthorizationParams => ({
+    response_type: 'code',
+    client_id: client.id,
+    redirect_uri: REDIRECT_URI,
+    scope: 'workorder:read',
+    state: 'xyz',
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+    ...overrides
+  });
+
+  /**
+   * Approve an authorization request and capture the code row it stored, as
+   * the token endpoint would find it
+   */
+  const authorize = async () => {
+    let stored: OAuthAuthorizationCode | undefined;
+    jest.spyOn(OAuthAuthorizationCode, 'create').mockImplementation(async (values: any) => {
+      stored = OAuthAuthorizationCode.build(values);
+      jest.spyOn(stored, 'update').mockResolvedValue(stored);
+      return stored;
+    });
+
+    const url = new URL(await OAuthService.authorize('user-1', authorizationParams(), true));
+    jest.spyOn(OAuthAuthorizationCode, 'findOne').mockImplementation(async (options: any) =>
+      (stored && options.where.codeHash === stored.codeHash ? stored : null) as any
+    );
+
+    return { url, code: url.searchParams.get('code')!, stored: stored! };
+  };
+
+  const redeem = (code: string, overrides: Record<string, string> = {}) => OAuthService.token(
+    { grant_type: 'authorization_code', code, redirect_uri: REDIRECT_URI, code_verifier: codeVerifier, ...overrides },
+    { clientId: client.id, clientSecret: CLIENT_SECRET }
+  );
+
+  beforeEach(() => {
+    client = OAuthClient.build({
+      id: '3b0d8f52-2c53-4a8e-9a55-6c1f0e7b9a10',
+      name: 'Production Scheduler',
+      clientSecretHash: OAuthClient.hashSecret(CLIENT_SECRET),
+      redirectUris: [REDIRECT_URI],
+      grantTypes: ['authorization_code', 'refresh_token'],
+      scopes: ['workorder:*', 'schedule:read'],
+      serviceAccountId: null,
+      requireConsent: true,
+      isActive: true
+    });
+    user = {
+      id: 'user-1',
+      username: 'planner',
+      email: 'planner@example.com',
+      isActive: true,
+      isSuperuser: false,
+      isServiceAccount: false,
+      permissionsVersion: 4,
+      isLocked: () => false,
+      update: jest.fn()
+    };
+
+    jest.spyOn(OAuthClient, 'findByPk').mockImplementation(async (id: any) => (id === client.id ? client : null) as any);
+    jest.spyOn(User, 'findByPk').mockImplementation(async () => user as any);
+    jest.spyOn(PermissionCacheService, 'getEffectivePermissions').mockResolvedValue({
+      userId: 'user-1',
+      isSuperuser: false,
+      roles: [{ id: 'role-1', name: 'planner', direct: true, permissions: [] }],
+      permissions: ['workorder:read', 'workorder:update', 'user:read']
+    });
+    jest.spyOn(OAuthConsent, 'findOne').mockResolvedValue(null);
+    jest.spyOn(OAuthConsent, 'create').mockResolvedValue({} as any);
+    jest.spyOn(OAuthAuthorizationCode, 'destroy').mockResolvedValue(0);
+    jest.spyOn(AuditService, 'log').mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('authorization requests', () => {
+    it('should describe the request and ask for consent the first time', async () => {
+      const details = await OAuthService.getAuthorizationRequest('user-1', authorizationParams());
+
+      expect(details).toEqual({
+        client: { id: client.id, name: 'Production Scheduler' },
+        redirectUri: REDIRECT_URI,
+        scopes: ['workorder:read'],
+        consentRequired: true
+      });
+    });
+
+    it('should not ask again for scopes the user already approved', async () => {
+      jest.spyOn(OAuthConsent, 'findOne').mockResolvedValue(
+        OAuthConsent.build({ userId: 'user-1', clientId: client.id, scopes: ['workorder:read', 'schedule:read'] })
+      );
+
+      const details = await OAuthService.getAuthorizationRequest('user-1', authorizationParams());
+
+      expect(details.consentRequired).toBe(false);
+    });
+
+    it('should reject redirect URIs that are not registered', async () => {
+      await expect(OAuthService.getAuthorizationRequest(
+        'user-1',
+        authorizationParams({ redirect_uri: `${REDIRECT_URI}/../steal` })
+      )).rejects.toMatchObject({ error: 'invalid_request' });
+    });
+
+    it('should reject scopes beyond the client registration', async () => {
+      await expect(OAuthService.getAuthorizationRequest(
+        'user-1',
+        authorizationParams({ scope: 'workorder:read user:delete' })
+      )).rejects.toMatchObject({ error: 'invalid_scope' });
+    });
+
+    it('should send the user back with access_denied when they refuse', async () => {
+      const create = jest.spyOn(OAuthAuthorizationCode, 'create');
+
+      const url = new URL(await OAuthService.authorize('user-1', authorizationParams(), false));
+
+      expect(Object.fromEntries(url.searchParams)).toEqual({ error: 'access_denied', state: 'xyz' });
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authorization code grant', () => {
+    it('should issue tokens limited to the approved scopes', async () => {
+      jest.spyOn(OAuthAuthorizationCode, 'update').mockResolvedValue([1] as any);
+      const createRefreshToken = jest.spyOn(RefreshToken, 'create').mockResolvedValue({} as any);
+
+      const { url, code, stored } = await authorize();
+      const response = await redeem(code);
+
+      expect(url.searchParams.get('state')).toBe('xyz');
+      expect(stored.codeHash).toBe(OAuthAuthorizationCode.hashCode(code));
+      expect(OAuthConsent.create).toHaveBeenCalledWith(
+        { userId: 'user-1', clientId: client.id, scopes: ['workorder:read'] },
+        expect.anything()
+      );
+
+      expect(response).toMatchObject({ token_type: 'Bearer', scope: 'workorder:read' });
+      const payload = JWTUtil.verifyAccessToken(response.access_token);
+      expect(payload).toMatchObject({
+        sub: 'user-1',
+        roles: [],
+        permissions: ['workorder:read'],
+        clientId: client.id,
+        scope: 'workorder:read'
+      });
+      expect(createRefreshToken).toHaveBeenCalledWith(expect.objectContaining({
+        clientId: client.id,
+        scopes: ['workorder:read']
+      }));
+      expect(stored.update).toHaveBeenCalledWith({ tokenFamilyId: expect.any(String) });
+    });
+
+    it('should grant superusers the scopes they approve and nothing more', async () => {
+      user.isSuperuser = true;
+      jest.spyOn(OAuthAuthorizationCode, 'update').mockResolvedValue([1] as any);
+      jest.spyOn(RefreshToken, 'create').mockResolvedValue({} as any);
+
+      const { code } = await authorize();
+      const response = await redeem(code);
+
+      expect(JWTUtil.verifyAccessToken(response.access_token).permissions).toEqual(['workorder:read']);
+    });
+
+    it('should reject a code verifier that does not match the challenge', async () => {
+      const claim = jest.spyOn(OAuthAuthorizationCode, 'update');
+
+      const { code } = await authorize();
+
+      await expect(redeem(code, { code_verifier: crypto.randomBytes(32).toString('base64url') }))
+        .rejects.toMatchObject({ error: 'invalid_grant' });
+      expect(claim).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the tokens issued for a code that is redeemed again', async () => {
+      const { code, stored } = await authorize();
+      stored.usedAt = new Date();
+      stored.tokenFamilyId = 'family-7';
+      const revokeFamily = jest.spyOn(RefreshToken, 'revokeFamily').mockResolvedValue(2);
+
+      await expect(redeem(code)).rejects.toMatchObject({ error: 'invalid_grant' });
+      expect(revokeFamily).toHaveBeenCalledWith('family-7');
+      expect(AuditService.log).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'oauth:code_reuse',
+        details: { familyId: 'family-7', revokedCount: 2 }
+      }));
+    });
+  });
+
+  describe('token endpoint', () => {
+    it('should reject a wrong client secret', async () => {
+      await expect(OAuthService.token(
+        { grant_type: 'refresh_token', refresh_token: 'token' },
+        { clientId: client.id, clientSecret: 'guess' }
+      )).rejects.toMatchObject({ error: 'invalid_client', statusCode: 401 });
+    });
+
+    it('should reject grants the client is not registered for', async () => {
+      await expect(OAuthService.token(
+        { grant_type: 'client_credentials' },
+        { clientId: client.id, clientSecret: CLIENT_SECRET }
+      )).rejects.toMatchObject({ error: 'unauthorized_client' });
+    });
+
+    it('should issue client credentials tokens for the service account without a refresh token', async () => {
+      client.grantTypes = ['client_credentials'];
+      client.serviceAccountId = 'svc-1';
+      user = { ...user, id: 'svc-1', username: 'svc-scheduler', isServiceAccount: true };
+
+      const response = await OAuthService.token(
+        { grant_type: 'client_credentials', scope: 'workorder:*' },
+        { clientId: client.id, clientSecret: CLIENT_SECRET }
+      );
+
+      expect(response.refresh_token).toBeUndefined();
+      expect(response.scope).toBe('workorder:*');
+      expect(JWTUtil.verifyAccessToken(response.access_token)).toMatchObject({
+        sub: 'svc-1',
+        permissions: ['workorder:read', 'workorder:update'],
+        clientId: client.id
+      });
+    });
+
+    it('should rotate refresh tokens only for the client they were issued to', async () => {
+      const refresh = jest.spyOn(AuthService, 'refreshToken').mockRejectedValue(
+        new AuthenticationError(ErrorCode.AUTH_TOKEN_INVALID, 'Invalid refresh token')
+      );
+
+      await expect(OAuthService.token(
+        { grant_type: 'refresh_token', refresh_token: 'stolen' },
+        { clientId: client.id, clientSecret: CLIENT_SECRET }
+      )).rejects.toMatchObject({ error: 'invalid_grant', message: 'Invalid refresh token' });
+      expect(refresh).toHaveBeenCalledWith('stolen', {}, undefined, client.id);
+    });
+  });
+
+  describe('introspection and revocation', () => {
+    const credentials = () => ({ clientId: client.id, clientSecret: CLIENT_SECRET });
+
+    const issueAccessToken = (clientId?: string) => JWTUtil.generateAccessToken({
+      sub: 'user-1',
+      username: 'planner',
+      email: 'planner@example.com',
+      roles: [],
+      permissions: ['workorder:read'],
+      permissionsVersion: 4,
+      ...(clientId ? { clientId, scope: 'workorder:read' } : {})
+    });
+
+    const storeRefreshToken = (overrides: Record<string, unknown> = {}) => {
+      const token = JWTUtil.generateRefreshToken('user-1', 'token-1');
+      const storedToken = RefreshToken.build({
+        id: 'token-1',
+        userId: 'user-1',
+        tokenHash: RefreshToken.hashToken(token),
+        familyId: 'family-1',
+        expiresAt: new Date(Date.now() + 60000),
+        clientId: client.id,
+        scopes: ['workorder:read'],
+        createdAt: new Date(),
+        ...overrides
+      });
+      storedToken.user = user as any;
+      jest.spyOn(RefreshToken, 'findOne').mockResolvedValue(storedToken);
+
+      return token;
+    };
+
+    beforeEach(() => {
+      jest.spyOn(RevokedToken, 'isRevoked').mockResolvedValue(false);
+    });
+
+    it('should describe an active access token issued to a client', async () => {
+      const response = await OAuthService.introspect({ token: issueAccessToken(client.id) }, credentials());
+
+      expect(response).toMatchObject({
+        active: true,
+        scope: 'workorder:read',
+        client_id: client.id,
+        username: 'planner',
+        token_type: 'Bearer',
+        sub: 'user-1',
+        permissions: ['workorder:read']
+      });
+      expect(AuditService.log).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-1',
+        action: 'oauth:introspect',
+        resourceId: client.id,
+        details: { tokenType: 'access_token', active: true }
+      }));
+    });
+
+    it('should report revoked and unrecognized tokens as inactive only', async () => {
+      jest.spyOn(RevokedToken, 'isRevoked').mockResolvedValue(true);
+
+      await expect(OAuthService.introspect({ token: issueAccessToken() }, credentials()))
+        .resolves.toEqual({ active: false });
+      await expect(OAuthService.introspect({ token: 'not-a-token' }, credentials()))
+        .resolves.toEqual({ active: false });
+      expect(AuditService.log).toHaveBeenLastCalledWith(expect.objectContaining({
+        userId: null,
+        details: { tokenType: null, active: false }
+      }));
+    });
+
+    it('should describe refresh tokens with their granted scopes', async () => {
+      const token = storeRefreshToken();
+
+      const response = await OAuthService.introspect({ token, token_type_hint: 'refresh_token' }, credentials());
+
+      expect(response).toMatchObject({
+        active: true,
+        scope: 'workorder:read',
+        client_id: client.id,
+        token_type: 'refresh_token',
+        sub: 'user-1'
+      });
+    });
+
+    it('should only let confidential clients introspect', async () => {
+      client.clientSecretHash = null;
+
+      await expect(OAuthService.introspect({ token: issueAccessToken() }, { clientId: client.id }))
+        .rejects.toMatchObject({ error: 'unauthorized_client' });
+    });
+
+    it('should revoke the whole family of a refresh token', async () => {
+      const token = storeRefreshToken();
+      const revokeFamily = jest.spyOn(RefreshToken, 'revokeFamily').mockResolvedValue(3);
+
+      await OAuthService.revoke({ token }, credentials());
+
+      expect(revokeFamily).toHaveBeenCalledWith('family-1');
+      expect(AuditService.log).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'oauth:revoke',
+        details: { tokenType: 'refresh_token', revokedCount: 3, permitted: true }
+      }));
+    });
+
+    it('should put a revoked access token on the denylist until it expires', async () => {
+      const token = issueAccessToken(client.id);
+      const { jti, exp } = JWTUtil.verifyAccessToken(token);
+      const revoke = jest.spyOn(RevokedToken, 'revoke').mockResolvedValue();
+
+      await OAuthService.revoke({ token, token_type_hint: 'access_token' }, credentials());
+
+      expect(revoke).toHaveBeenCalledWith(jti, 'user-1', new Date(exp! * 1000), 'oauth_revoke');
+    });
+
+    it('should refuse to revoke tokens issued to another client', async () => {
+      const revoke = jest.spyOn(RevokedToken, 'revoke');
+
+      await expect(OAuthService.revoke({ token: issueAccessToken('5f1c7a0e-8d9b-4b7e-a1d3-2c4e6f8a0b12') }, credentials()))
+        .rejects.toMatchObject({ error: 'unauthorized_client' });
+      expect(revoke).not.toHaveBeenCalled();
+      expect(AuditService.log).toHaveBeenCalledWith(expect.objectContaining({
+        details: { tokenType: 'access_token', revokedCount: 0, permitted: false }
+      }));
+    });
+
+    it('should refuse to revoke tokens of users\' own sessions', async () => {
+      storeRefreshToken({ clientId: null, scopes: null });
+      const revokeFamily = jest.spyOn(RefreshToken, 'revokeFamily');
+      const revoke = jest.spyOn(RevokedToken, 'revoke');
+
+      await expect(OAuthService.revoke({ token: JWTUtil.generateRefreshToken('user-1', 'token-1') }, credentials()))
+        .rejects.toMatchObject({ error: 'unauthorized_client' });
+      await expect(OAuthService.revoke({ token: issueAccessToken(), token_type_hint: 'access_token' }, credentials()))
+        .rejects.toMatchObject({ error: 'unauthorized_client' });
+      expect(revokeFamily).not.toHaveBeenCalled();
+      expect(revoke).not.toHaveBeenCalled();
+    });
+
+    it('should accept tokens that are already invalid', async () => {
+      await expect(OAuthService.revoke({ token: 'not-a-token' }, credentials())).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import crypto from 'crypto';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { User } from '../../../src/models/User';
+import { OidcProvider } from '../../../src/models/OidcProvider';
+import { OidcLoginState } from '../../../src/models/OidcLoginState';
+import { OidcService } from '../../../src/services/oidc.service';
+import { AuditService } from '../../../src/services/audit.service';
+import { UserService } from '../../../src/services/user.service';
+import { ChangeRequestService } from '../../../src/services/change-request.service';
+import { Role } from '../../../src/models/Role';
+import { AuthUtil } from '../../../src/utils/auth.util';
+import { TOTPUtil } from '../../../src/utils/totp.util';
+import { config } from '../../../src/config';
+import { ErrorCode } from '../../../src/types';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const CLIENT_ID = 'mes-portal';
+const CLIENT_SECRET = 's3cret/with+symbols';
+
+const signingKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const foreignKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+/**
+ * Minimal identity provider: discovery, JWKS and a token endpoint that
+ * checks the client credentials and PKCE verifier, then returns whatever ID
+ * token the test prepared
+ */
+const startIdp = async () => {
+  const idp = {
+    issuer: '',
+    codeChallenge: '',
+    tokenRequests: [] as Record<string, string>[],
+    idToken: () => ''
+  };
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/.well-known/openid-configuration', (_req, res) => {
+    res.json({
+      issuer: idp.issuer,
+      authorization_endpoint: `${idp.issuer}/authorize`,
+      token_endpoint: `${idp.issuer}/token`,
+      jwks_uri: `${idp.issuer}/jwks`
+    });
+  });
+
+  app.get('/jwks', (_req, res) => {
+    res.json({ keys: [{ ...signingKey.publicKey.export({ format: 'jwk' }), kid: 'idp-1', use: 'sig', alg: 'RS256' }] });
+  });
+
+  app.post('/token', (req, res) => {
+    const body = req.body as Record<string, string>;
+    idp.tokenRequests.push(body);
+
+    const expected = `Basic ${Buffer.from(`${encodeURIComponent(CLIENT_ID)}:${encodeURIComponent(CLIENT_SECRET)}`).toString('base64')}`;
+    const challenge = crypto.createHash('sha256').update(body.code_verifier || '').digest('base64url');
+    if (req.headers.authorization !== expected || challenge !== idp.codeChallenge || body.code !== 'auth-code') {
+      res.status(400).json({ error: 'invalid_grant' });
+      return;
+    }
+
+    res.json({ access_token: 'at', token_type: 'Bearer', id_token: idp.idToken() });
+  });
+
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  idp.issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return { idp, server };
+};
+
+describe('OidcService', () => {
+  let idp: Awaited<ReturnType<typeof startIdp>>['idp'];
+  let server: Server;
+  let provider: OidcProvider;
+
+  const sign = (claims: Record<string, unknown>, options: { key?: crypto.KeyObject; kid?: string } = {}) =>
+    jwt.sign(
+      { sub: 'idp-user-42', ...claims },
+      options.key || signingKey.privateKey,
+      { algorithm: 'RS256', keyid: options.kid || 'idp-1', issuer: idp.issuer, audience: CLIENT_ID, expiresIn: '5m' }
+    );
+
+  /**
+   * Run beginLogin and capture the state it stored, as the callback would find it
+   */
+  const beginLogin = async () => {
+    let stored: OidcLoginState | undefined;
+    jest.spyOn(OidcLoginState, 'destroy').mockResolvedValue(0);
+    jest.spyOn(OidcLoginState, 'create').mockImplementation(async (values: any) => {
+      stored = OidcLoginState.build(values);
+      jest.spyOn(stored, 'destroy').mockResolvedValue(undefined);
+      return stored;
+    });
+
+    const url = new URL(await OidcService.beginLogin('corp'));
+    idp.codeChallenge = url.searchParams.get('code_challenge')!;
+    jest.spyOn(OidcLoginState, 'findOne').mockImplementation(async (options: any) =>
+      (stored && options.where.stateHash === stored.stateHash ? stored : null) as any
+    );
+
+    return { url, state: url.searchParams.get('state')!, stored: stored! };
+  };
+
+  beforeAll(async () => {
+    ({ idp, server } = await startIdp());
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    idp.tokenRequests.length = 0;
+    provider = OidcProvider.build({
+      id: '6f1c2b1e-7a3d-4d59-9a55-0d3c0e7b9a01',
+      name: 'corp',
+      displayName: 'Corporate SSO',
+      issuer: idp.issuer,
+      clientId: CLIENT_ID,
+      clientSecret: TOTPUtil.encryptSecret(CLIENT_SECRET),
+      scopes: 'openid profile email groups',
+      claimMapping: null,
+      roleClaim: 'groups',
+      roleMappings: [
+        { value: 'mes-operators', roleId: 'role-operator' },
+        { value: 'mes-quality', roleId: 'role-quality' }
+      ],
+      autoProvision: true,
+      isEnabled: true,
+      updatedAt: new Date('2024-07-01T00:00:00Z')
+    });
+    jest.spyOn(OidcProvider, 'findOne').mockResolvedValue(provider);
+    jest.spyOn(AuditService, 'logAuth').mockResolvedValue({} as any);
+    jest.spyOn(ChangeRequestService, 'heldRoleIds').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('beginLogin', () => {
+    it('should redirect to the authorization endpoint with state, nonce and an S256 challenge', async () => {
+      const { url, stored } = await beginLogin();
+
+      expect(`${url.origin}${url.pathname}`).toBe(`${idp.issuer}/authorize`);
+      expect(Object.fromEntries(url.searchParams)).toMatchObject({
+        response_type: 'code',
+        client_id: CLIENT_ID,
+        redirect_uri: `${config.oidc.redirectBaseUrl}/corp/callback`,
+        scope: 'openid profile email groups',
+        code_challenge_method: 'S256',
+        nonce: stored.nonce
+      });
+      expect(stored.stateHash).toBe(OidcLoginState.hashState(url.searchParams.get('state')!));
+      expect(crypto.createHash('sha256').update(stored.codeVerifier).digest('base64url'))
+        .toBe(url.searchParams.get('code_challenge'));
+    });
+
+    it('should not start a sign-in with an unknown or disabled provider', async () => {
+      jest.spyOn(OidcProvider, 'findOne').mockResolvedValue(null);
+
+      await expect(OidcService.beginLogin('nope')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('createProvider', () => {
+    it('should refuse role mappings to roles whose assignment needs approval', async () => {
+      jest.spyOn(Role, 'count').mockResolvedValue(1 as any);
+      jest.spyOn(ChangeRequestService, 'heldRoleIds').mockResolvedValue(['role-super']);
+      const create = jest.spyOn(OidcProvider, 'create');
+
+      await expect(OidcService.createProvider({
+        name: 'partner',
+        displayName: 'Partner SSO',
+        issuer: 'https://sso.partner.example',
+        clientId: CLIENT_ID,
+        roleClaim: 'groups',
+        roleMappings: [{ value: 'partner-admins', roleId: 'role-super' }]
+      }, 'admin-1')).rejects.toMatchObject({ statusCode: 400 });
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeLogin', () => {
+    const tokens = { accessToken: 'access', refreshToken: 'refresh', expiresIn: 900, tokenType: 'Bearer' };
+
+    it('should provision the user, sync mapped roles and issue tokens', async () => {
+      const { state, stored } = await beginLogin();
+      idp.idToken = () => sign({
+        nonce: stored.nonce,
+        preferred_username: 'jdoe@corp.example',
+        email: 'jdoe@corp.example',
+        given_name: 'Jane',
+        family_name: 'Doe',
+        groups: ['mes-operators', 'everyone']
+      });
+      jest.spyOn(User, 'findOne').mockResolvedValue(null);
+      const create = jest.spyOn(User, 'create').mockImplementation(async (values: any) => ({
+        id: 'user-9',
+        ...values,
+        isLocked: () => false,
+        reload: jest.fn()
+      }));
+      const sync = jest.spyOn(UserService, 'syncManagedRoles').mockResolvedValue({ added: ['role-operator'], removed: [] });
+      jest.spyOn(AuthUtil, 'generateUserTokens').mockResolvedValue(tokens);
+
+      const result = await OidcService.completeLogin('corp', { code: 'auth-code', state });
+
+      expect(result.tokens).toBe(tokens);
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({
+        username: 'jdoe',
+        email: 'jdoe@corp.example',
+        authProvider: 'oidc',
+        externalId: `${provider.id}:idp-user-42`
+      }), expect.anything());
+      expect(sync).toHaveBeenCalledWith('user-9', ['role-operator', 'role-quality'], ['role-operator'], 'oidc', undefined);
+      expect(stored.destroy).toHaveBeenCalled();
+      expect(idp.tokenRequests[0]).toMatchObject({ grant_type: 'authorization_code', code: 'auth-code' });
+    });
+
+    it('should not sync mapped roles whose assignment needs approval', async () => {
+      const { state, stored } = await beginLogin();
+      idp.idToken = () => sign({ nonce: stored.nonce, preferred_username: 'jdoe', groups: ['mes-operators', 'mes-quality'] });
+      jest.spyOn(User, 'findOne').mockResolvedValue({ id: 'user-9', isActive: true, isLocked: () => false, update: jest.fn(), reload: jest.fn() } as any);
+      jest.spyOn(ChangeRequestService, 'heldRoleIds').mockResolvedValue(['role-quality']);
+      const sync = jest.spyOn(UserService, 'syncManagedRoles').mockResolvedValue({ added: ['role-operator'], removed: [] });
+      jest.spyOn(AuthUtil, 'generateUserTokens').mockResolvedValue(tokens);
+
+      await OidcService.completeLogin('corp', { code: 'auth-code', state });
+
+      expect(sync).toHaveBeenCalledWith('user-9', ['role-operator'], ['role-operator'], 'oidc', undefined);
+    });
+
+    it('should only accept each state once', async () => {
+      const { state, stored } = await beginLogin();
+      idp.idToken = () => sign({ nonce: stored.nonce });
+      (stored.destroy as jest.Mock).mockImplementation(async () => {
+        jest.spyOn(OidcLoginState, 'findOne').mockResolvedValue(null);
+      });
+      jest.spyOn(User, 'findOne').mockResolvedValue({ id: 'user-9', isActive: true, isLocked: () => false, update: jest.fn(), reload: jest.fn() } as any);
+      jest.spyOn(UserService, 'syncManagedRoles').mockResolvedValue({ added: [], removed: [] });
+      jest.spyOn(AuthUtil, 'generateUserTokens').mockResolvedValue(tokens);
+
+      await OidcService.completeLogin('corp', { code: 'auth-code', state });
+
+      await expect(OidcService.completeLogin('corp', { code: 'auth-code', state }))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_TOKEN_INVALID });
+      expect(idp.tokenRequests).toHaveLength(1);
+    });
+
+    it('should reject an ID token with another nonce', async () => {
+      const { state } = await beginLogin();
+      idp.idToken = () => sign({ nonce: 'replayed-nonce' });
+      const findUser = jest.spyOn(User, 'findOne');
+
+      await expect(OidcService.completeLogin('corp', { code: 'auth-code', state }))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_TOKEN_INVALID });
+      expect(findUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject an ID token that is not signed by the provider', async () => {
+      const { state, stored } = await beginLogin();
+      idp.idToken = () => sign({ nonce: stored.nonce }, { key: foreignKey.privateKey });
+
+      await expect(OidcService.completeLogin('corp', { code: 'auth-code', state }))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_TOKEN_INVALID });
+    });
+
+    it('should reject an ID token issued to another client', async () => {
+      const { state, stored } = await beginLogin();
+      idp.idToken = () => jwt.sign(
+        { sub: 'idp-user-42', nonce: stored.nonce },
+        signingKey.privateKey,
+        { algorithm: 'RS256', keyid: 'idp-1', issuer: idp.issuer, audience: 'other-app', expiresIn: '5m' }
+      );
+
+      await expect(OidcService.completeLogin('corp', { code: 'auth-code', state }))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_TOKEN_INVALID });
+    });
+
+    it('should reject an authorization error from the provider', async () => {
+      await expect(OidcService.completeLogin('corp', { error: 'access_denied' }))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_INVALID_CREDENTIALS });
+      expect(idp.tokenRequests).toHaveLength(0);
+    });
+
+    it('should not create accounts when the provider does not auto-provision', async () => {
+      provider.autoProvision = false;
+      const { state, stored } = await beginLogin();
+      idp.idToken = () => sign({ nonce: stored.nonce, preferred_username: 'jdoe' });
+      jest.spyOn(User, 'findOne').mockResolvedValue(null);
+      const create = jest.spyOn(User, 'create');
+
+      await expect(OidcService.completeLogin('corp', { code: 'auth-code', state }))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_INVALID_CREDENTIALS });
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { OrgUnit } from '../../../src/models/OrgUnit';
+import { ScopedRoleAssignment } from '../../../src/models/ScopedRoleAssignment';
+import { ElevationRequest } from '../../../src/models/ElevationRequest';
+import { User } from '../../../src/models/User';
+import { Role } from '../../../src/models/Role';
+import { UserRole } from '../../../src/models/UserRole';
+import { SodRule } from '../../../src/models/SodRule';
+import { OrgUnitService } from '../../../src/services/org-unit.service';
+import { AuditService } from '../../../src/services/audit.service';
+import { PermissionVersionService } from '../../../src/services/permission-version.service';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('OrgUnitService', () => {
+  beforeEach(() => {
+    jest.spyOn(AuditService, 'log').mockResolvedValue({} as any);
+    jest.spyOn(PermissionVersionService, 'bumpUsers').mockResolvedValue();
+    jest.spyOn(ElevationRequest, 'findAll').mockResolvedValue([]);
+    jest.spyOn(OrgUnit, 'findOne').mockResolvedValue(null);
+    jest.spyOn(OrgUnit, 'create').mockImplementation(async (values: any) => OrgUnit.build(values));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createOrgUnit', () => {
+    it('should create a unit one level below its parent', async () => {
+      jest.spyOn(OrgUnit, 'findByPk').mockResolvedValue({ id: 'area-1', level: 'area' } as any);
+
+      const orgUnit = await OrgUnitService.createOrgUnit(
+        { name: 'Line 3', code: 'LINE-3', level: 'line', parentId: 'area-1' },
+        'admin-1'
+      );
+
+      expect(orgUnit).toMatchObject({ code: 'LINE-3', level: 'line', parentId: 'area-1' });
+      expect(AuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'org_unit:create', userId: 'admin-1' }),
+        undefined
+      );
+    });
+
+    it('should refuse levels that skip or repeat a level of the hierarchy', async () => {
+      jest.spyOn(OrgUnit, 'findByPk').mockResolvedValue({ id: 'site-1', level: 'site' } as any);
+
+      await expect(OrgUnitService.createOrgUnit(
+        { name: 'Line 3', code: 'LINE-3', level: 'line', parentId: 'site-1' },
+        'admin-1'
+      )).rejects.toMatchObject({ statusCode: 400, message: 'Units below a site must be at the area level' });
+    });
+
+    it('should refuse units below a work cell and units other than enterprises at the top', async () => {
+      jest.spyOn(OrgUnit, 'findByPk').mockResolvedValue({ id: 'cell-1', level: 'work_cell' } as any);
+
+      await expect(OrgUnitService.createOrgUnit(
+        { name: 'Station', code: 'ST-1', level: 'work_cell', parentId: 'cell-1' },
+        'admin-1'
+      )).rejects.toMatchObject({ statusCode: 400 });
+      await expect(OrgUnitService.createOrgUnit({ name: 'Plant A', code: 'PLANT-A', level: 'site' }, 'admin-1'))
+        .rejects.toMatchObject({ statusCode: 400, message: 'A site must have a parent unit' });
+    });
+
+    it('should refuse a code that is already taken', async () => {
+      jest.spyOn(OrgUnit, 'findOne').mockResolvedValue({ id: 'other' } as any);
+
+      await expect(OrgUnitService.createOrgUnit({ name: 'ACME', code: 'ACME', level: 'enterprise' }, 'admin-1'))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(OrgUnit.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteOrgUnit', () => {
+    it('should refuse units that still contain other units', async () => {
+      const destroy = jest.fn();
+      jest.spyOn(OrgUnit, 'findByPk').mockResolvedValue({ id: 'area-1', destroy } as any);
+      jest.spyOn(OrgUnit, 'count').mockResolvedValue(2 as any);
+
+      await expect(OrgUnitService.deleteOrgUnit('area-1', 'admin-1')).rejects.toMatchObject({ statusCode: 409 });
+      expect(destroy).not.toHaveBeenCalled();
+    });
+
+    it('should invalidate tokens of users holding roles at the unit', async () => {
+      const destroy = jest.fn();
+      jest.spyOn(OrgUnit, 'findByPk').mockResolvedValue({ id: 'line-3', code: 'LINE-3', destroy } as any);
+      jest.spyOn(OrgUnit, 'count').mockResolvedValue(0 as any);
+      jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([{ userId: 'user-1' }, { userId: 'user-2' }] as any);
+
+      await OrgUnitService.deleteOrgUnit('line-3', 'admin-1');
+
+      expect(destroy).toHaveBeenCalled();
+      expect(PermissionVersionService.bumpUsers).toHaveBeenCalledWith(['user-1', 'user-2'], undefined);
+    });
+  });
+
+  describe('assignRole', () => {
+    beforeEach(() => {
+      jest.spyOn(OrgUnit, 'findByPk').mockResolvedValue({ id: 'line-3', code: 'LINE-3' } as any);
+      jest.spyOn(User, 'findByPk').mockResolvedValue({ id: 'user-1' } as any);
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({ id: 'role-lead', name: 'line_lead' } as any);
+      jest.spyOn(UserRole, 'findAll').mockResolvedValue([]);
+      jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([]);
+      jest.spyOn(SodRule, 'findAll').mockResolvedValue([]);
+    });
+
+    it('should assign the role within the unit and invalidate the user\'s tokens', async () => {
+      jest.spyOn(ScopedRoleAssignment, 'findOne').mockResolvedValue(null);
+      const create = jest.spyOn(ScopedRoleAssignment, 'create').mockResolvedValue({ id: 'assignment-1' } as any);
+
+      await OrgUnitService.assignRole('line-3', { userId: 'user-1', roleId: 'role-lead' }, 'admin-1');
+
+      expect(create).toHaveBeenCalledWith(
+        { orgUnitId: 'line-3', userId: 'user-1', roleId: 'role-lead', assignedBy: 'admin-1' },
+        { transaction: undefined }
+      );
+      expect(PermissionVersionService.bumpUsers).toHaveBeenCalledWith(['user-1'], undefined);
+      expect(AuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'org_unit:assign_role', resourceId: 'line-3' }),
+        undefined
+      );
+    });
+
+    it('should refuse duplicate assignments', async () => {
+      jest.spyOn(ScopedRoleAssignment, 'findOne').mockResolvedValue({ id: 'assignment-1' } as any);
+
+      await expect(OrgUnitService.assignRole('line-3', { userId: 'user-1', roleId: 'role-lead' }, 'admin-1'))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should refuse roles that break a separation of duties rule with the user\'s global and scoped roles', async () => {
+      jest.spyOn(ScopedRoleAssignment, 'findOne').mockResolvedValue(null);
+      const create = jest.spyOn(ScopedRoleAssignment, 'create');
+      jest.spyOn(UserRole, 'findAll').mockResolvedValue([{ roleId: 'role-operator' }] as any);
+      const findScoped = jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([{ roleId: 'role-lead' }] as any);
+      jest.spyOn(SodRule, 'findAll').mockResolvedValue([
+        { id: 'rule-1', name: 'Report vs release', roleIds: ['role-operator', 'role-inspector'], maxRoles: 1 }
+      ] as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds => roleIds);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'role-operator', name: 'production_operator' },
+        { id: 'role-inspector', name: 'quality_inspector' }
+      ] as any);
+
+      await expect(OrgUnitService.assignRole('line-3', { userId: 'user-1', roleId: 'role-inspector' }, 'admin-1'))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(findScoped).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: 'user-1' } }));
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse roles that break a separation of duties rule with a role the user holds through an elevation', async () => {
+      jest.spyOn(ScopedRoleAssignment, 'findOne').mockResolvedValue(null);
+      const create = jest.spyOn(ScopedRoleAssignment, 'create');
+      jest.spyOn(UserRole, 'findAll').mockResolvedValue([]);
+      jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([]);
+      jest.spyOn(ElevationRequest, 'findAll').mockResolvedValue([{ roleId: 'role-operator' }] as any);
+      jest.spyOn(SodRule, 'findAll').mockResolvedValue([
+        { id: 'rule-1', name: 'Report vs release', roleIds: ['role-operator', 'role-inspector'], maxRoles: 1 }
+      ] as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds => roleIds);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'role-operator', name: 'production_operator' },
+        { id: 'role-inspector', name: 'quality_inspector' }
+      ] as any);
+
+      await expect(OrgUnitService.assignRole('line-3', { userId: 'user-1', roleId: 'role-inspector' }, 'admin-1'))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { User } from '../../../src/models/User';
+import { PasswordReset } from '../../../src/models/PasswordReset';
+import { AuditLog } from '../../../src/models/AuditLog';
+import { AuthService } from '../../../src/services/auth.service';
+import { NotificationService, OutboxNotifier, Notifier } from '../../../src/services/notification.service';
+import { AuthUtil } from '../../../src/utils/auth.util';
+import { PermissionVersionService } from '../../../src/services/permission-version.service';
+import { ErrorCode } from '../../../src/types';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('Password reset flow', () => {
+  let notifier: jest.Mocked<Notifier>;
+  let originalNotifier: Notifier;
+
+  beforeEach(() => {
+    originalNotifier = NotificationService.getNotifier();
+    notifier = { send: jest.fn().mockResolvedValue(undefined) };
+    NotificationService.setNotifier(notifier);
+    jest.spyOn(AuditLog, 'create').mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    NotificationService.setNotifier(originalNotifier);
+    jest.restoreAllMocks();
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should store a hashed token and deliver the raw token through the notifier', async () => {
+      jest.spyOn(User, 'findOne').mockResolvedValue({
+        id: 'user-1',
+        email: 'user@example.com',
+        isActive: true
+      } as any);
+      jest.spyOn(PasswordReset, 'update').mockResolvedValue([0] as any);
+      const create = jest.spyOn(PasswordReset, 'create').mockResolvedValue({} as any);
+
+      const message = await AuthService.requestPasswordReset('user@example.com');
+
+      expect(message).toBe('If the email exists, a reset link will be sent');
+      expect(notifier.send).toHaveBeenCalledTimes(1);
+
+      const sent = notifier.send.mock.calls[0][0];
+      expect(sent.to).toBe('user@example.com');
+      expect(sent.template).toBe('password-reset');
+
+      const stored = create.mock.calls[0][0] as any;
+      expect(stored.tokenHash).toBe(PasswordReset.hashToken(sent.data!.token));
+      expect(stored.tokenHash).not.toBe(sent.data!.token);
+      expect(stored.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should not reveal unknown emails', async () => {
+      jest.spyOn(User, 'findOne').mockResolvedValue(null);
+      const create = jest.spyOn(PasswordReset, 'create');
+
+      const message = await AuthService.requestPasswordReset('nobody@example.com');
+
+      expect(message).toBe('If the email exists, a reset link will be sent');
+      expect(create).not.toHaveBeenCalled();
+      expect(notifier.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    const buildReset = (overrides: Partial<Record<string, any>> = {}) => {
+      const user = { id: 'user-1', isActive: true, update: jest.fn().mockResolvedValue(undefined) };
+      return {
+        id: 'reset-1',
+        usedAt: null,
+        expiresAt: new Date(Date.now() + 60000),
+        user,
+        isUsed() { return this.usedAt !== null; },
+        isExpired() { return new Date() > this.expiresAt; },
+        ...overrides
+      };
+    };
+
+    it('should update the password, consume the token, revoke sessions and audit', async () => {
+      const reset = buildReset();
+      const findOne = jest.spyOn(PasswordReset, 'findOne').mockResolvedValue(reset as any);
+      jest.spyOn(PasswordReset, 'update').mockResolvedValue([1] as any);
+      const revoke = jest.spyOn(AuthUtil, 'revokeAllUserTokens').mockResolvedValue(undefined);
+      const bump = jest.spyOn(PermissionVersionService, 'bumpUsers').mockResolvedValue();
+      const transaction = {} as any;
+
+      await AuthService.resetPassword('raw-token', 'NewSecurePass123!', transaction);
+
+      expect(findOne).toHaveBeenCalledWith(expect.objectContaining({
+        where: { tokenHash: PasswordReset.hashToken('raw-token') }
+      }));
+      expect(reset.user.update).toHaveBeenCalledWith({ password: 'NewSecurePass123!' }, expect.anything());
+      expect(revoke).toHaveBeenCalledWith('user-1', transaction);
+      expect(bump).toHaveBeenCalledWith(['user-1'], transaction);
+      expect(AuditLog.create).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'PASSWORD_RESET_COMPLETED', userId: 'user-1' }),
+        expect.anything()
+      );
+    });
+
+    it('should reject a token that was already used', async () => {
+      jest.spyOn(PasswordReset, 'findOne').mockResolvedValue(buildReset({ usedAt: new Date() }) as any);
+
+      await expect(AuthService.resetPassword('raw-token', 'NewSecurePass123!'))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_TOKEN_INVALID });
+    });
+
+    it('should reject an expired token', async () => {
+      jest.spyOn(PasswordReset, 'findOne').mockResolvedValue(
+        buildReset({ expiresAt: new Date(Date.now() - 1000) }) as any
+      );
+
+      await expect(AuthService.resetPassword('raw-token', 'NewSecurePass123!'))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_TOKEN_EXPIRED });
+    });
+
+    it('should reject a token consumed by a concurrent request', async () => {
+      const reset = buildReset();
+      jest.spyOn(PasswordReset, 'findOne').mockResolvedValue(reset as any);
+      jest.spyOn(PasswordReset, 'update').mockResolvedValue([0] as any);
+
+      await expect(AuthService.resetPassword('raw-token', 'NewSecurePass123!'))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_TOKEN_INVALID });
+      expect(reset.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('OutboxNotifier', () => {
+    it('should write each message to the outbox directory', async () => {
+      const outboxDir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-'));
+
+      try {
+        await new OutboxNotifier(outboxDir).send({
+          to: 'user@example.com',
+          subject: 'Subject',
+          body: 'Body',
+          template: 'password-reset'
+        });
+
+        const files = fs.readdirSync(outboxDir);
+        expect(files).toHaveLength(1);
+        const message = JSON.parse(fs.readFileSync(path.join(outboxDir, files[0]), 'utf8'));
+        expect(message).toMatchObject({ to: 'user@example.com', template: 'password-reset' });
+      } finally {
+        fs.rmSync(outboxDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,299 @@
+import { User } from '../../../src/models/User';
+import { Role } from '../../../src/models/Role';
+import { OrgUnit } from '../../../src/models/OrgUnit';
+import { Permission } from '../../../src/models/Permission';
+import {
+  EffectivePermissions,
+  LruPermissionCache,
+  PermissionCacheService
+} from '../../../src/services/permission-cache.service';
+import permissionService from '../../../src/services/permission.service';
+import { AuthUtil } from '../../../src/utils/auth.util';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const entry = (userId: string): EffectivePermissions => ({
+  userId,
+  isSuperuser: false,
+  roles: [],
+  permissions: []
+});
+
+const mockUserWithRoles = (
+  roles: Array<{ id: string; name: string; permissions: string[]; deniedPermissions?: string[] }>,
+  directRoleIds: string[]
+) => {
+  const findByPk = jest.spyOn(User, 'findByPk').mockResolvedValue({
+    id: 'user-1',
+    isSuperuser: false,
+    roles: directRoleIds.map(id => ({ id }))
+  } as any);
+  jest.spyOn(Role, 'getEffectiveRoleIds').mockResolvedValue(roles.map(role => role.id));
+  const findAll = jest.spyOn(Role, 'findAll').mockResolvedValue(
+    roles.map(role => ({
+      id: role.id,
+      name: role.name,
+      permissions: [
+        ...role.permissions.map(name => ({ name })),
+        ...(role.deniedPermissions || []).map(name => ({ name, RolePermission: { effect: 'deny' } }))
+      ]
+    })) as any
+  );
+
+  return { findByPk, findAll };
+};
+
+describe('Permission cache', () => {
+  beforeEach(() => {
+    PermissionCacheService.setCache(new LruPermissionCache(100, 60000));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('LruPermissionCache', () => {
+    it('should evict the least recently used entry when full', async () => {
+      const cache = new LruPermissionCache(2, 60000);
+      await cache.set('a', entry('a'));
+      await cache.set('b', entry('b'));
+      await cache.get('a');
+      await cache.set('c', entry('c'));
+
+      expect(await cache.get('a')).toBeDefined();
+      expect(await cache.get('b')).toBeUndefined();
+      expect(await cache.get('c')).toBeDefined();
+      expect(cache.size).toBe(2);
+    });
+
+    it('should expire entries after the time to live', async () => {
+      const cache = new LruPermissionCache(10, 1000);
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+      await cache.set('a', entry('a'));
+
+      now.mockReturnValue(1000);
+
+      expect(await cache.get('a')).toBeUndefined();
+      expect(cache.size).toBe(0);
+    });
+  });
+
+  describe('PermissionCacheService', () => {
+    it('should load roles and permissions in one query and serve repeats from the cache', async () => {
+      const { findByPk, findAll } = mockUserWithRoles([
+        { id: 'supervisor', name: 'shift_supervisor', permissions: ['workorder:approve'] },
+        { id: 'operator', name: 'operator', permissions: ['workorder:read', 'workorder:approve'] }
+      ], ['supervisor']);
+
+      const first = await PermissionCacheService.getEffectivePermissions('user-1');
+      const second = await PermissionCacheService.getEffectivePermissions('user-1');
+
+      expect(first).toBe(second);
+      expect(first!.permissions.sort()).toEqual(['workorder:approve', 'workorder:read']);
+      expect(first!.roles.map(role => [role.name, role.direct])).toEqual([
+        ['shift_supervisor', true],
+        ['operator', false]
+      ]);
+      expect(findByPk).toHaveBeenCalledTimes(1);
+      expect(findAll).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reload after the user is invalidated', async () => {
+      const { findByPk } = mockUserWithRoles([], []);
+
+      await PermissionCacheService.getEffectivePermissions('user-1');
+      await PermissionCacheService.invalidateUsers(['user-1']);
+      await PermissionCacheService.getEffectivePermissions('user-1');
+
+      expect(findByPk).toHaveBeenCalledTimes(2);
+    });
+
+    it('should invalidate again once the transaction commits', async () => {
+      const callbacks: Array<() => unknown> = [];
+      const transaction = { afterCommit: (fn: () => unknown) => callbacks.push(fn) };
+      const { findByPk } = mockUserWithRoles([], []);
+
+      await PermissionCacheService.invalidateAll(transaction as any);
+      // A read that races the commit caches the old state...
+      await PermissionCacheService.getEffectivePermissions('user-1');
+      // ...and is dropped when the commit completes
+      await Promise.all(callbacks.map(fn => fn()));
+      await PermissionCacheService.getEffectivePermissions('user-1');
+
+      expect(findByPk).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ignore assignments outside their validity and refresh when the next one starts or ends', async () => {
+      const hour = 60 * 60 * 1000;
+      const startsAt = new Date(Date.now() + hour);
+      const findByPk = jest.spyOn(User, 'findByPk').mockResolvedValue({
+        id: 'user-1',
+        isSuperuser: false,
+        roles: [
+          { id: 'operator', UserRole: { validFrom: null, validUntil: null } },
+          { id: 'lead', UserRole: { validFrom: startsAt, validUntil: new Date(Date.now() + 8 * hour) } },
+          { id: 'contractor', UserRole: { validFrom: null, validUntil: new Date(Date.now() - hour) } }
+        ]
+      } as any);
+      const getEffectiveRoleIds = jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds => roleIds);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'operator', name: 'operator', permissions: [{ name: 'workorder:read' }] }
+      ] as any);
+
+      const effective = await PermissionCacheService.getEffectivePermissions('user-1');
+
+      expect(getEffectiveRoleIds).toHaveBeenCalledWith(['operator']);
+      expect(effective!.refreshAt).toBe(startsAt.getTime());
+
+      await PermissionCacheService.getCache().set('user-1', { ...effective!, refreshAt: Date.now() - 1 });
+      await PermissionCacheService.getEffectivePermissions('user-1');
+
+      expect(findByPk).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('consumers', () => {
+    it('should answer checkUserPermission from cached effective permissions', async () => {
+      const { findByPk } = mockUserWithRoles([
+        { id: 'operator', name: 'operator', permissions: ['workorder:*'] }
+      ], []);
+
+      const first = await permissionService.checkUserPermission('user-1', 'workorder:read');
+      const second = await permissionService.checkUserPermission('user-1', 'material:read');
+
+      expect(first).toEqual({ hasPermission: true, source: 'role:operator (wildcard, inherited)' });
+      expect(second).toEqual({ hasPermission: false });
+      expect(findByPk).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let a deny on any role override allows in checkUserPermission', async () => {
+      const { findAll } = mockUserWithRoles([
+        { id: 'manager', name: 'production_manager', permissions: ['workorder:*'], deniedPermissions: ['workorder:delete'] },
+        { id: 'planner', name: 'planner', permissions: ['workorder:delete'] }
+      ], ['manager', 'planner']);
+
+      const effective = await PermissionCacheService.getEffectivePermissions('user-1');
+      const update = await permissionService.checkUserPermission('user-1', 'workorder:update');
+      const remove = await permissionService.checkUserPermission('user-1', 'workorder:delete');
+
+      expect(findAll).toHaveBeenCalledWith(expect.objectContaining({
+        include: [expect.objectContaining({ through: { attributes: ['effect', 'condition'] } })]
+      }));
+      expect(effective!.permissions.sort()).toEqual(['workorder:*', 'workorder:delete']);
+      expect(effective!.deniedPermissions).toEqual(['workorder:delete']);
+      expect(update).toEqual({ hasPermission: true, source: 'role:production_manager (wildcard)' });
+      expect(remove).toEqual({ hasPermission: false, source: 'role:production_manager (denied by workorder:delete)' });
+    });
+
+    it('should keep conditional entries apart and evaluate them in checkUserPermission', async () => {
+      jest.spyOn(User, 'findByPk').mockResolvedValue({ id: 'user-1', isSuperuser: false, roles: [{ id: 'operator' }] } as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockResolvedValue(['operator']);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([{
+        id: 'operator',
+        name: 'operator',
+        permissions: [
+          { name: 'workorder:read' },
+          { name: 'workorder:update', RolePermission: { effect: 'allow', condition: "user.shift == 'A'" } },
+          { name: 'workorder:*', RolePermission: { effect: 'deny', condition: "context.weekday == 'sun'" } }
+        ]
+      }] as any);
+      const onShift = (weekday: string) => ({ user: { shift: 'A' }, context: { weekday } });
+
+      const effective = await PermissionCacheService.getEffectivePermissions('user-1');
+
+      expect(effective!.permissions).toEqual(['workorder:read']);
+      expect(effective!.deniedPermissions).toEqual([]);
+      expect(effective!.conditionalPermissions).toEqual([
+        { permission: 'workorder:update', effect: 'allow', condition: "user.shift == 'A'" },
+        { permission: 'workorder:*', effect: 'deny', condition: "context.weekday == 'sun'" }
+      ]);
+      await expect(permissionService.checkUserPermission('user-1', 'workorder:update', undefined, onShift('mon')))
+        .resolves.toEqual({ hasPermission: true, source: 'role:operator (conditional)' });
+      await expect(permissionService.checkUserPermission('user-1', 'workorder:update', undefined, onShift('sun')))
+        .resolves.toEqual({ hasPermission: false, source: 'role:operator (denied by workorder:*, conditional)' });
+      // Without a scope no condition is decided: the allow does not grant and the deny applies
+      await expect(permissionService.checkUserPermission('user-1', 'workorder:update'))
+        .resolves.toEqual({ hasPermission: false, source: 'role:operator (denied by workorder:*, conditional)' });
+    });
+
+    it('should apply roles assigned at an org unit only within it and the units below', async () => {
+      jest.spyOn(User, 'findByPk').mockResolvedValue({
+        id: 'user-1',
+        isSuperuser: false,
+        roles: [],
+        scopedRoleAssignments: [{ roleId: 'lead', orgUnitId: 'area-1' }]
+      } as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds => roleIds);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'lead', name: 'line_lead', permissions: [{ name: 'workorder:release' }] }
+      ] as any);
+      jest.spyOn(OrgUnit, 'getScopeChain').mockImplementation(async orgUnitId =>
+        orgUnitId === 'line-3' ? ['line-3', 'area-1', 'site-1'] : [orgUnitId, 'site-1']
+      );
+
+      const effective = await PermissionCacheService.getEffectivePermissions('user-1');
+
+      expect(effective!.permissions).toEqual([]);
+      expect(effective!.scopes).toEqual([expect.objectContaining({
+        orgUnitId: 'area-1',
+        permissions: ['workorder:release'],
+        deniedPermissions: []
+      })]);
+      await expect(permissionService.checkUserPermission('user-1', 'workorder:release'))
+        .resolves.toEqual({ hasPermission: false });
+      await expect(permissionService.checkUserPermission('user-1', 'workorder:release', 'line-3'))
+        .resolves.toEqual({ hasPermission: true, source: 'role:line_lead (scoped)' });
+      await expect(permissionService.checkUserPermission('user-1', 'workorder:release', 'area-2'))
+        .resolves.toEqual({ hasPermission: false });
+    });
+
+    it('should include inherited permissions in getUserPermissions', async () => {
+      mockUserWithRoles([
+        { id: 'supervisor', name: 'shift_supervisor', permissions: ['workorder:approve'] },
+        { id: 'operator', name: 'operator', permissions: ['workorder:read'] }
+      ], ['supervisor']);
+
+      await expect(AuthUtil.getUserPermissions('user-1'))
+        .resolves.toEqual(['workorder:approve', 'workorder:read']);
+    });
+
+    it('should grant approved elevations until they expire and mark them in access tokens', async () => {
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+      jest.spyOn(User, 'findByPk').mockResolvedValue({
+        id: 'user-1',
+        isSuperuser: false,
+        roles: [{ id: 'maintenance' }],
+        elevationRequests: [
+          { id: 'elevation-1', roleId: null, permissionIds: ['perm-configure'], expiresAt },
+          { id: 'elevation-2', roleId: 'lead', permissionIds: [], expiresAt }
+        ]
+      } as any);
+      const getEffectiveRoleIds = jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds => roleIds);
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        { id: 'maintenance', name: 'maintenance_engineer', permissions: [{ name: 'equipment:read' }] },
+        { id: 'lead', name: 'line_lead', permissions: [{ name: 'workorder:approve' }] }
+      ] as any);
+      jest.spyOn(Permission, 'findAll').mockResolvedValue([{ id: 'perm-configure', name: 'equipment:configure' }] as any);
+
+      const payload = await AuthUtil.buildAccessTokenPayload(
+        { id: 'user-1', username: 'jdoe', email: 'jdoe@example.com', isSuperuser: false, permissionsVersion: 3 } as any
+      );
+
+      expect(getEffectiveRoleIds).toHaveBeenCalledWith(['maintenance', 'lead']);
+      expect(payload.roles).toEqual(['maintenance_engineer', 'line_lead']);
+      expect(payload.permissions.sort()).toEqual(['equipment:configure', 'equipment:read', 'workorder:approve']);
+      expect(payload.elevations).toEqual([
+        { id: 'elevation-1', roleId: null, role: null, permissions: ['equipment:configure'], expiresAt: expiresAt.toISOString() },
+        { id: 'elevation-2', roleId: 'lead', role: 'line_lead', permissions: [], expiresAt: expiresAt.toISOString() }
+      ]);
+      expect((await PermissionCacheService.getEffectivePermissions('user-1'))!.refreshAt).toBe(expiresAt.getTime());
+    });
+  });
+});
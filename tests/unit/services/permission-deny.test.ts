@@ -0,0 +1,140 @@
+import { Role } from '../../../src/models/Role';
+import { Permission } from '../../../src/models/Permission';
+import { RolePermission } from '../../../src/models/RolePermission';
+import { AuditLog } from '../../../src/models/AuditLog';
+import { RoleService } from '../../../src/services/role.service';
+import { PermissionVersionService } from '../../../src/services/permission-version.service';
+import { updateRolePermissionsSchema } from '../../../src/validators/role.validator';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const PERM_ALL = '1a2b3c4d-0000-4000-8000-000000000001';
+const PERM_DELETE = '1a2b3c4d-0000-4000-8000-000000000002';
+
+describe('Deny permissions', () => {
+  beforeEach(() => {
+    jest.spyOn(RolePermission, 'destroy').mockResolvedValue(1);
+    jest.spyOn(RolePermission, 'bulkCreate').mockResolvedValue([]);
+    jest.spyOn(AuditLog, 'create').mockResolvedValue({} as any);
+    jest.spyOn(PermissionVersionService, 'bumpRoleHolders').mockResolvedValue();
+    jest.spyOn(RoleService, 'getRoleById').mockResolvedValue({ id: 'role-1' } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('RoleService.updateRolePermissions', () => {
+    it('should rewrite only the entries whose effect changes', async () => {
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({
+        id: 'role-1',
+        name: 'production_manager',
+        permissions: [
+          { id: 'perm-all', name: 'workorder:*', RolePermission: { effect: 'allow' } },
+          { id: 'perm-delete', name: 'workorder:delete', RolePermission: { effect: 'allow' } }
+        ]
+      } as any);
+      jest.spyOn(Permission, 'findAll').mockResolvedValue(
+        [{ id: 'perm-all' }, { id: 'perm-delete' }, { id: 'perm-close' }] as any
+      );
+
+      await RoleService.updateRolePermissions('role-1', { deny: ['perm-delete', 'perm-close'] }, 'admin-1');
+
+      expect(RolePermission.destroy).toHaveBeenCalledWith({
+        where: { roleId: 'role-1', permissionId: ['perm-delete'] },
+        transaction: undefined
+      });
+      expect(RolePermission.bulkCreate).toHaveBeenCalledWith([
+        { roleId: 'role-1', permissionId: 'perm-delete', effect: 'deny', grantedBy: 'admin-1' },
+        { roleId: 'role-1', permissionId: 'perm-close', effect: 'deny', grantedBy: 'admin-1' }
+      ], { transaction: undefined });
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'ROLE_PERMISSIONS_UPDATED',
+        details: { added: [], denied: ['perm-delete', 'perm-close'], removed: [], total: 3 }
+      }), { transaction: undefined });
+    });
+
+    it('should drop a deny when it is removed', async () => {
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({
+        id: 'role-1',
+        name: 'production_manager',
+        permissions: [
+          { id: 'perm-all', name: 'workorder:*', RolePermission: { effect: 'allow' } },
+          { id: 'perm-delete', name: 'workorder:delete', RolePermission: { effect: 'deny' } }
+        ]
+      } as any);
+      jest.spyOn(Permission, 'findAll').mockResolvedValue([{ id: 'perm-all' }] as any);
+
+      await RoleService.updateRolePermissions('role-1', { remove: ['perm-delete'] }, 'admin-1');
+
+      expect(RolePermission.destroy).toHaveBeenCalledWith({
+        where: { roleId: 'role-1', permissionId: ['perm-delete'] },
+        transaction: undefined
+      });
+      expect(RolePermission.bulkCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('RoleService.updateRolePermissions with conditions', () => {
+    it('should rewrite entries whose condition changes and store the condition', async () => {
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({
+        id: 'role-1',
+        name: 'operator',
+        permissions: [
+          { id: 'perm-update', name: 'workorder:update', RolePermission: { effect: 'allow', condition: null } },
+          { id: 'perm-read', name: 'workorder:read', RolePermission: { effect: 'allow', condition: null } }
+        ]
+      } as any);
+      jest.spyOn(Permission, 'findAll').mockResolvedValue([{ id: 'perm-update' }, { id: 'perm-read' }] as any);
+
+      await RoleService.updateRolePermissions('role-1', {
+        add: ['perm-update', 'perm-read'],
+        conditions: { 'perm-update': 'resource.lineCode in user.lines' }
+      }, 'admin-1');
+
+      expect(RolePermission.destroy).toHaveBeenCalledWith({
+        where: { roleId: 'role-1', permissionId: ['perm-update'] },
+        transaction: undefined
+      });
+      expect(RolePermission.bulkCreate).toHaveBeenCalledWith([{
+        roleId: 'role-1',
+        permissionId: 'perm-update',
+        effect: 'allow',
+        condition: 'resource.lineCode in user.lines',
+        grantedBy: 'admin-1'
+      }], { transaction: undefined });
+    });
+  });
+
+  describe('updateRolePermissionsSchema', () => {
+    it('should accept deny lists and refuse an ID in two lists', () => {
+      expect(updateRolePermissionsSchema.validate({ add: [PERM_ALL], deny: [PERM_DELETE] }).error).toBeUndefined();
+
+      const { error } = updateRolePermissionsSchema.validate({ add: [PERM_DELETE], deny: [PERM_DELETE] });
+      expect(error?.message).toBe('A permission ID may appear in only one of add, deny and remove');
+    });
+
+    it('should validate conditions and require them to belong to an added or denied entry', () => {
+      expect(updateRolePermissionsSchema.validate({
+        deny: [PERM_DELETE],
+        conditions: { [PERM_DELETE]: "resource.status != 'draft'" }
+      }).error).toBeUndefined();
+
+      expect(updateRolePermissionsSchema.validate({
+        add: [PERM_ALL],
+        conditions: { [PERM_ALL]: 'require("fs")' }
+      }).error?.message).toMatch(/unknown name 'require'/);
+      expect(updateRolePermissionsSchema.validate({
+        remove: [PERM_ALL],
+        conditions: { [PERM_ALL]: 'true' }
+      }).error?.message).toBe('Conditions may only be given for permissions being added or denied');
+    });
+  });
+});
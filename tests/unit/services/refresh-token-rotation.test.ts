@@ -0,0 +1,146 @@
+import { RefreshToken } from '../../../src/models/RefreshToken';
+import { AuditLog } from '../../../src/models/AuditLog';
+import { AuthService } from '../../../src/services/auth.service';
+import { PermissionCacheService } from '../../../src/services/permission-cache.service';
+import { AuthUtil } from '../../../src/utils/auth.util';
+import { JWTUtil } from '../../../src/utils/jwt.util';
+import { ErrorCode } from '../../../src/types';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const buildStoredToken = (overrides: Partial<Record<string, any>> = {}) => ({
+  id: 'token-1',
+  userId: 'user-1',
+  familyId: 'family-1',
+  expiresAt: new Date(Date.now() + 60000),
+  revokedAt: null,
+  replacedBy: null,
+  ipAddress: '10.0.0.5',
+  userAgent: 'line-tablet',
+  user: { id: 'user-1', email: 'operator@example.com', isActive: true },
+  destroy: jest.fn().mockResolvedValue(undefined),
+  isRevoked() { return this.revokedAt !== null; },
+  isRotated() { return this.replacedBy !== null; },
+  ...overrides
+});
+
+describe('Refresh token storage and rotation', () => {
+  const refreshToken = JWTUtil.generateRefreshToken('user-1', 'token-1');
+
+  beforeEach(() => {
+    jest.spyOn(AuditLog, 'create').mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should revoke the presented token and link it to a replacement in the same family', async () => {
+    const storedToken = buildStoredToken();
+    jest.spyOn(RefreshToken, 'findOne').mockResolvedValue(storedToken as any);
+    const update = jest.spyOn(RefreshToken, 'update').mockResolvedValue([1] as any);
+    const newRefreshToken = JWTUtil.generateRefreshToken('user-1', 'token-2');
+    const generateTokens = jest.spyOn(AuthUtil, 'generateUserTokens').mockResolvedValue({
+      accessToken: 'access',
+      refreshToken: newRefreshToken,
+      expiresIn: 900
+    } as any);
+
+    const tokens = await AuthService.refreshToken(refreshToken, { ipAddress: '10.0.0.6' });
+
+    expect(tokens.refreshToken).toBe(newRefreshToken);
+    expect(storedToken.destroy).not.toHaveBeenCalled();
+    expect(update).toHaveBeenCalledWith(
+      { revokedAt: expect.any(Date) },
+      expect.objectContaining({ where: { id: 'token-1', revokedAt: null } })
+    );
+    expect(generateTokens).toHaveBeenCalledWith(storedToken.user, '10.0.0.6', 'line-tablet', 'family-1');
+    expect(update).toHaveBeenCalledWith(
+      { replacedBy: 'token-2' },
+      expect.objectContaining({ where: { id: 'token-1' } })
+    );
+  });
+
+  it('should revoke the whole family and audit when a rotated token is reused', async () => {
+    jest.spyOn(RefreshToken, 'findOne').mockResolvedValue(
+      buildStoredToken({ revokedAt: new Date(), replacedBy: 'token-2' }) as any
+    );
+    const update = jest.spyOn(RefreshToken, 'update').mockResolvedValue([2] as any);
+    const generateTokens = jest.spyOn(AuthUtil, 'generateUserTokens');
+
+    await expect(AuthService.refreshToken(refreshToken, { ipAddress: '203.0.113.9' }))
+      .rejects.toMatchObject({ code: ErrorCode.AUTH_TOKEN_INVALID, message: 'Refresh token has been revoked' });
+
+    expect(update).toHaveBeenCalledWith(
+      { revokedAt: expect.any(Date) },
+      expect.objectContaining({ where: { familyId: 'family-1', revokedAt: null } })
+    );
+    expect(AuditLog.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'auth:refresh_token_reuse',
+        userId: 'user-1',
+        ipAddress: '203.0.113.9',
+        details: expect.objectContaining({ familyId: 'family-1', revokedCount: 2, success: false })
+      }),
+      expect.anything()
+    );
+    expect(generateTokens).not.toHaveBeenCalled();
+  });
+
+  it('should treat losing a concurrent rotation as reuse', async () => {
+    jest.spyOn(RefreshToken, 'findOne').mockResolvedValue(buildStoredToken() as any);
+    const update = jest.spyOn(RefreshToken, 'update').mockResolvedValue([0] as any);
+    const generateTokens = jest.spyOn(AuthUtil, 'generateUserTokens');
+
+    await expect(AuthService.refreshToken(refreshToken))
+      .rejects.toMatchObject({ code: ErrorCode.AUTH_TOKEN_INVALID });
+
+    expect(update).toHaveBeenCalledWith(
+      { revokedAt: expect.any(Date) },
+      expect.objectContaining({ where: { familyId: 'family-1', revokedAt: null } })
+    );
+    expect(generateTokens).not.toHaveBeenCalled();
+  });
+
+  it('should look up the presented token by its ID and digest', async () => {
+    const findOne = jest.spyOn(RefreshToken, 'findOne').mockResolvedValue(null);
+
+    await expect(AuthService.refreshToken(refreshToken))
+      .rejects.toMatchObject({ code: ErrorCode.AUTH_TOKEN_INVALID, message: 'Invalid refresh token' });
+
+    expect(findOne).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'token-1', userId: 'user-1', tokenHash: RefreshToken.hashToken(refreshToken) }
+    }));
+  });
+
+  it('should store only the digest of an issued refresh token', async () => {
+    jest.spyOn(PermissionCacheService, 'getEffectivePermissions').mockResolvedValue(null);
+    const create = jest.spyOn(RefreshToken, 'create').mockResolvedValue({} as any);
+    const user = { id: 'user-1', username: 'operator', email: 'operator@example.com', update: jest.fn() };
+
+    const tokens = await AuthUtil.generateUserTokens(user as any);
+
+    const stored = create.mock.calls[0][0] as any;
+    expect(stored.tokenHash).toBe(RefreshToken.hashToken(tokens.refreshToken));
+    expect(stored.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(Object.values(stored)).not.toContain(tokens.refreshToken);
+  });
+
+  it('should reject a token revoked by logout without touching its family', async () => {
+    jest.spyOn(RefreshToken, 'findOne').mockResolvedValue(buildStoredToken({ revokedAt: new Date() }) as any);
+    const update = jest.spyOn(RefreshToken, 'update');
+
+    await expect(AuthService.refreshToken(refreshToken))
+      .rejects.toMatchObject({ code: ErrorCode.AUTH_TOKEN_INVALID });
+
+    expect(update).not.toHaveBeenCalled();
+    expect(AuditLog.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import { UserRole } from '../../../src/models/UserRole';
+import { Role } from '../../../src/models/Role';
+import { RoleExpiryService } from '../../../src/services/role-expiry.service';
+import { AuditService } from '../../../src/services/audit.service';
+import { PermissionVersionService } from '../../../src/services/permission-version.service';
+import { sequelize } from '../../../src/config/database';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('RoleExpiryService', () => {
+  const transaction = { commit: jest.fn(), rollback: jest.fn(), LOCK: { UPDATE: 'UPDATE' } };
+
+  beforeEach(() => {
+    jest.spyOn(sequelize, 'transaction').mockResolvedValue(transaction as any);
+    jest.spyOn(AuditService, 'log').mockResolvedValue({} as any);
+    jest.spyOn(PermissionVersionService, 'bumpUsers').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should remove expired assignments, audit each one and invalidate the holders\' tokens', async () => {
+    const validUntil = new Date('2024-07-01T06:00:00Z');
+    const destroy = jest.fn();
+    const findAll = jest.spyOn(UserRole, 'findAll').mockResolvedValue([
+      { userId: 'contractor-1', roleId: 'role-lead', assignedBy: 'admin-1', validFrom: null, validUntil, destroy },
+      { userId: 'contractor-2', roleId: 'role-lead', assignedBy: 'admin-1', validFrom: null, validUntil, destroy }
+    ] as any);
+    jest.spyOn(Role, 'findAll').mockResolvedValue([{ id: 'role-lead', name: 'line_lead' }] as any);
+
+    const removed = await RoleExpiryService.sweepExpired(new Date('2024-07-01T06:01:00Z'));
+
+    expect(removed).toBe(2);
+    expect(findAll).toHaveBeenCalledWith(expect.objectContaining({ lock: 'UPDATE', transaction }));
+    expect(destroy).toHaveBeenCalledTimes(2);
+    expect(AuditService.log).toHaveBeenCalledTimes(2);
+    expect(AuditService.log).toHaveBeenCalledWith({
+      userId: null,
+      action: 'role:expire',
+      resource: 'user',
+      resourceId: 'contractor-1',
+      details: { roleId: 'role-lead', role: 'line_lead', assignedBy: 'admin-1', validFrom: null, validUntil }
+    }, transaction);
+    expect(PermissionVersionService.bumpUsers).toHaveBeenCalledWith(['contractor-1', 'contractor-2'], transaction);
+    expect(transaction.commit).toHaveBeenCalled();
+  });
+
+  it('should do nothing when no assignment has expired', async () => {
+    jest.spyOn(UserRole, 'findAll').mockResolvedValue([]);
+
+    await expect(RoleExpiryService.sweepExpired()).resolves.toBe(0);
+    expect(AuditService.log).not.toHaveBeenCalled();
+    expect(PermissionVersionService.bumpUsers).not.toHaveBeenCalled();
+    expect(transaction.commit).toHaveBeenCalled();
+  });
+
+  it('should roll back when a removal fails', async () => {
+    jest.spyOn(UserRole, 'findAll').mockResolvedValue([
+      { userId: 'contractor-1', roleId: 'role-lead', destroy: jest.fn().mockRejectedValue(new Error('lock timeout')) }
+    ] as any);
+    jest.spyOn(Role, 'findAll').mockResolvedValue([]);
+
+    await expect(RoleExpiryService.sweepExpired()).rejects.toThrow('lock timeout');
+    expect(transaction.rollback).toHaveBeenCalled();
+    expect(transaction.commit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,126 @@
+import { Role } from '../../../src/models/Role';
+import { RoleService } from '../../../src/services/role.service';
+import { ApiError } from '../../../src/utils/api-error';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const mockParentMap = (links: Array<[string, string | null]>) => {
+  jest.spyOn(Role, 'findAll').mockResolvedValue(
+    links.map(([id, parentId]) => ({ id, parentId })) as any
+  );
+};
+
+describe('Role hierarchy', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Role.getEffectiveRoleIds', () => {
+    it('should include every ancestor of the given roles', async () => {
+      mockParentMap([
+        ['operator', null],
+        ['shift_supervisor', 'operator'],
+        ['production_manager', 'shift_supervisor'],
+        ['viewer', null]
+      ]);
+
+      const result = await Role.getEffectiveRoleIds(['production_manager']);
+
+      expect(result.sort()).toEqual(['operator', 'production_manager', 'shift_supervisor']);
+    });
+
+    it('should terminate on cyclic parent links', async () => {
+      mockParentMap([
+        ['a', 'b'],
+        ['b', 'a']
+      ]);
+
+      const result = await Role.getEffectiveRoleIds(['a']);
+
+      expect(result.sort()).toEqual(['a', 'b']);
+    });
+
+    it('should return an empty list without querying when no roles are given', async () => {
+      const findAll = jest.spyOn(Role, 'findAll');
+
+      const result = await Role.getEffectiveRoleIds([]);
+
+      expect(result).toEqual([]);
+      expect(findAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Role.getAncestorIds', () => {
+    it('should return ancestors nearest first', async () => {
+      mockParentMap([
+        ['operator', null],
+        ['shift_supervisor', 'operator'],
+        ['production_manager', 'shift_supervisor']
+      ]);
+
+      const result = await Role.getAncestorIds('production_manager');
+
+      expect(result).toEqual(['shift_supervisor', 'operator']);
+    });
+  });
+
+  describe('RoleService.getRoleHierarchy', () => {
+    it('should nest roles under their parents with levels', async () => {
+      const role = (id: string, parentId: string | null) => ({
+        id,
+        name: id,
+        description: null,
+        isSystem: false,
+        parentId,
+        permissions: [{ id: `${id}-perm` }],
+        users: []
+      });
+
+      jest.spyOn(Role, 'findAll').mockResolvedValue([
+        role('operator', null),
+        role('shift_supervisor', 'operator'),
+        role('orphan', 'deleted-role')
+      ] as any);
+
+      const hierarchy = await RoleService.getRoleHierarchy();
+
+      expect(hierarchy.map(node => node.id)).toEqual(['operator', 'orphan']);
+      expect(hierarchy[0].children).toHaveLength(1);
+      expect(hierarchy[0].children[0]).toMatchObject({
+        id: 'shift_supervisor',
+        parentId: 'operator',
+        level: 1,
+        permissionCount: 1
+      });
+    });
+  });
+
+  describe('RoleService.updateRole', () => {
+    it('should reject a role as its own parent', async () => {
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({ id: 'operator', name: 'operator' } as any);
+
+      await expect(
+        RoleService.updateRole('operator', { parentId: 'operator' }, 'admin-id')
+      ).rejects.toThrow(new ApiError(400, 'A role cannot be its own parent'));
+    });
+
+    it('should reject a descendant as parent', async () => {
+      jest.spyOn(Role, 'findByPk').mockResolvedValue({ id: 'x', name: 'x' } as any);
+      mockParentMap([
+        ['operator', null],
+        ['shift_supervisor', 'operator']
+      ]);
+
+      await expect(
+        RoleService.updateRole('operator', { parentId: 'shift_supervisor' }, 'admin-id')
+      ).rejects.toThrow('Cannot set a descendant role as parent');
+    });
+  });
+});
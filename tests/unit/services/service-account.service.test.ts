@@ -0,0 +1,79 @@
+import { User } from '../../../src/models/User';
+import { Role } from '../../../src/models/Role';
+import { SodRule } from '../../../src/models/SodRule';
+import { ScopedRoleAssignment } from '../../../src/models/ScopedRoleAssignment';
+import { ElevationRequest } from '../../../src/models/ElevationRequest';
+import { ServiceAccountService } from '../../../src/services/service-account.service';
+import { AuditService } from '../../../src/services/audit.service';
+import { PermissionVersionService } from '../../../src/services/permission-version.service';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('ServiceAccountService', () => {
+  const transaction = {} as any;
+  const roles = [{ id: 'role-label', name: 'label_service' }];
+  let account: { id: string; username: string; setRoles: jest.Mock; update: jest.Mock };
+
+  beforeEach(() => {
+    account = { id: 'svc-1', username: 'label_printer', setRoles: jest.fn(), update: jest.fn() };
+
+    jest.spyOn(Role, 'findAll').mockResolvedValue(roles as any);
+    jest.spyOn(SodRule, 'findAll').mockResolvedValue([]);
+    jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([]);
+    jest.spyOn(ElevationRequest, 'findAll').mockResolvedValue([]);
+    jest.spyOn(AuditService, 'log').mockResolvedValue({} as any);
+    jest.spyOn(PermissionVersionService, 'bumpUsers').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createServiceAccount', () => {
+    it('should assign roles within the transaction that creates the account', async () => {
+      jest.spyOn(User, 'findOne')
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(account as any);
+      jest.spyOn(User, 'create').mockResolvedValue(account as any);
+
+      await ServiceAccountService.createServiceAccount(
+        { name: 'label_printer', roleIds: ['role-label'] },
+        'admin-1',
+        transaction
+      );
+
+      expect(account.setRoles).toHaveBeenCalledWith(roles, { transaction });
+    });
+  });
+
+  describe('updateServiceAccount', () => {
+    it('should replace roles within the caller\'s transaction', async () => {
+      jest.spyOn(User, 'findOne').mockResolvedValue(account as any);
+
+      await ServiceAccountService.updateServiceAccount('svc-1', { roleIds: ['role-label'] }, 'admin-1', transaction);
+
+      expect(account.setRoles).toHaveBeenCalledWith(roles, { transaction });
+      expect(PermissionVersionService.bumpUsers).toHaveBeenCalledWith(['svc-1'], transaction);
+    });
+
+    it('should refuse roles that break a separation of duties rule with the account\'s scoped roles', async () => {
+      jest.spyOn(User, 'findOne').mockResolvedValue(account as any);
+      jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([{ roleId: 'role-release' }] as any);
+      jest.spyOn(SodRule, 'findAll').mockResolvedValue([
+        { id: 'rule-1', name: 'Print vs release', roleIds: ['role-label', 'role-release'], maxRoles: 1 }
+      ] as any);
+      jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds => roleIds);
+
+      await expect(ServiceAccountService.updateServiceAccount('svc-1', { roleIds: ['role-label'] }, 'admin-1', transaction))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(account.setRoles).not.toHaveBeenCalled();
+    });
+  });
+});
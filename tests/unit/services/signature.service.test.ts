@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import { User } from '../../../src/models/User';
+import { Signature } from '../../../src/models/Signature';
+import { SignatureService } from '../../../src/services/signature.service';
+import { AuditService } from '../../../src/services/audit.service';
+import { AuthService } from '../../../src/services/auth.service';
+import permissionService from '../../../src/services/permission.service';
+import { BcryptUtil } from '../../../src/utils/bcrypt.util';
+import { config } from '../../../src/config';
+import { ErrorCode } from '../../../src/types';
+import { CreateSignatureData } from '../../../src/types/signature.types';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const RECORD_HASH = crypto.createHash('sha256').update('batch B-1042 v3').digest('hex');
+
+describe('SignatureService', () => {
+  let user: Record<string, any>;
+
+  const signatureData = (overrides: Partial<CreateSignatureData> = {}): CreateSignatureData => ({
+    password: 'SecurePass123!',
+    meaning: 'approved',
+    permission: 'quality:approve',
+    resourceType: 'batch',
+    resourceId: 'B-1042',
+    recordHash: RECORD_HASH,
+    ...overrides
+  });
+
+  /**
+   * Sign a record and return the row as it was stored
+   */
+  const sign = async (overrides: Partial<CreateSignatureData> = {}): Promise<Signature> => {
+    let stored: Signature | undefined;
+    jest.spyOn(Signature, 'create').mockImplementation(async (values: any) => {
+      stored = Signature.build(values);
+      return stored;
+    });
+
+    await SignatureService.createSignature('user-1', signatureData(overrides));
+    jest.spyOn(Signature, 'findByPk').mockImplementation(async (id: any) =>
+      (stored && id === stored.id ? stored : null) as any
+    );
+
+    return stored!;
+  };
+
+  beforeEach(() => {
+    user = {
+      id: 'user-1',
+      username: 'qa.lead',
+      email: 'qa.lead@example.com',
+      password: 'hashed',
+      authProvider: 'local',
+      isActive: true,
+      failedLoginAttempts: 0,
+      isLocked: () => false,
+      getFullName: () => 'Quinn Lead',
+      update: jest.fn().mockResolvedValue(undefined)
+    };
+
+    jest.spyOn(User, 'findByPk').mockImplementation(async () => user as any);
+    jest.spyOn(BcryptUtil, 'comparePassword').mockImplementation(async (password: string) => password === 'SecurePass123!');
+    jest.spyOn(permissionService, 'checkUserPermission').mockResolvedValue({ hasPermission: true, source: 'role' } as any);
+    jest.spyOn(AuditService, 'log').mockResolvedValue({} as any);
+    jest.spyOn(Signature, 'update').mockResolvedValue([1] as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createSignature', () => {
+    it('should record the signer, meaning and record hash with a manifest hash', async () => {
+      const signature = await sign({ recordHash: RECORD_HASH.toUpperCase() });
+
+      expect(signature).toMatchObject({
+        userId: 'user-1',
+        signerUsername: 'qa.lead',
+        signerName: 'Quinn Lead',
+        meaning: 'approved',
+        permission: 'quality:approve',
+        resourceType: 'batch',
+        resourceId: 'B-1042',
+        recordHash: RECORD_HASH
+      });
+      expect(signature.hasValidManifest(config.signatures.secret)).toBe(true);
+      expect(signature.toJSON()).not.toHaveProperty('manifestHash');
+      expect(AuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'signature:create', resourceId: signature.id }),
+        undefined
+      );
+    });
+
+    it('should count a wrong password towards lockout and audit it', async () => {
+      const recordFailedLogin = jest.spyOn(AuthService, 'recordFailedLogin').mockResolvedValue();
+      jest.spyOn(Signature, 'create');
+
+      await expect(SignatureService.createSignature('user-1', signatureData({ password: 'wrong' })))
+        .rejects.toMatchObject({ code: ErrorCode.AUTH_INVALID_CREDENTIALS, statusCode: 401 });
+
+      expect(recordFailedLogin).toHaveBeenCalledWith(user, {}, undefined);
+      expect(AuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'signature:failed', resource: 'batch', resourceId: 'B-1042' }),
+        undefined
+      );
+      expect(Signature.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse signers without the permission being signed for', async () => {
+      jest.spyOn(permissionService, 'checkUserPermission').mockResolvedValue({ hasPermission: false } as any);
+
+      await expect(SignatureService.createSignature('user-1', signatureData()))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should refuse users whose password is managed elsewhere', async () => {
+      user.authProvider = 'ldap';
+
+      await expect(SignatureService.createSignature('user-1', signatureData()))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(BcryptUtil.comparePassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifySignature', () => {
+    it('should accept an unchanged signature over the same record', async () => {
+      const signature = await sign();
+
+      const result = await SignatureService.verifySignature(signature.id, RECORD_HASH);
+
+      expect(result).toMatchObject({ valid: true, integrity: true, recordMatches: true });
+    });
+
+    it('should reject a signature over a different record', async () => {
+      const signature = await sign();
+      const otherHash = crypto.createHash('sha256').update('batch B-1042 v4').digest('hex');
+
+      const result = await SignatureService.verifySignature(signature.id, otherHash);
+
+      expect(result).toMatchObject({ valid: false, integrity: true, recordMatches: false });
+    });
+
+    it('should detect a signature changed after signing', async () => {
+      const signature = await sign();
+      signature.meaning = 'reviewed';
+
+      const result = await SignatureService.verifySignature(signature.id);
+
+      expect(result).toMatchObject({ valid: false, integrity: false, recordMatches: null });
+    });
+  });
+
+  describe('consumeSignature', () => {
+    const context = { action: 'POST /api/batches/B-1042/release' };
+
+    it('should mark the signature used and audit the action', async () => {
+      const signature = await sign();
+
+      const used = await SignatureService.consumeSignature(signature.id, 'user-1', 'quality:approve', context);
+
+      expect(used.consumedAt).toBeInstanceOf(Date);
+      expect(Signature.update).toHaveBeenCalledWith(
+        { consumedAt: expect.any(Date) },
+        expect.objectContaining({ where: { id: signature.id, consumedAt: null } })
+      );
+      expect(AuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'signature:use',
+          details: expect.objectContaining({ permission: 'quality:approve', action: context.action })
+        }),
+        undefined
+      );
+    });
+
+    it('should only accept the signer\'s own signature for the same permission and record', async () => {
+      const signature = await sign();
+
+      await expect(SignatureService.consumeSignature(signature.id, 'user-2', 'quality:approve', context))
+        .rejects.toMatchObject({ code: ErrorCode.SIGNATURE_INVALID, statusCode: 403 });
+      await expect(SignatureService.consumeSignature(signature.id, 'user-1', 'recipe:update', context))
+        .rejects.toMatchObject({ code: ErrorCode.SIGNATURE_INVALID });
+      await expect(SignatureService.consumeSignature(
+        signature.id, 'user-1', 'quality:approve', { ...context, resourceType: 'batch', resourceId: 'B-2000' }
+      )).rejects.toMatchObject({ message: 'Signature was given for a different record' });
+    });
+
+    it('should refuse used and stale signatures', async () => {
+      const signature = await sign();
+      signature.consumedAt = new Date();
+
+      await expect(SignatureService.consumeSignature(signature.id, 'user-1', 'quality:approve', context))
+        .rejects.toMatchObject({ message: 'Signature has already been used' });
+
+      signature.consumedAt = null;
+      jest.spyOn(Date, 'now').mockReturnValue(signature.signedAt.getTime() + (config.signatures.maxAgeSeconds + 1) * 1000);
+
+      await expect(SignatureService.consumeSignature(signature.id, 'user-1', 'quality:approve', context))
+        .rejects.toMatchObject({ message: 'Signature has expired, please sign again' });
+    });
+
+    it('should refuse a signature another request used concurrently', async () => {
+      const signature = await sign();
+      jest.spyOn(Signature, 'update').mockResolvedValue([0] as any);
+
+      await expect(SignatureService.consumeSignature(signature.id, 'user-1', 'quality:approve', context))
+        .rejects.toMatchObject({ message: 'Signature has already been used' });
+    });
+  });
+});
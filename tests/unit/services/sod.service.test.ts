@@ -0,0 +1,172 @@
+import { SodRule } from '../../../src/models/SodRule';
+import { Role } from '../../../src/models/Role';
+import { User } from '../../../src/models/User';
+import { UserRole } from '../../../src/models/UserRole';
+import { ScopedRoleAssignment } from '../../../src/models/ScopedRoleAssignment';
+import { ElevationRequest } from '../../../src/models/ElevationRequest';
+import { SodService } from '../../../src/services/sod.service';
+import { AuditService } from '../../../src/services/audit.service';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const roleNames: Record<string, string> = {
+  'role-operator': 'production_operator',
+  'role-inspector': 'quality_inspector',
+  'role-planner': 'planner',
+  'role-buyer': 'buyer',
+  'role-receiver': 'goods_receiver',
+  'role-lead': 'line_lead'
+};
+
+describe('SodService', () => {
+  beforeEach(() => {
+    jest.spyOn(AuditService, 'log').mockResolvedValue({} as any);
+    jest.spyOn(SodRule, 'findAll').mockResolvedValue([
+      { id: 'rule-1', name: 'Report vs release', roleIds: ['role-operator', 'role-inspector'], maxRoles: 1 },
+      { id: 'rule-2', name: 'Procure to pay', roleIds: ['role-planner', 'role-buyer', 'role-receiver'], maxRoles: 2 }
+    ] as any);
+    jest.spyOn(Role, 'findAll').mockImplementation(async (options: any) =>
+      (options.where.id as string[]).map(id => ({ id, name: roleNames[id] })) as any
+    );
+    // A line lead inherits from production_operator
+    jest.spyOn(Role, 'getEffectiveRoleIds').mockImplementation(async roleIds =>
+      Array.from(new Set(roleIds.flatMap(id => (id === 'role-lead' ? ['role-lead', 'role-operator'] : [id]))))
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('findViolations', () => {
+    it('should find mutually exclusive roles, including inherited ones', async () => {
+      await expect(SodService.findViolations(['role-lead', 'role-inspector'])).resolves.toEqual([{
+        ruleId: 'rule-1',
+        rule: 'Report vs release',
+        maxRoles: 1,
+        roles: [
+          { id: 'role-operator', name: 'production_operator' },
+          { id: 'role-inspector', name: 'quality_inspector' }
+        ]
+      }]);
+    });
+
+    it('should allow up to maxRoles of a rule\'s roles', async () => {
+      await expect(SodService.findViolations(['role-planner', 'role-buyer', 'role-operator'])).resolves.toEqual([]);
+      await expect(SodService.findViolations(['role-planner', 'role-buyer', 'role-receiver']))
+        .resolves.toEqual([expect.objectContaining({ ruleId: 'rule-2' })]);
+    });
+  });
+
+  describe('assertAllowed', () => {
+    it('should refuse roles that break a rule', async () => {
+      await expect(SodService.assertAllowed(['role-operator', 'role-inspector'])).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'Roles violate separation of duties rule "Report vs release": ' +
+          'at most 1 of production_operator, quality_inspector may be held together'
+      });
+      await expect(SodService.assertAllowed(['role-operator'])).resolves.toBeUndefined();
+    });
+  });
+
+  describe('assertAllowedForUser', () => {
+    beforeEach(() => {
+      jest.spyOn(ElevationRequest, 'findAll').mockResolvedValue([]);
+    });
+
+    it('should count the roles the user holds within org units', async () => {
+      const findScoped = jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([{ roleId: 'role-inspector' }] as any);
+
+      await expect(SodService.assertAllowedForUser('user-1', ['role-lead'])).rejects.toMatchObject({ statusCode: 409 });
+      expect(findScoped).toHaveBeenCalledWith({ where: { userId: 'user-1' }, attributes: ['roleId'], transaction: undefined });
+      await expect(SodService.assertAllowedForUser('user-1', ['role-planner'])).resolves.toBeUndefined();
+    });
+
+    it('should count the roles the user holds through an active elevation', async () => {
+      jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([]);
+      const findElevated = jest.spyOn(ElevationRequest, 'findAll').mockResolvedValue([{ roleId: 'role-inspector' }] as any);
+
+      await expect(SodService.assertAllowedForUser('user-1', ['role-operator'])).rejects.toMatchObject({ statusCode: 409 });
+      expect(findElevated).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ userId: 'user-1', status: 'approved' }),
+        attributes: ['roleId']
+      }));
+      await expect(SodService.assertAllowedForUser('user-1', ['role-planner'])).resolves.toBeUndefined();
+    });
+  });
+
+  describe('createRule', () => {
+    beforeEach(() => {
+      jest.spyOn(SodRule, 'findOne').mockResolvedValue(null);
+      jest.spyOn(Role, 'count').mockResolvedValue(2 as any);
+    });
+
+    it('should create a rule with mutually exclusive roles by default', async () => {
+      const create = jest.spyOn(SodRule, 'create').mockImplementation(async (values: any) => ({ id: 'rule-3', ...values }));
+
+      await SodService.createRule({ name: 'Report vs release', roleIds: ['role-operator', 'role-inspector'] }, 'admin-1');
+
+      expect(create).toHaveBeenCalledWith(
+        { name: 'Report vs release', description: null, roleIds: ['role-operator', 'role-inspector'], maxRoles: 1 },
+        { transaction: undefined }
+      );
+      expect(AuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'sod_rule:create', userId: 'admin-1', resourceId: 'rule-3' }),
+        undefined
+      );
+    });
+
+    it('should refuse rules that can never be broken and unknown roles', async () => {
+      await expect(SodService.createRule(
+        { name: 'Pointless', roleIds: ['role-operator', 'role-inspector'], maxRoles: 2 }, 'admin-1'
+      )).rejects.toMatchObject({ statusCode: 400 });
+
+      jest.spyOn(Role, 'count').mockResolvedValue(1 as any);
+      await expect(SodService.createRule(
+        { name: 'Stale', roleIds: ['role-operator', 'role-gone'] }, 'admin-1'
+      )).rejects.toMatchObject({ statusCode: 400, message: 'One or more role IDs are invalid' });
+    });
+  });
+
+  describe('getViolationReport', () => {
+    it('should list users whose current roles break a rule', async () => {
+      jest.spyOn(UserRole, 'findAll').mockResolvedValue([
+        { userId: 'user-1', roleId: 'role-lead' },
+        { userId: 'user-1', roleId: 'role-inspector' },
+        { userId: 'user-2', roleId: 'role-operator' }
+      ] as any);
+      jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([]);
+      const findUsers = jest.spyOn(User, 'findAll').mockResolvedValue([
+        { id: 'user-1', username: 'jdoe', email: 'jdoe@example.com' }
+      ] as any);
+
+      const report = await SodService.getViolationReport();
+
+      expect(findUsers).toHaveBeenCalledWith(expect.objectContaining({ where: { id: ['user-1'] } }));
+      expect(report).toEqual([{
+        user: { id: 'user-1', username: 'jdoe', email: 'jdoe@example.com' },
+        violations: [expect.objectContaining({ ruleId: 'rule-1', roles: expect.any(Array) })]
+      }]);
+    });
+
+    it('should include roles held within org units', async () => {
+      jest.spyOn(UserRole, 'findAll').mockResolvedValue([{ userId: 'user-2', roleId: 'role-operator' }] as any);
+      jest.spyOn(ScopedRoleAssignment, 'findAll').mockResolvedValue([{ userId: 'user-2', roleId: 'role-inspector' }] as any);
+      jest.spyOn(User, 'findAll').mockResolvedValue([
+        { id: 'user-2', username: 'asmith', email: 'asmith@example.com' }
+      ] as any);
+
+      await expect(SodService.getViolationReport()).resolves.toEqual([{
+        user: { id: 'user-2', username: 'asmith', email: 'asmith@example.com' },
+        violations: [expect.objectContaining({ ruleId: 'rule-1' })]
+      }]);
+    });
+  });
+});
@@ -286,17 +286,17 @@ describe('UserService', () => {
       const mockUser = {
         id: '1',
         email: 'user@example.com',
-        roles: [{ id: 1, name: 'user' }],
+        roles: [{ id: 'role-1', name: 'user' }],
         setRoles: jest.fn()
       };
 
-      const newRoles = [{ id: 2, name: 'admin' }, { id: 3, name: 'manager' }];
+      const newRoles = [{ id: 'role-2', name: 'admin' }, { id: 'role-3', name: 'manager' }];
 
       (User.findByPk as jest.Mock).mockResolvedValue(mockUser);
       (Role.findAll as jest.Mock).mockResolvedValue(newRoles);
       (AuditLog.create as jest.Mock).mockResolvedValue({});
 
-      const result = await UserService.updateUserRoles('1', [2, 3], 'admin');
+      const result = await UserService.updateUserRoles('1', ['role-2', 'role-3'], 'admin');
 
       expect(mockUser.setRoles).toHaveBeenCalledWith(newRoles, expect.any(Object));
       expect(AuditLog.create).toHaveBeenCalledWith({
@@ -305,8 +305,8 @@ describe('UserService', () => {
         resource: 'User',
         resourceId: '1',
         details: {
-          oldRoles: [1],
-          newRoles: [2, 3]
+          oldRoles: ['role-1'],
+          newRoles: ['role-2', 'role-3']
         }
       }, expect.any(Object));
     });
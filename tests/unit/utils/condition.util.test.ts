@@ -0,0 +1,88 @@
+import { ConditionUtil, ConditionScope } from '../../../src/utils/condition.util';
+
+const scope: ConditionScope = {
+  user: { id: 'user-1', shift: 'A', lines: ['LINE-3', 'LINE-4'], level: 2 },
+  resource: { lineCode: 'LINE-3', status: 'released', quantity: 40 },
+  context: ConditionUtil.buildContext(new Date(2024, 6, 1, 14, 5))
+};
+
+describe('ConditionUtil', () => {
+  describe('test', () => {
+    it('should compare user, resource and context attributes', () => {
+      expect(ConditionUtil.test('resource.lineCode in user.lines', scope)).toBe(true);
+      expect(ConditionUtil.test("resource.status == 'released' && resource.quantity <= 50", scope)).toBe(true);
+      expect(ConditionUtil.test("context.time >= '06:00' && context.time < '14:00'", scope)).toBe(false);
+      expect(ConditionUtil.test("!(context.weekday in ['sat', 'sun']) || user.level > 3", scope)).toBe(true);
+    });
+
+    it('should leave conditions undecided when an operand is missing or of the wrong type', () => {
+      expect(ConditionUtil.test("resource.status == 'released'", { ...scope, resource: undefined })).toBeNull();
+      expect(ConditionUtil.test('user.shift < 3', scope)).toBeNull();
+      expect(ConditionUtil.test('user.missing > 1', scope)).toBeNull();
+      expect(ConditionUtil.test('user.shift', scope)).toBeNull();
+    });
+
+    it('should not treat missing attributes as equal to each other or to null in a list', () => {
+      expect(ConditionUtil.test('resource.shift == user.team', scope)).toBeNull();
+      expect(ConditionUtil.test('resource.shift != user.team', scope)).toBeNull();
+      expect(ConditionUtil.test('resource.lineId in [null]', scope)).toBeNull();
+      expect(ConditionUtil.test("resource.lineId in ['LINE-3', user.line]", scope)).toBeNull();
+      expect(ConditionUtil.test('resource.lineCode in user.lineCodes', scope)).toBeNull();
+      expect(ConditionUtil.test('user.manager == null', { ...scope, user: { ...scope.user, manager: null } })).toBe(true);
+    });
+
+    it('should only test for missing attributes by comparing with null', () => {
+      expect(ConditionUtil.test('resource.shift == null', scope)).toBe(true);
+      expect(ConditionUtil.test('user.shift != null', scope)).toBe(true);
+      expect(ConditionUtil.test('null == resource.lineId', scope)).toBe(true);
+      expect(ConditionUtil.test('user.lines != null', scope)).toBe(true);
+      expect(ConditionUtil.test("resource.shift == null || resource.shift == 'A'", scope)).toBe(true);
+      expect(ConditionUtil.test("resource.shift != 'A'", scope)).toBeNull();
+      expect(ConditionUtil.test('resource.shift == null', { ...scope, resource: undefined })).toBeNull();
+    });
+
+    it('should combine undecided operands like SQL NULL', () => {
+      const noResource = { ...scope, resource: undefined };
+
+      expect(ConditionUtil.test("user.shift == 'A' || resource.quantity > 10", noResource)).toBe(true);
+      expect(ConditionUtil.test("user.shift == 'B' && resource.quantity > 10", noResource)).toBe(false);
+      expect(ConditionUtil.test("user.shift == 'A' && resource.quantity > 10", noResource)).toBeNull();
+      expect(ConditionUtil.test('!(resource.quantity > 10)', noResource)).toBeNull();
+    });
+
+    it('should only read own properties', () => {
+      expect(ConditionUtil.test('user.constructor != null', scope)).toBe(false);
+      expect(ConditionUtil.test('user.constructor == user.constructor', scope)).toBeNull();
+      expect(ConditionUtil.test('user.lines.length == 2', scope)).toBe(true);
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept the documented syntax', () => {
+      expect(() => ConditionUtil.validate("user.shift != null && resource.qty >= -1.5 && context.method in ['GET', \"PUT\"]"))
+        .not.toThrow();
+    });
+
+    it('should refuse anything that is not a condition', () => {
+      expect(() => ConditionUtil.validate('process.exit(1)')).toThrow(/unknown name 'process'/);
+      expect(() => ConditionUtil.validate("user.shift == 'A")).toThrow(/unterminated string/);
+      expect(() => ConditionUtil.validate('user.shift = 1')).toThrow(/position 12/);
+      expect(() => ConditionUtil.validate('(user.a == 1')).toThrow(/expected '\)'/);
+      expect(() => ConditionUtil.validate('user.a == 1 user.b')).toThrow(/unexpected 'user'/);
+      expect(() => ConditionUtil.validate('('.repeat(40) + 'true' + ')'.repeat(40))).toThrow(/nested too deeply/);
+      expect(() => ConditionUtil.validate(`user.a == '${'x'.repeat(600)}'`)).toThrow(/must not exceed/);
+    });
+  });
+
+  describe('buildContext', () => {
+    it('should describe the local time of the request', () => {
+      expect(ConditionUtil.buildContext(new Date(2024, 6, 6, 7, 30), { method: 'GET' })).toEqual({
+        time: '07:30',
+        hour: 7,
+        weekday: 'sat',
+        date: '2024-07-06',
+        method: 'GET'
+      });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { KeyStore } from '../../../src/utils/keystore.util';
+import { JWTUtil, JWTPayload } from '../../../src/utils/jwt.util';
+import { ErrorCode } from '../../../src/types';
+
+jest.mock('../../../src/config', () => ({
+  config: {
+    jwt: {
+      secret: 'test-secret',
+      expiresIn: '15m',
+      refreshSecret: 'test-refresh-secret',
+      refreshExpiresIn: '7d',
+      algorithm: 'RS256'
+    }
+  }
+}));
+
+const rsaKey = () => crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+const ecKey = () => crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).privateKey;
+
+const payload: Omit<JWTPayload, 'iat' | 'exp' | 'jti'> = {
+  sub: 'user-1',
+  username: 'operator',
+  email: 'operator@example.com',
+  roles: ['operator'],
+  permissions: ['workorder:read']
+};
+
+describe('KeyStore', () => {
+  let directory: string;
+  const previousKey = rsaKey();
+  const currentKey = rsaKey();
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-keys-'));
+    // The previous key is retired: only its public half is kept
+    fs.writeFileSync(
+      path.join(directory, '2024-01-01.pub.pem'),
+      crypto.createPublicKey(previousKey).export({ type: 'spki', format: 'pem' })
+    );
+    fs.writeFileSync(
+      path.join(directory, '2024-07-01.pem'),
+      currentKey.export({ type: 'pkcs8', format: 'pem' })
+    );
+    fs.writeFileSync(path.join(directory, 'README.txt'), 'ignored');
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    JWTUtil.setKeyStore(undefined);
+  });
+
+  beforeEach(() => {
+    JWTUtil.setKeyStore(KeyStore.fromDirectory(directory));
+  });
+
+  it('should sign with the newest private key and publish every public key', () => {
+    const keyStore = KeyStore.fromDirectory(directory);
+    const { keys } = keyStore.getJwks();
+
+    expect(keyStore.getSigningKey().kid).toBe('2024-07-01');
+    expect(keys.map(key => [key.kid, key.alg, key.use, key.kty])).toEqual([
+      ['2024-01-01', 'RS256', 'sig', 'RSA'],
+      ['2024-07-01', 'RS256', 'sig', 'RSA']
+    ]);
+    keys.forEach(key => expect(key).not.toHaveProperty('d'));
+  });
+
+  it('should reject an active key ID without a private key', () => {
+    expect(() => KeyStore.fromDirectory(directory, '2024-01-01')).toThrow('has no private key');
+  });
+
+  it('should reject weak keys and a missing directory', () => {
+    const weakDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-keys-'));
+    const weak = crypto.generateKeyPairSync('rsa', { modulusLength: 1024 }).privateKey;
+    fs.writeFileSync(path.join(weakDirectory, 'weak.pem'), weak.export({ type: 'pkcs8', format: 'pem' }));
+
+    try {
+      expect(() => KeyStore.fromDirectory(weakDirectory)).toThrow('at least 2048 bits');
+      expect(() => KeyStore.fromDirectory(path.join(directory, 'missing'))).toThrow('does not exist');
+    } finally {
+      fs.rmSync(weakDirectory, { recursive: true, force: true });
+    }
+  });
+
+  it('should issue access tokens with a kid that verify against the published key', () => {
+    const token = JWTUtil.generateAccessToken(payload);
+    const { header } = jwt.decode(token, { complete: true })!;
+    const jwk = JWTUtil.getJwks().keys.find(key => key.kid === header.kid)!;
+
+    expect(header).toMatchObject({ alg: 'RS256', kid: '2024-07-01' });
+    expect(JWTUtil.verifyAccessToken(token).sub).toBe('user-1');
+    expect(jwt.verify(token, crypto.createPublicKey({ key: jwk, format: 'jwk' }))).toMatchObject({ sub: 'user-1' });
+  });
+
+  it('should keep accepting tokens signed with a retired key', () => {
+    const token = jwt.sign(payload, previousKey, { algorithm: 'RS256', keyid: '2024-01-01', expiresIn: '15m' });
+
+    expect(JWTUtil.verifyAccessToken(token).sub).toBe('user-1');
+  });
+
+  it('should reject unknown kids and HMAC tokens', () => {
+    const unknownKid = jwt.sign(payload, rsaKey(), { algorithm: 'RS256', keyid: 'unknown' });
+    const hmac = jwt.sign(payload, 'test-secret', { keyid: '2024-07-01' });
+
+    expect(() => JWTUtil.verifyAccessToken(unknownKid)).toThrow(expect.objectContaining({ code: ErrorCode.AUTH_TOKEN_INVALID }));
+    expect(() => JWTUtil.verifyAccessToken(hmac)).toThrow(expect.objectContaining({ code: ErrorCode.AUTH_TOKEN_INVALID }));
+  });
+
+  it('should sign with ES256 when the active key is a P-256 key', () => {
+    const key = ecKey();
+    JWTUtil.setKeyStore(new KeyStore([{ kid: 'ec-1', alg: 'ES256', publicKey: crypto.createPublicKey(key), privateKey: key }]));
+
+    const token = JWTUtil.generateAccessToken(payload);
+
+    expect(jwt.decode(token, { complete: true })!.header).toMatchObject({ alg: 'ES256', kid: 'ec-1' });
+    expect(JWTUtil.verifyAccessToken(token).sub).toBe('user-1');
+  });
+
+  it('should keep refresh tokens on the HMAC secret', () => {
+    const token = JWTUtil.generateRefreshToken('user-1', 'token-1');
+
+    expect(jwt.decode(token, { complete: true })!.header.alg).toBe('HS256');
+    expect(() => JWTUtil.verifyAccessToken(token)).toThrow(expect.objectContaining({ code: ErrorCode.AUTH_TOKEN_INVALID }));
+  });
+});
@@ -0,0 +1,65 @@
+import { PermissionUtil } from '../../../src/utils/permission.util';
+
+describe('PermissionUtil', () => {
+  describe('specificity', () => {
+    it('should rank exact over resource, action and global wildcards', () => {
+      expect(PermissionUtil.specificity('workorder:delete', 'workorder:delete')).toBe(3);
+      expect(PermissionUtil.specificity('workorder:*', 'workorder:delete')).toBe(2);
+      expect(PermissionUtil.specificity('*:delete', 'workorder:delete')).toBe(1);
+      expect(PermissionUtil.specificity('*:*', 'workorder:delete')).toBe(0);
+    });
+
+    it('should not match other resources or actions', () => {
+      expect(PermissionUtil.specificity('material:*', 'workorder:delete')).toBe(-1);
+      expect(PermissionUtil.specificity('*:read', 'workorder:delete')).toBe(-1);
+      expect(PermissionUtil.specificity('workorder', 'workorder:delete')).toBe(-1);
+    });
+  });
+
+  describe('evaluate', () => {
+    it('should grant everything a wildcard allows except what is denied', () => {
+      const allowed = ['workorder:*'];
+      const denied = ['workorder:delete'];
+
+      expect(PermissionUtil.evaluate(allowed, denied, 'workorder:update'))
+        .toEqual({ granted: true, matched: 'workorder:*', effect: 'allow' });
+      expect(PermissionUtil.evaluate(allowed, denied, 'workorder:delete'))
+        .toEqual({ granted: false, matched: 'workorder:delete', effect: 'deny' });
+    });
+
+    it('should let a wildcard deny override a specific allow', () => {
+      expect(PermissionUtil.evaluate(['workorder:delete'], ['*:delete'], 'workorder:delete'))
+        .toEqual({ granted: false, matched: '*:delete', effect: 'deny' });
+      expect(PermissionUtil.isGranted(['*:*'], ['*:*'], 'workorder:read')).toBe(false);
+    });
+
+    it('should report the most specific match whatever the order', () => {
+      expect(PermissionUtil.evaluate(['*:*', 'workorder:*', 'workorder:read'], [], 'workorder:read').matched)
+        .toBe('workorder:read');
+      expect(PermissionUtil.evaluate([], ['*:*', 'workorder:*'], 'workorder:read').matched)
+        .toBe('workorder:*');
+    });
+
+    it('should refuse permissions nothing matches', () => {
+      expect(PermissionUtil.evaluate(['material:read'], [], 'workorder:read')).toEqual({ granted: false });
+    });
+  });
+
+  describe('forUnits', () => {
+    it('should combine the permissions of a unit and its ancestors only', () => {
+      const scoped = PermissionUtil.toScopedPermissionMap([
+        { orgUnitId: 'site-1', permissions: ['report:read'] },
+        { orgUnitId: 'area-1', permissions: ['workorder:*'], deniedPermissions: ['workorder:delete'] },
+        { orgUnitId: 'area-2', permissions: ['quality:approve'] },
+        { orgUnitId: 'line-9', permissions: [] }
+      ]);
+
+      expect(Object.keys(scoped)).toEqual(['site-1', 'area-1', 'area-2']);
+      expect(PermissionUtil.forUnits(scoped, ['line-3', 'area-1', 'site-1'])).toEqual({
+        permissions: ['workorder:*', 'report:read'],
+        deniedPermissions: ['workorder:delete'],
+        conditionalPermissions: []
+      });
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { TOTPUtil } from '../../../src/utils/totp.util';
+
+describe('TOTPUtil', () => {
+  // RFC 6238 Appendix B shared secret "12345678901234567890" in base32
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  describe('generateCode', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1234567890, '005924'],
+      [2000000000, '279037']
+    ])('should match the RFC 6238 test vector at T=%i', (seconds, expected) => {
+      const step = TOTPUtil.getStep(seconds * 1000);
+
+      expect(TOTPUtil.generateCode(rfcSecret, step)).toBe(expected);
+    });
+  });
+
+  describe('verifyCode', () => {
+    const now = 1234567890 * 1000;
+
+    it('should return the matched step for a valid code', () => {
+      expect(TOTPUtil.verifyCode(rfcSecret, '005924', 1, now)).toBe(TOTPUtil.getStep(now));
+    });
+
+    it('should accept codes from an adjacent step within the window', () => {
+      const previous = TOTPUtil.generateCode(rfcSecret, TOTPUtil.getStep(now) - 1);
+
+      expect(TOTPUtil.verifyCode(rfcSecret, previous, 1, now)).toBe(TOTPUtil.getStep(now) - 1);
+    });
+
+    it('should reject codes outside the window or malformed input', () => {
+      const old = TOTPUtil.generateCode(rfcSecret, TOTPUtil.getStep(now) - 5);
+
+      expect(TOTPUtil.verifyCode(rfcSecret, old, 1, now)).toBeNull();
+      expect(TOTPUtil.verifyCode(rfcSecret, 'abc123', 1, now)).toBeNull();
+      expect(TOTPUtil.verifyCode(rfcSecret, '12345', 1, now)).toBeNull();
+    });
+  });
+
+  describe('secrets', () => {
+    it('should generate base32 secrets that round-trip through encryption', () => {
+      const secret = TOTPUtil.generateSecret();
+      const encrypted = TOTPUtil.encryptSecret(secret);
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(encrypted).not.toContain(secret);
+      expect(TOTPUtil.decryptSecret(encrypted)).toBe(secret);
+    });
+
+    it('should build an otpauth URI for authenticator apps', () => {
+      const uri = TOTPUtil.buildOtpAuthUri(rfcSecret, 'user@example.com', 'MES');
+
+      expect(uri).toMatch(/^otpauth:\/\/totp\/MES%3Auser%40example.com\?/);
+      expect(uri).toContain(`secret=${rfcSecret}`);
+      expect(uri).toContain('issuer=MES');
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('should generate the requested number of unique codes', () => {
+      const codes = TOTPUtil.generateRecoveryCodes(10);
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+    });
+
+    it('should hash codes independent of formatting', () => {
+      expect(TOTPUtil.hashRecoveryCode('ABCDE-12345')).toBe(TOTPUtil.hashRecoveryCode('abcde12345'));
+    });
+  });
+});